@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { FiArrowLeft } from "react-icons/fi";
+import { CheckCircle2, Loader2, RotateCcw, Square, Upload, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+import { AppSidebar } from "@/components/app-sidebar";
+import { useAuth } from "@/components/supabase-auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChapterImportJob,
+  ImportChapterStatus,
+  cancelImportJob,
+  createImportedChapters,
+  getImportJob,
+  getLocalImportProgress,
+  isImportJobStale,
+  isImportRunningHere,
+  runChapterImport,
+} from "@/lib/chapter-import";
+import { supabase } from "@/lib/supabase";
+
+// How often the page re-reads the job while it runs
+const POLL_INTERVAL = 2000;
+
+const CHAPTER_STATUS_LABELS: Record<ImportChapterStatus, string> = {
+  pending: "Waiting",
+  uploading: "Uploading",
+  uploaded: "Uploaded, not created",
+  done: "Created",
+  failed: "Failed",
+};
+
+export default function ChapterImportStatusPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user, isLoading: authLoading, isAdmin } = useAuth();
+  const jobId = params?.id as string;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [job, setJob] = useState<ChapterImportJob | null>(null);
+  const [contentTitle, setContentTitle] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Check if user is admin
+  useEffect(() => {
+    if (!authLoading && (!user || !isAdmin)) {
+      router.push("/");
+      toast.error("You don't have permission to access this page");
+    }
+  }, [user, isAdmin, authLoading, router]);
+
+  const isRunning = job?.status === "running" && !isImportJobStale(job);
+
+  // Follow the job; the tab running it writes its progress every few seconds
+  useEffect(() => {
+    if (authLoading || !isAdmin || !jobId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      // A job running in this tab is read from memory, ahead of the database
+      const local = getLocalImportProgress(jobId);
+      if (local) {
+        setJob(local);
+        setLoading(false);
+        return;
+      }
+      try {
+        const data = await getImportJob(jobId);
+        if (cancelled) return;
+        if (!data) {
+          toast.error("Import job not found");
+          router.push("/admin/episodes");
+          return;
+        }
+        setJob(data);
+      } catch (error) {
+        console.error("Error loading import job:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    const interval = isRunning ? setInterval(load, POLL_INTERVAL) : undefined;
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [jobId, authLoading, isAdmin, isRunning, router]);
+
+  useEffect(() => {
+    if (!job?.content_id) return;
+    supabase
+      .from("content")
+      .select("title")
+      .eq("id", job.content_id)
+      .maybeSingle()
+      .then(({ data }) => setContentTitle(data?.title || ""));
+  }, [job?.content_id]);
+
+  const handleCancel = async () => {
+    if (!job) return;
+    const running = isImportRunningHere(job.id);
+    setJob(await cancelImportJob(job));
+    toast.info(running ? "Stopping after the current chapter" : "Import cancelled");
+  };
+
+  // Resuming needs the archive again, pages already uploaded are skipped
+  const handleResume = (file: File | undefined) => {
+    if (!job || !file) return;
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    runChapterImport(job, file, setJob)
+      .then(result => {
+        if (result.status === "completed") toast.success("Import finished");
+      })
+      .catch(error => {
+        console.error("Error resuming import:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to resume the import");
+        setJob(job);
+      });
+    setJob({ ...job, status: "running", updated_at: new Date().toISOString() });
+  };
+
+  const handleCreate = async () => {
+    if (!job) return;
+    setIsCreating(true);
+    try {
+      const result = await createImportedChapters(job);
+      setJob(result);
+      if (result.error) toast.error(result.error);
+      else toast.success("Chapters created");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (authLoading || loading || !job) {
+    return (
+      <div className="flex min-h-screen bg-black text-white">
+        <AppSidebar />
+        <main className="flex-1 overflow-x-hidden pl-[77px] flex items-center justify-center">
+          <div className="text-center">
+            <div className="w-12 h-12 border-t-2 border-b-2 border-white rounded-full animate-spin mx-auto mb-4"></div>
+            <p>Loading...</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const stale = isImportJobStale(job);
+  const totalPages = job.chapters.reduce((sum, chapter) => sum + chapter.page_count, 0);
+  const uploadedPages = job.chapters.reduce(
+    (sum, chapter) => sum + (chapter.status === "uploaded" || chapter.status === "done" ? chapter.page_count : chapter.uploaded_pages),
+    0
+  );
+  const createdCount = job.chapters.filter(chapter => chapter.status === "done").length;
+  const canResume = !isRunning && job.status !== "completed"
+    && job.chapters.some(chapter => chapter.status === "pending" || chapter.status === "uploading" || chapter.status === "failed");
+  const canCreate = !isRunning && job.chapters.some(chapter => chapter.status === "uploaded");
+
+  const statusBadge = stale ? (
+    <Badge variant="destructive">Interrupted</Badge>
+  ) : job.status === "completed" ? (
+    <Badge className="bg-green-600 hover:bg-green-600">Completed</Badge>
+  ) : job.status === "failed" ? (
+    <Badge variant="destructive">Failed</Badge>
+  ) : job.status === "cancelled" ? (
+    <Badge variant="outline">Cancelled</Badge>
+  ) : (
+    <Badge variant="secondary" className="gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Running</Badge>
+  );
+
+  return (
+    <div className="flex min-h-screen bg-black text-white">
+      <AppSidebar />
+      <main className="flex-1 overflow-x-hidden pl-[77px] p-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div>
+            <Link
+              href="/admin/episodes"
+              className="inline-flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-4"
+            >
+              <FiArrowLeft size={16} />
+              Back to chapters
+            </Link>
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <h1 className="text-2xl font-bold truncate">Chapter import · {contentTitle || "…"}</h1>
+                <p className="text-sm text-gray-400 truncate">
+                  {job.source_name} · {job.language === "ge" ? "Georgian" : "English"} · started{" "}
+                  {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              {statusBadge}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>{uploadedPages}/{totalPages} pages uploaded</span>
+              <span>{createdCount}/{job.chapters.length} chapters created</span>
+            </div>
+            <Progress value={totalPages ? (uploadedPages / totalPages) * 100 : 0} className="h-2" />
+            {job.error && <p className="text-sm text-destructive">{job.error}</p>}
+            {stale && (
+              <p className="text-sm text-yellow-400">
+                The tab running this import stopped responding. Pick the same archive to resume; uploaded pages are kept.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {isRunning && (
+              <Button variant="outline" onClick={handleCancel}>
+                <Square className="h-4 w-4 mr-2" /> Cancel
+              </Button>
+            )}
+            {canResume && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".zip,.cbz,application/zip"
+                  className="hidden"
+                  onChange={(e) => handleResume(e.target.files?.[0])}
+                />
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <RotateCcw className="h-4 w-4 mr-2" /> Resume with archive
+                </Button>
+              </>
+            )}
+            {canCreate && (
+              <Button onClick={handleCreate} disabled={isCreating}>
+                {isCreating ? (
+                  <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Creating...</>
+                ) : (
+                  <><Upload className="h-4 w-4 mr-2" /> Create uploaded chapters</>
+                )}
+              </Button>
+            )}
+          </div>
+
+          <div className="border border-gray-800 rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">#</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead className="w-40">Pages</TableHead>
+                  <TableHead className="w-44">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {job.chapters.map(chapter => {
+                  const uploaded = chapter.status === "uploaded" || chapter.status === "done"
+                    ? chapter.page_count
+                    : chapter.uploaded_pages;
+                  return (
+                    <TableRow key={chapter.folder}>
+                      <TableCell className="font-medium">{chapter.number}</TableCell>
+                      <TableCell>
+                        <p className="truncate">{chapter.title}</p>
+                        <p className="text-xs text-gray-500 truncate">{chapter.folder || "(archive root)"}</p>
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <span className="text-xs text-gray-400">{uploaded}/{chapter.page_count}</span>
+                          <Progress value={chapter.page_count ? (uploaded / chapter.page_count) * 100 : 0} className="h-1" />
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="flex items-center gap-1 text-sm">
+                          {chapter.status === "done" && <CheckCircle2 className="h-4 w-4 text-green-500" />}
+                          {chapter.status === "failed" && <XCircle className="h-4 w-4 text-destructive" />}
+                          {chapter.status === "uploading" && isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+                          {CHAPTER_STATUS_LABELS[chapter.status]}
+                        </span>
+                        {chapter.error && <p className="text-xs text-destructive">{chapter.error}</p>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,64 +1,301 @@
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase'; // Your Supabase client
-
-// Define the expected structure for a single chapter from the request body
-interface ChapterData {
-  number: number;
-  title: string;
-  pages: string[]; // Array of image URLs
-  contentId: string;
-  releaseDate?: string;
-  // Add any other fields that MultipleChapterForm sends and your DB expects
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { getAuthUserId } from '@/app/api/friends/utils';
+import { updateContentCounts } from '@/lib/content';
+import { notifyNewChapters } from '@/lib/notifications';
+
+// One chapter of the request. Numbers may be decimal (10.5) for split chapters.
+const chapterSchema = z.object({
+  contentId: z.string().uuid('Invalid content ID'),
+  number: z.number().positive('Chapter number must be positive'),
+  title: z.string().trim().min(1, 'Title is required'),
+  pages: z.array(z.string().url('Invalid page URL')).min(1, 'At least one page is required'),
+  language: z.enum(['ge', 'en']).default('ge'),
+  // A future release date schedules the chapter; earlyAccessAt opens it to VIP members before that
+  releaseDate: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid release date').optional(),
+  earlyAccessAt: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid early access date').optional(),
+  thumbnail: z.string().url('Invalid thumbnail URL').optional(),
+  description: z.string().optional(),
+});
+
+// Older clients post the bare array of chapters
+const requestSchema = z.union([
+  z.array(z.unknown()),
+  z.object({
+    chapters: z.array(z.unknown()),
+    // What to do with a chapter whose content, number and language already exist
+    onConflict: z.enum(['skip', 'update', 'error']).default('skip'),
+    dryRun: z.boolean().default(false),
+  }),
+]);
+
+const MAX_CHAPTERS = 500;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+type ChapterInput = z.infer<typeof chapterSchema>;
+
+type RowStatus = 'created' | 'updated' | 'skipped' | 'error';
+
+interface RowResult {
+  index: number;
+  contentId?: string;
+  number?: number;
+  language?: 'ge' | 'en';
+  status: RowStatus;
+  id?: string;
+  // Created with a future release date, published later by the worker
+  scheduled?: boolean;
+  error?: string;
 }
 
+async function authorizeAdmin(request: Request): Promise<{ error: string; status: number } | null> {
+  // Trusted admin tools send the service role key, like the single-chapter API
+  const serviceRoleHeader = request.headers.get('x-supabase-service-role');
+  if (serviceRoleHeader) {
+    return serviceRoleHeader === process.env.SUPABASE_SERVICE_ROLE_KEY
+      ? null
+      : { error: 'Invalid service role key', status: 403 };
+  }
+
+  const userId = await getAuthUserId(request);
+  if (!userId) return { error: 'Unauthorized', status: 401 };
+
+  const { data: profile, error } = await supabaseAdmin.from('profiles').select('role').eq('id', userId).maybeSingle();
+  if (error) {
+    console.error('Bulk chapters: failed to verify user role', error);
+    return { error: 'Failed to verify user role', status: 500 };
+  }
+  return profile?.role === 'admin' ? null : { error: 'Forbidden - Admin access required', status: 403 };
+}
+
+function chapterKey(chapter: Pick<ChapterInput, 'contentId' | 'number' | 'language'>): string {
+  return `${chapter.contentId}:${chapter.language}:${chapter.number}`;
+}
+
+// Existing chapters of the given titles with any of the given numbers, read page by page
+async function loadExistingChapters(contentIds: string[], numbers: number[]) {
+  const rows: { id: string; content_id: string; number: number; language: ChapterInput['language'] | null }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('chapters')
+      .select('id, content_id, number, language')
+      .in('content_id', contentIds)
+      .in('number', numbers)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function toRow(chapter: ChapterInput) {
+  return {
+    content_id: chapter.contentId,
+    number: chapter.number,
+    title: chapter.title,
+    pages: chapter.pages,
+    language: chapter.language,
+    // New chapters without a date are released now, so they don't show up as "Unknown"
+    release_date: chapter.releaseDate ?? new Date().toISOString(),
+    ...(chapter.thumbnail !== undefined && { thumbnail: chapter.thumbnail }),
+    ...(chapter.description !== undefined && { description: chapter.description }),
+    ...(chapter.earlyAccessAt !== undefined && { early_access_at: chapter.earlyAccessAt }),
+  };
+}
+
+/**
+ * POST /api/chapters/bulk – create many chapters at once (admin only).
+ *
+ * Body: an array of chapters, or `{ chapters, onConflict, dryRun }`. Every row
+ * is validated and reported on its own in `results`; a chapter that already
+ * exists for its title, number and language is skipped by default, so sending
+ * the same batch again creates nothing twice. With `dryRun` nothing is written
+ * and `results` says what would happen. Chapters with a future `releaseDate`
+ * are created unpublished (`scheduled` in their result) and announced by the
+ * publish worker when their date comes.
+ */
 export async function POST(request: Request) {
+  const authError = await authorizeAdmin(request);
+  if (authError) {
+    return NextResponse.json({ error: authError.error }, { status: authError.status });
+  }
+
+  let body: unknown;
   try {
-    const chaptersToCreate: ChapterData[] = await request.json();
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
 
-    if (!Array.isArray(chaptersToCreate) || chaptersToCreate.length === 0) {
-      return NextResponse.json({ error: 'No chapters provided or invalid format' }, { status: 400 });
-    }
+  const parsedRequest = requestSchema.safeParse(body);
+  if (!parsedRequest.success) {
+    return NextResponse.json({ error: 'Invalid request', details: parsedRequest.error.flatten() }, { status: 400 });
+  }
+  const { chapters: rawChapters, onConflict, dryRun } = Array.isArray(parsedRequest.data)
+    ? { chapters: parsedRequest.data, onConflict: 'skip' as const, dryRun: false }
+    : parsedRequest.data;
+
+  if (rawChapters.length === 0) {
+    return NextResponse.json({ error: 'No chapters provided' }, { status: 400 });
+  }
+  if (rawChapters.length > MAX_CHAPTERS) {
+    return NextResponse.json({ error: `At most ${MAX_CHAPTERS} chapters per request` }, { status: 400 });
+  }
 
-    // Validate each chapter object (basic validation)
-    for (const chapter of chaptersToCreate) {
-      if (!chapter.contentId || typeof chapter.number !== 'number' || !chapter.title || !Array.isArray(chapter.pages)) {
-        return NextResponse.json({ error: 'Invalid chapter data. Ensure contentId, number, title, and pages are correct.' }, { status: 400 });
+  try {
+    const results: RowResult[] = new Array(rawChapters.length);
+    const valid: { index: number; chapter: ChapterInput }[] = [];
+    const seen = new Map<string, number>();
+
+    rawChapters.forEach((raw, index) => {
+      const parsed = chapterSchema.safeParse(raw);
+      if (!parsed.success) {
+        results[index] = {
+          index,
+          status: 'error',
+          error: parsed.error.issues.map(issue => `${issue.path.join('.') || 'chapter'}: ${issue.message}`).join('; '),
+        };
+        return;
       }
-    }
+      const chapter = parsed.data;
+      const key = chapterKey(chapter);
+      if (seen.has(key)) {
+        results[index] = {
+          index,
+          contentId: chapter.contentId,
+          number: chapter.number,
+          language: chapter.language,
+          status: 'error',
+          error: `Same chapter as row ${seen.get(key)}`,
+        };
+        return;
+      }
+      seen.set(key, index);
+      valid.push({ index, chapter });
+    });
+
+    // Titles the rows point to, and the chapters they already have
+    const contentIds = Array.from(new Set(valid.map(({ chapter }) => chapter.contentId)));
+    const numbers = Array.from(new Set(valid.map(({ chapter }) => chapter.number)));
+    const [contentResult, existingRows] = contentIds.length === 0
+      ? [{ data: [], error: null }, []]
+      : await Promise.all([
+          supabaseAdmin.from('content').select('id, type').in('id', contentIds),
+          loadExistingChapters(contentIds, numbers),
+        ]);
+    if (contentResult.error) throw contentResult.error;
+
+    const contentTypes = new Map<string, string>((contentResult.data || []).map(row => [row.id, row.type]));
+    const existing = new Map<string, string>(
+      existingRows.map(row => [
+        chapterKey({ contentId: row.content_id, number: Number(row.number), language: row.language || 'ge' }),
+        row.id,
+      ])
+    );
 
-    const chaptersForDb = chaptersToCreate.map(chapter => ({
-      content_id: chapter.contentId,
-      number: chapter.number,
-      title: chapter.title,
-      pages: chapter.pages, // Supabase can handle array of strings directly if column is text[] or jsonb
-      // Add other default fields if necessary, e.g., release_date: new Date().toISOString()
-      // Default the release_date to the current timestamp so newly uploaded chapters are not marked as "Unknown"
-      release_date: chapter.releaseDate ?? new Date().toISOString(),
-      // Ensure your table columns match these field names (e.g., content_id not contentId)
-    }));
-
-    // Perform the bulk insert operation
-    const { data, error } = await supabase
-      .from('chapters') // Make sure 'chapters' is your actual table name
-      .insert(chaptersForDb)
-      .select(); // Optionally select the inserted data if needed
-
-    if (error) {
-      console.error('Supabase error creating chapters:', error);
-      return NextResponse.json({ error: `Database error: ${error.message}` }, { status: 500 });
+    const toInsert: { index: number; chapter: ChapterInput }[] = [];
+    const toUpdate: { index: number; chapter: ChapterInput; id: string }[] = [];
+
+    valid.forEach(({ index, chapter }) => {
+      const base = { index, contentId: chapter.contentId, number: chapter.number, language: chapter.language };
+      if (!contentTypes.has(chapter.contentId)) {
+        results[index] = { ...base, status: 'error', error: 'Content not found' };
+        return;
+      }
+      const existingId = existing.get(chapterKey(chapter));
+      if (!existingId) {
+        toInsert.push({ index, chapter });
+        results[index] = { ...base, status: 'created' };
+      } else if (onConflict === 'update') {
+        toUpdate.push({ index, chapter, id: existingId });
+        results[index] = { ...base, status: 'updated', id: existingId };
+      } else if (onConflict === 'skip') {
+        results[index] = { ...base, status: 'skipped', id: existingId };
+      } else {
+        results[index] = { ...base, status: 'error', id: existingId, error: 'Chapter already exists' };
+      }
+    });
+
+    if (!dryRun) {
+      if (toInsert.length > 0) {
+        const { data, error } = await supabaseAdmin
+          .from('chapters')
+          .insert(toInsert.map(({ chapter }) => toRow(chapter)))
+          .select('id, published_at');
+
+        if (!error) {
+          (data || []).forEach((row, i) => {
+            results[toInsert[i].index].id = row.id;
+            if (!row.published_at) results[toInsert[i].index].scheduled = true;
+          });
+        } else {
+          // One bad row fails the whole insert; retry row by row to tell which
+          console.warn('Bulk chapters: batch insert failed, inserting one by one', error);
+          for (const { index, chapter } of toInsert) {
+            const single = await supabaseAdmin.from('chapters').insert(toRow(chapter)).select('id, published_at').single();
+            if (single.error) {
+              results[index] = {
+                ...results[index],
+                status: single.error.code === '23505' && onConflict === 'skip' ? 'skipped' : 'error',
+                error: single.error.code === '23505' ? 'Chapter already exists' : single.error.message,
+              };
+            } else {
+              results[index].id = single.data.id;
+              if (!single.data.published_at) results[index].scheduled = true;
+            }
+          }
+        }
+      }
+
+      for (const { index, chapter, id } of toUpdate) {
+        const { release_date, ...row } = toRow(chapter);
+        const { error } = await supabaseAdmin
+          .from('chapters')
+          .update({ ...row, ...(chapter.releaseDate && { release_date }) })
+          .eq('id', id);
+        if (error) results[index] = { ...results[index], status: 'error', error: error.message };
+      }
+
+      // Counts and one notification per title, for the chapters that are actually new and out
+      const createdByContent = new Map<string, number[]>();
+      results.forEach(result => {
+        if (result.status !== 'created' || result.scheduled || !result.contentId || result.number === undefined) return;
+        createdByContent.set(result.contentId, [...(createdByContent.get(result.contentId) || []), result.number]);
+      });
+      const touched = new Set([...createdByContent.keys(), ...toUpdate.map(({ chapter }) => chapter.contentId)]);
+      await Promise.all(
+        Array.from(touched, contentId => {
+          const type = contentTypes.get(contentId);
+          return type === 'manga' || type === 'comics' ? updateContentCounts(contentId, type, supabaseAdmin) : null;
+        })
+      );
+      await Promise.all(
+        Array.from(createdByContent, ([contentId, numbers]) => notifyNewChapters(contentId, numbers))
+      );
     }
 
-    return NextResponse.json({ 
-      message: `${data ? data.length : 0} chapters created successfully`,
-      createdCount: data ? data.length : 0,
-      // chapters: data // Optionally return the created chapters
-    }, { status: 201 });
+    const count = (status: RowStatus) => results.filter(result => result.status === status).length;
+    const summary = {
+      dryRun,
+      created: count('created'),
+      updated: count('updated'),
+      skipped: count('skipped'),
+      failed: count('error'),
+    };
+    const message = dryRun
+      ? `Dry run: ${summary.created} to create, ${summary.updated} to update, ${summary.skipped} to skip, ${summary.failed} invalid`
+      : `${summary.created} created, ${summary.updated} updated, ${summary.skipped} skipped, ${summary.failed} failed`;
 
+    return NextResponse.json(
+      { message, ...summary, createdCount: summary.created, results },
+      { status: !dryRun && summary.created > 0 ? 201 : summary.failed === results.length ? 400 : 200 }
+    );
   } catch (error: any) {
     console.error('API Error /api/chapters/bulk:', error);
-    if (error instanceof SyntaxError) {
-        return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
-    }
-    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { publishDueChapters } from '@/lib/chapter-publisher'
+
+// Called by a scheduler (e.g. Vercel Cron, every few minutes) with `Authorization: Bearer $CRON_SECRET`
+function isAuthorized(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+async function runPublisher(request: NextRequest) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const result = await publishDueChapters()
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('chapter publisher error', error)
+    return NextResponse.json({ error: error.message || 'Publishing failed' }, { status: 500 })
+  }
+}
+
+// GET /api/chapters/publish – publish scheduled chapters whose release date has passed
+export const GET = runPublisher
+export const POST = runPublisher
+
+export const dynamic = 'force-dynamic'
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
 import { cookies } from "next/headers";
 import { z } from "zod";
+import { notifyNewChapters } from "@/lib/notifications";
+import { publishDueChapters } from "@/lib/chapter-publisher";
+import { supabaseAdmin } from "@/lib/supabase/admin";
 
 // Define schema for chapter validation
 const chapterSchema = z.object({
@@ -114,7 +117,13 @@ export async function GET(request: NextRequest) {
       // Note: Using the content_id field (snake_case) as per database schema
       console.log("Fetching chapters for contentId:", contentId, "contentType:", contentType);
       
-      let query = supabase
+      // Scheduled chapters are hidden by RLS; admin tools sending the service role key see them all
+      const serviceRoleHeader = request.headers.get('x-supabase-service-role');
+      const client = serviceRoleHeader && serviceRoleHeader === process.env.SUPABASE_SERVICE_ROLE_KEY
+        ? supabaseAdmin
+        : supabase;
+
+      let query = client
         .from("chapters")
         .select("*")
         .eq("content_id", contentId);
@@ -187,10 +196,14 @@ export async function POST(request: NextRequest) {
         release_date: chapterData.release_date || null,
         thumbnail: chapterData.thumbnail || null,
         description: chapterData.description || null,
+        language: chapterData.language || 'ge',
+        early_access_at: chapterData.early_access_at || null,
         // user_id: authResult.user?.id, // Example if you want to link chapter to user
     };
     const { data, error } = await supabase.from('chapters').insert([newChapter]).select().single();
     if (error) throw error;
+    // Chapters dated in the future are announced by the publish worker once they're out
+    if (data.published_at) await notifyNewChapters(data.content_id, [data.number]);
     return NextResponse.json(data, { status: 201 });
   } catch (e: any) {
     console.error('API Chapters POST: Error processing request:', e);
@@ -219,15 +232,40 @@ export async function PUT(request: NextRequest) {
     if (chapterDataToUpdate.description !== undefined) updatePayload.description = chapterDataToUpdate.description;
     updatePayload.release_date = chapterDataToUpdate.release_date;
     updatePayload.thumbnail = chapterDataToUpdate.thumbnail;
+    updatePayload.early_access_at = chapterDataToUpdate.early_access_at;
     Object.keys(updatePayload).forEach(key => updatePayload[key] === undefined && delete updatePayload[key]);
 
     if (Object.keys(updatePayload).length === 0) {
       return NextResponse.json({ error: 'No valid fields for update.' }, { status: 400 });
     }
 
+    const clearsReleaseDate = updatePayload.release_date !== undefined && !updatePayload.release_date;
+    const movesToFuture = !!updatePayload.release_date && new Date(updatePayload.release_date) > new Date();
+    if (clearsReleaseDate || movesToFuture) {
+      const { data: current, error: currentError } = await supabase
+        .from('chapters')
+        .select('published_at')
+        .eq('id', chapterId)
+        .maybeSingle();
+      if (currentError) throw currentError;
+      // Readers have the chapter and were notified about it, so it can't be scheduled again
+      if (movesToFuture && current?.published_at) {
+        return NextResponse.json({ error: 'A published chapter cannot be moved to a future release date.' }, { status: 409 });
+      }
+      // The publish worker skips chapters without a date, so clearing a scheduled one releases it now
+      if (clearsReleaseDate) updatePayload.release_date = current && !current.published_at ? new Date().toISOString() : null;
+    }
+
     const { data, error } = await supabase.from('chapters').update(updatePayload).eq('id', chapterId).select().single();
     if (error) throw error;
     if (!data) return NextResponse.json({ error: 'Chapter not found or update failed.' }, { status: 404 });
+    // A scheduled chapter moved to now or earlier goes out right away instead of on the next worker run
+    if (!data.published_at && data.release_date && new Date(data.release_date) <= new Date()) {
+      await publishDueChapters(data.content_id);
+      const { data: published, error: readError } = await supabase.from('chapters').select().eq('id', chapterId).single();
+      if (readError) throw readError;
+      return NextResponse.json(published);
+    }
     return NextResponse.json(data);
   } catch (e: any) {
     console.error('API Chapters PUT: Error processing request:', e);
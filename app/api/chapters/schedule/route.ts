@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { ChapterLanguage, ReleaseScheduleEntry } from '@/lib/chapter-schedule';
+
+// Published chapters from this far back still show on the calendar
+const RECENT_DAYS = 60;
+const MAX_ENTRIES = 100;
+
+const contentIdSchema = z.string().uuid('Invalid content ID');
+
+interface ScheduleRow {
+  id: string;
+  number: number | string;
+  title: string;
+  language: ChapterLanguage | null;
+  release_date: string | null;
+  published_at: string | null;
+  early_access_at: string | null;
+}
+
+function toEntry(row: ScheduleRow): ReleaseScheduleEntry {
+  return {
+    id: row.id,
+    number: Number(row.number),
+    title: row.title,
+    language: row.language || 'ge',
+    // Upcoming rows have a release date and recent ones a publish date
+    release_date: (row.release_date || row.published_at) as string,
+    early_access_at: row.early_access_at,
+    published: !!row.published_at,
+  };
+}
+
+/**
+ * GET /api/chapters/schedule?contentId=… – release calendar of a series.
+ *
+ * Unpublished chapters are hidden from readers by RLS, so this reads with the
+ * admin client and only returns dates, numbers and titles, never pages.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = contentIdSchema.safeParse(request.nextUrl.searchParams.get('contentId'));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid content ID' }, { status: 400 });
+  }
+
+  const columns = 'id, number, title, language, release_date, published_at, early_access_at';
+  const since = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  try {
+    const [upcomingResult, recentResult] = await Promise.all([
+      supabaseAdmin
+        .from('chapters')
+        .select(columns)
+        .eq('content_id', parsed.data)
+        .is('published_at', null)
+        .not('release_date', 'is', null)
+        .order('release_date', { ascending: true })
+        .limit(MAX_ENTRIES),
+      supabaseAdmin
+        .from('chapters')
+        .select(columns)
+        .eq('content_id', parsed.data)
+        .gte('published_at', since)
+        .order('published_at', { ascending: false })
+        .limit(MAX_ENTRIES),
+    ]);
+    if (upcomingResult.error) throw upcomingResult.error;
+    if (recentResult.error) throw recentResult.error;
+
+    return NextResponse.json({
+      upcoming: (upcomingResult.data || []).map(toEntry),
+      recent: (recentResult.data || []).map(toEntry),
+    });
+  } catch (error: any) {
+    console.error('API Error /api/chapters/schedule:', error);
+    return NextResponse.json({ error: error.message || 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
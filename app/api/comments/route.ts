@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/server'
 import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { normalizePageRegion, pageRegionSchema } from '@/lib/page-comments'
 
 function getAdminClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -36,7 +37,10 @@ const commentSchema = z.object({
   contentType: z.enum(['anime', 'manga', 'comics']),
   text: z.string().min(1).max(2000),
   mediaUrl: z.string().optional().nullable(),
-  parentCommentId: z.string().optional().nullable()
+  parentCommentId: z.string().optional().nullable(),
+  // Optional anchor to a page of the chapter and a region of that page
+  pageIndex: z.number().int().min(0).optional().nullable(),
+  pageRegion: pageRegionSchema.optional()
 })
 
 export async function GET(request: Request) {
@@ -150,7 +154,7 @@ export async function POST(request: Request) {
     }
     
     const { contentId, contentType, text } = result.data
-    const { mediaUrl, parentCommentId } = result.data
+    const { mediaUrl, parentCommentId, pageIndex, pageRegion } = result.data
 
     // Insert into database using service-role client to bypass RLS constraints safely
 
@@ -174,6 +178,11 @@ export async function POST(request: Request) {
 
     if (mediaUrl) insertPayload.media_url = mediaUrl;
     if (parentCommentId) insertPayload.parent_comment_id = parentCommentId;
+    // Replies belong to their thread, not to a page
+    if (typeof pageIndex === 'number' && !parentCommentId) {
+      insertPayload.page_index = pageIndex;
+      insertPayload.page_region = normalizePageRegion(pageRegion ?? null);
+    }
 
     const { data: inserted, error: insertError } = await supabaseAdmin
       .from('comments')
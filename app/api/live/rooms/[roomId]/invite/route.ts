@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { inviteToLiveRoom } from '@/lib/live-rooms'
+
+const schema = z.object({
+  inviteeIds: z.array(z.string().uuid()).min(1).max(20),
+})
+
+// POST /api/live/rooms/:roomId/invite – host invites accepted friends into the room
+export async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = schema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 })
+
+  const res = await inviteToLiveRoom(params.roomId, userId, parsed.data.inviteeIds)
+  if (!res.success || !res.data) {
+    const status = res.error === 'Only the host can invite' ? 403 : res.error === 'Room not found' ? 404 : 500
+    return NextResponse.json({ error: res.error }, { status })
+  }
+
+  return NextResponse.json({ success: true, ...res.data })
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { getLiveRoomSummary } from '@/lib/live-rooms'
+
+// GET /api/live/rooms/:roomId/summary – post-session summary for participants
+export async function GET(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const res = await getLiveRoomSummary(params.roomId, userId)
+  if (!res.success) {
+    return NextResponse.json({ error: res.error }, { status: res.error === 'Forbidden' ? 403 : 500 })
+  }
+  if (!res.data) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+  return NextResponse.json({ success: true, summary: res.data })
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { createLiveRoom } from '@/lib/live-rooms'
+
+const schema = z.object({
+  mangaId: z.string().min(1),
+  chapterId: z.string().min(1),
+})
+
+// POST /api/live/rooms – create a live reading room hosted by the current user
+export async function POST(request: Request) {
+  const userId = await getAuthUserId(request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = schema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 })
+
+  const { mangaId, chapterId } = parsed.data
+  const res = await createLiveRoom(userId, mangaId, chapterId)
+  if (!res.success || !res.data) return NextResponse.json({ error: res.error }, { status: 500 })
+
+  return NextResponse.json({ success: true, roomId: res.data.id })
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendNotificationDigests } from '@/lib/email/digest'
+import type { EmailDigestFrequency } from '@/lib/notification-preferences'
+
+const FREQUENCIES: EmailDigestFrequency[] = ['daily', 'weekly']
+
+// Called by a scheduler (e.g. Vercel Cron) with `Authorization: Bearer $CRON_SECRET`
+function isAuthorized(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+async function runDigest(request: NextRequest) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const frequency = (request.nextUrl.searchParams.get('frequency') || 'daily') as EmailDigestFrequency
+  if (!FREQUENCIES.includes(frequency)) {
+    return NextResponse.json({ error: `Unsupported frequency, use one of ${FREQUENCIES.join(', ')}` }, { status: 400 })
+  }
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin
+
+  try {
+    const result = await sendNotificationDigests(frequency, siteUrl)
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('notification digest error', error)
+    return NextResponse.json({ error: error.message || 'Digest failed' }, { status: 500 })
+  }
+}
+
+// GET /api/notifications/digest?frequency=daily|weekly – send pending digests
+export const GET = runDigest
+export const POST = runDigest
+
+export const dynamic = 'force-dynamic'
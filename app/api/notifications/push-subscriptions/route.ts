@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { getAuthUserId } from '@/app/api/friends/utils'
+
+// PushSubscription.toJSON() as sent by the browser
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+})
+
+const subscribeSchema = z.object({
+  subscription: subscriptionSchema,
+  // Set by the service worker when the browser rotated the subscription
+  oldSubscription: subscriptionSchema.optional(),
+})
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+})
+
+// POST /api/notifications/push-subscriptions – store this device's push subscription
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = subscribeSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid subscription', details: parsed.error.format() }, { status: 400 })
+    }
+    const { subscription, oldSubscription } = parsed.data
+    const oldEndpoint = oldSubscription?.endpoint
+
+    const sessionUserId = await getAuthUserId(request as unknown as Request)
+    let userId = sessionUserId
+
+    // The service worker has no session. The old subscription's keys are only known to
+    // the browser and to us, so matching them proves whose subscription is being rotated.
+    if (!userId && oldSubscription) {
+      const { data: previous } = await supabaseAdmin
+        .from('push_subscriptions')
+        .select('user_id, p256dh, auth')
+        .eq('endpoint', oldSubscription.endpoint)
+        .maybeSingle()
+      if (previous && previous.p256dh === oldSubscription.keys.p256dh && previous.auth === oldSubscription.keys.auth) {
+        userId = previous.user_id
+      }
+    }
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    // Without a session the new endpoint may not move away from whoever already has it
+    if (!sessionUserId) {
+      const { data: current } = await supabaseAdmin
+        .from('push_subscriptions')
+        .select('user_id')
+        .eq('endpoint', subscription.endpoint)
+        .maybeSingle()
+      if (current && current.user_id !== userId) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+    }
+
+    if (oldEndpoint && oldEndpoint !== subscription.endpoint) {
+      await supabaseAdmin.from('push_subscriptions').delete().eq('endpoint', oldEndpoint).eq('user_id', userId)
+    }
+
+    // A device signed into another account takes the subscription over
+    const { error } = await supabaseAdmin.from('push_subscriptions').upsert(
+      {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: request.headers.get('user-agent'),
+      },
+      { onConflict: 'endpoint' }
+    )
+    if (error) throw error
+
+    return NextResponse.json({ success: true }, { status: 201 })
+  } catch (error) {
+    console.error('push subscribe error', error)
+    return NextResponse.json({ error: 'Failed to save push subscription' }, { status: 500 })
+  }
+}
+
+// DELETE /api/notifications/push-subscriptions – forget this device
+export async function DELETE(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const parsed = unsubscribeSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', details: parsed.error.format() }, { status: 400 })
+    }
+
+    const { error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', parsed.data.endpoint)
+      .eq('user_id', userId)
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('push unsubscribe error', error)
+    return NextResponse.json({ error: 'Failed to remove push subscription' }, { status: 500 })
+  }
+}
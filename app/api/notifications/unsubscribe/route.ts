@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { verifyUnsubscribeToken } from '@/lib/email/unsubscribe'
+
+function page(title: string, body: string, status = 200) {
+  const html = `<!DOCTYPE html>
+<html lang="ka">
+  <head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" /><title>${title}</title></head>
+  <body style="margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#0a0a0a;color:#e5e5e5;font-family:Arial,Helvetica,sans-serif;">
+    <div style="max-width:420px;padding:24px;text-align:center;">
+      <h1 style="font-size:20px;color:#a78bfa;">${title}</h1>
+      <div style="margin:16px 0;font-size:14px;line-height:1.5;">${body}</div>
+      <a href="/settings" style="color:#a78bfa;font-size:14px;">შეტყობინებების პარამეტრები / Notification settings</a>
+    </div>
+  </body>
+</html>`
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+function getUserId(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || ''
+  return token ? verifyUnsubscribeToken(token) : null
+}
+
+async function unsubscribe(userId: string) {
+  const { error } = await supabaseAdmin
+    .from('profiles')
+    .update({ email_notifications: false, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+
+  if (error) throw error
+}
+
+const invalidLinkPage = () =>
+  page('ბმული არასწორია', 'გამოწერის გაუქმების ბმული არასწორია ან დაზიანებულია. / This unsubscribe link is invalid.', 400)
+
+// GET /api/notifications/unsubscribe?token=… – link in the digest footer. Only asks
+// for confirmation: mail scanners and prefetchers follow links, so GET changes nothing.
+export async function GET(request: NextRequest) {
+  if (!getUserId(request)) return invalidLinkPage()
+
+  const action = `/api/notifications/unsubscribe?token=${encodeURIComponent(request.nextUrl.searchParams.get('token') || '')}`
+  return page(
+    'გამოწერის გაუქმება / Unsubscribe',
+    `ელფოსტით შეტყობინებების მიღება შეწყდეს? / Stop receiving notification emails?
+      <form method="post" action="${action}" style="margin:20px 0 4px;">
+        <input type="hidden" name="confirm" value="1" />
+        <button type="submit" style="background:#7c3aed;color:#fff;border:0;border-radius:6px;padding:10px 18px;font-size:14px;cursor:pointer;">გამოწერის გაუქმება / Unsubscribe</button>
+      </form>`
+  )
+}
+
+/**
+ * POST – the confirmation form above (answered with a page), or one-click
+ * unsubscribe from mail clients (List-Unsubscribe-Post, answered with JSON).
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null)
+  const fromPage = form?.get('confirm') === '1'
+  const userId = getUserId(request)
+
+  try {
+    if (!userId) return fromPage ? invalidLinkPage() : NextResponse.json({ error: 'Invalid token' }, { status: 400 })
+    await unsubscribe(userId)
+    if (!fromPage) return NextResponse.json({ success: true })
+    return page(
+      'გამოწერა გაუქმებულია',
+      'ელფოსტით შეტყობინებებს აღარ მიიღებთ. პარამეტრებში ნებისმიერ დროს შეგიძლიათ ხელახლა ჩართოთ. / You will no longer receive notification emails.'
+    )
+  } catch (error: any) {
+    console.error('unsubscribe error', error)
+    if (fromPage) return page('შეცდომა', 'გთხოვთ, სცადოთ მოგვიანებით. / Please try again later.', 500)
+    return NextResponse.json({ error: error.message || 'Unsubscribe failed' }, { status: 500 })
+  }
+}
@@ -12,10 +12,17 @@ export async function GET(request: NextRequest) {
       CREATE TABLE IF NOT EXISTS reading_history (
         user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
         manga_id TEXT NOT NULL,
-        chapter_id TEXT NOT NULL,
-        chapter_number NUMERIC NOT NULL,
-        page_number INTEGER NOT NULL DEFAULT 1,
-        last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        chapter_id TEXT,
+        external_chapter_id TEXT,
+        source TEXT NOT NULL DEFAULT 'local' CHECK (source IN ('local', 'mangadex')),
+        chapter_number NUMERIC NOT NULL DEFAULT 0,
+        chapter_title TEXT,
+        page INTEGER NOT NULL DEFAULT 0,
+        total_pages INTEGER NOT NULL DEFAULT 0,
+        manga_title TEXT,
+        manga_thumbnail TEXT,
+        last_read TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
         PRIMARY KEY (user_id, manga_id)
       );
       
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import {
+  MAX_BOOKMARK_NOTE_LENGTH,
+  PageBookmarkRow,
+  bookmarkCropSchema,
+  fromPageBookmarkRow,
+  normalizeCrop,
+} from '@/lib/page-bookmarks'
+
+const updateSchema = z
+  .object({
+    note: z.string().max(MAX_BOOKMARK_NOTE_LENGTH).optional(),
+    crop: bookmarkCropSchema.optional(),
+  })
+  .refine(changes => changes.note !== undefined || changes.crop !== undefined, 'Nothing to update')
+
+// PATCH /api/user/bookmarks/:id – edit the note or the highlighted region
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = updateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 })
+  }
+
+  const changes: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (parsed.data.note !== undefined) changes.note = parsed.data.note.trim() || null
+  if (parsed.data.crop !== undefined) changes.crop = normalizeCrop(parsed.data.crop)
+
+  const { data, error } = await supabaseAdmin
+    .from('page_bookmarks')
+    .update(changes)
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('bookmark update error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  if (!data) return NextResponse.json({ error: 'Bookmark not found' }, { status: 404 })
+
+  return NextResponse.json({ success: true, bookmark: fromPageBookmarkRow(data as PageBookmarkRow) })
+}
+
+// DELETE /api/user/bookmarks/:id
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data, error } = await supabaseAdmin
+    .from('page_bookmarks')
+    .delete()
+    .eq('id', params.id)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    console.error('bookmark delete error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  if (!data || data.length === 0) return NextResponse.json({ error: 'Bookmark not found' }, { status: 404 })
+
+  return NextResponse.json({ success: true })
+}
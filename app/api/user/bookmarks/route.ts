@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import {
+  MAX_BOOKMARK_NOTE_LENGTH,
+  PageBookmarkRow,
+  bookmarkCropSchema,
+  fromPageBookmarkRow,
+  normalizeCrop,
+} from '@/lib/page-bookmarks'
+
+const createSchema = z.object({
+  contentId: z.string().min(1),
+  contentType: z.enum(['manga', 'comics']).default('manga'),
+  contentTitle: z.string().max(500).default(''),
+  contentThumbnail: z.string().max(2000).default(''),
+  chapterId: z.string().min(1),
+  chapterNumber: z.number(),
+  chapterTitle: z.string().max(500).default(''),
+  language: z.enum(['ge', 'en']).default('ge'),
+  pageIndex: z.number().int().min(0),
+  // A page URL, or a MangaDex page reference (see getBookmarkPageRef)
+  pageUrl: z.string().url(),
+  crop: bookmarkCropSchema.default(null),
+  note: z.string().max(MAX_BOOKMARK_NOTE_LENGTH).default(''),
+})
+
+// GET – the user's bookmarks, newest first; ?contentId= limits them to one title
+export async function GET(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const contentId = request.nextUrl.searchParams.get('contentId')
+
+  let query = supabaseAdmin
+    .from('page_bookmarks')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (contentId) query = query.eq('content_id', contentId)
+
+  const { data, error } = await query
+  if (error) {
+    console.error('bookmarks fetch error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    bookmarks: (data as PageBookmarkRow[]).map(fromPageBookmarkRow),
+  })
+}
+
+// POST – bookmark a page; the same page twice returns the existing bookmark
+export async function POST(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = createSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 })
+  }
+
+  const input = parsed.data
+  const { data, error } = await supabaseAdmin
+    .from('page_bookmarks')
+    .upsert(
+      {
+        user_id: userId,
+        content_id: input.contentId,
+        content_type: input.contentType,
+        content_title: input.contentTitle,
+        content_thumbnail: input.contentThumbnail,
+        chapter_id: input.chapterId,
+        chapter_number: input.chapterNumber,
+        chapter_title: input.chapterTitle,
+        language: input.language,
+        page_index: input.pageIndex,
+        page_url: input.pageUrl,
+        crop: normalizeCrop(input.crop),
+        note: input.note.trim() || null,
+      },
+      { onConflict: 'user_id,content_id,chapter_id,page_index', ignoreDuplicates: true }
+    )
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('bookmark create error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  if (data) {
+    return NextResponse.json({ success: true, bookmark: fromPageBookmarkRow(data as PageBookmarkRow) }, { status: 201 })
+  }
+
+  // Already bookmarked: ignoreDuplicates returns no row
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('page_bookmarks')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('content_id', input.contentId)
+    .eq('chapter_id', input.chapterId)
+    .eq('page_index', input.pageIndex)
+    .single()
+
+  if (fetchError) {
+    console.error('bookmark fetch error', fetchError)
+    return NextResponse.json({ error: fetchError.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, bookmark: fromPageBookmarkRow(existing as PageBookmarkRow) })
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { fromWatchlistRow } from '@/lib/user-library'
+import { ReadingHistoryRow, fromReadingHistoryRow } from '@/lib/reading-history'
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  ExportFormat,
+  ExportedLibraryItem,
+  LibraryBackup,
+  buildLibraryCsv,
+  buildMalXml,
+} from '@/lib/library-export'
+
+const FORMATS: ExportFormat[] = ['mal', 'csv', 'json']
+
+// GET /api/user/library/export?format=mal|csv|json – download the user's library
+export async function GET(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const format = (request.nextUrl.searchParams.get('format') || 'json') as ExportFormat
+  if (!FORMATS.includes(format)) {
+    return NextResponse.json({ error: `Unsupported format, use one of ${FORMATS.join(', ')}` }, { status: 400 })
+  }
+
+  const { data: watchlist, error: watchlistError } = await supabaseAdmin
+    .from('watchlist')
+    .select('*, content(*)')
+    .eq('user_id', userId)
+
+  if (watchlistError) {
+    console.error('library export watchlist error', watchlistError)
+    return NextResponse.json({ error: watchlistError.message }, { status: 500 })
+  }
+
+  const library: ExportedLibraryItem[] = (watchlist || [])
+    .map(row => ({
+      ...fromWatchlistRow(row),
+      malId: row.content?.mal_id ?? null,
+      anilistId: row.content?.anilist_id ?? null,
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title))
+
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  if (format === 'csv') {
+    return new NextResponse(buildLibraryCsv(library), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="library-${stamp}.csv"`,
+      },
+    })
+  }
+
+  if (format === 'mal') {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('username')
+      .eq('id', userId)
+      .maybeSingle()
+
+    return new NextResponse(buildMalXml(library, profile?.username || ''), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="library-${stamp}-mal.xml"`,
+      },
+    })
+  }
+
+  const [historyResult, topListResult, favoritesResult, reactionsResult] = await Promise.all([
+    supabaseAdmin.from('reading_history').select('*').eq('user_id', userId).order('last_read', { ascending: false }),
+    supabaseAdmin.from('user_top_list').select('position, content_id, content_type').eq('user_id', userId).order('position'),
+    supabaseAdmin.from('favorites').select('content_id, content_type, created_at').eq('user_id', userId),
+    // The table behind get_content_reactions; read directly so reactions on any title are included
+    supabaseAdmin.from('content_reactions').select('content_id, emoji').eq('user_id', userId),
+  ])
+
+  const failed = [historyResult, topListResult, favoritesResult, reactionsResult].find(result => result.error)
+  if (failed?.error) {
+    console.error('library export error', failed.error)
+    return NextResponse.json({ error: failed.error.message }, { status: 500 })
+  }
+
+  const readingHistory = ((historyResult.data || []) as ReadingHistoryRow[]).map(fromReadingHistoryRow)
+  const topList = (topListResult.data || []).map(row => ({
+    position: row.position,
+    contentId: row.content_id,
+    contentType: row.content_type,
+  }))
+  const contentFavorites = (favoritesResult.data || []).map(row => ({
+    contentId: row.content_id,
+    contentType: row.content_type,
+    createdAt: row.created_at ?? null,
+  }))
+
+  const reactions = (reactionsResult.data || []).map(row => ({
+    contentId: row.content_id,
+    emoji: row.emoji,
+  }))
+
+  const backup: LibraryBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    library,
+    readingHistory,
+    topList,
+    // Browser-only favorites are added by the client before download
+    favorites: { content: contentFavorites, local: {} },
+    reactions,
+  }
+
+  return NextResponse.json(backup, {
+    headers: { 'Content-Disposition': `attachment; filename="library-${stamp}.json"` },
+  })
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import {
+  MAX_SERIES_PROFILES,
+  StoredReaderSettings,
+  mergeStoredReaderSettings,
+} from '@/lib/reader-settings'
+
+const seriesSettingsSchema = z.object({
+  readingMode: z.enum(['Long Strip', 'Single Page', 'Double Page']).optional(),
+  readingDirection: z.enum(['Left to Right', 'Right to Left']).optional(),
+  pageFit: z.enum(['Contain', 'Overflow', 'Cover', 'True size']).optional(),
+  pageStretch: z.enum(['None', 'Stretch']).optional(),
+  showPageGap: z.boolean().optional(),
+  showLongStripGap: z.boolean().optional(),
+})
+
+const globalSettingsSchema = seriesSettingsSchema.extend({
+  showProgressBar: z.boolean().optional(),
+  showBottomBar: z.boolean().optional(),
+  showPageNumbers: z.boolean().optional(),
+  showPageComments: z.boolean().optional(),
+  autoHideControls: z.boolean().optional(),
+  autoScrollSpeed: z.number().min(0.5).max(5).optional(),
+  dataSaver: z.boolean().optional(),
+  keybindings: z.record(z.array(z.string().max(40)).max(10)).optional(),
+})
+
+const storedSchema = z.object({
+  global: globalSettingsSchema,
+  globalUpdatedAt: z.number().min(0),
+  series: z
+    .record(z.object({ settings: seriesSettingsSchema, updatedAt: z.number().min(0) }))
+    .refine(series => Object.keys(series).length <= MAX_SERIES_PROFILES, 'Too many series profiles'),
+})
+
+const EMPTY_SETTINGS: StoredReaderSettings = { global: {}, globalUpdatedAt: 0, series: {} }
+
+async function getStoredSettings(userId: string): Promise<StoredReaderSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('reader_settings')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  // Anything malformed in the column is dropped rather than handed to clients
+  const parsed = storedSchema.safeParse(data?.reader_settings)
+  return parsed.success ? (parsed.data as StoredReaderSettings) : EMPTY_SETTINGS
+}
+
+// GET – the reader settings saved on the user's profile
+export async function GET(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    return NextResponse.json({ success: true, settings: await getStoredSettings(userId) })
+  } catch (error: any) {
+    console.error('reader settings pull error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// PUT – merge a device's settings into the profile; the newer copy of each part wins
+export async function PUT(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = storedSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 })
+  }
+
+  try {
+    const merged = mergeStoredReaderSettings(await getStoredSettings(userId), parsed.data as StoredReaderSettings)
+
+    const { error } = await supabaseAdmin
+      .from('profiles')
+      .update({ reader_settings: merged })
+      .eq('id', userId)
+
+    if (error) throw error
+    return NextResponse.json({ success: true, settings: merged })
+  } catch (error: any) {
+    console.error('reader settings save error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAuthUserId } from '@/app/api/friends/utils'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import {
+  ReadingHistoryRow,
+  ReadingProgress,
+  compareProgress,
+  fromReadingHistoryRow,
+  toReadingHistoryRow,
+} from '@/lib/reading-history'
+
+// Clients keep this many entries locally, so a pull never needs more
+const PULL_LIMIT = 50
+
+const progressSchema = z.object({
+  mangaId: z.string().min(1),
+  chapterId: z.string().min(1),
+  chapterNumber: z.number(),
+  chapterTitle: z.string().default(''),
+  currentPage: z.number().int().min(0),
+  totalPages: z.number().int().min(1),
+  lastRead: z.number(),
+  mangaTitle: z.string().default(''),
+  mangaThumbnail: z.string().default(''),
+  source: z.enum(['local', 'mangadex']).default('local'),
+})
+
+const pushSchema = z.object({
+  entries: z.array(progressSchema).min(1).max(100),
+})
+
+// GET – the user's most recent reading progress, one entry per manga
+export async function GET(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { data, error } = await supabaseAdmin
+    .from('reading_history')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_read', { ascending: false })
+    .limit(PULL_LIMIT)
+
+  if (error) {
+    console.error('reading history pull error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    history: (data as ReadingHistoryRow[]).map(fromReadingHistoryRow),
+  })
+}
+
+// POST – merge queued client progress; the server keeps whichever entry is further along
+export async function POST(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = pushSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 })
+  }
+
+  // Several queued entries for one manga collapse to the furthest one
+  const incoming = new Map<string, ReadingProgress>()
+  for (const entry of parsed.data.entries) {
+    const current = incoming.get(entry.mangaId)
+    if (!current || compareProgress(entry, current) > 0) incoming.set(entry.mangaId, entry)
+  }
+
+  const { data: existingRows, error: fetchError } = await supabaseAdmin
+    .from('reading_history')
+    .select('*')
+    .eq('user_id', userId)
+    .in('manga_id', Array.from(incoming.keys()))
+
+  if (fetchError) {
+    console.error('reading history fetch error', fetchError)
+    return NextResponse.json({ error: fetchError.message }, { status: 500 })
+  }
+
+  const existing = new Map(
+    (existingRows as ReadingHistoryRow[]).map(row => [row.manga_id, fromReadingHistoryRow(row)])
+  )
+
+  const winners: ReadingProgress[] = []
+  const toWrite: ReadingHistoryRow[] = []
+  for (const entry of Array.from(incoming.values())) {
+    const stored = existing.get(entry.mangaId)
+    if (stored && compareProgress(stored, entry) >= 0) {
+      winners.push(stored)
+    } else {
+      winners.push(entry)
+      toWrite.push(toReadingHistoryRow(userId, entry))
+    }
+  }
+
+  if (toWrite.length > 0) {
+    const { error: upsertError } = await supabaseAdmin
+      .from('reading_history')
+      .upsert(toWrite, { onConflict: 'user_id,manga_id' })
+
+    if (upsertError) {
+      console.error('reading history upsert error', upsertError)
+      return NextResponse.json({ error: upsertError.message }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json({ success: true, history: winners })
+}
+
+// DELETE – clear the user's reading history
+export async function DELETE(request: NextRequest) {
+  const userId = await getAuthUserId(request as unknown as Request)
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { error } = await supabaseAdmin
+    .from('reading_history')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('reading history delete error', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
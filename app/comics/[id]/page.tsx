@@ -41,6 +41,7 @@ import {
   TrendingUp,
   AlertTriangle,
   CheckCircle,
+  Crown,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { MangaReader } from '@/components/manga-reader'
@@ -53,10 +54,14 @@ import { getContentById, getChapters, incrementContentView } from '@/lib/content
 import { CharacterSection } from '@/components/character-section'
 import { CommentSection } from '@/components/comment-section'
 import ChapterManager from '@/components/admin/chapter-manager'
+import { ScheduleView } from '@/components/schedule-view'
+import { isInEarlyAccess } from '@/lib/chapter-schedule'
 import { isValid } from "date-fns";
 import { getMangaProgress, getChapterProgress, getReadPercentage, getMangaTotalProgress, getLatestChapterRead, calculateMangaProgressByChapter } from '@/lib/reading-history'
 import { Progress } from '@/components/ui/progress'
 import { MediaStatus, MediaType, getLibraryItem, getLibraryItemSync, hasStatus, hasStatusSync, updateItemStatus } from '@/lib/user-library'
+import { isTitleMuted, setTitleMuted } from '@/lib/notification-preferences'
+import { getBookmarkChapterId } from '@/lib/page-bookmarks'
 import { toast } from '@/components/ui/use-toast'
 import {
   DropdownMenu,
@@ -528,7 +533,12 @@ export default function ComicPage({ params }: { params: { id: string } }) {
       title: chapter.title,
       releaseDate: chapter.release_date ? new Date(chapter.release_date).toLocaleDateString() : "Unknown",
       thumbnail: chapter.thumbnail || comicData?.coverImage?.large || "/placeholder.svg",
-      pages: chapter.pages || []
+      pages: chapter.pages || [],
+      // Scheduled chapters only reach admins and VIP members in early access
+      scheduled: chapter.scheduled || false,
+      release_date: chapter.release_date ?? null,
+      published_at: chapter.published_at,
+      early_access_at: chapter.early_access_at ?? null,
     }));
   };
 
@@ -760,12 +770,10 @@ export default function ComicPage({ params }: { params: { id: string } }) {
   useEffect(() => {
     async function checkSub() {
       if (comicId && userId) {
-        // Conceptual: Call checkSubscription
-        // const { success, subscribed } = await checkSubscription(userId, comicId);
-        const success = true; // Placeholder
-        const subscribed = false; // Placeholder
+        // Subscribed means new chapter notifications for this title aren't muted
+        const { success, muted } = await isTitleMuted(userId, comicId);
         if (success) {
-          setIsSubscribed(subscribed);
+          setIsSubscribed(!muted);
         }
       }
     }
@@ -788,11 +796,8 @@ export default function ComicPage({ params }: { params: { id: string } }) {
     setIsSubscribed(!originalSubscribed);
 
     try {
-      // Conceptual: Call backend toggle function
-      // const { success, subscribed, error } = await toggleSubscription(userId, comicId);
-      const success = true; // Placeholder
-      const subscribed = !originalSubscribed; // Placeholder
-      const error: any = null; // Placeholder - explicitly type as any
+      const subscribed = !originalSubscribed;
+      const { success, error } = await setTitleMuted(userId, comicId, !subscribed);
 
       if (!success) {
         setIsSubscribed(originalSubscribed); // Revert optimistic update
@@ -938,6 +943,23 @@ export default function ComicPage({ params }: { params: { id: string } }) {
     }
   };
 
+  // Bookmarks link here with ?chapter=<id>&page=<index> to open the reader on that page
+  const bookmarkLinkHandledRef = useRef(false);
+  useEffect(() => {
+    if (bookmarkLinkHandledRef.current || !processedData || typeof window === 'undefined') return;
+    const urlParams = new URLSearchParams(window.location.search);
+    const chapterParam = urlParams.get('chapter');
+    if (!chapterParam) return;
+
+    const chapterIndex = processedData.chapterList.findIndex((ch: any) => getBookmarkChapterId(ch) === chapterParam);
+    if (chapterIndex === -1) return;
+
+    bookmarkLinkHandledRef.current = true;
+    setSelectedChapter(chapterIndex);
+    setInitialReaderPage(Math.max(0, parseInt(urlParams.get('page') || '0', 10) || 0));
+    setIsReaderOpen(true);
+  }, [processedData]);
+
   // --- Dynamic character grid columns ---
   const charactersToShow = processedData?.characters?.slice(0, 6) || [];
   const getCharacterColumns = (cnt: number) => {
@@ -1085,6 +1107,8 @@ export default function ComicPage({ params }: { params: { id: string } }) {
                   mangaId={comicId}
                   mangaTitle={processedData.title}
                   initialPage={initialReaderPage}
+                  contentType="comics"
+                  genres={processedData.genres}
                 />
               </motion.div>
             ) : (
@@ -1512,6 +1536,12 @@ export default function ComicPage({ params }: { params: { id: string } }) {
                                   <div className="text-xs text-gray-400 flex items-center gap-2 mt-1">
                                     <CalendarDays className="h-3 w-3" />
                                     {chapter.releaseDate}
+                                    {chapter.scheduled && (
+                                      <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-yellow-500/80 text-black flex items-center gap-1">
+                                        <Crown className="h-3 w-3" />
+                                        {isInEarlyAccess(chapter) ? "ადრეული წვდომა" : "დაგეგმილი"}
+                                      </span>
+                                    )}
                                     
                                     {readPercentage > 0 && (
                                       <span className={cn(
@@ -1543,6 +1573,8 @@ export default function ComicPage({ params }: { params: { id: string } }) {
                           );
                         })}
                       </div>
+
+                      {isFromDatabase && <ScheduleView contentId={comicId} className="mt-6" />}
                     </div>
                     
                     {/* Right side: Characters grid */}
@@ -1683,7 +1715,10 @@ export default function ComicPage({ params }: { params: { id: string } }) {
                               title: chapter.title,
                               releaseDate: formatSafeDate(chapter.releaseDate),
                               thumbnail: chapter.thumbnail,
-                              pages: Array.isArray(chapter.pages) ? chapter.pages : []
+                              pages: Array.isArray(chapter.pages) ? chapter.pages : [],
+                              release_date: chapter.release_date,
+                              published_at: chapter.published_at,
+                              early_access_at: chapter.early_access_at
                             }))}
                           />
                         </motion.section>
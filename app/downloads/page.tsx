@@ -0,0 +1,286 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, BookOpen, Download, HardDrive, Loader2, Trash2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { MangaReader } from '@/components/manga-reader';
+import { AppSidebar } from '@/components/app-sidebar';
+import { useOfflineDownloads } from '@/hooks/use-offline-downloads';
+import { DownloadedChapter, StorageUsage, deleteAllDownloads, getStorageUsage } from '@/lib/offline-downloads';
+import { getChapterProgress } from '@/lib/reading-history';
+import { toast } from 'sonner';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+// Downloaded chapters of one title in one language, in reading order
+interface DownloadGroup {
+  key: string;
+  mangaId: string;
+  mangaTitle: string;
+  mangaThumbnail: string;
+  contentType: 'manga' | 'comics';
+  language: 'ge' | 'en';
+  chapters: DownloadedChapter[];
+}
+
+function groupDownloads(downloads: DownloadedChapter[]): DownloadGroup[] {
+  const groups = new Map<string, DownloadGroup>();
+  for (const download of downloads) {
+    const key = `${download.mangaId}:${download.language}`;
+    const group = groups.get(key) || {
+      key,
+      mangaId: download.mangaId,
+      mangaTitle: download.mangaTitle,
+      mangaThumbnail: download.mangaThumbnail,
+      contentType: download.contentType,
+      language: download.language,
+      chapters: [],
+    };
+    group.chapters.push(download);
+    groups.set(key, group);
+  }
+  groups.forEach(group => group.chapters.sort((a, b) => a.chapterNumber - b.chapterNumber));
+  return Array.from(groups.values());
+}
+
+function toReaderChapter(download: DownloadedChapter) {
+  return {
+    id: download.chapterId,
+    number: download.chapterNumber,
+    title: download.chapterTitle,
+    thumbnail: download.mangaThumbnail,
+    pages: download.pages,
+    language: download.language,
+    external: download.external,
+  };
+}
+
+export default function DownloadsPage() {
+  const { downloads, remove } = useOfflineDownloads();
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
+  const [reading, setReading] = useState<{ groupKey: string; index: number } | null>(null);
+
+  const groups = useMemo(() => groupDownloads(downloads), [downloads]);
+  const readingGroup = reading ? groups.find(group => group.key === reading.groupKey) : undefined;
+  const readingChapter = readingGroup?.chapters[reading!.index];
+
+  useEffect(() => {
+    getStorageUsage().then(setStorage);
+  }, [downloads]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const handleDelete = async (download: DownloadedChapter) => {
+    try {
+      await remove(download.key);
+      toast.success(`თავი ${download.chapterNumber} წაიშალა`);
+    } catch (error) {
+      console.error("Failed to delete download:", error);
+      toast.error("ჩამოტვირთვის წაშლა ვერ მოხერხდა");
+    }
+  };
+
+  const handleDeleteAll = async () => {
+    try {
+      await deleteAllDownloads();
+      toast.success("ყველა ჩამოტვირთვა წაიშალა");
+    } catch (error) {
+      console.error("Failed to delete downloads:", error);
+      toast.error("ჩამოტვირთვების წაშლა ვერ მოხერხდა");
+    }
+  };
+
+  if (readingGroup && readingChapter) {
+    const progress = getChapterProgress(readingGroup.mangaId, readingChapter.chapterId);
+    return (
+      <div className="min-h-screen bg-black">
+        <MangaReader
+          chapter={toReaderChapter(readingChapter)}
+          chapterList={readingGroup.chapters.map(toReaderChapter)}
+          onClose={() => setReading(null)}
+          onChapterSelect={index => setReading({ groupKey: readingGroup.key, index })}
+          mangaId={readingGroup.mangaId}
+          mangaTitle={readingGroup.mangaTitle}
+          initialPage={progress?.currentPage || 0}
+          offline={!isOnline}
+          contentType={readingGroup.contentType}
+        />
+      </div>
+    );
+  }
+
+  const usedPercent = storage?.usage != null && storage.quota ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <>
+      <AppSidebar />
+      <div className="container mx-auto px-4 py-8 md:pl-24">
+        <div className="flex justify-between items-center mb-8 gap-4">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Download className="h-7 w-7 text-purple-400" />
+            ჩამოტვირთვები
+          </h1>
+          {downloads.length > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" className="gap-1.5">
+                  <Trash2 className="h-4 w-4" />
+                  ყველას წაშლა
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>დარწმუნებული ხართ?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    ყველა ჩამოტვირთული თავი წაიშლება ამ მოწყობილობიდან. ოფლაინ წასაკითხად ხელახლა ჩამოტვირთვა დაგჭირდებათ.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>გაუქმება</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDeleteAll} className="bg-red-600 hover:bg-red-700">
+                    წაშლა
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+
+        {!isOnline && (
+          <div className="mb-6 flex items-center gap-2 rounded-lg border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm text-yellow-300">
+            <WifiOff className="h-4 w-4 flex-shrink-0" />
+            ოფლაინ ხართ. ჩამოტვირთული თავები იკითხება, პროგრესი შეინახება და ინტერნეტის დაბრუნებისას სინქრონიზდება.
+          </div>
+        )}
+
+        <div className="mb-8 rounded-lg border border-white/10 bg-black/40 p-4">
+          <div className="mb-3 flex items-center gap-2 text-sm font-medium">
+            <HardDrive className="h-4 w-4 text-purple-400" />
+            მეხსიერება
+          </div>
+          {storage ? (
+            <>
+              <Progress value={usedPercent} className="h-2 bg-gray-800/50" indicatorClassName="bg-purple-500" />
+              <div className="mt-2 flex flex-wrap justify-between gap-2 text-xs text-gray-400">
+                <span>ჩამოტვირთვები: {formatBytes(storage.downloadsBytes)}</span>
+                {storage.usage != null && storage.quota != null && (
+                  <span>
+                    გამოყენებულია {formatBytes(storage.usage)} / {formatBytes(storage.quota)}
+                  </span>
+                )}
+              </div>
+              {!storage.persisted && downloads.length > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                  ადგილის ნაკლებობისას ბრაუზერმა შეიძლება ჩამოტვირთვები წაშალოს.
+                </p>
+              )}
+            </>
+          ) : (
+            <Loader2 className="h-4 w-4 animate-spin text-purple-400" />
+          )}
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="text-center py-16 text-gray-400 flex flex-col items-center">
+            <AlertCircle className="h-16 w-16 mb-4 text-gray-600" />
+            <p className="text-xl mb-2">ჩამოტვირთული თავები არ გაქვთ</p>
+            <p className="text-sm">მანგის გვერდზე თავის გვერდით დააჭირეთ ჩამოტვირთვის ღილაკს, რომ ინტერნეტის გარეშეც წაიკითხოთ.</p>
+            <Link href="/manga">
+              <Button className="mt-6 bg-purple-600 hover:bg-purple-700">
+                მანგის ნახვა
+              </Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <div key={group.key} className="bg-black/40 backdrop-blur-sm border border-white/10 rounded-lg overflow-hidden p-4">
+                <div className="flex gap-4 items-start mb-4">
+                  <img
+                    src={group.mangaThumbnail || '/placeholder.svg'}
+                    alt={group.mangaTitle}
+                    className="w-16 h-24 rounded object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <Link href={`/${group.contentType}/${group.mangaId}`} className="hover:text-purple-400 transition-colors">
+                      <h3 className="font-semibold truncate text-lg">{group.mangaTitle}</h3>
+                    </Link>
+                    <p className="text-xs text-gray-400">
+                      {group.chapters.length} თავი · {group.language === 'en' ? 'English' : 'ქართული'} ·{' '}
+                      {formatBytes(group.chapters.reduce((sum, chapter) => sum + chapter.bytes, 0))}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {group.chapters.map((chapter, index) => (
+                    <div
+                      key={chapter.key}
+                      className="flex items-center justify-between gap-3 rounded-md border border-white/5 bg-white/5 px-3 py-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {chapter.chapterNumber}. {chapter.chapterTitle}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {chapter.pages.length} გვერდი · {formatDistanceToNow(new Date(chapter.downloadedAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button
+                          size="sm"
+                          className="bg-purple-600 hover:bg-purple-700 text-white text-xs h-8 px-3 gap-1.5"
+                          onClick={() => setReading({ groupKey: group.key, index })}
+                        >
+                          <BookOpen className="h-3.5 w-3.5" />
+                          წაკითხვა
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-gray-400 hover:text-red-400"
+                          onClick={() => handleDelete(chapter)}
+                          title="წაშლა"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { Inter, Space_Grotesk } from 'next/font/google'
 import { SupabaseAuthProvider } from '@/components/supabase-auth-provider'
 import { UnifiedAuthProvider } from '@/components/unified-auth-provider'
 import { MaintenanceRunner } from '@/components/maintenance-runner'
+import { ServiceWorkerRegistrar } from '@/components/service-worker-registrar'
 import { LanguageProvider } from '@/hooks/use-preferred-language'
 import { Toaster } from 'sonner'
 
@@ -64,6 +65,7 @@ if (typeof window !== 'undefined') {
 export const metadata: Metadata = {
   title: 'manganime',
   description: 'Explore anime and manga content',
+  appleWebApp: { capable: true, title: 'მანგანიმე', statusBarStyle: 'black-translucent' },
 }
 
 export default function RootLayout({
@@ -82,6 +84,7 @@ export default function RootLayout({
           <UnifiedAuthProvider>
             <LanguageProvider>
             <MaintenanceRunner />
+            <ServiceWorkerRegistrar />
             {children}
             <Toaster richColors position="top-right" theme="dark" />
             </LanguageProvider>
@@ -0,0 +1,389 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileUp, HelpCircle, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { PageHeader } from "@/components/page-header";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ImportCandidate,
+  ImportIndex,
+  ImportMatch,
+  MatchState,
+  buildImportIndex,
+  importLibraryMatches,
+  loadImportCandidates,
+  matchImportEntries,
+  RestoreResult,
+  parseImportFile,
+  parseLibraryBackup,
+  restoreLibraryBackup,
+  searchImportCandidates,
+} from "@/lib/library-import";
+import type { LibraryBackup } from "@/lib/library-export";
+import { MediaStatus } from "@/lib/user-library";
+
+type Step = "upload" | "matching" | "review" | "restore" | "importing" | "done";
+
+const statusLabels: Record<Exclude<MediaStatus, null>, string> = {
+  reading: "ვკითხულობ",
+  plan_to_read: "წასაკითხი",
+  completed: "დასრულებული",
+  on_hold: "შეჩერებული",
+  dropped: "მიტოვებული",
+};
+
+function CandidateLabel({ candidate }: { candidate: ImportCandidate }) {
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <div className="relative h-10 w-7 flex-shrink-0 overflow-hidden rounded bg-gray-800">
+        {candidate.thumbnail && (
+          <Image src={candidate.thumbnail} alt={candidate.title} fill sizes="28px" className="object-cover" />
+        )}
+      </div>
+      <span className="truncate text-sm">{candidate.title}</span>
+      <span className="text-xs text-gray-500 flex-shrink-0">{candidate.type}</span>
+    </div>
+  );
+}
+
+// Manual lookup for entries we couldn't match
+function CandidateSearch({ index, onPick }: { index: ImportIndex; onPick: (candidate: ImportCandidate) => void }) {
+  const [query, setQuery] = useState("");
+  const results = useMemo(() => searchImportCandidates(query, index), [query, index]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search our catalogue..."
+          className="pl-8 h-9 bg-black/40 border-white/10"
+        />
+      </div>
+      {results.length > 0 && (
+        <div className="rounded-md border border-white/10 divide-y divide-white/5">
+          {results.map((candidate) => (
+            <button
+              key={candidate.id}
+              onClick={() => onPick(candidate)}
+              className="w-full p-2 text-left hover:bg-white/5"
+            >
+              <CandidateLabel candidate={candidate} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ImportRow({
+  match,
+  index,
+  onSelect,
+}: {
+  match: ImportMatch;
+  index: ImportIndex;
+  onSelect: (candidate: ImportCandidate | null) => void;
+}) {
+  const { entry } = match;
+
+  return (
+    <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,1.3fr)] p-3 rounded-lg bg-black/40 border border-white/5">
+      <div className="min-w-0">
+        <div className="font-medium truncate" title={entry.title}>{entry.title}</div>
+        <div className="text-xs text-gray-400 mt-1 flex flex-wrap gap-x-3">
+          {entry.status && <span>{statusLabels[entry.status]}</span>}
+          {entry.progress > 0 && <span>Chapters: {entry.progress}</span>}
+          {entry.score && <span className="text-yellow-400">Score: {entry.score}/10</span>}
+          <span className="uppercase text-gray-500">{entry.source}</span>
+        </div>
+      </div>
+
+      <div className="min-w-0">
+        {match.state === "matched" && (
+          <div className="flex items-center gap-3">
+            <Checkbox
+              checked={!!match.selected}
+              onCheckedChange={(checked) => onSelect(checked ? match.candidates[0] : null)}
+            />
+            <CandidateLabel candidate={match.candidates[0]} />
+            {match.matchedBy === "title" && (
+              <span className="text-xs text-gray-500 flex-shrink-0">by title</span>
+            )}
+          </div>
+        )}
+
+        {match.state === "ambiguous" && (
+          <Select
+            value={match.selected?.id ?? "skip"}
+            onValueChange={(value) => onSelect(match.candidates.find((c) => c.id === value) ?? null)}
+          >
+            <SelectTrigger className="bg-black/40 border-white/10">
+              <SelectValue placeholder="Choose a title" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="skip">Don't import</SelectItem>
+              {match.candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.title} ({candidate.type})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {match.state === "unmatched" && (
+          match.selected ? (
+            <div className="flex items-center gap-3">
+              <CandidateLabel candidate={match.selected} />
+              <Button variant="ghost" size="sm" onClick={() => onSelect(null)}>Change</Button>
+            </div>
+          ) : (
+            <CandidateSearch index={index} onPick={onSelect} />
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function LibraryImportPage() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [index, setIndex] = useState<ImportIndex | null>(null);
+  const [matches, setMatches] = useState<ImportMatch[]>([]);
+  const [overwrite, setOverwrite] = useState(false);
+  const [result, setResult] = useState<{ imported: number; skipped: number } | null>(null);
+  const [backup, setBackup] = useState<LibraryBackup | null>(null);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+
+  const counts = useMemo(() => {
+    const byState: Record<MatchState, number> = { matched: 0, ambiguous: 0, unmatched: 0 };
+    matches.forEach((m) => byState[m.state]++);
+    return { ...byState, selected: matches.filter((m) => m.selected).length };
+  }, [matches]);
+
+  const handleFile = async (file: File) => {
+    setStep("matching");
+    try {
+      const contents = await file.text();
+
+      // Our own backups already reference our titles; no matching needed
+      const parsedBackup = parseLibraryBackup(contents);
+      if (parsedBackup) {
+        setBackup(parsedBackup);
+        setStep("restore");
+        return;
+      }
+
+      const entries = parseImportFile(contents);
+      if (entries.length === 0) {
+        toast.error("No manga entries found in this file");
+        setStep("upload");
+        return;
+      }
+
+      const catalogueIndex = index ?? buildImportIndex(await loadImportCandidates());
+      setIndex(catalogueIndex);
+      setMatches(matchImportEntries(entries, catalogueIndex));
+      setStep("review");
+    } catch (error: any) {
+      console.error("Library import failed:", error);
+      toast.error("Couldn't read this file", { description: error?.message });
+      setStep("upload");
+    }
+  };
+
+  const selectCandidate = (position: number, candidate: ImportCandidate | null) => {
+    setMatches((prev) => prev.map((m, i) => (i === position ? { ...m, selected: candidate } : m)));
+  };
+
+  const handleImport = async () => {
+    setStep("importing");
+    try {
+      const importResult = await importLibraryMatches(matches, overwrite);
+      setResult(importResult);
+      setStep("done");
+    } catch (error) {
+      console.error("Library import failed:", error);
+      toast.error("Import failed. Please try again.");
+      setStep("review");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setStep("importing");
+    try {
+      setRestoreResult(await restoreLibraryBackup(backup));
+      setStep("done");
+    } catch (error) {
+      console.error("Backup restore failed:", error);
+      toast.error("Restore failed. Please try again.");
+      setStep("restore");
+    }
+  };
+
+  const renderList = (state: MatchState) => {
+    const rows = matches
+      .map((match, position) => ({ match, position }))
+      .filter(({ match }) => match.state === state);
+
+    if (rows.length === 0) {
+      return <p className="text-center text-gray-500 py-10">Nothing here.</p>;
+    }
+
+    return (
+      <div className="space-y-2">
+        {rows.map(({ match, position }) => (
+          <ImportRow
+            key={`${match.entry.source}-${match.entry.sourceId}-${position}`}
+            match={match}
+            index={index!}
+            onSelect={(candidate) => selectCandidate(position, candidate)}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container max-w-screen-lg py-6 md:py-10">
+      <PageHeader
+        title="Import Library"
+        description="Bring your list over from MyAnimeList or AniList"
+      >
+        <Button variant="outline" size="sm" asChild className="bg-black/40 border-white/10">
+          <Link href="/library"><ArrowLeft className="h-4 w-4 mr-2" />Back to library</Link>
+        </Button>
+      </PageHeader>
+
+      {step === "upload" && (
+        <div className="mt-8 rounded-xl border border-dashed border-white/15 bg-black/40 p-10 text-center">
+          <FileUp className="h-10 w-10 mx-auto text-purple-400 mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Upload your export file</h3>
+          <p className="text-sm text-gray-400 max-w-md mx-auto mb-6">
+            MyAnimeList: Profile → Export → Manga List (.xml, unzip the .gz first).
+            AniList: Settings → Account → Export lists (.json).
+            A JSON backup exported from this site is restored as-is.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,.json,application/xml,text/xml,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+          <Button onClick={() => fileInputRef.current?.click()}>Choose file</Button>
+        </div>
+      )}
+
+      {(step === "matching" || step === "importing") && (
+        <div className="mt-16 flex flex-col items-center text-gray-300">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-400 mb-3" />
+          {step === "matching" ? "Matching titles against our catalogue..." : "Adding titles to your library..."}
+        </div>
+      )}
+
+      {step === "review" && index && (
+        <div className="mt-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <p className="text-sm text-gray-400">
+              {matches.length} entries · {counts.selected} will be imported
+            </p>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox id="overwrite" checked={overwrite} onCheckedChange={(v) => setOverwrite(!!v)} />
+                <Label htmlFor="overwrite" className="text-sm text-gray-300">Overwrite titles already in my library</Label>
+              </div>
+              <Button onClick={handleImport} disabled={counts.selected === 0}>
+                Import {counts.selected}
+              </Button>
+            </div>
+          </div>
+
+          <Tabs defaultValue={counts.ambiguous > 0 ? "ambiguous" : "matched"}>
+            <TabsList className="bg-black/40">
+              <TabsTrigger value="matched" className="gap-1.5">
+                <CheckCircle2 className="h-4 w-4 text-green-400" />Matched ({counts.matched})
+              </TabsTrigger>
+              <TabsTrigger value="ambiguous" className="gap-1.5">
+                <HelpCircle className="h-4 w-4 text-yellow-400" />Needs review ({counts.ambiguous})
+              </TabsTrigger>
+              <TabsTrigger value="unmatched" className="gap-1.5">
+                <AlertTriangle className="h-4 w-4 text-red-400" />Not found ({counts.unmatched})
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="matched" className="mt-4">{renderList("matched")}</TabsContent>
+            <TabsContent value="ambiguous" className="mt-4">{renderList("ambiguous")}</TabsContent>
+            <TabsContent value="unmatched" className="mt-4">{renderList("unmatched")}</TabsContent>
+          </Tabs>
+        </div>
+      )}
+
+      {step === "restore" && backup && (
+        <div className="mt-8 rounded-xl bg-black/40 border border-white/10 p-8">
+          <h3 className="text-lg font-semibold mb-1">Restore backup</h3>
+          <p className="text-sm text-gray-400 mb-6">
+            Exported {new Date(backup.exportedAt).toLocaleString()}
+          </p>
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm mb-6">
+            <li className="rounded-lg bg-black/40 p-3">{backup.library.length} library titles</li>
+            <li className="rounded-lg bg-black/40 p-3">{backup.readingHistory.length} history entries</li>
+            <li className="rounded-lg bg-black/40 p-3">{backup.topList.length} top list picks</li>
+            <li className="rounded-lg bg-black/40 p-3">
+              {backup.favorites.content.length + Object.keys(backup.favorites.local).length} favorites
+            </li>
+            <li className="rounded-lg bg-black/40 p-3">{backup.reactions.length} reactions</li>
+          </ul>
+          <div className="flex gap-3">
+            <Button onClick={handleRestore}>Restore</Button>
+            <Button variant="outline" onClick={() => { setBackup(null); setStep("upload"); }}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {step === "done" && restoreResult && (
+        <div className="mt-8 rounded-xl bg-black/40 border border-white/10 p-10 text-center">
+          <CheckCircle2 className="h-10 w-10 mx-auto text-green-400 mb-4" />
+          <h3 className="text-lg font-semibold mb-1">Backup restored</h3>
+          <p className="text-sm text-gray-400">
+            {restoreResult.library} library titles · {restoreResult.readingHistory} history entries ·{" "}
+            {restoreResult.topList} top list picks · {restoreResult.favorites} favorites · {restoreResult.reactions} reactions
+          </p>
+          <Button asChild className="mt-6">
+            <Link href="/library">Go to library</Link>
+          </Button>
+        </div>
+      )}
+
+      {step === "done" && result && (
+        <div className="mt-8 rounded-xl bg-black/40 border border-white/10 p-10 text-center">
+          <CheckCircle2 className="h-10 w-10 mx-auto text-green-400 mb-4" />
+          <h3 className="text-lg font-semibold mb-1">Imported {result.imported} titles</h3>
+          {result.skipped > 0 && (
+            <p className="text-sm text-gray-400">{result.skipped} skipped (not selected or already in your library)</p>
+          )}
+          <Button asChild className="mt-6">
+            <Link href="/library">Go to library</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
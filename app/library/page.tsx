@@ -17,12 +17,18 @@ import {
   CheckCheck, 
   PauseCircle, 
   X, 
-  BookmarkPlus 
+  BookmarkPlus,
+  Bookmark,
+  Download
 } from "lucide-react";
 import { toast } from "sonner";
 import Link from "next/link";
 import Image from "next/image";
 import { PageHeader } from "@/components/page-header";
+import { LibrarySyncStatus } from "@/components/library-sync-status";
+import { LibraryBookmarks } from "@/components/library-bookmarks";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ExportFormat, downloadLibraryExport } from "@/lib/library-export";
 import { getLibraryItems, getLibraryStats, MediaStatus, MediaType, LibraryItem, syncAllToServer } from "@/lib/user-library";
 import { cn } from "@/lib/utils";
 
@@ -174,12 +180,14 @@ function LibraryItemCard({ item, onStatusChange }: {
 export default function LibraryPage() {
   const searchParams = useSearchParams();
   const initialFilter = searchParams?.get('status') || 'all';
+  const initialTab = searchParams?.get('tab') === 'bookmarks' ? 'bookmarks' : 'library';
   
   const [statusFilter, setStatusFilter] = useState<string>(initialFilter);
   const [mangaItems, setMangaItems] = useState<LibraryItem[]>([]);
   const [mangaStats, setMangaStats] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   
   const filteredItems = statusFilter === 'all' 
     ? mangaItems 
@@ -219,6 +227,9 @@ export default function LibraryPage() {
     setIsSyncing(true);
     try {
       const syncedCount = await syncAllToServer();
+      // The server may have had newer versions of some items
+      setMangaItems(await getLibraryItems('manga'));
+      setMangaStats(await getLibraryStats('manga'));
       
       if (syncedCount === 0) {
         toast("No Changes", {
@@ -242,6 +253,22 @@ export default function LibraryPage() {
     }
   };
   
+  // Download the library as MAL XML, CSV or a full JSON backup
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await downloadLibraryExport(format);
+    } catch (error) {
+      console.error("Error exporting library:", error);
+      toast.error("Export Error", {
+        description: "Failed to export your library. Please try again.",
+        duration: 5000,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  
   // Handle status change
   const handleStatusChange = async (id: string, newStatus: MediaStatus | null) => {
     // Update local state immediately for better UX
@@ -329,6 +356,23 @@ export default function LibraryPage() {
         title="My Manga Library"
         description="Manage your manga collection"
       >
+        <LibrarySyncStatus />
+        <Button variant="outline" size="sm" asChild className="bg-black/40 border-white/10">
+          <Link href="/library/import">Import</Link>
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isExporting} className="bg-black/40 border-white/10">
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? "Exporting..." : "Export"}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('mal')}>MyAnimeList (XML)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('csv')}>Spreadsheet (CSV)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('json')}>Full backup (JSON)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <Button 
           variant="outline" 
           size="sm" 
@@ -340,43 +384,60 @@ export default function LibraryPage() {
         </Button>
       </PageHeader>
       
-      <div className="mt-6">
-        {renderStats(mangaStats)}
+      <Tabs defaultValue={initialTab} className="mt-6">
+        <TabsList className="bg-black/40 border border-white/10">
+          <TabsTrigger value="library" className="flex items-center gap-2">
+            <BookOpen className="h-4 w-4" />
+            Library
+          </TabsTrigger>
+          <TabsTrigger value="bookmarks" className="flex items-center gap-2">
+            <Bookmark className="h-4 w-4" />
+            Bookmarks
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="library">
+          {renderStats(mangaStats)}
           
-        {isLoading ? (
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 mt-6">
-            {[...Array(12)].map((_, i) => (
-              <div key={i} className="space-y-3">
-                <Skeleton className="aspect-[2/3] rounded-md" />
-                <Skeleton className="h-4 w-3/4" />
-                <Skeleton className="h-3 w-1/2" />
-              </div>
-            ))}
-          </div>
-        ) : filteredItems.length === 0 ? (
-          <div className="text-center py-20">
-            <h3 className="text-xl font-semibold mb-2">No manga found</h3>
-            <p className="text-gray-400">
-              {statusFilter === 'all' 
-                ? "You haven't added any manga to your library yet." 
-                : `You don't have any manga with ${statusFilter.replace('_', ' ')} status.`}
-            </p>
-            <Button asChild className="mt-4">
-              <Link href="/manga">Browse Manga</Link>
-            </Button>
-          </div>
-        ) : (
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 mt-6">
-            {filteredItems.map((item) => (
-              <LibraryItemCard 
-                key={item.id} 
-                item={item} 
-                onStatusChange={handleStatusChange}
-              />
-            ))}
-          </div>
-        )}
-      </div>
+          {isLoading ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 mt-6">
+              {[...Array(12)].map((_, i) => (
+                <div key={i} className="space-y-3">
+                  <Skeleton className="aspect-[2/3] rounded-md" />
+                  <Skeleton className="h-4 w-3/4" />
+                  <Skeleton className="h-3 w-1/2" />
+                </div>
+              ))}
+            </div>
+          ) : filteredItems.length === 0 ? (
+            <div className="text-center py-20">
+              <h3 className="text-xl font-semibold mb-2">No manga found</h3>
+              <p className="text-gray-400">
+                {statusFilter === 'all' 
+                  ? "You haven't added any manga to your library yet." 
+                  : `You don't have any manga with ${statusFilter.replace('_', ' ')} status.`}
+              </p>
+              <Button asChild className="mt-4">
+                <Link href="/manga">Browse Manga</Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4 mt-6">
+              {filteredItems.map((item) => (
+                <LibraryItemCard 
+                  key={item.id} 
+                  item={item} 
+                  onStatusChange={handleStatusChange}
+                />
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="bookmarks">
+          <LibraryBookmarks />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,231 @@
+"use client"
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Loader2 } from "lucide-react"
+import { MangaReader } from "@/components/manga-reader"
+import { LiveRoomPanel } from "@/components/live/live-room-panel"
+import { LiveRoomChat } from "@/components/live/live-room-chat"
+import { LiveRoomSummary } from "@/components/live/live-room-summary"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/components/supabase-auth-provider"
+import { useLiveRoom } from "@/hooks/use-live-room"
+import { getChapters, getContentById } from "@/lib/content"
+import { updateReadingProgress } from "@/lib/reading-history"
+import type { SeriesMetadata } from "@/lib/reader-settings"
+
+interface ReaderChapter {
+  id?: string
+  number: number
+  title: string
+  thumbnail: string
+  pages: string[]
+  language?: "ge" | "en"
+  external?: boolean
+}
+
+export default function LiveRoomPage({ params }: { params: Promise<{ roomId: string }> }) {
+  const { roomId } = React.use(params)
+  const router = useRouter()
+  const { user, isLoading: isAuthLoading } = useAuth()
+  const userId = user?.id ?? null
+
+  const {
+    room,
+    me,
+    status,
+    error,
+    sharedPage,
+    reactions,
+    messages,
+    summary,
+    canControl,
+    isHost,
+    sendPage,
+    sendChapter,
+    sendReaction,
+    sendChat,
+    deleteMessage,
+    kick,
+    mute,
+    promote,
+    endRoom,
+  } = useLiveRoom(roomId, userId)
+
+  const [mangaTitle, setMangaTitle] = useState("")
+  const [mangaThumbnail, setMangaThumbnail] = useState("")
+  const [mangaMetadata, setMangaMetadata] = useState<SeriesMetadata>({})
+  const [allChapters, setAllChapters] = useState<ReaderChapter[]>([])
+  const [chaptersLoading, setChaptersLoading] = useState(true)
+
+  const historySavedRef = useRef(false)
+
+  // Once the room has ended only the summary knows which manga it was
+  const mangaId = room?.mangaId ?? summary?.mangaId
+
+  // Chapters are loaded once per manga; chapter switches only change the selection
+  useEffect(() => {
+    if (!mangaId) return
+    let isMounted = true
+
+    async function loadManga() {
+      setChaptersLoading(true)
+      const [contentResult, chaptersResult] = await Promise.all([
+        getContentById(mangaId!),
+        getChapters(mangaId!),
+      ])
+      if (!isMounted) return
+
+      const thumbnail = contentResult.content?.thumbnail || "/placeholder.svg"
+      setMangaTitle(contentResult.content?.title || "")
+      setMangaMetadata({ contentType: contentResult.content?.type, genres: contentResult.content?.genres })
+      setMangaThumbnail(thumbnail)
+      setAllChapters(
+        (chaptersResult.chapters || []).map((ch: any) => ({
+          id: ch.id,
+          number: ch.number,
+          title: ch.title,
+          thumbnail: ch.thumbnail || thumbnail,
+          pages: ch.pages || [],
+          language: ch.language || "ge",
+          external: ch.external || false,
+        }))
+      )
+      setChaptersLoading(false)
+    }
+
+    loadManga()
+    return () => { isMounted = false }
+  }, [mangaId])
+
+  const currentChapterId = room?.chapterId ?? summary?.chapterId
+  const currentChapter = useMemo(
+    () => allChapters.find(ch => ch.id === currentChapterId) || null,
+    [allChapters, currentChapterId]
+  )
+
+  // Where the session stopped counts as the participant's own progress
+  useEffect(() => {
+    if (!summary || !currentChapter?.id || historySavedRef.current) return
+    historySavedRef.current = true
+    updateReadingProgress({
+      mangaId: summary.mangaId,
+      chapterId: currentChapter.id,
+      chapterNumber: currentChapter.number,
+      chapterTitle: currentChapter.title,
+      currentPage: summary.lastPage,
+      totalPages: currentChapter.pages.length,
+      lastRead: summary.endedAt,
+      mangaTitle,
+      mangaThumbnail,
+      source: currentChapter.external ? "mangadex" : "local",
+    })
+  }, [summary, currentChapter, mangaTitle, mangaThumbnail])
+
+  // Keep prev/next navigation inside the language the room is reading in
+  const chapterList = useMemo(
+    () => allChapters.filter(ch => ch.language === (currentChapter?.language || "ge")),
+    [allChapters, currentChapter?.language]
+  )
+
+  const handleChapterSelect = useCallback((index: number) => {
+    const next = chapterList[index]
+    if (next?.id) sendChapter(next.id)
+  }, [chapterList, sendChapter])
+
+  const handleClose = () => {
+    router.push(mangaId ? `/manga/${mangaId}` : "/")
+  }
+
+  if (!isAuthLoading && !user) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center text-gray-400 bg-black">
+        <p className="text-xl mb-2">ერთად კითხვისთვის საჭიროა ავტორიზაცია</p>
+        <Link href="/login">
+          <Button className="mt-6 bg-purple-600 hover:bg-purple-700">შესვლა</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  if (status === "ended" && summary) {
+    return (
+      <LiveRoomSummary
+        summary={summary}
+        mangaTitle={mangaTitle}
+        chapterLabel={currentChapter ? `თავი ${currentChapter.number}` : null}
+        onClose={handleClose}
+      />
+    )
+  }
+
+  if (status === "kicked" || status === "error") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center bg-black p-8">
+        <h2 className="text-2xl font-bold mb-4">
+          {status === "kicked"
+            ? "მასპინძელმა ოთახიდან გაგიყვანათ"
+            : error === "You are not invited to this room"
+              ? "ამ ოთახში მოწვეული არ ხართ"
+              : "ოთახთან დაკავშირება ვერ მოხერხდა"}
+        </h2>
+        {status === "error" && error && (
+          <p className="text-xs text-red-400/70 mb-4 font-mono bg-red-900/20 p-2 rounded">{error}</p>
+        )}
+        <Button onClick={handleClose}>უკან დაბრუნება</Button>
+      </div>
+    )
+  }
+
+  if (!room || chaptersLoading || !currentChapter) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black">
+        <div className="flex flex-col items-center">
+          <Loader2 className="h-10 w-10 animate-spin text-purple-400 mb-4" />
+          <p className="text-gray-300">
+            {room && !chaptersLoading && !currentChapter ? "თავი ვერ მოიძებნა" : "ოთახთან დაკავშირება..."}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <MangaReader
+        key={currentChapter.id}
+        chapter={currentChapter}
+        chapterList={chapterList}
+        onClose={handleClose}
+        onChapterSelect={canControl ? handleChapterSelect : () => {}}
+        mangaId={room.mangaId}
+        mangaTitle={mangaTitle}
+        contentType={mangaMetadata.contentType}
+        genres={mangaMetadata.genres}
+        initialPage={room.pageIndex}
+        sharedPage={sharedPage}
+        onPageChange={sendPage}
+      />
+      <LiveRoomPanel
+        roomId={roomId}
+        participants={room.participants}
+        currentUserId={userId}
+        isHost={isHost}
+        reactions={reactions}
+        onReaction={sendReaction}
+        onKick={kick}
+        onMute={mute}
+        onPromote={promote}
+        onEnd={endRoom}
+      />
+      <LiveRoomChat
+        messages={messages}
+        isHost={isHost}
+        isMuted={!!me?.muted}
+        onSend={sendChat}
+        onDelete={deleteMessage}
+      />
+    </>
+  )
+}
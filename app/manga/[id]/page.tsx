@@ -38,10 +38,12 @@ import {
   Share2,
   Play,
   MessageCircle,
-  TrendingUp
+  TrendingUp,
+  Crown
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { MangaReader } from '@/components/manga-reader'
+import { ChapterDownloadButton } from '@/components/chapter-download-button'
 import { ImageSkeleton } from '@/components/image-skeleton'
 import { RelatedContent } from '@/components/related-content'
 import { RecommendedContent } from '@/components/recommended-content'
@@ -55,6 +57,8 @@ import { isValid } from "date-fns";
 import { getMangaProgress, getChapterProgress, getReadPercentage, getMangaTotalProgress, getLatestChapterRead, calculateMangaProgressByChapter, updateReadingProgress } from '@/lib/reading-history'
 import { Progress } from '@/components/ui/progress'
 import { MediaStatus, MediaType, getLibraryItem, getLibraryItemSync, hasStatus, hasStatusSync, updateItemStatus } from '@/lib/user-library'
+import { isTitleMuted, setTitleMuted } from '@/lib/notification-preferences'
+import { getBookmarkChapterId } from '@/lib/page-bookmarks'
 import { toast } from '@/components/ui/use-toast'
 import {
   DropdownMenu,
@@ -73,6 +77,8 @@ import { v4 as uuidv4 } from 'uuid'
 import { LogoLoader } from '@/components/logo-loader'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import Flag from 'react-world-flags'
+import { ScheduleView } from '@/components/schedule-view'
+import { isInEarlyAccess } from '@/lib/chapter-schedule'
 
 // Animation variants
 const pageVariants = {
@@ -823,6 +829,35 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
     });
   };
 
+  // Start a live reading room on the currently open chapter and move the host into it
+  const handleStartLive = async () => {
+    if (!isAuthenticated || !userId) {
+      toast({ title: "ერთად კითხვისთვის გთხოვთ შეხვიდეთ.", variant: "destructive" });
+      router.push('/login');
+      return;
+    }
+    const chapter = processedData?.chapterList[selectedChapter];
+    if (!chapter?.id) return;
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const res = await fetch('/api/live/rooms', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+        },
+        body: JSON.stringify({ mangaId, chapterId: chapter.id }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.roomId) throw new Error(json.error || 'Failed to create room');
+      router.push(`/live/${json.roomId}`);
+    } catch (error) {
+      console.error("Error creating live room:", error);
+      toast({ title: "ოთახის შექმნა ვერ მოხერხდა", variant: "destructive" });
+    }
+  };
+
   // Replace the generateMockChapters function with a formatChapters function
   const formatChapters = (chaptersData: any[] = []) => {
     if (!chaptersData || chaptersData.length === 0) {
@@ -840,6 +875,11 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
       pages: chapter.pages || ["/manga-page-placeholder.jpg"],
       language: chapter.language || 'ge',  // Add language field
       external: chapter.external || false,
+      // Scheduled chapters only reach admins and VIP members in early access
+      scheduled: chapter.scheduled || false,
+      release_date: chapter.release_date ?? null,
+      published_at: chapter.published_at,
+      early_access_at: chapter.early_access_at ?? null,
     }));
   };
 
@@ -962,6 +1002,24 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
     }
   }, [readingProgress, processedData, resumeHandled]);
 
+  // Bookmarks link here with ?chapter=<id>&page=<index> to open the reader on that page
+  const bookmarkLinkHandledRef = useRef(false);
+  useEffect(() => {
+    if (bookmarkLinkHandledRef.current || !processedData || typeof window === 'undefined') return;
+    const urlParams = new URLSearchParams(window.location.search);
+    const chapterParam = urlParams.get('chapter');
+    if (!chapterParam) return;
+
+    const chapterIndex = processedData.chapterList.findIndex(ch => getBookmarkChapterId(ch) === chapterParam);
+    // English chapters may still be loading; try again when the list changes
+    if (chapterIndex === -1) return;
+
+    bookmarkLinkHandledRef.current = true;
+    setSelectedChapter(chapterIndex);
+    setInitialReaderPage(Math.max(0, parseInt(urlParams.get('page') || '0', 10) || 0));
+    setIsReaderOpen(true);
+  }, [processedData]);
+
   // Check library status when manga data is loaded
   useEffect(() => {
     async function checkLibraryStatus() {
@@ -995,12 +1053,10 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
   useEffect(() => {
     async function checkSub() {
       if (mangaId && userId) {
-        // Conceptual: Call checkSubscription
-        // const { success, subscribed } = await checkSubscription(userId, mangaId);
-        const success = true; // Placeholder
-        const subscribed = false; // Placeholder
+        // Subscribed means new chapter notifications for this title aren't muted
+        const { success, muted } = await isTitleMuted(userId, mangaId);
         if (success) {
-          setIsSubscribed(subscribed);
+          setIsSubscribed(!muted);
         }
       }
     }
@@ -1023,11 +1079,8 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
     setIsSubscribed(!originalSubscribed);
 
     try {
-      // Conceptual: Call backend toggle function
-      // const { success, subscribed, error } = await toggleSubscription(userId, mangaId);
-      const success = true; // Placeholder
-      const subscribed = !originalSubscribed; // Placeholder
-      const error: any = null; // Placeholder - explicitly type as any
+      const subscribed = !originalSubscribed;
+      const { success, error } = await setTitleMuted(userId, mangaId, !subscribed);
 
       if (!success) {
         setIsSubscribed(originalSubscribed); // Revert optimistic update
@@ -1346,6 +1399,9 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                   mangaId={mangaId}
                   mangaTitle={processedData.title}
                   initialPage={initialReaderPage}
+                  onStartLive={handleStartLive}
+                  contentType="manga"
+                  genres={processedData.genres}
                 />
               </motion.div>
             ) : (
@@ -1806,6 +1862,12 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                                         <div className="text-xs text-gray-400 flex items-center gap-2 mt-1">
                                           <CalendarDays className="h-3 w-3" />
                                           {chapter.releaseDate}
+                                          {chapter.scheduled && (
+                                            <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-yellow-500/80 text-black flex items-center gap-1">
+                                              <Crown className="h-3 w-3" />
+                                              {isInEarlyAccess(chapter) ? "ადრეული წვდომა" : "დაგეგმილი"}
+                                            </span>
+                                          )}
                                           
                                           {readPercentage > 0 && (
                                             <span className={cn(
@@ -1833,7 +1895,14 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                                         )}
                                       </div>
                                     </div>
-                                    {/* REMOVED READ BUTTON */}
+                                    <ChapterDownloadButton
+                                      mangaId={mangaId}
+                                      mangaTitle={processedData.title}
+                                      mangaThumbnail={processedData.coverImage}
+                                      contentType="manga"
+                                      chapter={{ ...chapter, language: 'ge' }}
+                                      className="mr-2 md:mr-3"
+                                    />
                                   </motion.div>
                                 );
                               })}
@@ -1893,6 +1962,12 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                                         <div className="text-xs text-gray-400 flex items-center gap-2 mt-1">
                                           <CalendarDays className="h-3 w-3" />
                                           {chapter.releaseDate}
+                                          {chapter.scheduled && (
+                                            <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-yellow-500/80 text-black flex items-center gap-1">
+                                              <Crown className="h-3 w-3" />
+                                              {isInEarlyAccess(chapter) ? "ადრეული წვდომა" : "დაგეგმილი"}
+                                            </span>
+                                          )}
                                           
                                           {readPercentage > 0 && (
                                             <span className={cn(
@@ -1920,7 +1995,14 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                                         )}
                                       </div>
                                     </div>
-                                    {/* REMOVED READ BUTTON */}
+                                    <ChapterDownloadButton
+                                      mangaId={mangaId}
+                                      mangaTitle={processedData.title}
+                                      mangaThumbnail={processedData.coverImage}
+                                      contentType="manga"
+                                      chapter={{ ...chapter, language: 'en' }}
+                                      className="mr-2 md:mr-3"
+                                    />
                                   </motion.div>
                                 );
                               })}
@@ -1928,6 +2010,8 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                           )}
                         </TabsContent>
                       </Tabs>
+
+                      {isFromDatabase && <ScheduleView contentId={mangaId} className="mt-6" />}
                     </div>
                     
                     {/* Right side: Characters grid */}
@@ -2068,7 +2152,10 @@ export default function MangaPage({ params }: { params: Promise<{ id: string }>
                               title: chapter.title,
                               releaseDate: formatSafeDate(chapter.releaseDate),
                               thumbnail: chapter.thumbnail,
-                              pages: Array.isArray(chapter.pages) ? chapter.pages : []
+                              pages: Array.isArray(chapter.pages) ? chapter.pages : [],
+                              release_date: chapter.release_date,
+                              published_at: chapter.published_at,
+                              early_access_at: chapter.early_access_at
                             }))}
                           />
                         </motion.section>
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from 'next'
+
+// Served as /manifest.webmanifest; makes the site installable and opens offline downloads from the home screen
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'მანგანიმე',
+    short_name: 'მანგანიმე',
+    description: 'Explore anime and manga content',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#070707',
+    theme_color: '#070707',
+    icons: [
+      { src: '/images/manganimelogo.png', sizes: '256x256', type: 'image/png' },
+      { src: '/images/manganime.png', sizes: '1024x1024', type: 'image/png', purpose: 'any' },
+    ],
+    shortcuts: [
+      { name: 'ჩამოტვირთული თავები', url: '/downloads' },
+    ],
+  }
+}
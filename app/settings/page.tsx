@@ -128,6 +128,8 @@ export default function SettingsPage() {
                 initialSettings={{
                   email_notifications: profile.email_notifications ?? true,
                   push_notifications: profile.push_notifications ?? true,
+                  new_chapter_notifications: profile.new_chapter_notifications ?? true,
+                  notification_preferences: profile.notification_preferences ?? null,
                 }}
                 userId={user.id}
               />
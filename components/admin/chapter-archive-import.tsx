@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileArchive, Loader2, RotateCcw, Upload, CheckCircle2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import {
+  ArchivePage,
+  ChapterArchiveKind,
+  PageUploadStatus,
+  clearResumedUploads,
+  extractArchivePages,
+  getArchiveKind,
+  getArchiveUploadKey,
+  getChapterFolder,
+  getResumedUploads,
+  getSeriesFolder,
+  uploadChapterPages,
+  uploadChapterPdf,
+} from "@/lib/chapter-archive";
+
+type ChapterArchiveImportProps = {
+  contentId: string;
+  chapterNumber: number;
+  // Creates the chapter from the uploaded pages; resolves to whether it succeeded
+  onUploaded: (pages: string[]) => Promise<boolean>;
+  disabled?: boolean;
+};
+
+type ImportPhase = "idle" | "extracting" | "ready" | "uploading";
+
+export function ChapterArchiveImport({
+  contentId,
+  chapterNumber,
+  onUploaded,
+  disabled,
+}: ChapterArchiveImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [kind, setKind] = useState<ChapterArchiveKind | null>(null);
+  const [pages, setPages] = useState<ArchivePage[]>([]);
+  const [statuses, setStatuses] = useState<PageUploadStatus[]>([]);
+  const [phase, setPhase] = useState<ImportPhase>("idle");
+  const [seriesFolder, setSeriesFolder] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSeriesFolder(null);
+    getSeriesFolder(contentId).then(folder => {
+      if (!cancelled) setSeriesFolder(folder);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId]);
+
+  const validNumber = Number.isInteger(chapterNumber) && chapterNumber > 0;
+  const folder = validNumber && seriesFolder ? getChapterFolder(seriesFolder, chapterNumber) : "";
+  const doneCount = statuses.filter(status => status === "done").length;
+  const failedCount = statuses.filter(status => status === "failed").length;
+
+  const reset = () => {
+    setFile(null);
+    setKind(null);
+    setPages([]);
+    setStatuses([]);
+    setPhase("idle");
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return;
+    const selectedKind = getArchiveKind(selected);
+    if (!selectedKind) {
+      toast.error("Choose a .cbz, .zip or .pdf file");
+      return;
+    }
+
+    setFile(selected);
+    setKind(selectedKind);
+    setPages([]);
+    setStatuses([]);
+
+    if (selectedKind === "pdf") {
+      setPhase("ready");
+      return;
+    }
+
+    setPhase("extracting");
+    try {
+      const extracted = await extractArchivePages(selected);
+      setPages(extracted);
+      setPhase("ready");
+    } catch (error) {
+      console.error("Error reading chapter archive:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read the archive");
+      reset();
+    }
+  };
+
+  const finish = async (uploadKey: string, urls: string[]) => {
+    if (await onUploaded(urls)) {
+      clearResumedUploads(uploadKey);
+      reset();
+    } else {
+      // The pages stay uploaded; trying again only recreates the chapter
+      setPhase("ready");
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file || !kind) return;
+    if (!validNumber) {
+      toast.error("Set a valid chapter number first");
+      return;
+    }
+    if (!folder) return;
+
+    const uploadKey = getArchiveUploadKey(file, folder);
+    setPhase("uploading");
+    try {
+      if (kind === "pdf") {
+        const urls = await uploadChapterPdf(file, folder);
+        toast.success(`Uploaded PDF with ${urls.length} page${urls.length !== 1 ? "s" : ""}`);
+        await finish(uploadKey, urls);
+        return;
+      }
+
+      // Pick up where an earlier run for this archive and chapter stopped
+      const resumed = getResumedUploads(uploadKey, pages.length);
+      const resumedCount = resumed.filter(Boolean).length;
+      if (resumedCount > 0 && resumedCount < pages.length) {
+        toast.info(`Resuming: ${resumedCount} of ${pages.length} pages already uploaded`);
+      }
+      setStatuses(pages.map((_, i) => (resumed[i] ? "done" : "pending")));
+
+      const urls = await uploadChapterPages(pages, {
+        folder,
+        uploadKey,
+        uploaded: resumed,
+        onStatus: (index, status) => {
+          setStatuses(prev => prev.map((current, i) => (i === index ? status : current)));
+        },
+      });
+
+      const failed = urls.filter(url => !url).length;
+      if (failed > 0) {
+        toast.error(`${failed} page${failed !== 1 ? "s" : ""} failed to upload. Retry to send only those.`);
+        setPhase("ready");
+        return;
+      }
+      await finish(uploadKey, urls as string[]);
+    } catch (error) {
+      console.error("Error uploading chapter archive:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to upload the chapter");
+      setPhase("ready");
+    }
+  };
+
+  const statusIcon = (status: PageUploadStatus | undefined) => {
+    switch (status) {
+      case "uploading":
+        return <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />;
+      case "done":
+        return <CheckCircle2 className="h-3 w-3 text-green-500" />;
+      case "failed":
+        return <XCircle className="h-3 w-3 text-destructive" />;
+      default:
+        return <span className="h-3 w-3 rounded-full border border-muted-foreground/50" />;
+    }
+  };
+
+  const busy = phase === "extracting" || phase === "uploading";
+
+  return (
+    <div className="border border-dashed border-accent p-4 rounded-md bg-secondary/10">
+      <h4 className="text-sm font-medium mb-2 flex items-center">
+        <FileArchive className="h-4 w-4 mr-1 text-accent" />
+        Import from archive (CBZ/ZIP/PDF)
+      </h4>
+      <div className="flex flex-col gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".cbz,.zip,.pdf,application/zip,application/pdf"
+          className="text-sm file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-1.5 file:text-sm"
+          disabled={busy || disabled}
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+        <div className="text-xs text-muted-foreground italic">
+          {!validNumber
+            ? <>Set the chapter number to choose the upload folder</>
+            : folder
+              ? <>Pages go to "{folder}" and the chapter is created right after</>
+              : <>Finding the series folder...</>}
+        </div>
+
+        {phase === "extracting" && (
+          <p className="text-xs text-muted-foreground flex items-center">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Reading archive...
+          </p>
+        )}
+
+        {kind === "zip" && pages.length > 0 && (
+          <>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{pages.length} page{pages.length !== 1 && "s"} found</span>
+                {statuses.length > 0 && (
+                  <span>
+                    {doneCount}/{pages.length} uploaded{failedCount > 0 && `, ${failedCount} failed`}
+                  </span>
+                )}
+              </div>
+              {statuses.length > 0 && <Progress value={(doneCount / pages.length) * 100} className="h-2" />}
+            </div>
+            <ScrollArea className="h-32 border rounded-md p-2">
+              <div className="space-y-1">
+                {pages.map((page, index) => (
+                  <div
+                    key={page.name}
+                    className={cn(
+                      "flex items-center gap-2 bg-secondary/10 p-1 rounded text-xs",
+                      statuses[index] === "failed" && "bg-destructive/10"
+                    )}
+                  >
+                    {statusIcon(statuses[index])}
+                    <span className="w-8 text-muted-foreground">{index + 1}</span>
+                    <span className="truncate flex-1">{page.name}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+
+        {kind === "pdf" && file && (
+          <p className="text-xs text-muted-foreground truncate">
+            {file.name}: each PDF page becomes a chapter page
+          </p>
+        )}
+
+        {phase !== "idle" && phase !== "extracting" && (
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={handleUpload}
+              disabled={busy || disabled || !validNumber}
+            >
+              {phase === "uploading" ? (
+                <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Uploading...</>
+              ) : failedCount > 0 ? (
+                <><RotateCcw className="h-4 w-4 mr-2" /> Retry failed pages ({failedCount})</>
+              ) : (
+                <><Upload className="h-4 w-4 mr-2" /> Upload & create chapter</>
+              )}
+            </Button>
+            <Button type="button" variant="ghost" onClick={reset} disabled={busy}>
+              Clear
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
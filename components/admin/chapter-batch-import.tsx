@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { FileArchive, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { listArchiveImages } from "@/lib/chapter-archive";
+import {
+  ChapterImportJob,
+  DetectedChapter,
+  ImportConflict,
+  ImportLanguage,
+  createImportJob,
+  detectArchiveChapters,
+  findImportConflicts,
+  getExistingChapterNumbers,
+  getImportJobs,
+  runChapterImport,
+} from "@/lib/chapter-import";
+
+type ChapterBatchImportProps = {
+  contentId: string;
+  onCancel: () => void;
+};
+
+// A detected chapter as the admin edits it in the preview
+type PlannedChapter = Omit<DetectedChapter, "number"> & {
+  number: string;
+  include: boolean;
+};
+
+const CONFLICT_LABELS: Record<ImportConflict, string> = {
+  existing: "Already exists",
+  archive: "Duplicate in archive",
+  "missing-number": "No chapter number",
+};
+
+function parseNumber(value: string): number | null {
+  const number = Number(value.replace(",", "."));
+  return value.trim() && Number.isFinite(number) ? number : null;
+}
+
+export function ChapterBatchImport({ contentId, onCancel }: ChapterBatchImportProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState<ImportLanguage>("ge");
+  const [chapters, setChapters] = useState<PlannedChapter[]>([]);
+  const [existingNumbers, setExistingNumbers] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [recentJobs, setRecentJobs] = useState<ChapterImportJob[]>([]);
+
+  useEffect(() => {
+    getImportJobs(contentId, 5)
+      .then(setRecentJobs)
+      .catch(error => console.error("Error loading import jobs:", error));
+  }, [contentId]);
+
+  // Duplicates are checked per language, the same number can exist in both
+  useEffect(() => {
+    getExistingChapterNumbers(contentId, language)
+      .then(setExistingNumbers)
+      .catch(error => {
+        console.error("Error loading existing chapters:", error);
+        toast.error("Failed to load existing chapters");
+      });
+  }, [contentId, language]);
+
+  const conflicts = useMemo(
+    () => findImportConflicts(
+      chapters.map(chapter => ({ number: parseNumber(chapter.number), include: chapter.include })),
+      existingNumbers
+    ),
+    [chapters, existingNumbers]
+  );
+  const included = chapters.filter(chapter => chapter.include);
+  const blocking = chapters.some((chapter, i) => chapter.include && conflicts[i]);
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return;
+    if (!/\.(zip|cbz)$/i.test(selected.name)) {
+      toast.error("Choose a .zip or .cbz file");
+      return;
+    }
+
+    setIsReading(true);
+    setChapters([]);
+    try {
+      const detected = detectArchiveChapters(await listArchiveImages(selected));
+      const planned = detected.map(chapter => ({
+        ...chapter,
+        number: chapter.number === null ? "" : String(chapter.number),
+        include: true,
+      }));
+      // Leave out what can't be imported as detected; the admin can fix and re-include
+      const initialConflicts = findImportConflicts(detected.map(chapter => ({ number: chapter.number, include: true })), existingNumbers);
+      setChapters(planned.map((chapter, i) => ({ ...chapter, include: !initialConflicts[i] })));
+      setFile(selected);
+      toast.success(`Found ${detected.length} chapter folder${detected.length !== 1 ? "s" : ""}`);
+    } catch (error) {
+      console.error("Error reading chapter archive:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read the archive");
+      setFile(null);
+      if (inputRef.current) inputRef.current.value = "";
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateChapter = (index: number, changes: Partial<PlannedChapter>) => {
+    setChapters(prev => prev.map((chapter, i) => (i === index ? { ...chapter, ...changes } : chapter)));
+  };
+
+  const handleStart = async () => {
+    if (!file || included.length === 0 || blocking) return;
+    setIsStarting(true);
+    try {
+      const job = await createImportJob(
+        contentId,
+        language,
+        file,
+        included.map(chapter => ({ ...chapter, number: parseNumber(chapter.number) }))
+      );
+      // Keeps running in this tab while the admin watches the status page
+      runChapterImport(job, file).catch(error => {
+        console.error("Chapter import failed:", error);
+        toast.error(error instanceof Error ? error.message : "Chapter import failed");
+      });
+      router.push(`/admin/imports/${job.id}`);
+    } catch (error) {
+      console.error("Error starting chapter import:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start the import");
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-1">
+      <div>
+        <h3 className="text-lg font-medium mb-2">1. Choose an archive</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          A ZIP with one folder per chapter, e.g. "Chapter 001/", "Ch.2/", "vol1_ch3/" or "Chapter 10.5 - Title/".
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_180px] gap-4">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".zip,.cbz,application/zip"
+            className="text-sm file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-1.5 file:text-sm"
+            disabled={isReading || isStarting}
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+          />
+          <Select value={language} onValueChange={(value) => setLanguage(value as ImportLanguage)} disabled={isStarting}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select language" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ge">Georgian</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {isReading && (
+          <p className="text-sm text-muted-foreground flex items-center mt-2">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Reading archive...
+          </p>
+        )}
+      </div>
+
+      {chapters.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium mb-2">2. Check the chapters ({included.length} of {chapters.length} selected)</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Numbers and titles come from the folder names. Chapters that already exist or appear twice are left out.
+          </p>
+          <ScrollArea className="h-72 border rounded-md p-2 bg-muted/20">
+            <div className="space-y-2">
+              {chapters.map((chapter, index) => {
+                const conflict = conflicts[index];
+                return (
+                  <div key={chapter.folder || "(root)"} className="flex items-center gap-2 p-2 border rounded-md bg-background">
+                    <Checkbox
+                      checked={chapter.include}
+                      onCheckedChange={(checked) => updateChapter(index, { include: checked === true })}
+                      aria-label={`Import ${chapter.folder || "archive root"}`}
+                    />
+                    <Input
+                      value={chapter.number}
+                      onChange={(e) => updateChapter(index, { number: e.target.value })}
+                      className="w-20 h-8"
+                      inputMode="decimal"
+                      placeholder="#"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <Input
+                        value={chapter.title}
+                        onChange={(e) => updateChapter(index, { title: e.target.value })}
+                        className="h-8"
+                        placeholder="Chapter title"
+                      />
+                      <p className="text-xs text-muted-foreground truncate" title={chapter.folder}>
+                        {chapter.folder || "(archive root)"} · {chapter.pages.length} pages
+                      </p>
+                    </div>
+                    {conflict ? (
+                      <Badge variant={chapter.include ? "destructive" : "outline"} className="whitespace-nowrap">
+                        {CONFLICT_LABELS[conflict]}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="whitespace-nowrap">New</Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+          {blocking && (
+            <p className="text-sm text-destructive mt-2">
+              Fix or untick the selected chapters marked in red before starting.
+            </p>
+          )}
+        </div>
+      )}
+
+      {recentJobs.length > 0 && (
+        <div>
+          <Label className="text-sm">Recent imports</Label>
+          <div className="mt-2 space-y-1">
+            {recentJobs.map(job => (
+              <Link
+                key={job.id}
+                href={`/admin/imports/${job.id}`}
+                className="flex items-center justify-between text-sm p-2 rounded-md hover:bg-secondary/30"
+              >
+                <span className="flex items-center gap-2 truncate">
+                  <FileArchive className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span className="truncate">{job.source_name}</span>
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap ml-2">
+                  {job.status} · {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isStarting}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleStart}
+          disabled={!file || included.length === 0 || blocking || isReading || isStarting}
+        >
+          {isStarting ? (
+            <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Starting...</>
+          ) : (
+            `Import ${included.length} Chapter${included.length === 1 ? "" : "s"}`
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { CalendarIcon, Loader2, Plus, X, ImagePlus, FolderOpen } from "lucide-react";
+import { CalendarIcon, Loader2, Plus, X, ImagePlus, FolderOpen, AlertTriangle, ScanSearch } from "lucide-react";
 import { format, isValid } from "date-fns";
 import { toast } from "sonner";
 
@@ -29,6 +29,15 @@ import { Calendar } from "@/components/ui/calendar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChapterArchiveImport } from "@/components/admin/chapter-archive-import";
+import {
+  PageAnalysis,
+  PageWarning,
+  analyzeChapterPages,
+  getPagesKey,
+  getPreviousChapterPages,
+} from "@/lib/page-analysis";
+import { EARLY_ACCESS_OPTIONS, getEarlyAccessAt } from "@/lib/chapter-schedule";
 
 // Form schema for chapter validation
 const chapterSchema = z.object({
@@ -48,11 +57,25 @@ const chapterSchema = z.object({
   ).optional(), // Make the entire processed field optional
   pages: z.array(z.string().url("Invalid page URL")).min(1, "At least one page is required"),
   releaseDate: z.date().optional(),
+  // Hours before the release date VIP members can read a scheduled chapter
+  earlyAccessHours: z.coerce.number().min(0).default(0),
   language: z.enum(['ge', 'en']).default('ge'),
 });
 
 type ChapterFormValues = z.infer<typeof chapterSchema>;
 
+// "HH:mm" of a release date, for the time input next to the date picker
+function getTimeOfDay(date: Date | undefined): string {
+  return date && isValid(date) ? format(date, "HH:mm") : "00:00";
+}
+
+function setTimeOfDay(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+}
+
 type ChapterFormProps = {
   initialData?: any;
   contentId: string;
@@ -75,6 +98,10 @@ export default function ChapterForm({
   const [cloudinaryFolder, setCloudinaryFolder] = useState("");
   const [isLoadingCloudinary, setIsLoadingCloudinary] = useState(false);
   const [cloudinaryImages, setCloudinaryImages] = useState<Array<{id: string, url: string, filename: string}>>([]);
+  const [pageAnalysis, setPageAnalysis] = useState<PageAnalysis | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ done: number; total: number } | null>(null);
+  // Pages whose warnings the admin has been shown; saving them again goes ahead
+  const [reviewedPagesKey, setReviewedPagesKey] = useState<string | null>(null);
   
   // Set default values for the form
   const defaultValues = initialData ? {
@@ -89,6 +116,7 @@ export default function ChapterForm({
     // Ensure pages is an array
     pages: Array.isArray(initialData.pages) ? initialData.pages : [],
     language: initialData?.language ?? 'ge',
+    earlyAccessHours: initialData?.earlyAccessHours ?? 0,
   } : {
     number: 1,
     title: "",
@@ -96,6 +124,7 @@ export default function ChapterForm({
     thumbnail: "",
     pages: [],
     releaseDate: undefined,
+    earlyAccessHours: 0,
     language: 'ge',
   };
 
@@ -105,6 +134,16 @@ export default function ChapterForm({
   });
 
   const watchedPages = form.watch("pages");
+  const watchedNumber = Number(form.watch("number"));
+  const watchedReleaseDate = form.watch("releaseDate");
+  const isScheduled = !!watchedReleaseDate && watchedReleaseDate > new Date();
+  const watchedPagesKey = getPagesKey(watchedPages);
+  // Warnings only apply while the pages are the ones that were analysed
+  const pageWarnings = pageAnalysis?.key === watchedPagesKey ? pageAnalysis.warnings : [];
+  const warningsByPage = new Map<number, PageWarning[]>();
+  pageWarnings.forEach(warning => {
+    warningsByPage.set(warning.pageIndex, [...(warningsByPage.get(warning.pageIndex) || []), warning]);
+  });
 
   useEffect(() => {
     // Load saved service role key from localStorage, if any
@@ -214,7 +253,67 @@ export default function ChapterForm({
     toast.success(`Added ${imageUrls.length} images to pages`);
   };
 
-  const onSubmit = async (data: ChapterFormValues) => {
+  const runPageAnalysis = async (pages: string[]): Promise<PageAnalysis> => {
+    setAnalysisProgress({ done: 0, total: pages.length });
+    try {
+      const previousPages = await getPreviousChapterPages(
+        contentId,
+        Number(form.getValues("number")),
+        form.getValues("language")
+      );
+      const analysis = await analyzeChapterPages(pages, previousPages, (done, total) => setAnalysisProgress({ done, total }));
+      setPageAnalysis(analysis);
+      return analysis;
+    } finally {
+      setAnalysisProgress(null);
+    }
+  };
+
+  const handleAnalyzePages = async () => {
+    if (watchedPages.length === 0) return;
+    const analysis = await runPageAnalysis(watchedPages);
+    if (analysis.warnings.length === 0) {
+      toast.success("No problems found in the pages");
+    } else {
+      toast.warning(`${analysis.warnings.length} page warning${analysis.warnings.length !== 1 ? "s" : ""} found`);
+    }
+  };
+
+  // Saving is held back once when the pages have warnings, so they get looked at first
+  const checkPagesBeforeSave = async (pages: string[]): Promise<boolean> => {
+    const key = getPagesKey(pages);
+    if (initialData && key === getPagesKey(initialData.pages || [])) return true;
+    const analysis = pageAnalysis?.key === key ? pageAnalysis : await runPageAnalysis(pages);
+    if (analysis.warnings.length === 0 || reviewedPagesKey === key) return true;
+
+    setReviewedPagesKey(key);
+    toast.warning(
+      `${analysis.warnings.length} page warning${analysis.warnings.length !== 1 ? "s" : ""} found. Review them, then save again to continue.`
+    );
+    return false;
+  };
+
+  // Archive import: the pages are already in Cloudinary, fill the form and create the chapter
+  const handleArchiveUploaded = async (pages: string[]): Promise<boolean> => {
+    form.setValue("pages", pages, { shouldValidate: true });
+    if (!form.getValues("title")?.trim()) {
+      form.setValue("title", `Chapter ${watchedNumber}`);
+    }
+    if (!form.getValues("thumbnail")) {
+      form.setValue("thumbnail", pages[0]);
+    }
+
+    const parsed = chapterSchema.safeParse(form.getValues());
+    if (!parsed.success) {
+      await form.trigger();
+      toast.error("Pages are uploaded; fix the form and create the chapter");
+      return false;
+    }
+    return onSubmit(parsed.data);
+  };
+
+  const onSubmit = async (data: ChapterFormValues): Promise<boolean> => {
+    if (!(await checkPagesBeforeSave(data.pages))) return false;
     setIsLoading(true);
     
     try {
@@ -234,7 +333,7 @@ export default function ChapterForm({
         if (!adminCheckData.isAdmin) {
           toast.error("Admin privileges required to manage chapters");
           setIsLoading(false);
-          return;
+          return false;
         }
       }
       
@@ -253,6 +352,7 @@ export default function ChapterForm({
         title: data.title || `Chapter ${data.number}`, // Provide default title if empty
         pages: processedPages,
         release_date: data.releaseDate || null,
+        early_access_at: getEarlyAccessAt(data.releaseDate, data.earlyAccessHours),
         thumbnail: thumbnail,
         language: data.language,
       };
@@ -280,13 +380,13 @@ export default function ChapterForm({
       if (response.status === 401) {
         toast.error("Authentication required. Please log in again.");
         setIsLoading(false);
-        return;
+        return false;
       }
       
       if (response.status === 403) {
         toast.error("You don't have admin privileges to manage chapters.");
         setIsLoading(false);
-        return;
+        return false;
       }
       
       if (!response.ok) {
@@ -323,12 +423,18 @@ export default function ChapterForm({
       } else {
         // Parse successful response
         const data = await response.json();
-        toast.success(`Chapter ${data.number || ''} ${initialData ? 'updated' : 'created'} successfully`);
+        if (!data.published_at && data.release_date) {
+          toast.success(`Chapter ${data.number || ''} scheduled for ${format(new Date(data.release_date), "PPP p")}`);
+        } else {
+          toast.success(`Chapter ${data.number || ''} ${initialData ? 'updated' : 'created'} successfully`);
+        }
         onSuccess();
+        return true;
       }
     } catch (error) {
       console.error('Error saving chapter:', error);
       toast.error(error instanceof Error ? error.message : "Failed to save chapter");
+      return false;
     } finally {
       setIsLoading(false);
     }
@@ -365,42 +471,81 @@ export default function ChapterForm({
             render={({ field }) => (
               <FormItem className="flex flex-col">
                 <FormLabel>Release Date</FormLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <FormControl>
-                      <Button
-                        variant="outline"
-                        className={cn(
-                          "pl-3 text-left font-normal",
-                          !field.value && "text-muted-foreground"
-                        )}
-                      >
-                        {field.value && isValid(field.value) ? (
-                          format(field.value, "PPP")
-                        ) : (
-                          <span>Pick a date</span>
-                        )}
-                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                      </Button>
-                    </FormControl>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={field.value}
-                      onSelect={field.onChange}
-                      initialFocus
-                    />
-                  </PopoverContent>
-                </Popover>
+                <div className="flex gap-2">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "flex-1 pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value && isValid(field.value) ? (
+                            format(field.value, "PPP")
+                          ) : (
+                            <span>Pick a date</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={(date) => field.onChange(date ? setTimeOfDay(date, getTimeOfDay(field.value)) : undefined)}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    aria-label="Release time"
+                    value={getTimeOfDay(field.value)}
+                    disabled={!field.value}
+                    onChange={(e) => field.value && field.onChange(setTimeOfDay(field.value, e.target.value))}
+                  />
+                </div>
                 <FormDescription>
-                  The date when this chapter was released
+                  {isScheduled
+                    ? "Scheduled: readers see this chapter from this date and time on"
+                    : "The date when this chapter was released. A future date schedules it."}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
         </div>
+
+        {isScheduled && (
+          <FormField
+            control={form.control}
+            name="earlyAccessHours"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>VIP Early Access</FormLabel>
+                <Select value={String(field.value ?? 0)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EARLY_ACCESS_OPTIONS.map(hours => (
+                      <SelectItem key={hours} value={String(hours)}>
+                        {hours === 0 ? "None" : `${hours} hours before release`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  VIP members can read the chapter this long before everyone else
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+        )}
         
         <FormField
           control={form.control}
@@ -572,6 +717,15 @@ export default function ChapterForm({
                     </div>
                   )}
                 </div>
+
+                {!initialData && (
+                  <ChapterArchiveImport
+                    contentId={contentId}
+                    chapterNumber={watchedNumber}
+                    onUploaded={handleArchiveUploaded}
+                    disabled={isLoading}
+                  />
+                )}
                 
                 {watchedPages.length > 0 ? (
                   <ScrollArea className="h-64 border rounded-md p-2">
@@ -586,6 +740,14 @@ export default function ChapterForm({
                               <ImagePlus className="h-4 w-4 text-muted-foreground" />
                             </div>
                             <span className="text-sm truncate">{page}</span>
+                            {warningsByPage.has(index) && (
+                              <span
+                                className="flex-shrink-0"
+                                title={warningsByPage.get(index)!.map(warning => warning.message).join("\n")}
+                              >
+                                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
                             <Button
@@ -658,9 +820,43 @@ export default function ChapterForm({
                 )}
                 
                 {watchedPages.length > 0 && (
-                  <p className="text-sm text-muted-foreground">
-                    {watchedPages.length} page{watchedPages.length !== 1 && "s"} added
-                  </p>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {watchedPages.length} page{watchedPages.length !== 1 && "s"} added
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleAnalyzePages}
+                      disabled={!!analysisProgress || isLoading}
+                    >
+                      {analysisProgress ? (
+                        <><Loader2 className="h-4 w-4 mr-1 animate-spin" /> Checking {analysisProgress.done}/{analysisProgress.total}</>
+                      ) : (
+                        <><ScanSearch className="h-4 w-4 mr-1" /> Check pages</>
+                      )}
+                    </Button>
+                  </div>
+                )}
+
+                {pageWarnings.length > 0 && (
+                  <div className="border border-yellow-500/40 bg-yellow-500/5 rounded-md p-3 space-y-1">
+                    <p className="text-sm font-medium flex items-center text-yellow-500">
+                      <AlertTriangle className="h-4 w-4 mr-1" />
+                      {pageWarnings.length} page warning{pageWarnings.length !== 1 && "s"}
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto space-y-0.5 text-xs text-muted-foreground">
+                      {pageWarnings.map((warning, index) => (
+                        <li key={index}>
+                          <span className="font-medium text-foreground">Page {warning.pageIndex + 1}:</span> {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-muted-foreground italic">
+                      Fix the pages, or save again to keep them as they are.
+                    </p>
+                  </div>
                 )}
                 
                 <FormMessage />
@@ -690,13 +886,13 @@ export default function ChapterForm({
             >
               {showServiceKeyInput ? "Hide API Key" : "API Key"}
             </Button>
-            <Button type="submit" disabled={isLoading}>
+            <Button type="submit" disabled={isLoading || !!analysisProgress}>
               {isLoading ? (
                 <>
                   <span className="animate-pulse">Saving...</span>
                 </>
               ) : (
-                <>{initialData ? 'Update' : 'Create'} Chapter</>
+                <>{pageWarnings.length > 0 && reviewedPagesKey === watchedPagesKey ? 'Save Anyway' : `${initialData ? 'Update' : 'Create'} Chapter`}</>
               )}
             </Button>
           </div>
@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/components/supabase-auth-provider";
 import ChapterForm from "./chapter-form";
 import { Button } from "@/components/ui/button";
-import { Plus, Edit, Trash2, AlertCircle } from "lucide-react";
+import { Plus, Edit, Trash2, AlertCircle, Clock, Send } from "lucide-react";
 import { 
   Tooltip,
   TooltipContent,
@@ -31,6 +31,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import { getEarlyAccessHours, isChapterScheduled } from "@/lib/chapter-schedule";
 
 type Chapter = {
   id: string;
@@ -39,6 +41,10 @@ type Chapter = {
   releaseDate?: string;
   thumbnail?: string;
   pages: string[];
+  // Database fields, present when the chapter comes from the API
+  release_date?: string | null;
+  published_at?: string | null;
+  early_access_at?: string | null;
 };
 
 type ChapterManagerProps = {
@@ -226,6 +232,34 @@ export default function ChapterManager({
     }
   }
   
+  // Moves a scheduled chapter's release to now; the API publishes and announces it
+  async function publishNow(chapter: Chapter) {
+    try {
+      const serviceRoleKey = typeof window !== 'undefined' ? localStorage.getItem('serviceRoleKey') : null;
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (serviceRoleKey) {
+        headers['x-supabase-service-role'] = serviceRoleKey;
+      }
+
+      const response = await fetch(`/api/chapters?id=${chapter.id}`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers,
+        body: JSON.stringify({ release_date: new Date().toISOString() }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to publish chapter");
+      }
+
+      toast.success(`Chapter ${chapter.number} published`);
+      fetchChapters();
+      if (onChaptersUpdated) onChaptersUpdated();
+    } catch (error) {
+      console.error("Error publishing chapter:", error);
+      toast.error("Failed to publish chapter");
+    }
+  }
+
   const handleFormSuccess = () => {
     setShowForm(false);
     setEditingChapter(null);
@@ -282,7 +316,8 @@ export default function ChapterManager({
                     id: editingChapter.id,
                     number: editingChapter.number,
                     title: editingChapter.title,
-                    releaseDate: getValidDateOrUndefined(editingChapter.releaseDate),
+                    releaseDate: getValidDateOrUndefined(editingChapter.release_date || editingChapter.releaseDate),
+                    earlyAccessHours: getEarlyAccessHours(editingChapter),
                     thumbnail: editingChapter.thumbnail || "",
                     pages: Array.isArray(editingChapter.pages) ? editingChapter.pages : []
                   } : undefined}
@@ -318,8 +353,18 @@ export default function ChapterManager({
                   <div className="flex items-center gap-2">
                     <span className="bg-gray-800 px-2 py-1 rounded text-xs">#{chapter.number}</span>
                     <h4 className="font-medium">{chapter.title}</h4>
+                    {isChapterScheduled(chapter) && (
+                      <span className="bg-purple-900/40 text-purple-300 px-2 py-0.5 rounded text-xs flex items-center gap-1">
+                        <Clock className="h-3 w-3" /> Scheduled
+                      </span>
+                    )}
                   </div>
-                  {chapter.releaseDate && (
+                  {isChapterScheduled(chapter) && chapter.release_date ? (
+                    <p className="text-sm text-gray-400 mt-1">
+                      Publishes {format(new Date(chapter.release_date), "PPP p")}
+                      {chapter.early_access_at && ` · VIP from ${format(new Date(chapter.early_access_at), "PPP p")}`}
+                    </p>
+                  ) : chapter.releaseDate && (
                     <p className="text-sm text-gray-400 mt-1">
                       Released: {(() => {
                         try {
@@ -333,6 +378,23 @@ export default function ChapterManager({
                 </div>
                 
                 <div className="flex items-center gap-2">
+                  {isChapterScheduled(chapter) && (
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button 
+                            variant="ghost" 
+                            size="icon"
+                            onClick={() => publishNow(chapter)}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Publish now</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )}
+
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
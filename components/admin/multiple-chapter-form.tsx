@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { CloudinaryFolderSelector, CloudinaryFolder } from './cloudinary-folder-selector';
+import { ChapterBatchImport } from './chapter-batch-import';
 
 interface GeneratedChapter {
   number: number;
@@ -41,6 +42,8 @@ export default function MultipleChapterForm({
 }: MultipleChapterFormProps): JSX.Element {
   const [isLoading, setIsLoading] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  // Chapters either come from folders already in Cloudinary or from a ZIP uploaded here
+  const [source, setSource] = useState<"cloudinary" | "archive">("cloudinary");
   
   const [selectedCloudinaryFolders, setSelectedCloudinaryFolders] = useState<CloudinaryFolder[]>([]);
   const [startChapterNumber, setStartChapterNumber] = useState<number>(1);
@@ -119,18 +122,38 @@ export default function MultipleChapterForm({
     }
     setIsLoading(true);
     try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      const serviceRoleKey = typeof window !== "undefined" ? localStorage.getItem("serviceRoleKey") : null;
+      if (serviceRoleKey) {
+        headers["x-supabase-service-role"] = serviceRoleKey;
+      }
+
       const response = await fetch("/api/chapters/bulk", { 
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(generatedChapters),
+        headers,
+        credentials: "include",
+        body: JSON.stringify({ chapters: generatedChapters, onConflict: "skip" }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to create chapters in bulk");
+      const data = await response.json().catch(() => ({}));
+      if (!Array.isArray(data.results)) {
+        throw new Error(data.error || "Failed to create chapters in bulk");
+      }
+
+      // Rows are reported one by one; existing chapters are skipped, not duplicated
+      const failedRows = data.results.filter((result: { status: string }) => result.status === "error");
+      failedRows.forEach((result: { index: number; error?: string }) => {
+        const chapter = generatedChapters[result.index];
+        toast.error(`Chapter ${chapter?.number ?? result.index + 1}: ${result.error || "failed"}`);
+      });
+      if (data.skipped > 0) {
+        toast.info(`${data.skipped} chapter(s) already existed and were skipped`);
+      }
+      if (failedRows.length === generatedChapters.length) {
+        return;
       }
 
-      toast.success(`Successfully created ${generatedChapters.length} chapter(s)!`);
+      toast.success(`Successfully created ${data.created} chapter(s)!`);
       onSuccess();
     } catch (error) {
       console.error("Error creating chapters in bulk:", error);
@@ -140,8 +163,41 @@ export default function MultipleChapterForm({
     }
   }
 
+  const sourceSwitch = (
+    <div className="flex gap-2">
+      <Button
+        type="button"
+        size="sm"
+        variant={source === "cloudinary" ? "secondary" : "ghost"}
+        onClick={() => setSource("cloudinary")}
+        disabled={isLoading || isPreviewLoading}
+      >
+        Cloudinary folders
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant={source === "archive" ? "secondary" : "ghost"}
+        onClick={() => setSource("archive")}
+        disabled={isLoading || isPreviewLoading}
+      >
+        ZIP archive
+      </Button>
+    </div>
+  );
+
+  if (source === "archive") {
+    return (
+      <div className="space-y-4 p-1">
+        {sourceSwitch}
+        <ChapterBatchImport contentId={contentId} onCancel={onCancel} />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 p-1">
+      {sourceSwitch}
       <div>
         <h3 className="text-lg font-medium mb-2">1. Select Chapter Folders from Cloudinary</h3>
         <p className="text-sm text-muted-foreground mb-4">
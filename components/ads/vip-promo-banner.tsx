@@ -1,5 +1,5 @@
 import React from "react";
-import { Crown, ShieldCheck, Star, Zap } from "lucide-react";
+import { Clock, Crown, ShieldCheck, Star, Zap } from "lucide-react";
 import Link from "next/link";
 import { useAuth } from "@/components/supabase-auth-provider";
 import { motion } from "framer-motion";
@@ -15,6 +15,7 @@ const BENEFITS: { icon: React.ReactNode; label: string }[] = [
   { icon: <Star className="h-4 w-4 text-yellow-400" />, label: "VIP ნიშანი პროფილსა და კომენტარებში" },
   { icon: <ShieldCheck className="h-4 w-4 text-green-400" />, label: "რეკლამების გარეშე გამოცდილება" },
   { icon: <Zap className="h-4 w-4 text-purple-400" />, label: "GIF ავატარი და პერსონალური ბანერი" },
+  { icon: <Clock className="h-4 w-4 text-yellow-400" />, label: "ახალ თავებზე ადრეული წვდომა" },
 ];
 
 export function VipPromoBanner({ className }: VipPromoBannerProps) {
@@ -9,6 +9,7 @@ import {
   TrendingUp,
   Lightbulb,
   Users,
+  Download,
   Play,
   User,
   ChevronLeft,
@@ -40,11 +41,11 @@ import { toast } from "sonner"
 import { formatDistanceToNow } from "date-fns"
 import { Button } from "@/components/ui/button"
 import { 
-  getUserNotifications,
   Notification,
-  getUnreadNotificationCount,
-  markNotificationsAsRead
+  NotificationGroup,
+  describeNotificationGroup
 } from "@/lib/notifications"
+import { useNotifications } from "@/hooks/use-notifications"
 import { ka } from "date-fns/locale"
 import { supabase } from "@/lib/supabase"
 import { Variants } from "framer-motion"
@@ -165,12 +166,22 @@ export function AppSidebar() {
   const [isMangaReaderOpen, setIsMangaReaderOpen] = useState(false);
   const { user, profile, signOut: supabaseSignOut } = useAuth();
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
-  const [isLoadingNotifs, setIsLoadingNotifs] = useState(false);
-  const [notifLoadError, setNotifLoadError] = useState(false);
+  const {
+    notifications,
+    groups: notificationGroups,
+    unreadCount,
+    setUnreadCount,
+    hasMore: hasMoreNotifs,
+    isLoading: isLoadingNotifs,
+    isLoadingMore: isLoadingMoreNotifs,
+    loadError: notifLoadError,
+    refresh: refreshNotifications,
+    loadMore: loadMoreNotifications,
+    markRead: markNotificationsRead,
+    markAllRead: markAllNotificationsRead,
+    removeNotification,
+  } = useNotifications(user?.id ?? null);
   const [isExpanded, setIsExpanded] = useState(false);
-  // Removed Supabase Realtime subscription state – polling only
   
   // Check if we're on mobile - only run on client side
   useEffect(() => {
@@ -208,69 +219,6 @@ export function AppSidebar() {
     return () => observer.disconnect();
   }, []);
   
-  // Update the existing useEffect to fetch the unread count
-  useEffect(() => {
-    let isMounted = true;
-    
-    async function fetchUnreadCount() {
-      if (user) {
-        try {
-          const { success, count } = await getUnreadNotificationCount(user.id);
-          if (success && isMounted) {
-            setUnreadCount(count || 0);
-          }
-        } catch (error) {
-          console.error("Error fetching unread count:", error);
-        }
-      }
-    }
-    
-    fetchUnreadCount();
-    
-    // Set up interval to periodically refresh the unread count
-    const intervalId = setInterval(fetchUnreadCount, 60000); // Check every minute
-    
-    return () => {
-      isMounted = false;
-      clearInterval(intervalId);
-    };
-  }, [user]);
-  
-  // Notifications polling – Supabase Realtime is disabled
-  useEffect(() => {
-    if (!user) return;
-
-    let pollInterval: NodeJS.Timeout | null = null;
-
-    async function fetchLatestNotifications() {
-      if (!user) return;
-      try {
-        const { success, count } = await getUnreadNotificationCount(user.id);
-        if (success) {
-          setUnreadCount(count || 0);
-        }
-
-        // If the notifications panel is open, also refresh the notifications list
-        if (isNotificationsOpen) {
-          const { success, notifications } = await getUserNotifications(user.id);
-          if (success && notifications) {
-            setNotifications(notifications);
-          }
-        }
-      } catch (error) {
-        console.error('[notifications] Error fetching notifications:', error);
-      }
-    }
-
-    // Initial fetch and interval
-    fetchLatestNotifications();
-    pollInterval = setInterval(fetchLatestNotifications, 30000); // every 30s
-
-    return () => {
-      if (pollInterval) clearInterval(pollInterval);
-    };
-  }, [user, isNotificationsOpen]);
-  
   // Function to toggle search modal
   const toggleSearch = () => {
     setIsSearchOpen(!isSearchOpen);
@@ -294,96 +242,18 @@ export function AppSidebar() {
     }
   };
   
-  // Update the openNotifications function
-  const openNotifications = async () => {
+  // Unread notifications stay unread until they're opened or marked read
+  const openNotifications = () => {
     if (!user) {
       toast.error("შეტყობინებების სანახავად გთხოვთ, შეხვიდეთ სისტემაში.");
       return;
     }
-    
     setIsNotificationsOpen(true);
-    
-    // Reset error state on each attempt
-    setNotifLoadError(false);
-    
-    // Show loading only if we don't have cached notifications
-    setIsLoadingNotifs(true);
-    
-    try {
-      // Use a shorter timeout for better user experience
-      const timeoutId = setTimeout(() => {
-        // If still loading after 3 seconds, show a message
-        if (isLoadingNotifs) {
-          toast.info("იტვირთება შეტყობინები...");
-        }
-      }, 3000);
-      
-      if (SIDEBAR_DEBUG) console.log("Fetching notifications for user:", user.id);
-      
-      // Fetch notifications with caching enabled
-      const { success, notifications: fetchedNotifs, error } = await getUserNotifications(user.id);
-      
-      // Clear the timeout
-      clearTimeout(timeoutId);
-      
-      if (success && fetchedNotifs) {
-        if (SIDEBAR_DEBUG) console.log(`Successfully loaded ${fetchedNotifs.length} notifications`);
-        setNotifications(fetchedNotifs);
-        
-        // Get unread notification IDs for marking as read
-        const unreadIds = fetchedNotifs.filter(n => !n.is_read).map(n => n.id);
-        
-        // If we have unread notifications, mark them as read
-        if (unreadIds.length > 0) {
-          // Mark as read after a short delay to ensure user sees them
-          setTimeout(async () => {
-            try {
-              await markNotificationsAsRead(user.id, unreadIds);
-              setUnreadCount(0); // Update the count after marking as read
-            } catch (markError) {
-              console.error("Error marking notifications as read:", markError);
-            }
-          }, 2000);
-        }
-      } else {
-        // Improved error logging
-        console.error("Failed to load notifications. Raw error:")
-        console.error(error); // Log the raw error object
-        console.error("Stringified error:")
-        console.error(String(error)); // Log the string representation
-        if (error && typeof error === 'object' && 'message' in error) {
-          console.error("Error message:")
-          console.error(error.message);
-        }
-        setNotifLoadError(true);
-        
-        // Don't show error toast for cached responses
-        if (!error || typeof error !== 'string' || !error.includes('cached data')) {
-          toast.error("შეტყობინებების ჩატვირთვა ვერ მოხერხდა.");
-        }
-      }
-    } catch (error) {
-      console.error("Notification fetch error:", error);
-      setNotifLoadError(true);
-      toast.error("შეტყობინებების ჩატვირთვისას დაფიქსირდა შეცდომა.");
-    } finally {
-      setIsLoadingNotifs(false);
-    }
+    refreshNotifications();
   };
 
-  // Update the closeNotifications function
   const closeNotifications = () => {
     setIsNotificationsOpen(false);
-    
-    // Mark all as read when closing the panel
-    if (user && notifications.length > 0) {
-      const unreadIds = notifications.filter(n => !n.is_read).map(n => n.id);
-      if (unreadIds.length > 0) {
-        markNotificationsAsRead(user.id, unreadIds).then(() => {
-          setUnreadCount(0);
-        });
-      }
-    }
   };
   
   // Only render after component has mounted to prevent hydration mismatch
@@ -516,6 +386,13 @@ export function AppSidebar() {
                   isActive={pathname === "/favorites"}
                   isExpanded={isExpanded}
                 />
+                <SidebarItem
+                  icon={<Download className="stroke-[1.5px]" />}
+                  label="ჩამოტვირთვები"
+                  href="/downloads"
+                  isActive={pathname === "/downloads"}
+                  isExpanded={isExpanded}
+                />
                 <SidebarItem
                   icon={<Users className="stroke-[1.5px]" />}
                   label="მეგობრები"
@@ -668,7 +545,7 @@ export function AppSidebar() {
               
               {/* Content */} 
               <div className="flex-1 overflow-y-auto p-4">
-                {isLoadingNotifs ? (
+                {isLoadingNotifs && notifications.length === 0 ? (
                   <div className="flex justify-center items-center h-full">
                     <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
                   </div>
@@ -694,7 +571,9 @@ export function AppSidebar() {
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {notifications.map((notif) => {
+                    {notificationGroups.map((group: NotificationGroup) => {
+                      const notif = group.latest;
+                      const isUnread = group.unreadIds.length > 0;
                       // --- Determine Icon based on notification type ---
                       let IconComponent;
                       switch (notif.type) {
@@ -713,12 +592,17 @@ export function AppSidebar() {
                         case 'friend_request':
                           IconComponent = <UserIcon className="h-5 w-5 text-purple-400" />;
                           break;
+                        case 'live_invite':
+                          IconComponent = <Users className="h-5 w-5 text-purple-400" />;
+                          break;
                         default:
                           IconComponent = <Bell className="h-5 w-5 text-gray-400" />;
                       }
 
                       // --- Helper to generate link (assuming future fields)
                       const generateNotificationLink = (n: Notification): string => {
+                        // Live reading invites open the room itself
+                        if (n.type === 'live_invite' && n.room_id) return `/live/${n.room_id}`;
                         const type = (n as any).content_type || ''; // Default to empty if not present
                         const contentId = (n as any).content_id || '';
                         const commentId = notif.comment_id || (notif as any).comment_id || null;
@@ -776,7 +660,7 @@ export function AppSidebar() {
                                       })
                                       if (res.ok) {
                                         toast.success('დამეგობრდით')
-                                        setNotifications(prev=>prev.filter(n=>n.id!==notif.id))
+                                        removeNotification(notif.id)
                                         setUnreadCount((c)=>Math.max(0,c-1))
                                       } else {
                                         const { error } = await res.json(); toast.error(error || 'შეცდომა')
@@ -797,7 +681,7 @@ export function AppSidebar() {
                                       })
                                       if (res.ok) {
                                         toast.success('უარი თქვით')
-                                        setNotifications(prev=>prev.filter(n=>n.id!==notif.id))
+                                        removeNotification(notif.id)
                                         setUnreadCount((c)=>Math.max(0,c-1))
                                       } else { const { error } = await res.json(); toast.error(error||'შეცდომა') }
                                     } catch(err){ console.error(err); toast.error('შეცდომა') }
@@ -811,12 +695,16 @@ export function AppSidebar() {
 
                       return (
                         <Link 
-                          key={notif.id}
+                          key={group.key}
                           href={link}
-                          onClick={closeNotifications} // Close panel on click
+                          onClick={() => {
+                            // Opening a notification reads the whole group
+                            markNotificationsRead(group.notifications.map(n => n.id));
+                            closeNotifications();
+                          }}
                           className={cn(
                             "flex items-start p-3 rounded-lg transition-colors cursor-pointer", // Added cursor-pointer, items-start
-                            !notif.is_read ? "bg-purple-500/10 hover:bg-purple-500/20" : "bg-white/5 hover:bg-white/10"
+                            isUnread ? "bg-purple-500/10 hover:bg-purple-500/20" : "bg-white/5 hover:bg-white/10"
                           )}
                         >
                           {/* Avatar/Icon */} 
@@ -837,19 +725,43 @@ export function AppSidebar() {
                           {/* Text content */}
                           <div className="flex-1">
                             <p className="text-sm mb-1 text-white/90">
-                              {notif.message} {/* Use direct message from notification */}
+                              {describeNotificationGroup(group)}
                             </p>
                             <p className="text-xs text-gray-400">
                               {formatDistanceToNow(new Date(notif.created_at), { addSuffix: true, locale: ka })} {/* Use Georgian locale */}
+                              {group.notifications.length > 1 && ` · ${group.notifications.length} შეტყობინება`}
                             </p>
                           </div>
-                          {/* Read indicator */}
-                          {!notif.is_read && (
-                            <div className="w-2 h-2 bg-purple-400 rounded-full ml-2 mt-1 flex-shrink-0"></div>
+                          {/* Read indicator – click to mark just this item/group read */}
+                          {isUnread && (
+                            <button
+                              type="button"
+                              className="ml-2 mt-1 p-1 -m-1 flex-shrink-0"
+                              title="წაკითხულად მონიშვნა"
+                              aria-label="წაკითხულად მონიშვნა"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                markNotificationsRead(group.unreadIds);
+                              }}
+                            >
+                              <span className="block w-2 h-2 bg-purple-400 rounded-full"></span>
+                            </button>
                           )}
                         </Link>
                       );
                     })}
+                    {hasMoreNotifs && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full text-gray-400"
+                        onClick={loadMoreNotifications}
+                        disabled={isLoadingMoreNotifs}
+                      >
+                        {isLoadingMoreNotifs ? <Loader2 className="h-4 w-4 animate-spin" /> : "მეტის ჩატვირთვა"}
+                      </Button>
+                    )}
                   </div>
                 )}
               </div>
@@ -861,8 +773,7 @@ export function AppSidebar() {
                     size="sm" 
                     className="w-full"
                     onClick={async () => {
-                      const unreadIds = notifications.filter(n => !n.is_read).map(n => n.id);
-                      if (unreadIds.length === 0) {
+                      if (unreadCount === 0) {
                         toast.info("ყველა შეტყობინება უკვე წაკითხულია.");
                         return;
                       }
@@ -870,23 +781,17 @@ export function AppSidebar() {
                         toast.error("მოქმედების შესასრულებლად საჭიროა ავტორიზაცია.");
                         return;
                       }
-                      try {
-                        toast.promise(
-                          markNotificationsAsRead(user.id, unreadIds),
-                          {
-                            loading: 'მიმდინარეობს წაკითხულად მონიშვნა...',
-                            success: () => {
-                              // Update local state immediately
-                              setNotifications(prev => prev.map(n => unreadIds.includes(n.id) ? { ...n, is_read: true } : n));
-                              setUnreadCount(0);
-                              return 'ყველა მონიშნულია წაკითხულად.';
-                            },
-                            error: 'წაკითხულად მონიშვნა ვერ მოხერხდა.',
-                          }
-                        );
-                      } catch (error) {
-                        console.error("Failed to mark all as read:")
-                      }
+                      // Covers pages that haven't been loaded yet too
+                      toast.promise(
+                        markAllNotificationsRead().then(({ success }) => {
+                          if (!success) throw new Error('mark all read failed');
+                        }),
+                        {
+                          loading: 'მიმდინარეობს წაკითხულად მონიშვნა...',
+                          success: 'ყველა მონიშნულია წაკითხულად.',
+                          error: 'წაკითხულად მონიშვნა ვერ მოხერხდა.',
+                        }
+                      );
                     }}
                     disabled={unreadCount === 0} // Disable if no unread messages
                   >
@@ -1042,6 +947,20 @@ function MobileSidebarContent({
               <Heart className={cn("h-5 w-5 mr-3 stroke-[1.5px]", pathname === "/favorites" && "text-red-500")} />
               <span>რჩეულები</span>
             </Link>
+            <Link 
+              href="/downloads" 
+              className={cn(
+                "flex items-center px-3 py-3 rounded-xl transition-colors",
+                pathname === "/downloads" 
+                  ? "bg-white/10 text-white relative" 
+                  : "text-white/70 hover:text-white hover:bg-white/5"
+              )}
+              onClick={onClose}
+            >
+              {pathname === "/downloads" && <div className="absolute left-0 top-0 bottom-0 w-1 bg-[hsl(var(--primary))] rounded-r-full" />}
+              <Download className={cn("h-5 w-5 mr-3 stroke-[1.5px]", pathname === "/downloads" && "text-[hsl(var(--primary))]")} />
+              <span>ჩამოტვირთვები</span>
+            </Link>
             <Link 
               href="/friends" 
               className={cn(
@@ -0,0 +1,38 @@
+"use client"
+
+import { PageBookmark, getBookmarkCropStyle, getBookmarkThumbnailUrl } from "@/lib/page-bookmarks"
+import { useBookmarkPageUrl } from "@/hooks/use-bookmark-page-url"
+import { cn } from "@/lib/utils"
+
+interface BookmarkThumbnailProps {
+  bookmark: Pick<PageBookmark, "pageUrl" | "crop">
+  alt: string
+  className?: string
+}
+
+// The bookmarked region of a page; the whole page (from the top) when nothing was highlighted
+export function BookmarkThumbnail({ bookmark, alt, className }: BookmarkThumbnailProps) {
+  const pageUrl = useBookmarkPageUrl(bookmark.pageUrl)
+
+  if (!pageUrl) {
+    return <div role="img" aria-label={alt} className={cn("bg-gray-900 animate-pulse", className)} />
+  }
+
+  const page = { pageUrl, crop: bookmark.crop }
+  const cropStyle = getBookmarkCropStyle(page)
+
+  if (cropStyle) {
+    return <div role="img" aria-label={alt} className={cn("bg-gray-900", className)} style={cropStyle} />
+  }
+
+  return (
+    <div className={cn("bg-gray-900 overflow-hidden", className)}>
+      <img
+        src={getBookmarkThumbnailUrl(page)}
+        alt={alt}
+        loading="lazy"
+        className="h-full w-full object-cover object-top"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CheckCircle2, Download, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { useOfflineDownloads } from "@/hooks/use-offline-downloads"
+import {
+  DownloadChapterInput,
+  DownloadQuotaError,
+  getDownloadKey,
+  isOfflineDownloadSupported,
+} from "@/lib/offline-downloads"
+import { cn } from "@/lib/utils"
+
+interface ChapterDownloadButtonProps extends DownloadChapterInput {
+  className?: string
+}
+
+// Download / remove toggle shown next to a chapter in the chapter list
+export function ChapterDownloadButton({ className, ...input }: ChapterDownloadButtonProps) {
+  const { downloads, active, download, remove } = useOfflineDownloads()
+  // Checked after mount; the server render can't know
+  const [supported, setSupported] = useState(false)
+
+  useEffect(() => setSupported(isOfflineDownloadSupported()), [])
+
+  if (!supported) return null
+
+  const key = getDownloadKey(input.mangaId, input.chapter)
+  const progress = active[key]
+  const isDownloaded = downloads.some(item => item.key === key)
+
+  const handleClick = async (event: React.MouseEvent) => {
+    // The whole chapter row opens the reader
+    event.stopPropagation()
+    if (progress) return
+
+    if (isDownloaded) {
+      await remove(key)
+      toast.success(`თავი ${input.chapter.number} წაიშალა ჩამოტვირთვებიდან`)
+      return
+    }
+
+    try {
+      await download(input)
+      toast.success(`თავი ${input.chapter.number} ჩამოტვირთულია და ოფლაინაც წაიკითხება`)
+    } catch (error: any) {
+      console.error("Chapter download failed:", error)
+      toast.error(
+        error instanceof DownloadQuotaError
+          ? "მოწყობილობაზე ადგილი არ არის. წაშალეთ ძველი ჩამოტვირთვები."
+          : "თავის ჩამოტვირთვა ვერ მოხერხდა"
+      )
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={cn(
+        "flex items-center gap-1 rounded-md p-2 text-xs transition-colors",
+        isDownloaded ? "text-green-400 hover:text-red-400" : "text-gray-400 hover:text-purple-300",
+        className
+      )}
+      title={isDownloaded ? "ჩამოტვირთვის წაშლა" : progress ? "იტვირთება..." : "ოფლაინ წასაკითხად ჩამოტვირთვა"}
+      aria-label={isDownloaded ? "ჩამოტვირთვის წაშლა" : "ჩამოტვირთვა"}
+    >
+      {progress ? (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {progress.total > 0 && <span>{progress.done}/{progress.total}</span>}
+        </>
+      ) : isDownloaded ? (
+        <CheckCircle2 className="h-4 w-4" />
+      ) : (
+        <Download className="h-4 w-4" />
+      )}
+    </button>
+  )
+}
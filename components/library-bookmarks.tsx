@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { AnimatePresence } from "framer-motion";
+import { Bookmark, BookOpen, Pencil, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookmarkThumbnail } from "@/components/bookmark-thumbnail";
+import { PageBookmarkEditor } from "@/components/page-bookmark-editor";
+import { useAuth } from "@/components/supabase-auth-provider";
+import {
+  PageBookmark,
+  deletePageBookmark,
+  getBookmarkHref,
+  getPageBookmarks,
+  updatePageBookmark,
+} from "@/lib/page-bookmarks";
+
+// "Bookmarks" tab of /library: every bookmarked page, newest first
+export function LibraryBookmarks() {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [bookmarks, setBookmarks] = useState<PageBookmark[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAuthLoading) return;
+    if (!user?.id) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    setIsLoading(true);
+    getPageBookmarks()
+      .then(result => { if (isMounted) setBookmarks(result); })
+      .catch(error => {
+        console.error("Error loading bookmarks:", error);
+        toast.error("Failed to load your bookmarks.");
+      })
+      .finally(() => { if (isMounted) setIsLoading(false); });
+    return () => { isMounted = false; };
+  }, [user?.id, isAuthLoading]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return bookmarks;
+    return bookmarks.filter(bookmark =>
+      bookmark.contentTitle.toLowerCase().includes(needle) || bookmark.note.toLowerCase().includes(needle)
+    );
+  }, [bookmarks, query]);
+
+  const editing = bookmarks.find(bookmark => bookmark.id === editingId);
+
+  const handleDelete = async (bookmark: PageBookmark) => {
+    try {
+      await deletePageBookmark(bookmark.id);
+      setBookmarks(prev => prev.filter(item => item.id !== bookmark.id));
+      setEditingId(null);
+      toast.success("Bookmark removed");
+    } catch (error) {
+      console.error("Error deleting bookmark:", error);
+      toast.error("Failed to remove the bookmark.");
+    }
+  };
+
+  const handleSave = async (bookmark: PageBookmark, changes: Pick<PageBookmark, "note" | "crop">) => {
+    try {
+      const updated = await updatePageBookmark(bookmark.id, changes);
+      setBookmarks(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+      setEditingId(null);
+      toast.success("Bookmark saved");
+    } catch (error) {
+      console.error("Error saving bookmark:", error);
+      toast.error("Failed to save the bookmark.");
+    }
+  };
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mt-6">
+        {[...Array(8)].map((_, i) => (
+          <div key={i} className="space-y-3">
+            <Skeleton className="aspect-[4/3] rounded-md" />
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-3 w-1/2" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!user?.id) {
+    return (
+      <div className="text-center py-20">
+        <h3 className="text-xl font-semibold mb-2">Log in to see your bookmarks</h3>
+        <p className="text-gray-400">Bookmarked pages and notes are saved to your account.</p>
+        <Button asChild className="mt-4">
+          <Link href="/login">Log in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (bookmarks.length === 0) {
+    return (
+      <div className="text-center py-20">
+        <Bookmark className="h-12 w-12 mx-auto mb-4 text-gray-600" />
+        <h3 className="text-xl font-semibold mb-2">No bookmarks yet</h3>
+        <p className="text-gray-400">Use the bookmark button in the reader to save your favourite pages and panels.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="relative max-w-sm mb-6">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles and notes"
+          className="pl-9 bg-black/40 border-white/10"
+        />
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-center py-12 text-gray-400">No bookmarks match “{query}”.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {filtered.map(bookmark => (
+            <Card key={bookmark.id} className="overflow-hidden border-gray-800 bg-black/40 backdrop-blur-lg">
+              <Link href={getBookmarkHref(bookmark)} className="block">
+                <BookmarkThumbnail
+                  bookmark={bookmark}
+                  alt={`${bookmark.contentTitle}, page ${bookmark.pageIndex + 1}`}
+                  className="aspect-[4/3] w-full transition-opacity hover:opacity-90"
+                />
+              </Link>
+              <CardContent className="p-4">
+                <h3 className="font-bold truncate" title={bookmark.contentTitle}>
+                  {bookmark.contentTitle || "Untitled"}
+                </h3>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  Chapter {bookmark.chapterNumber} · Page {bookmark.pageIndex + 1}
+                  {bookmark.language === "en" ? " · EN" : ""}
+                </p>
+                {bookmark.note && (
+                  <p className="mt-2 text-sm text-gray-300 line-clamp-3 whitespace-pre-line">{bookmark.note}</p>
+                )}
+                <div className="mt-3 flex items-center gap-1">
+                  <Button asChild size="sm" className="h-8 gap-1.5">
+                    <Link href={getBookmarkHref(bookmark)}>
+                      <BookOpen className="h-3.5 w-3.5" />
+                      Open
+                    </Link>
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-gray-400 hover:text-white"
+                    onClick={() => setEditingId(bookmark.id)}
+                    title="Edit note"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-gray-400 hover:text-red-400"
+                    onClick={() => handleDelete(bookmark)}
+                    title="Remove bookmark"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {editing && (
+          <PageBookmarkEditor
+            bookmark={editing}
+            onSave={(changes) => handleSave(editing, changes)}
+            onDelete={() => handleDelete(editing)}
+            onClose={() => setEditingId(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
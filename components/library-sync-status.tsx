@@ -0,0 +1,35 @@
+"use client"
+
+import { AlertCircle, Check, CloudOff, HardDrive, Loader2, RefreshCw } from "lucide-react"
+import { useLibrarySync } from "@/hooks/use-library-sync"
+import type { LibrarySyncStatus as Status } from "@/lib/user-library"
+import { cn } from "@/lib/utils"
+
+const statusConfig: Record<Status, { label: string; icon: React.ElementType; className: string }> = {
+  idle: { label: "სინქრონიზაცია", icon: RefreshCw, className: "text-gray-400" },
+  local: { label: "მხოლოდ ამ მოწყობილობაზე", icon: HardDrive, className: "text-gray-400" },
+  pending: { label: "ცვლილებები ელოდება", icon: RefreshCw, className: "text-yellow-400" },
+  syncing: { label: "სინქრონიზდება...", icon: Loader2, className: "text-purple-400" },
+  synced: { label: "სინქრონიზებულია", icon: Check, className: "text-green-400" },
+  offline: { label: "ოფლაინ – ცვლილებები შენახულია", icon: CloudOff, className: "text-yellow-400" },
+  error: { label: "სინქრონიზაცია ვერ მოხერხდა", icon: AlertCircle, className: "text-red-400" },
+}
+
+// Small badge showing where the library sync stands
+export function LibrarySyncStatus({ className }: { className?: string }) {
+  const { status, pendingCount, error } = useLibrarySync()
+  const { label, icon: Icon, className: tone } = statusConfig[status]
+
+  return (
+    <div
+      className={cn("flex items-center gap-1.5 text-xs", tone, className)}
+      title={status === "error" && error ? error : undefined}
+    >
+      <Icon className={cn("h-3.5 w-3.5", status === "syncing" && "animate-spin")} />
+      <span>{label}</span>
+      {pendingCount > 0 && status !== "syncing" && (
+        <span className="rounded-full bg-white/10 px-1.5 text-[10px] text-gray-300">{pendingCount}</span>
+      )}
+    </div>
+  )
+}
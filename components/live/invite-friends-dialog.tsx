@@ -0,0 +1,138 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Check, Loader2, UserPlus } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import { supabase } from "@/lib/supabase"
+
+interface FriendProfile {
+  id: string
+  username: string | null
+  avatar_url: string | null
+}
+
+interface InviteFriendsDialogProps {
+  roomId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Friends already in the room are hidden from the list
+  excludeIds: string[]
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
+export function InviteFriendsDialog({ roomId, open, onOpenChange, excludeIds }: InviteFriendsDialogProps) {
+  const [friends, setFriends] = useState<FriendProfile[]>([])
+  const [loading, setLoading] = useState(false)
+  const [invited, setInvited] = useState<Set<string>>(new Set())
+  const [pending, setPending] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let isMounted = true
+
+    async function loadFriends() {
+      setLoading(true)
+      try {
+        const res = await fetch("/api/friends/list?status=accepted", { headers: await authHeaders() })
+        if (!res.ok) throw new Error(`Failed to load friends: ${res.status}`)
+        const { accepted } = await res.json() as { accepted: string[] }
+
+        if (accepted.length === 0) {
+          if (isMounted) setFriends([])
+          return
+        }
+
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("id, username, avatar_url")
+          .in("id", accepted)
+        if (error) throw error
+        if (isMounted) setFriends(data || [])
+      } catch (error) {
+        console.error("Error loading friends for invite:", error)
+        if (isMounted) setFriends([])
+      } finally {
+        if (isMounted) setLoading(false)
+      }
+    }
+
+    loadFriends()
+    return () => { isMounted = false }
+  }, [open])
+
+  const handleInvite = async (friendId: string) => {
+    setPending(friendId)
+    try {
+      const res = await fetch(`/api/live/rooms/${roomId}/invite`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({ inviteeIds: [friendId] }),
+      })
+      const json = await res.json()
+      if (!res.ok || !json.invited?.includes(friendId)) throw new Error(json.error || "Invite failed")
+      setInvited(prev => new Set(prev).add(friendId))
+    } catch (error) {
+      console.error("Error inviting friend:", error)
+      toast({ title: "მოწვევა ვერ გაიგზავნა", variant: "destructive" })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const visible = friends.filter(f => !excludeIds.includes(f.id))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-gray-950 border-gray-800 z-[70]">
+        <DialogHeader>
+          <DialogTitle>მეგობრების მოწვევა</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-sm text-gray-400 py-8">მოსაწვევი მეგობრები არ არის</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {visible.map(friend => {
+              const isInvited = invited.has(friend.id)
+              return (
+                <div key={friend.id} className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={friend.avatar_url || "/placeholder-user.jpg"} alt={friend.username || ""} />
+                    <AvatarFallback>{friend.username ? friend.username.charAt(0).toUpperCase() : "?"}</AvatarFallback>
+                  </Avatar>
+                  <span className="flex-1 text-sm truncate">{friend.username || "მომხმარებელი"}</span>
+                  <Button
+                    size="sm"
+                    variant={isInvited ? "secondary" : "default"}
+                    disabled={isInvited || pending === friend.id}
+                    onClick={() => handleInvite(friend.id)}
+                    className={isInvited ? "" : "bg-purple-600 hover:bg-purple-700"}
+                  >
+                    {pending === friend.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : isInvited ? (
+                      <><Check className="h-4 w-4 mr-1" />მოწვეულია</>
+                    ) : (
+                      <><UserPlus className="h-4 w-4 mr-1" />მოწვევა</>
+                    )}
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
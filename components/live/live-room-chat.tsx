@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Image from "next/image"
+import { motion, AnimatePresence } from "framer-motion"
+import { MessageSquare, Send, Smile, Trash2, X } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { StickerSelector, Sticker } from "@/components/sticker-selector"
+import { useAuth } from "@/components/supabase-auth-provider"
+import type { LiveChatMessage } from "@/hooks/use-live-room"
+
+// Mirrors CHAT_MAX_LENGTH on the socket server
+const MAX_LENGTH = 500
+
+interface LiveRoomChatProps {
+  messages: LiveChatMessage[]
+  isHost: boolean
+  isMuted: boolean
+  onSend: (message: { content?: string; stickerUrl?: string }) => void
+  onDelete: (messageId: string) => void
+}
+
+export function LiveRoomChat({ messages, isHost, isMuted, onSend, onDelete }: LiveRoomChatProps) {
+  const { profile } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState("")
+  const [showStickers, setShowStickers] = useState(false)
+  const [seenCount, setSeenCount] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const unread = open ? 0 : Math.max(0, messages.length - seenCount)
+
+  // Keep the newest message in view and mark everything as seen while open
+  useEffect(() => {
+    if (!open) return
+    setSeenCount(messages.length)
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [open, messages.length])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const content = text.trim()
+    if (!content || isMuted) return
+    onSend({ content })
+    setText("")
+  }
+
+  const handleStickerSelect = (sticker: Sticker) => {
+    if (isMuted) return
+    onSend({ stickerUrl: sticker.url })
+  }
+
+  return (
+    <div
+      className="fixed bottom-20 right-4 z-[60] flex flex-col items-end gap-2"
+      // Keep reader keyboard shortcuts from firing while typing
+      onKeyDown={e => e.stopPropagation()}
+    >
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={{ duration: 0.2 }}
+            className="w-80 h-96 flex flex-col rounded-lg bg-black/90 backdrop-blur-md border border-gray-800 shadow-xl"
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800">
+              <h3 className="text-sm font-medium text-gray-200">ჩატი</h3>
+              <button
+                onClick={() => setOpen(false)}
+                className="p-1 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-3">
+              {messages.length === 0 ? (
+                <p className="text-center text-xs text-gray-500 mt-8">შეტყობინებები ჯერ არ არის</p>
+              ) : (
+                messages.map(message => (
+                  <div key={message.id} className="group flex items-start gap-2">
+                    <Avatar className="h-6 w-6 flex-shrink-0">
+                      <AvatarImage src={message.avatarUrl || "/placeholder-user.jpg"} alt={message.username || ""} />
+                      <AvatarFallback>{message.username ? message.username.charAt(0).toUpperCase() : "?"}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline gap-2">
+                        <span className="text-xs font-medium text-purple-300 truncate">
+                          {message.username || "მომხმარებელი"}
+                        </span>
+                        <span className="text-[10px] text-gray-500">
+                          {new Date(message.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </span>
+                      </div>
+                      {message.content && (
+                        <p className="text-sm text-gray-200 whitespace-pre-wrap break-words">{message.content}</p>
+                      )}
+                      {message.stickerUrl && (
+                        <Image src={message.stickerUrl} alt="sticker" width={80} height={80} className="mt-1 rounded" />
+                      )}
+                    </div>
+                    {isHost && (
+                      <button
+                        onClick={() => onDelete(message.id)}
+                        className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-800 text-gray-500 hover:text-red-400 transition-opacity"
+                        title="წაშლა"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {isMuted ? (
+              <p className="px-3 py-3 text-xs text-center text-red-400 border-t border-gray-800">
+                მასპინძელმა დაგადუმათ
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="relative flex items-center gap-1 p-2 border-t border-gray-800">
+                <AnimatePresence>
+                  {showStickers && (
+                    <StickerSelector
+                      onSelectSticker={handleStickerSelect}
+                      onClose={() => setShowStickers(false)}
+                      profile={profile}
+                    />
+                  )}
+                </AnimatePresence>
+                <button
+                  type="button"
+                  onClick={() => setShowStickers(prev => !prev)}
+                  className="p-1.5 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white"
+                  title="სტიკერები"
+                >
+                  <Smile className="h-4 w-4" />
+                </button>
+                <input
+                  value={text}
+                  onChange={e => setText(e.target.value)}
+                  maxLength={MAX_LENGTH}
+                  placeholder="დაწერეთ შეტყობინება..."
+                  className="flex-1 bg-gray-900 rounded-md px-2 py-1.5 text-sm text-gray-200 outline-none focus:ring-1 focus:ring-purple-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!text.trim()}
+                  className="p-1.5 rounded-full text-purple-400 hover:bg-purple-600/30 disabled:opacity-40"
+                >
+                  <Send className="h-4 w-4" />
+                </button>
+              </form>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="relative p-3 rounded-full bg-black/70 backdrop-blur-md border border-white/10 text-gray-200 hover:bg-purple-600/40 transition-colors"
+        title="ჩატი"
+      >
+        <MessageSquare className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-purple-600 text-[10px] leading-[18px] text-center">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+    </div>
+  )
+}
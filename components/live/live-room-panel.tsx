@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Crown, Shield, ShieldOff, MicOff, Mic, UserX, Users, UserPlus, X, Power } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { InviteFriendsDialog } from "@/components/live/invite-friends-dialog"
+import type { LiveParticipant, LiveReaction, LiveRole } from "@/hooks/use-live-room"
+
+// The socket server only relays these (socket-server/src/reactions.ts)
+const QUICK_REACTIONS = ["🔥", "😂", "😮", "😢", "❤️", "👏"]
+
+interface LiveRoomPanelProps {
+  roomId: string
+  participants: LiveParticipant[]
+  currentUserId: string | null
+  isHost: boolean
+  reactions: LiveReaction[]
+  onReaction: (emoji: string) => void
+  onKick: (userId: string) => void
+  onMute: (userId: string, muted: boolean) => void
+  onPromote: (userId: string, role: Exclude<LiveRole, "host">) => void
+  onEnd: () => void
+}
+
+const roleLabel: Record<LiveRole, string> = {
+  host: "მასპინძელი",
+  cohost: "თანამასპინძელი",
+  viewer: "მკითხველი",
+}
+
+export function LiveRoomPanel({
+  roomId,
+  participants,
+  currentUserId,
+  isHost,
+  reactions,
+  onReaction,
+  onKick,
+  onMute,
+  onPromote,
+  onEnd,
+}: LiveRoomPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [inviteOpen, setInviteOpen] = useState(false)
+
+  // Host first, then co-hosts, then everyone else in join order
+  const sorted = [...participants].sort((a, b) => {
+    const order = { host: 0, cohost: 1, viewer: 2 }
+    return order[a.role] - order[b.role] || a.joinedAt - b.joinedAt
+  })
+
+  return (
+    <>
+      {/* Floating reactions – rendered above the reader */}
+      <div className="fixed inset-0 pointer-events-none z-[60] overflow-hidden">
+        <AnimatePresence>
+          {reactions.map((reaction, idx) => (
+            <motion.div
+              key={reaction.id}
+              className="absolute bottom-24 text-4xl"
+              style={{ left: `${15 + ((idx * 37) % 70)}%` }}
+              initial={{ opacity: 0, y: 0, scale: 0.6 }}
+              animate={{ opacity: 1, y: -300, scale: 1.2 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 2, ease: "easeOut" }}
+            >
+              {reaction.emoji}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      <div className="fixed top-16 right-4 z-[60] flex flex-col items-end gap-2">
+        <button
+          onClick={() => setOpen(prev => !prev)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-black/70 backdrop-blur-md border border-white/10 text-sm text-gray-200 hover:bg-purple-600/40 transition-colors"
+          title="მონაწილეები"
+        >
+          <Users className="h-4 w-4" />
+          <span>{participants.length}</span>
+        </button>
+
+        <AnimatePresence>
+          {open && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              transition={{ duration: 0.2 }}
+              className="w-72 rounded-lg bg-black/90 backdrop-blur-md border border-gray-800 shadow-xl p-3"
+            >
+              <div className="flex items-center justify-between mb-3 pb-2 border-b border-gray-800">
+                <h3 className="text-sm font-medium text-gray-200">მონაწილეები</h3>
+                <button
+                  onClick={() => setOpen(false)}
+                  className="p-1 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {sorted.map(p => {
+                  const isSelf = p.userId === currentUserId
+                  const canModerate = isHost && !isSelf && p.role !== "host"
+                  return (
+                    <div key={p.userId} className="flex items-center gap-2">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={p.avatarUrl || "/placeholder-user.jpg"} alt={p.username || ""} />
+                        <AvatarFallback>{p.username ? p.username.charAt(0).toUpperCase() : "?"}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1 text-sm truncate">
+                          {p.role === "host" && <Crown className="h-3.5 w-3.5 text-yellow-400 flex-shrink-0" />}
+                          {p.role === "cohost" && <Shield className="h-3.5 w-3.5 text-purple-400 flex-shrink-0" />}
+                          <span className="truncate">{p.username || "მომხმარებელი"}{isSelf ? " (თქვენ)" : ""}</span>
+                          {p.muted && <MicOff className="h-3.5 w-3.5 text-red-400 flex-shrink-0" />}
+                        </div>
+                        <div className="text-xs text-gray-500">{roleLabel[p.role]}</div>
+                      </div>
+                      {canModerate && (
+                        <div className="flex items-center gap-0.5">
+                          <button
+                            onClick={() => onPromote(p.userId, p.role === "cohost" ? "viewer" : "cohost")}
+                            className="p-1 rounded hover:bg-gray-800 text-gray-400 hover:text-purple-300"
+                            title={p.role === "cohost" ? "ჩამოქვეითება" : "თანამასპინძლად დანიშვნა"}
+                          >
+                            {p.role === "cohost" ? <ShieldOff className="h-4 w-4" /> : <Shield className="h-4 w-4" />}
+                          </button>
+                          <button
+                            onClick={() => onMute(p.userId, !p.muted)}
+                            className="p-1 rounded hover:bg-gray-800 text-gray-400 hover:text-yellow-300"
+                            title={p.muted ? "ხმის ჩართვა" : "დადუმება"}
+                          >
+                            {p.muted ? <Mic className="h-4 w-4" /> : <MicOff className="h-4 w-4" />}
+                          </button>
+                          <button
+                            onClick={() => onKick(p.userId)}
+                            className="p-1 rounded hover:bg-gray-800 text-gray-400 hover:text-red-400"
+                            title="გაგდება"
+                          >
+                            <UserX className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+
+              {isHost && (
+                <button
+                  onClick={() => setInviteOpen(true)}
+                  className="w-full flex items-center justify-center gap-1.5 mt-3 py-1.5 rounded-md text-sm text-purple-300 bg-purple-600/20 hover:bg-purple-600/40 transition-colors"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  მეგობრების მოწვევა
+                </button>
+              )}
+
+              {isHost && (
+                <button
+                  onClick={() => {
+                    if (window.confirm("დავასრულოთ სესია ყველასთვის?")) onEnd()
+                  }}
+                  className="w-full flex items-center justify-center gap-1.5 mt-2 py-1.5 rounded-md text-sm text-red-300 bg-red-600/20 hover:bg-red-600/40 transition-colors"
+                >
+                  <Power className="h-4 w-4" />
+                  სესიის დასრულება
+                </button>
+              )}
+
+              <div className="flex justify-between mt-3 pt-2 border-t border-gray-800">
+                {QUICK_REACTIONS.map(emoji => (
+                  <button
+                    key={emoji}
+                    onClick={() => onReaction(emoji)}
+                    className="text-xl p-1 rounded hover:bg-gray-800 transition-transform hover:scale-110"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {isHost && (
+        <InviteFriendsDialog
+          roomId={roomId}
+          open={inviteOpen}
+          onOpenChange={setInviteOpen}
+          excludeIds={participants.map(p => p.userId)}
+        />
+      )}
+    </>
+  )
+}
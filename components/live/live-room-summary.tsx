@@ -0,0 +1,85 @@
+"use client"
+
+import { motion } from "framer-motion"
+import { BookOpen, Clock, Heart, Users } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import type { LiveRoomSummary as Summary } from "@/lib/live-rooms"
+
+interface LiveRoomSummaryProps {
+  summary: Summary
+  mangaTitle: string
+  chapterLabel: string | null
+  onClose: () => void
+}
+
+const reasonLabel: Record<Summary["reason"], string> = {
+  closed: "მასპინძელმა სესია დაასრულა",
+  host_left: "მასპინძელი აღარ დაბრუნდა",
+  inactive: "სესია უმოქმედობის გამო დაიხურა",
+  empty: "ყველამ დატოვა ოთახი",
+}
+
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (hours > 0) return `${hours} სთ ${minutes} წთ`
+  if (minutes > 0) return `${minutes} წთ`
+  return `${seconds} წმ`
+}
+
+export function LiveRoomSummary({ summary, mangaTitle, chapterLabel, onClose }: LiveRoomSummaryProps) {
+  const stats = [
+    { icon: BookOpen, label: "გადაფურცლული გვერდი", value: summary.pagesTurned },
+    { icon: Clock, label: "ხანგრძლივობა", value: formatDuration(summary.durationSeconds) },
+    { icon: Heart, label: "რეაქცია", value: summary.reactionsCount },
+    { icon: Users, label: "მონაწილე", value: summary.participants.length },
+  ]
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-md rounded-xl bg-gray-900/80 border border-gray-800 p-6 text-center"
+      >
+        <p className="text-xs text-gray-500 mb-2">{reasonLabel[summary.reason]}</p>
+        <h2 className="text-2xl font-bold mb-1">
+          ერთად წაიკითხეთ {summary.pagesTurned} გვერდი
+        </h2>
+        {mangaTitle && (
+          <p className="text-sm text-gray-400 mb-6">
+            {mangaTitle}{chapterLabel ? ` · ${chapterLabel}` : ""}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          {stats.map(({ icon: Icon, label, value }) => (
+            <div key={label} className="rounded-lg bg-black/40 border border-gray-800 p-3">
+              <Icon className="h-4 w-4 text-purple-400 mx-auto mb-1" />
+              <div className="text-lg font-semibold">{value}</div>
+              <div className="text-xs text-gray-500">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2 mb-6">
+          {summary.participants.map(p => (
+            <div key={p.userId} className="flex items-center gap-1.5 rounded-full bg-black/40 pl-1 pr-3 py-1">
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={p.avatarUrl || "/placeholder-user.jpg"} alt={p.username || ""} />
+                <AvatarFallback>{p.username ? p.username.charAt(0).toUpperCase() : "?"}</AvatarFallback>
+              </Avatar>
+              <span className="text-xs text-gray-300">{p.username || "მომხმარებელი"}</span>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={onClose} className="bg-purple-600 hover:bg-purple-700">
+          მანგის გვერდზე დაბრუნება
+        </Button>
+      </motion.div>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import React, { useMemo } from "react"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useCallback } from "react"
 import { motion, AnimatePresence, useMotionValue, useTransform } from "framer-motion"
 import { 
   ArrowLeft, 
@@ -25,13 +25,68 @@ import {
   EyeOff,
   MessageSquare,
   Loader2,
-  Search
+  Search,
+  Users,
+  Keyboard,
+  Bookmark,
+  StickyNote
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Progress } from "@/components/ui/progress"
-import { updateReadingProgress } from "@/lib/reading-history"
+import { getFurthestPageRead, updateReadingProgress } from "@/lib/reading-history"
+import { getDownloadedChapter } from "@/lib/offline-downloads"
+import {
+  NEXT_CHAPTER_PREFETCH_PAGES,
+  PagePrefetcher,
+  getPageDisplayWidth,
+  getPrefetchLookahead,
+  getReaderImageUrl,
+} from "@/lib/reader-images"
+import {
+  GAMEPAD_BINDINGS,
+  Keybindings,
+  ReaderAction,
+  findActionForCombo,
+  formatKeyCombo,
+  getKeyCombo,
+  getKeybindingOverrides,
+  resolveKeybindings,
+} from "@/lib/reader-keybindings"
+import {
+  DEFAULT_READER_SETTINGS,
+  MangaReaderSettings,
+  PageFit,
+  PageStretch,
+  ReadingDirection,
+  ReadingMode,
+  SeriesSettings,
+  getSeriesSettings,
+  isSeriesSettingKey,
+  loadReaderSettings,
+  resolveReaderSettings,
+  saveReaderSettings,
+  saveSeriesSettings,
+  subscribeToReaderSettings,
+} from "@/lib/reader-settings"
+import {
+  PageBookmark,
+  addPageBookmark,
+  deletePageBookmark,
+  getBookmarkChapterId,
+  getBookmarkPageRef,
+  getPageBookmarks,
+  updatePageBookmark,
+} from "@/lib/page-bookmarks"
+import { Comment, getAllComments } from "@/lib/comments"
+import { getChapterCommentsContentId, groupCommentsByPage, isPageSpoiler } from "@/lib/page-comments"
+import { useGamepad } from "@/hooks/use-gamepad"
+import { useAuth } from "@/components/supabase-auth-provider"
+import { toast } from "sonner"
 import { Switch } from "@/components/ui/switch"
+import { ReaderShortcutsOverlay } from "./reader-shortcuts-overlay"
+import { PageBookmarkEditor } from "./page-bookmark-editor"
 import { ReaderCommentSection } from './reader-comment-section'
+import { ReaderPageComments } from "./reader-page-comments"
 import { Button } from "@/components/ui/button"
 
 interface Chapter {
@@ -54,71 +109,16 @@ interface MangaReaderProps {
   initialPage?: number
   sharedPage?: number
   onPageChange?: (page: number) => void
+  onStartLive?: () => void
+  // Reading a downloaded chapter without a connection: no comments or live rooms
+  offline?: boolean
+  // Picks the layout a title opens with until the user sets one for it
+  contentType?: 'manga' | 'comics'
+  genres?: string[]
 }
 
-type ReadingMode = "Long Strip" | "Single Page" | "Double Page"
-type ReadingDirection = "Left to Right" | "Right to Left"
-type PageFit = "Contain" | "Overflow" | "Cover" | "True size"
-type PageStretch = "None" | "Stretch"
-
-// Add storage utility functions
-const STORAGE_KEY = 'manga-reader-settings'
-
-interface MangaReaderSettings {
-  readingMode: ReadingMode
-  readingDirection: ReadingDirection
-  pageFit: PageFit
-  pageStretch: PageStretch
-  showPageGap: boolean
-  showLongStripGap: boolean
-  showProgressBar: boolean
-  showBottomBar: boolean
-  showPageNumbers: boolean
-  autoHideControls: boolean
-  autoScrollSpeed: number
-}
-
-const defaultSettings: MangaReaderSettings = {
-  readingMode: "Single Page",
-  readingDirection: "Left to Right",
-  pageFit: "Contain",
-  pageStretch: "None",
-  showPageGap: true,
-  showLongStripGap: true,
-  showProgressBar: true,
-  showBottomBar: true,
-  showPageNumbers: true,
-  autoHideControls: true,
-  autoScrollSpeed: 1
-}
-
-const loadSettings = (): MangaReaderSettings => {
-  if (typeof window === 'undefined') return defaultSettings
-  
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored) {
-      const parsed = JSON.parse(stored)
-      return { ...defaultSettings, ...parsed }
-    }
-  } catch (error) {
-    console.warn('Failed to load manga reader settings:', error)
-  }
-  
-  return defaultSettings
-}
-
-const saveSettings = (settings: MangaReaderSettings) => {
-  if (typeof window === 'undefined') return
-  
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
-  } catch (error) {
-    console.warn('Failed to save manga reader settings:', error)
-  }
-}
-
-export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, mangaId, mangaTitle, initialPage = 0, sharedPage, onPageChange }: MangaReaderProps) {
+export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, mangaId, mangaTitle, initialPage = 0, sharedPage, onPageChange, onStartLive, offline = false, contentType, genres }: MangaReaderProps) {
+  const { user } = useAuth()
   const [currentPage, setCurrentPage] = useState(initialPage)
   const [pages, setPages] = useState<string[]>(chapter.pages || [])
   const [visibleStartPage, setVisibleStartPage] = useState(0)
@@ -128,7 +128,9 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
   const [showChapterDropdown, setShowChapterDropdown] = useState(false)
   
   // Load settings from localStorage on mount
-  const [settings, setSettings] = useState<MangaReaderSettings>(defaultSettings)
+  const [settings, setSettings] = useState<MangaReaderSettings>(DEFAULT_READER_SETTINGS)
+  // This title's own layout overrides (see lib/reader-settings)
+  const [seriesSettings, setSeriesSettings] = useState<SeriesSettings>({})
   const [readingMode, setReadingMode] = useState<ReadingMode>(settings.readingMode)
   const [readingDirection, setReadingDirection] = useState<ReadingDirection>(settings.readingDirection)
   const [pageFit, setPageFit] = useState<PageFit>(settings.pageFit)
@@ -138,13 +140,26 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
   const [showProgressBar, setShowProgressBar] = useState(settings.showProgressBar)
   const [showBottomBar, setShowBottomBar] = useState(settings.showBottomBar)
   const [showPageNumbers, setShowPageNumbers] = useState(settings.showPageNumbers)
+  const [showPageComments, setShowPageComments] = useState(settings.showPageComments)
   const [autoHideControls, setAutoHideControls] = useState(settings.autoHideControls)
   const [autoScrollSpeed, setAutoScrollSpeed] = useState(settings.autoScrollSpeed)
+  const [dataSaver, setDataSaver] = useState(settings.dataSaver)
+  const [keybindings, setKeybindings] = useState<Keybindings>(() => resolveKeybindings(settings.keybindings))
+  const [viewportWidth, setViewportWidth] = useState(1280)
   
   const [showChapterList, setShowChapterList] = useState(false)
   const [isAutoScrolling, setIsAutoScrolling] = useState(false)
   const [showComments, setShowComments] = useState(false)
+  // Page the comments panel opens filtered to, when opened from a page's comments
+  const [commentsPageFilter, setCommentsPageFilter] = useState<number | null>(null)
+  const [chapterComments, setChapterComments] = useState<Comment[]>([])
+  const [pageCommentsCollapsed, setPageCommentsCollapsed] = useState(false)
+  // Comments anchored past this page of the chapter are spoilers
+  const [furthestPage, setFurthestPage] = useState(-1)
   const [showInfoTutorial, setShowInfoTutorial] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [bookmarks, setBookmarks] = useState<PageBookmark[]>([])
+  const [editingBookmarkId, setEditingBookmarkId] = useState<string | null>(null)
   const [isLoadingPages, setIsLoadingPages] = useState(true);
   const [pageFetchError, setPageFetchError] = useState<string | null>(null);
   const [longStripProgress, setLongStripProgress] = useState(0);
@@ -211,8 +226,10 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
 
         const baseUrl = json.baseUrl;
         const hash = json.chapter.hash;
-        const data: string[] = json.chapter.data || [];
-        const urls = data.map(fname => `${baseUrl}/data/${hash}/${fname}`);
+        // MangaDex serves compressed copies under data-saver; read once per chapter
+        const useDataSaver = loadReaderSettings().dataSaver && (json.chapter.dataSaver || []).length > 0;
+        const data: string[] = (useDataSaver ? json.chapter.dataSaver : json.chapter.data) || [];
+        const urls = data.map(fname => `${baseUrl}/${useDataSaver ? 'data-saver' : 'data'}/${hash}/${fname}`);
         if (isMounted) {
           if (urls.length === 0) {
             setPageFetchError("The chapter was found, but it contains no pages.");
@@ -231,8 +248,14 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
       }
     }
 
+    // Downloaded MangaDex chapters keep the page URLs they were cached under
+    const downloaded = chapter.external ? getDownloadedChapter(mangaId, chapter) : undefined;
+
     // Only fetch for external english chapters
-    if (chapter.language === 'en' && chapter.external) {
+    if (downloaded) {
+      setPages(downloaded.pages);
+      setIsLoadingPages(false);
+    } else if (chapter.language === 'en' && chapter.external) {
       fetchEnPages();
     } else {
       // For local chapters, just set the pages and finish loading
@@ -241,101 +264,142 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
     }
     
     return () => { isMounted = false; };
-  }, [chapter.id, chapter.language, chapter.external, chapter.pages]); // Rerun when chapter changes
+  }, [mangaId, chapter.id, chapter.number, chapter.language, chapter.external, chapter.pages]); // Rerun when chapter changes
 
-  // Load settings from localStorage on component mount
+  const genresKey = (genres || []).join("|")
+
+  // Load the settings for this title on mount, and again when another device's sync lands
   useEffect(() => {
-    const loadedSettings = loadSettings()
-    setSettings(loadedSettings)
-    setReadingMode(loadedSettings.readingMode)
-    setReadingDirection(loadedSettings.readingDirection)
-    setPageFit(loadedSettings.pageFit)
-    setPageStretch(loadedSettings.pageStretch)
-    setShowPageGap(loadedSettings.showPageGap)
-    setShowLongStripGap(loadedSettings.showLongStripGap)
-    setShowProgressBar(loadedSettings.showProgressBar)
-    setShowBottomBar(loadedSettings.showBottomBar)
-    setShowPageNumbers(loadedSettings.showPageNumbers)
-    setAutoHideControls(loadedSettings.autoHideControls)
-    setAutoScrollSpeed(loadedSettings.autoScrollSpeed)
-  }, [])
+    const applySettings = () => {
+      const loadedSettings = resolveReaderSettings(mangaId, { contentType, genres })
+      setSettings(loadReaderSettings())
+      setSeriesSettings(getSeriesSettings(mangaId))
+      setReadingMode(loadedSettings.readingMode)
+      setReadingDirection(loadedSettings.readingDirection)
+      setPageFit(loadedSettings.pageFit)
+      setPageStretch(loadedSettings.pageStretch)
+      setShowPageGap(loadedSettings.showPageGap)
+      setShowLongStripGap(loadedSettings.showLongStripGap)
+      setShowProgressBar(loadedSettings.showProgressBar)
+      setShowBottomBar(loadedSettings.showBottomBar)
+      setShowPageNumbers(loadedSettings.showPageNumbers)
+      setShowPageComments(loadedSettings.showPageComments)
+      setAutoHideControls(loadedSettings.autoHideControls)
+      setAutoScrollSpeed(loadedSettings.autoScrollSpeed)
+      setDataSaver(loadedSettings.dataSaver)
+      setKeybindings(resolveKeybindings(loadedSettings.keybindings))
+    }
+
+    applySettings()
+    return subscribeToReaderSettings(applySettings)
+    // genres is compared by value through genresKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mangaId, contentType, genresKey])
+
+  // Layout settings are remembered for this title; the rest apply everywhere
+  const persistSetting = <K extends keyof MangaReaderSettings>(key: K, value: MangaReaderSettings[K]) => {
+    if (isSeriesSettingKey(key)) {
+      const newSeriesSettings = { ...seriesSettings, [key]: value }
+      setSeriesSettings(newSeriesSettings)
+      saveSeriesSettings(mangaId, newSeriesSettings)
+    } else {
+      const newSettings = { ...settings, [key]: value }
+      setSettings(newSettings)
+      saveReaderSettings(newSettings)
+    }
+  }
+
+  // Makes this title's layout the default for every title without its own
+  const applySeriesSettingsEverywhere = () => {
+    const newSettings = { ...settings, readingMode, readingDirection, pageFit, pageStretch, showPageGap, showLongStripGap }
+    setSettings(newSettings)
+    saveReaderSettings(newSettings)
+    setSeriesSettings({})
+    saveSeriesSettings(mangaId, {})
+  }
+
+  // Drops this title's overrides and goes back to the defaults
+  const resetSeriesSettings = () => {
+    saveSeriesSettings(mangaId, {})
+    setSeriesSettings({})
+    const defaults = resolveReaderSettings(mangaId, { contentType, genres })
+    setReadingMode(defaults.readingMode)
+    setReadingDirection(defaults.readingDirection)
+    setPageFit(defaults.pageFit)
+    setPageStretch(defaults.pageStretch)
+    setShowPageGap(defaults.showPageGap)
+    setShowLongStripGap(defaults.showLongStripGap)
+  }
 
   // Create wrapper functions that save to localStorage when settings change
   const updateReadingMode = (value: ReadingMode) => {
     setReadingMode(value)
-    const newSettings = { ...settings, readingMode: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("readingMode", value)
   }
 
   const updateReadingDirection = (value: ReadingDirection) => {
     setReadingDirection(value)
-    const newSettings = { ...settings, readingDirection: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("readingDirection", value)
   }
 
   const updatePageFit = (value: PageFit) => {
     setPageFit(value)
-    const newSettings = { ...settings, pageFit: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("pageFit", value)
   }
 
   const updatePageStretch = (value: PageStretch) => {
     setPageStretch(value)
-    const newSettings = { ...settings, pageStretch: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("pageStretch", value)
   }
 
   const updateShowPageGap = (value: boolean) => {
     setShowPageGap(value)
-    const newSettings = { ...settings, showPageGap: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("showPageGap", value)
   }
 
   const updateShowLongStripGap = (value: boolean) => {
     setShowLongStripGap(value)
-    const newSettings = { ...settings, showLongStripGap: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("showLongStripGap", value)
   }
 
   const updateShowProgressBar = (value: boolean) => {
     setShowProgressBar(value)
-    const newSettings = { ...settings, showProgressBar: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("showProgressBar", value)
   }
 
   const updateShowBottomBar = (value: boolean) => {
     setShowBottomBar(value)
-    const newSettings = { ...settings, showBottomBar: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("showBottomBar", value)
   }
 
   const updateShowPageNumbers = (value: boolean) => {
     setShowPageNumbers(value)
-    const newSettings = { ...settings, showPageNumbers: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("showPageNumbers", value)
+  }
+
+  const updateShowPageComments = (value: boolean) => {
+    setShowPageComments(value)
+    persistSetting("showPageComments", value)
   }
 
   const updateAutoHideControls = (value: boolean) => {
     setAutoHideControls(value)
-    const newSettings = { ...settings, autoHideControls: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("autoHideControls", value)
   }
 
   const updateAutoScrollSpeed = (value: number) => {
     setAutoScrollSpeed(value)
-    const newSettings = { ...settings, autoScrollSpeed: value }
-    setSettings(newSettings)
-    saveSettings(newSettings)
+    persistSetting("autoScrollSpeed", value)
+  }
+
+  const updateDataSaver = (value: boolean) => {
+    setDataSaver(value)
+    persistSetting("dataSaver", value)
+  }
+
+  const updateKeybindings = (value: Keybindings) => {
+    setKeybindings(value)
+    persistSetting("keybindings", getKeybindingOverrides(value))
   }
 
   useEffect(() => {
@@ -395,38 +459,111 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
   }, []);
 
   useEffect(() => {
-    const preloadImages = (startIndex: number, count: number) => {
-      const endIndex = Math.min(startIndex + count, totalPages)
-      
-      for (let i = startIndex; i < endIndex; i++) {
-        const imageUrl = pages[i]
-        if (!imageUrl) continue;
-        const cacheKey = `${chapter.number}-${i}-${imageUrl}`
-        
-        if (preloadedImages[cacheKey]) continue
-        
-        const img = new Image()
-        img.src = imageUrl
-        img.onload = () => {
-          setPreloadedImages(prev => ({...prev, [cacheKey]: true}))
-          setLoadedPages(prev => ({...prev, [i]: true}))
-        }
-        img.onerror = () => {
-          console.warn(`Failed to preload image: ${imageUrl}`);
-        }
+    const updateWidth = () => setViewportWidth(window.innerWidth)
+    updateWidth()
+    window.addEventListener('resize', updateWidth)
+    return () => window.removeEventListener('resize', updateWidth)
+  }, [])
+
+  // Downloaded chapters are cached under their original URLs, so they're shown untransformed
+  const imageUrlFor = useCallback((url: string, chapterToShow: { id?: string; number: number; language?: string }) => {
+    if (getDownloadedChapter(mangaId, chapterToShow)) return url
+    return getReaderImageUrl(url, {
+      displayWidth: getPageDisplayWidth(readingMode, viewportWidth),
+      devicePixelRatio: typeof window !== 'undefined' ? window.devicePixelRatio : 1,
+      dataSaver,
+    })
+  }, [mangaId, readingMode, viewportWidth, dataSaver])
+
+  const displayPages = useMemo(
+    () => pages.map(url => imageUrlFor(url, chapter)),
+    [pages, imageUrlFor, chapter]
+  )
+  const displayPagesRef = useRef(displayPages)
+  displayPagesRef.current = displayPages
+
+  const prefetcherRef = useRef<PagePrefetcher | null>(null)
+  useEffect(() => {
+    prefetcherRef.current = new PagePrefetcher(url => {
+      const index = displayPagesRef.current.indexOf(url)
+      if (index === -1) return
+      setPreloadedImages(prev => ({ ...prev, [`${chapter.number}-${index}-${url}`]: true }))
+      setLoadedPages(prev => ({ ...prev, [index]: true }))
+    })
+    return () => prefetcherRef.current?.clear()
+  }, [chapter.number])
+
+  // Recent time spent per page, used to size the lookahead
+  const pageTurnTimesRef = useRef<number[]>([])
+  const lastPageTurnRef = useRef<number | null>(null)
+  const position = readingMode === "Long Strip" ? currentVisiblePage : currentPage
+
+  // Pages on screen: two in Double Page mode, matching how the spread is laid out
+  const visiblePages = useMemo(() => {
+    if (readingMode !== "Double Page") return [position]
+    const spread = readingDirection === "Left to Right"
+      ? [Math.max(0, currentPage - 1), currentPage]
+      : [currentPage, currentPage + 1]
+    return Array.from(new Set(spread.filter(index => index < totalPages)))
+  }, [readingMode, readingDirection, position, currentPage, totalPages])
+  const lastVisiblePage = Math.max(...visiblePages)
+
+  // Furthest page seen in this chapter, starting from the reading history
+  const furthestChapterRef = useRef<string | null>(null)
+  useEffect(() => {
+    const chapterKey = `${mangaId}-${chapter.number}`
+    if (furthestChapterRef.current !== chapterKey) {
+      furthestChapterRef.current = chapterKey
+      setFurthestPage(Math.max(getFurthestPageRead(mangaId, chapter.number), lastVisiblePage))
+    } else {
+      setFurthestPage(prev => Math.max(prev, lastVisiblePage))
+    }
+  }, [mangaId, chapter.number, lastVisiblePage])
+
+  useEffect(() => {
+    const now = Date.now()
+    if (lastPageTurnRef.current !== null) {
+      const elapsed = now - lastPageTurnRef.current
+      // Ignore breaks away from the reader
+      if (elapsed < 2 * 60 * 1000) {
+        pageTurnTimesRef.current = [...pageTurnTimesRef.current.slice(-5), elapsed]
       }
     }
+    lastPageTurnRef.current = now
+  }, [position])
 
-    if (readingMode === "Long Strip") {
-      preloadImages(currentVisiblePage, 5)
-    } else {
-      preloadImages(currentPage, 3)
-      
-      if (readingMode === "Double Page" && currentPage > 0) {
-        preloadImages(currentPage - 1, 1)
+  useEffect(() => {
+    pageTurnTimesRef.current = []
+    lastPageTurnRef.current = null
+  }, [chapter.number])
+
+  useEffect(() => {
+    const prefetcher = prefetcherRef.current
+    if (!prefetcher || totalPages === 0) return
+
+    const times = [...pageTurnTimesRef.current].sort((a, b) => a - b)
+    const msPerPage = times.length >= 2 ? times[Math.floor(times.length / 2)] : null
+    const lookahead = getPrefetchLookahead(readingMode, msPerPage, dataSaver)
+
+    const urls: string[] = []
+    // The page before is shown too in Double Page mode
+    const from = readingMode === "Double Page" ? Math.max(0, position - 1) : position
+    for (let i = from; i <= Math.min(position + lookahead, totalPages - 1); i++) {
+      urls.push(displayPages[i])
+    }
+
+    // Close to the end: warm up the start of the next chapter
+    if (totalPages - 1 - position <= lookahead) {
+      const currentIndex = chapterList.findIndex(c => c.number === chapter.number)
+      const nextChapter = currentIndex >= 0 ? chapterList[currentIndex + 1] : undefined
+      // MangaDex chapters only get their page list when opened
+      if (nextChapter && !nextChapter.external) {
+        (nextChapter.pages || []).slice(0, NEXT_CHAPTER_PREFETCH_PAGES).forEach(url => urls.push(imageUrlFor(url, nextChapter)))
       }
     }
-  }, [currentPage, currentVisiblePage, chapter.number, pages, readingMode, totalPages, preloadedImages]);
+
+    prefetcher.schedule(urls)
+  }, [position, readingMode, dataSaver, totalPages, displayPages, chapterList, chapter.number, imageUrlFor])
 
   const calculateLongStripProgress = (): number => {
     if (totalPages === 0) return 0;
@@ -511,7 +648,8 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
         totalPages: totalPages,
         lastRead: Date.now(),
         mangaTitle,
-        mangaThumbnail: chapter.thumbnail
+        mangaThumbnail: chapter.thumbnail,
+        source: chapter.external ? 'mangadex' as const : 'local' as const
       };
       
       // Debounce the updates to avoid excessive calls
@@ -554,6 +692,17 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
     }
   }
 
+  // Jumps to a page in any reading mode
+  const goToPage = (pageIndex: number) => {
+    const target = Math.min(Math.max(0, pageIndex), totalPages - 1)
+    if (readingMode === "Long Strip") {
+      const pageElement = longStripRef.current?.querySelectorAll('[data-page-element="true"]')[target] as HTMLElement | undefined
+      pageElement?.scrollIntoView({ behavior: "smooth", block: "start" })
+    } else {
+      setCurrentPage(target)
+    }
+  }
+
   const goToNextPage = () => {
     if (currentPage < totalPages - 1) {
       setCurrentPage(currentPage + 1)
@@ -570,64 +719,130 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
     }
   }
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight", " "].includes(e.key)) {
-      e.preventDefault();
+  const scrollLongStrip = (fraction: number) => {
+    longStripRef.current?.scrollBy({ top: window.innerHeight * fraction, behavior: 'smooth' });
+  }
+
+  const cycle = <T,>(options: T[], current: T): T => options[(options.indexOf(current) + 1) % options.length]
+
+  // Everything the keyboard and gamepad can do; keys are looked up in `keybindings`
+  const runAction = (action: ReaderAction) => {
+    // The cheatsheet is modal: only closing it gets through
+    if (showShortcuts) {
+      if (action === "showShortcuts" || action === "close") setShowShortcuts(false)
+      return
     }
 
-    if (e.key === "ArrowRight" || e.key === " ") {
-      if (readingMode === "Long Strip") {
-        if (longStripRef.current) {
-          longStripRef.current.scrollBy({ top: window.innerHeight * 0.8, behavior: 'smooth' });
+    switch (action) {
+      case "pageRight":
+      case "pageLeft": {
+        const forward = (action === "pageRight") === (readingDirection === "Left to Right")
+        if (readingMode === "Long Strip") {
+          scrollLongStrip(action === "pageRight" ? 0.8 : -0.8)
+        } else {
+          forward ? goToNextPage() : goToPrevPage()
         }
-      } else {
-        const direction = readingDirection === "Left to Right" ? goToNextPage : goToPrevPage
-        direction()
+        break
       }
-    } else if (e.key === "ArrowLeft") {
-      if (readingMode === "Long Strip") {
-        if (longStripRef.current) {
-          longStripRef.current.scrollBy({ top: -window.innerHeight * 0.8, behavior: 'smooth' });
+      case "nextPage":
+        readingMode === "Long Strip" ? scrollLongStrip(0.8) : goToNextPage()
+        break
+      case "prevPage":
+        readingMode === "Long Strip" ? scrollLongStrip(-0.8) : goToPrevPage()
+        break
+      case "scrollDown":
+        if (readingMode === "Long Strip") scrollLongStrip(0.2)
+        break
+      case "scrollUp":
+        if (readingMode === "Long Strip") scrollLongStrip(-0.2)
+        break
+      case "nextChapter":
+        navigateToNextChapter()
+        break
+      case "prevChapter":
+        navigateToPrevChapter()
+        break
+      case "close":
+        if (showSettings) {
+          setShowSettings(false)
+        } else if (isFullscreen) {
+          document.exitFullscreen()
+        } else {
+          onClose()
         }
-      } else {
-        const direction = readingDirection === "Left to Right" ? goToPrevPage : goToNextPage
-        direction()
-      }
-    } else if (e.key === "ArrowUp") {
-      if (readingMode === "Long Strip" && longStripRef.current) {
-        longStripRef.current.scrollBy({ top: -window.innerHeight * 0.2, behavior: 'smooth' });
-      }
-    } else if (e.key === "ArrowDown") {
-      if (readingMode === "Long Strip" && longStripRef.current) {
-        longStripRef.current.scrollBy({ top: window.innerHeight * 0.2, behavior: 'smooth' });
-      }
-    } else if (e.key === "Escape") {
-      if (showSettings) {
-        setShowSettings(false)
-      } else if (isFullscreen) {
-        document.exitFullscreen()
-      } else {
-        onClose()
-      }
-    } else if (e.key === "f") {
-      toggleFullscreen()
-    } else if (e.key === "s") {
-      setShowSettings(!showSettings)
-    } else if (e.key === "b") {
-      updateShowBottomBar(!showBottomBar)
-    } else if (e.key === "c") {
-      setShowChapterList(!showChapterList);
-    } else if (e.key === "m") {
-      toggleComments();
-    } else if (e.key === "z") {
-      setIsMagnifierActive(prev => !prev);
-    } else if (e.key === "[" || e.key === "PageUp") {
-      navigateToPrevChapter()
-    } else if (e.key === "]" || e.key === "PageDown") {
-      navigateToNextChapter()
+        break
+      case "toggleFullscreen":
+        toggleFullscreen()
+        break
+      case "toggleSettings":
+        setShowSettings(!showSettings)
+        break
+      case "toggleBottomBar":
+        updateShowBottomBar(!showBottomBar)
+        break
+      case "toggleChapterList":
+        setShowChapterList(!showChapterList)
+        break
+      case "toggleComments":
+        toggleComments()
+        break
+      case "toggleMagnifier":
+        setIsMagnifierActive(prev => !prev)
+        break
+      case "toggleAutoScroll":
+        if (readingMode === "Long Strip") toggleAutoScroll()
+        break
+      case "autoScrollFaster":
+        increaseScrollSpeed()
+        break
+      case "autoScrollSlower":
+        decreaseScrollSpeed()
+        break
+      case "cycleReadingMode":
+        updateReadingMode(cycle(readingModes, readingMode))
+        break
+      case "toggleReadingDirection":
+        updateReadingDirection(cycle(readingDirections, readingDirection))
+        break
+      case "cyclePageFit":
+        updatePageFit(cycle(fitOptions, pageFit))
+        break
+      case "toggleBookmark":
+        toggleBookmark()
+        break
+      case "showShortcuts":
+        setShowShortcuts(true)
+        break
     }
   }
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Typing a comment shouldn't turn pages
+    const target = e.target as HTMLElement
+    if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return
+
+    const combo = getKeyCombo(e)
+    const action = combo ? findActionForCombo(keybindings, combo) : null
+    if (!action) return
+
+    e.preventDefault()
+    runAction(action)
+  }
+
+  // Held buttons repeat only for moving around, not for toggles
+  useGamepad((button, repeat) => {
+    const action = GAMEPAD_BINDINGS[button]
+    if (!action) return
+    if (repeat && !["pageLeft", "pageRight", "nextPage", "prevPage", "scrollUp", "scrollDown"].includes(action)) return
+    runAction(action)
+  })
+
+  // First key bound to an action, for button tooltips
+  const shortcutHint = (action: ReaderAction) => {
+    const combo = keybindings[action][0]
+    return combo ? ` (${formatKeyCombo(combo)})` : ""
+  }
+
   const getPageFitClass = () => {
     switch (pageFit) {
       case "Contain": return "object-contain"; 
@@ -735,6 +950,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
           )}
           onLoad={() => {
             setIsLoaded(true);
+            prefetcherRef.current?.markLoaded(src);
             setPreloadedImages(prev => ({...prev, [cacheKey]: true}));
             setLoadedPages(prev => ({...prev, [index]: true}));
           }}
@@ -769,7 +985,8 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
         totalPages: chapter.pages.length,
         lastRead: Date.now(),
         mangaTitle,
-        mangaThumbnail: chapter.thumbnail
+        mangaThumbnail: chapter.thumbnail,
+        source: chapter.external ? 'mangadex' : 'local'
       });
       
       onChapterSelect(currentIndex + 1);
@@ -895,10 +1112,114 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
   }, []);
 
   const toggleComments = () => {
+    if (offline) return;
+    setCommentsPageFilter(null);
     setShowComments(!showComments);
     if (showSettings) setShowSettings(false);
   }
 
+  const openPageComments = (pageIndex: number) => {
+    if (offline) return
+    setCommentsPageFilter(pageIndex)
+    setShowComments(true)
+    setShowSettings(false)
+  }
+
+  // The chapter's comments, for the page markers and the comments shown next to pages
+  const commentsContentId = getChapterCommentsContentId(mangaId, chapter.id || chapter.number.toString(), chapter.language || "ge")
+
+  useEffect(() => {
+    setChapterComments([])
+    if (offline || !showPageComments) return
+    let isMounted = true
+    getAllComments(commentsContentId, "manga", user?.id)
+      .then(({ success, comments }) => { if (isMounted && success && comments) setChapterComments(comments) })
+      .catch(error => console.warn("Failed to load page comments:", error))
+    return () => { isMounted = false }
+  }, [commentsContentId, user?.id, offline, showPageComments])
+
+  const pageComments = useMemo(
+    () => (showPageComments ? groupCommentsByPage(chapterComments) : new Map<number, Comment[]>()),
+    [chapterComments, showPageComments]
+  )
+  const visiblePageComments = visiblePages.flatMap(index => pageComments.get(index) || [])
+
+  // Bookmarks for this title; the reader marks and edits those of the open chapter
+  useEffect(() => {
+    setBookmarks([])
+    if (!user?.id || offline) return
+    let isMounted = true
+    getPageBookmarks(mangaId)
+      .then(result => { if (isMounted) setBookmarks(result) })
+      .catch(error => console.warn("Failed to load bookmarks:", error))
+    return () => { isMounted = false }
+  }, [mangaId, user?.id, offline])
+
+  const bookmarkChapterId = getBookmarkChapterId(chapter)
+  const currentBookmark = bookmarks.find(item => item.chapterId === bookmarkChapterId && item.pageIndex === position)
+  const editingBookmark = bookmarks.find(item => item.id === editingBookmarkId)
+
+  const removeBookmark = async (bookmark: PageBookmark) => {
+    try {
+      await deletePageBookmark(bookmark.id)
+      setBookmarks(prev => prev.filter(item => item.id !== bookmark.id))
+      setEditingBookmarkId(null)
+      toast.success("სანიშნე წაიშალა")
+    } catch (error) {
+      console.error("Failed to delete bookmark:", error)
+      toast.error("სანიშნის წაშლა ვერ მოხერხდა")
+    }
+  }
+
+  const toggleBookmark = async () => {
+    if (offline) return
+    if (!user?.id) {
+      toast.error("სანიშნეებისთვის საჭიროა ავტორიზაცია")
+      return
+    }
+    if (currentBookmark) {
+      await removeBookmark(currentBookmark)
+      return
+    }
+    if (!pages[position]) return
+
+    try {
+      const bookmark = await addPageBookmark({
+        contentId: mangaId,
+        contentType: contentType || "manga",
+        contentTitle: mangaTitle,
+        contentThumbnail: chapter.thumbnail || "",
+        chapterId: bookmarkChapterId,
+        chapterNumber: chapter.number,
+        chapterTitle: chapter.title,
+        language: chapter.language || "ge",
+        pageIndex: position,
+        pageUrl: getBookmarkPageRef(pages[position], chapter.external ? chapter.id : undefined),
+        crop: null,
+        note: "",
+      })
+      setBookmarks(prev => [bookmark, ...prev.filter(item => item.id !== bookmark.id)])
+      toast.success(`გვერდი ${position + 1} დაინიშნა`, {
+        action: { label: "შენიშვნა", onClick: () => setEditingBookmarkId(bookmark.id) },
+      })
+    } catch (error) {
+      console.error("Failed to add bookmark:", error)
+      toast.error("სანიშნის დამატება ვერ მოხერხდა")
+    }
+  }
+
+  const saveBookmark = async (bookmark: PageBookmark, changes: Pick<PageBookmark, "note" | "crop">) => {
+    try {
+      const updated = await updatePageBookmark(bookmark.id, changes)
+      setBookmarks(prev => prev.map(item => (item.id === updated.id ? updated : item)))
+      setEditingBookmarkId(null)
+      toast.success("სანიშნე შენახულია")
+    } catch (error) {
+      console.error("Failed to update bookmark:", error)
+      toast.error("სანიშნის შენახვა ვერ მოხერხდა")
+    }
+  }
+
   // New useEffect for scroll-based controls in Long Strip mode
   useEffect(() => {
     if (readingMode !== "Long Strip" || !longStripRef.current || !autoHideControls) {
@@ -1030,7 +1351,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                 className="p-1.5 rounded-full hover:bg-gray-800/70 transition-colors text-gray-300 hover:text-white"
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.95 }}
-                title="თავების სია (C)"
+                title={`თავების სია${shortcutHint("toggleChapterList")}`}
               >
                 <Menu className="h-5 w-5" />
               </motion.button>
@@ -1039,18 +1360,34 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                  {mangaTitle} - {chapter.title}
               </div>
               
-              <motion.button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onClose();
-                }}
-                className="p-1.5 rounded-full hover:bg-red-600/90 transition-colors text-gray-300 hover:text-white"
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.95 }}
-                title="დახურვა (Esc)"
-              >
-                <X className="h-5 w-5" />
-              </motion.button>
+              <div className="flex items-center gap-1">
+                {onStartLive && (
+                  <motion.button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onStartLive();
+                    }}
+                    className="p-1.5 rounded-full hover:bg-purple-600/70 transition-colors text-gray-300 hover:text-white"
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.95 }}
+                    title="ერთად კითხვა"
+                  >
+                    <Users className="h-5 w-5" />
+                  </motion.button>
+                )}
+                <motion.button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onClose();
+                  }}
+                  className="p-1.5 rounded-full hover:bg-red-600/90 transition-colors text-gray-300 hover:text-white"
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.95 }}
+                  title={`დახურვა${shortcutHint("close")}`}
+                >
+                  <X className="h-5 w-5" />
+                </motion.button>
+              </div>
             </motion.div>
           )}
         </AnimatePresence>
@@ -1090,7 +1427,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                 className="flex flex-col items-center pt-12 pb-24"
                 style={{ minHeight: '100vh' }}
               >
-                {pages.map((pageUrl, pageIndex) => {
+                {displayPages.map((pageUrl, pageIndex) => {
                   return (
                     <div 
                       key={pageIndex} 
@@ -1179,7 +1516,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                       )}>
                       <div className="w-1/2 h-full flex-shrink-0 PageImage_wrapper_child">
                         <PageImage 
-                          src={readingDirection === 'Left to Right' && currentPage > 0 ? pages[currentPage - 1] : pages[currentPage]}
+                          src={readingDirection === 'Left to Right' && currentPage > 0 ? displayPages[currentPage - 1] : displayPages[currentPage]}
                           alt={`Page ${readingDirection === 'Left to Right' && currentPage > 0 ? currentPage : currentPage + 1}`}
                           index={readingDirection === 'Left to Right' && currentPage > 0 ? currentPage - 1 : currentPage}
                           className="h-full w-full"
@@ -1192,7 +1529,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                       { (readingDirection === 'Left to Right' ? currentPage : currentPage + 1) < totalPages && (
                         <div className="w-1/2 h-full flex-shrink-0 PageImage_wrapper_child">
                           <PageImage 
-                            src={readingDirection === 'Left to Right' ? pages[currentPage] : pages[currentPage + 1]}
+                            src={readingDirection === 'Left to Right' ? displayPages[currentPage] : displayPages[currentPage + 1]}
                             alt={`Page ${readingDirection === 'Left to Right' ? currentPage + 1 : currentPage + 2}`}
                             index={readingDirection === 'Left to Right' ? currentPage : currentPage + 1}
                             className="h-full w-full"
@@ -1215,7 +1552,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                   ) : (
                     <div className={cn("w-full h-full relative PageImage_wrapper", isMagnifierActive ? 'cursor-none' : '')}>
                       <PageImage 
-                        src={pages[currentPage]} 
+                        src={displayPages[currentPage]} 
                         alt={`Page ${currentPage + 1}`}
                         index={currentPage}
                         className="h-full w-full"
@@ -1251,6 +1588,20 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
             />
           )}
           
+          <AnimatePresence>
+            {!offline && !showComments && visiblePageComments.length > 0 && (
+              <ReaderPageComments
+                key={visiblePages.join("-")}
+                comments={visiblePageComments}
+                pageUrlFor={(pageIndex) => pages[pageIndex]}
+                collapsed={pageCommentsCollapsed}
+                onToggle={() => setPageCommentsCollapsed(!pageCommentsCollapsed)}
+                onOpenAll={() => openPageComments(visiblePages.find(index => pageComments.has(index)) ?? position)}
+                className="absolute bottom-24 left-4 z-20"
+              />
+            )}
+          </AnimatePresence>
+
           {readingMode === "Long Strip" && (showControls || !autoHideControls) && (
             <motion.div 
               className="absolute bottom-24 right-4 bg-black/80 backdrop-blur-md rounded-xl p-3 flex flex-col items-center space-y-2 z-20 border border-gray-600/50 shadow-xl"
@@ -1388,6 +1739,31 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                 </div>
 
                 <div className="space-y-4">
+                  <div className="rounded-md bg-gray-800/40 px-3 py-2 text-xs text-gray-400">
+                    {Object.keys(seriesSettings).length > 0 ? (
+                      <>
+                        <p>ამ სერიას საკუთარი განლაგება აქვს.</p>
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={applySeriesSettingsEverywhere}
+                            className="text-purple-400 hover:text-purple-300"
+                          >
+                            ყველასთვის გამოყენება
+                          </button>
+                          <span className="text-gray-600">·</span>
+                          <button
+                            onClick={resetSeriesSettings}
+                            className="text-gray-300 hover:text-white"
+                          >
+                            გადატვირთვა
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <p>განლაგების ცვლილებები მხოლოდ ამ სერიისთვის შეინახება.</p>
+                    )}
+                  </div>
+
                   <div>
                     <h4 className="text-sm font-medium text-gray-400 mb-2">
                       კითხვის რეჟიმი
@@ -1478,6 +1854,26 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                         onCheckedChange={updateShowPageNumbers}
                       />
                     </div>
+                    <div className="flex items-center justify-between py-1">
+                      <div className="select-none">
+                        <span className="text-sm font-medium text-gray-400">გვერდის კომენტარები</span>
+                        <p className="text-xs text-gray-500">ნიშნები პროგრესზე და კომენტარები გვერდთან</p>
+                      </div>
+                      <Switch
+                        checked={showPageComments}
+                        onCheckedChange={updateShowPageComments}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between py-1">
+                      <div className="select-none">
+                        <span className="text-sm font-medium text-gray-400">მონაცემების დაზოგვა</span>
+                        <p className="text-xs text-gray-500">პატარა სურათები, ნაკლები წინასწარი ჩატვირთვა</p>
+                      </div>
+                      <Switch
+                        checked={dataSaver}
+                        onCheckedChange={updateDataSaver}
+                      />
+                    </div>
                     <div className={`flex items-center justify-between py-1 ${readingMode !== 'Long Strip' ? 'opacity-50' : ''}`}>
                       <span className="text-sm font-medium text-gray-400 select-none">შუალედი (გრძელი ზოლი)</span>
                       <Switch
@@ -1487,6 +1883,18 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                       />
                     </div>
                   </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full gap-1.5 border-gray-700 bg-gray-800/50 text-gray-300 hover:bg-gray-700 hover:text-white"
+                    onClick={() => {
+                      setShowSettings(false);
+                      setShowShortcuts(true);
+                    }}
+                  >
+                    <Keyboard className="h-4 w-4" />
+                    კლავიატურის მალსახმობები
+                  </Button>
                 </div>
               </motion.div>
             )}
@@ -1518,6 +1926,25 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                         transition={{ duration: 0.2, ease: "easeOut" }}
                       />
                       </div>
+                      {Array.from(pageComments.entries()).map(([pageIndex, comments]) => (
+                        <button
+                          key={pageIndex}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            goToPage(pageIndex)
+                          }}
+                          className="absolute -top-1 h-2.5 w-2.5 -translate-x-1/2 group"
+                          style={{ left: `${((pageIndex + 0.5) / Math.max(1, totalPages)) * 100}%` }}
+                        >
+                          <span className={cn(
+                            "block h-full w-full rounded-full border border-black/60",
+                            isPageSpoiler({ page_index: pageIndex }, furthestPage) ? "bg-gray-500" : "bg-yellow-400"
+                          )} />
+                          <span className="absolute bottom-full mb-1 left-1/2 transform -translate-x-1/2 bg-black px-1.5 py-0.5 rounded text-xs opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
+                            Page {pageIndex + 1} · {comments.length} კომენტარი
+                          </span>
+                        </button>
+                      ))}
                     </div>
                   ) : (
                     <div className="h-full flex">
@@ -1533,8 +1960,15 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                             currentPage === idx ? "bg-gradient-to-r from-purple-600 to-blue-600 shadow-inner" : "bg-gray-800/40"
                           )}
                         >
+                          {pageComments.has(idx) && (
+                            <span className={cn(
+                              "absolute -top-1 left-1/2 -translate-x-1/2 h-2 w-2 rounded-full border border-black/60 pointer-events-none",
+                              isPageSpoiler({ page_index: idx }, furthestPage) ? "bg-gray-500" : "bg-yellow-400"
+                            )} />
+                          )}
                           <span className="absolute bottom-full mb-1 left-1/2 transform -translate-x-1/2 bg-black px-1.5 py-0.5 rounded text-xs opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
                             Page {idx + 1}
+                            {pageComments.has(idx) && ` · ${pageComments.get(idx)!.length} კომენტარი`}
                           </span>
                         </button>
                       ))}
@@ -1551,7 +1985,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                     disabled={chapterList.findIndex(c => c.number === chapter.number) === 0}
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
-                    title="წინა თავი ([)"
+                    title={`წინა თავი${shortcutHint("prevChapter")}`}
                   >
                     <ArrowLeft className="h-4 w-4" />
                   </motion.button>
@@ -1641,7 +2075,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                     disabled={chapterList.findIndex(c => c.number === chapter.number) === chapterList.length - 1}
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
-                    title="შემდეგი თავი (])"
+                    title={`შემდეგი თავი${shortcutHint("nextChapter")}`}
                   >
                     <ArrowRight className="h-4 w-4" />
                   </motion.button>
@@ -1672,7 +2106,7 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                     className={`p-1.5 rounded-full hover:bg-gray-800/70 transition-colors ${showSettings ? "text-purple-400 bg-gray-700/50" : "text-gray-300 hover:text-white"}`}
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
-                    title="პარამეტრები (S)"
+                    title={`პარამეტრები${shortcutHint("toggleSettings")}`}
                   >
                     <Settings className="h-5 w-5" />
                   </motion.button>
@@ -1684,10 +2118,25 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                     className={`p-1.5 rounded-full hover:bg-gray-800/70 transition-colors ${isMagnifierActive ? "text-purple-400 bg-gray-700/50" : "text-gray-300 hover:text-white"}`}
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
-                    title="Magnifier (Z)"
+                    title={`Magnifier${shortcutHint("toggleMagnifier")}`}
                   >
                     <Search className="h-5 w-5" />
                   </motion.button>
+                  {!offline && (
+                  <motion.button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleBookmark();
+                    }}
+                    className={`p-1.5 rounded-full hover:bg-gray-800/70 transition-colors ${currentBookmark ? "text-purple-400 bg-gray-700/50" : "text-gray-300 hover:text-white"}`}
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    title={`${currentBookmark ? "სანიშნის მოხსნა" : "გვერდის დანიშვნა"}${shortcutHint("toggleBookmark")}`}
+                  >
+                    <Bookmark className={cn("h-5 w-5", currentBookmark && "fill-current")} />
+                  </motion.button>
+                  )}
+                  {!offline && (
                   <motion.button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -1697,10 +2146,11 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                     className={`p-1.5 rounded-full hover:bg-gray-800/70 transition-colors ${showComments ? "text-purple-400 bg-gray-700/50" : "text-gray-300 hover:text-white"}`}
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
-                    title="კომენტარები (M)"
+                    title={`კომენტარები${shortcutHint("toggleComments")}`}
                   >
                     <MessageSquare className="h-5 w-5" />
                   </motion.button>
+                  )}
                   <motion.button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -1744,6 +2194,12 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                   chapterTitle={chapter.title}
                   chapterId={chapter.id || chapter.number.toString()}
                   language={chapter.language || 'ge'}
+                  readerPage={position}
+                  furthestPage={furthestPage}
+                  pageUrlFor={(pageIndex) => pages[pageIndex]}
+                  initialPageFilter={commentsPageFilter}
+                  onJumpToPage={goToPage}
+                  onCommentsChange={setChapterComments}
                   key={`${mangaId}-chapter-${chapter.id || chapter.number}-${chapter.language || 'ge'}`} // Force re-render when chapter changes
                 />
               </div>
@@ -1787,11 +2243,68 @@ export function MangaReader({ chapter, chapterList, onClose, onChapterSelect, ma
                 <p className="text-sm text-gray-300">
                   კონტროლის პანელის საჩვენებლად ან დასამალდა, დააჭირეთ მაუსის მარჯვენა ღილაკს.
                 </p>
+                <button
+                  onClick={() => {
+                    setShowInfoTutorial(false);
+                    setShowShortcuts(true);
+                  }}
+                  className="mt-4 inline-flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300"
+                >
+                  <Keyboard className="h-4 w-4" />
+                  კლავიატურის მალსახმობები{shortcutHint("showShortcuts")}
+                </button>
               </div>
             </motion.div>
           )}
         </AnimatePresence>
 
+        {/* Marks a bookmarked page and opens its note */}
+        <AnimatePresence>
+          {currentBookmark && (showControls || !autoHideControls) && (
+            <motion.button
+              initial={{ opacity: 0, y: -8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingBookmarkId(currentBookmark.id);
+              }}
+              className="absolute top-16 right-3 z-30 flex max-w-[16rem] items-center gap-1.5 rounded-full border border-purple-500/40 bg-black/70 px-3 py-1.5 text-xs text-purple-200 backdrop-blur-sm hover:bg-purple-900/60"
+              title="სანიშნის რედაქტირება"
+            >
+              {currentBookmark.note ? <StickyNote className="h-3.5 w-3.5 flex-shrink-0" /> : <Bookmark className="h-3.5 w-3.5 flex-shrink-0 fill-current" />}
+              <span className="truncate">{currentBookmark.note || "შენიშვნის დამატება"}</span>
+            </motion.button>
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {editingBookmark && (
+            <PageBookmarkEditor
+              bookmark={editingBookmark}
+              onSave={(changes) => saveBookmark(editingBookmark, changes)}
+              onDelete={() => removeBookmark(editingBookmark)}
+              onClose={() => {
+                setEditingBookmarkId(null);
+                readerRef.current?.focus();
+              }}
+            />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {showShortcuts && (
+            <ReaderShortcutsOverlay
+              bindings={keybindings}
+              onChange={updateKeybindings}
+              onClose={() => {
+                setShowShortcuts(false);
+                readerRef.current?.focus();
+              }}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Ghost Info Icon - Appears when controls are hidden and tutorial is not open */}
         <AnimatePresence>
           {!showControls && !showInfoTutorial && (
@@ -0,0 +1,151 @@
+"use client"
+
+import { useState } from "react"
+import { motion } from "framer-motion"
+import { Bookmark, Crop, Loader2, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { BookmarkThumbnail } from "@/components/bookmark-thumbnail"
+import { PageRegionSelector } from "@/components/page-region-selector"
+import { useBookmarkPageUrl } from "@/hooks/use-bookmark-page-url"
+import {
+  BookmarkCrop,
+  MAX_BOOKMARK_NOTE_LENGTH,
+  PageBookmark,
+  normalizeCrop,
+} from "@/lib/page-bookmarks"
+
+interface PageBookmarkEditorProps {
+  bookmark: PageBookmark
+  onSave: (changes: { note: string; crop: BookmarkCrop | null }) => Promise<void>
+  onDelete: () => Promise<void>
+  onClose: () => void
+}
+
+// Edits a bookmark's private note and the highlighted panel used as its thumbnail
+export function PageBookmarkEditor({ bookmark, onSave, onDelete, onClose }: PageBookmarkEditorProps) {
+  const [note, setNote] = useState(bookmark.note)
+  const [crop, setCrop] = useState<BookmarkCrop | null>(bookmark.crop)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const pageUrl = useBookmarkPageUrl(bookmark.pageUrl)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave({ note, crop: normalizeCrop(crop) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    try {
+      await onDelete()
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.15 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-xl border border-gray-700 w-full max-w-3xl max-h-[90vh] overflow-y-auto p-5 text-white"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          // Typing a note shouldn't reach the reader's shortcuts
+          e.stopPropagation()
+          if (e.key === "Escape") onClose()
+        }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Bookmark className="h-5 w-5 text-purple-400 fill-purple-400" />
+            სანიშნე · თავი {bookmark.chapterNumber}, გვერდი {bookmark.pageIndex + 1}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-full hover:bg-gray-700/80 text-gray-400 hover:text-white transition-colors"
+            title="დახურვა"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid gap-5 md:grid-cols-[minmax(0,1fr)_16rem]">
+          <div>
+            <p className="mb-2 text-xs text-gray-400 flex items-center gap-1.5">
+              <Crop className="h-3.5 w-3.5" />
+              მონიშნეთ პანელი, რომელიც სანიშნეს მინიატურად გამოჩნდება
+            </p>
+            {pageUrl ? (
+              <PageRegionSelector
+                pageUrl={pageUrl}
+                region={crop}
+                onChange={setCrop}
+                imageClassName="max-h-[60vh]"
+              />
+            ) : (
+              <div className="flex h-64 items-center justify-center rounded-md bg-gray-800">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <BookmarkThumbnail
+              bookmark={{ pageUrl: bookmark.pageUrl, crop: normalizeCrop(crop) }}
+              alt="მინიატურა"
+              className="aspect-[4/3] w-full rounded-md border border-gray-700"
+            />
+            {crop && (
+              <button onClick={() => setCrop(null)} className="self-start text-xs text-gray-400 hover:text-white">
+                მთლიანი გვერდი
+              </button>
+            )}
+            <div>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value.slice(0, MAX_BOOKMARK_NOTE_LENGTH))}
+                placeholder="პირადი შენიშვნა..."
+                className="min-h-[120px] bg-gray-800/60 border-gray-700 text-sm"
+              />
+              <p className="mt-1 text-right text-[11px] text-gray-500">
+                {note.length}/{MAX_BOOKMARK_NOTE_LENGTH} · მხოლოდ თქვენ ხედავთ
+              </p>
+            </div>
+            <div className="mt-auto flex items-center justify-between gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-400 hover:text-red-300 hover:bg-red-500/10 gap-1.5"
+                onClick={handleDelete}
+                disabled={isDeleting || isSaving}
+              >
+                {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                წაშლა
+              </Button>
+              <Button
+                size="sm"
+                className="bg-purple-600 hover:bg-purple-700"
+                onClick={handleSave}
+                disabled={isSaving || isDeleting}
+              >
+                {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                შენახვა
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
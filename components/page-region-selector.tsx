@@ -0,0 +1,77 @@
+"use client"
+
+import { useRef } from "react"
+import { BookmarkCrop, normalizeCrop } from "@/lib/page-bookmarks"
+import { cn } from "@/lib/utils"
+
+interface PageRegionSelectorProps {
+  pageUrl: string
+  region: BookmarkCrop | null
+  onChange: (region: BookmarkCrop | null) => void
+  className?: string
+  imageClassName?: string
+}
+
+// A page image the user drags a rectangle on; the rest of the page is dimmed
+export function PageRegionSelector({ pageUrl, region, onChange, className, imageClassName }: PageRegionSelectorProps) {
+  const pageRef = useRef<HTMLDivElement>(null)
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null)
+  const regionRef = useRef(region)
+  regionRef.current = region
+
+  // Pointer position as fractions of the page image
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = pageRef.current!.getBoundingClientRect()
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = pointAt(e)
+    onChange(null)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current
+    if (!start) return
+    const point = pointAt(e)
+    onChange({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    })
+  }
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null
+    // A click or a sliver clears the selection
+    onChange(normalizeCrop(regionRef.current))
+  }
+
+  return (
+    <div
+      ref={pageRef}
+      className={cn("relative mx-auto w-fit cursor-crosshair touch-none select-none", className)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img src={pageUrl} alt="" className={cn("block w-auto", imageClassName)} draggable={false} />
+      {region && (
+        <div
+          className="absolute border-2 border-purple-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+          style={{
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  )
+}
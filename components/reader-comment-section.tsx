@@ -20,7 +20,10 @@ import {
   XCircle,
   ThumbsUp,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  MapPin,
+  Crop,
+  EyeOff
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { ka } from 'date-fns/locale'
@@ -43,6 +46,15 @@ import { StickerSelector, Sticker } from './sticker-selector'
 import { cn } from '@/lib/utils'
 import { createNotification } from "@/lib/notifications"
 import { VIPBadge } from "@/components/ui/vip-badge"
+import { BookmarkThumbnail } from "@/components/bookmark-thumbnail"
+import { PageRegionSelector } from "@/components/page-region-selector"
+import {
+  PageRegion,
+  getChapterCommentsContentId,
+  getCommentAnchor,
+  isPageSpoiler,
+  normalizePageRegion
+} from '@/lib/page-comments'
 import Link from 'next/link'
 
 // UUID namespace for converting non-UUID IDs (same as in comments.ts)
@@ -82,6 +94,16 @@ interface ReaderCommentSectionProps {
   chapterTitle: string
   chapterId?: string
   language?: 'ge' | 'en'
+  // Page the reader is on; new comments can be anchored to it
+  readerPage?: number
+  // Furthest page reached in this chapter; comments anchored past it are hidden as spoilers
+  furthestPage?: number
+  pageUrlFor?: (pageIndex: number) => string | undefined
+  // Opens the panel showing only one page's comments
+  initialPageFilter?: number | null
+  onJumpToPage?: (pageIndex: number) => void
+  // Lets the reader keep its page markers in step with what's posted here
+  onCommentsChange?: (comments: Comment[]) => void
 }
 
 export function ReaderCommentSection({
@@ -89,7 +111,13 @@ export function ReaderCommentSection({
   chapterNumber,
   chapterTitle,
   chapterId,
-  language = 'ge'
+  language = 'ge',
+  readerPage,
+  furthestPage = Infinity,
+  pageUrlFor,
+  initialPageFilter = null,
+  onJumpToPage,
+  onCommentsChange
 }: ReaderCommentSectionProps) {
   // Use unified auth for basic auth state
   const { isAuthenticated, isLoading: authLoading, userId, username, avatarUrl } = useUnifiedAuth();
@@ -106,6 +134,11 @@ export function ReaderCommentSection({
   const [showStickerSelector, setShowStickerSelector] = useState(false)
   const [editMedia, setEditMedia] = useState<string | null>(null)
   const [commentToDelete, setCommentToDelete] = useState<CommentWithDetails | null>(null)
+  // Page (and region) a new comment will be anchored to
+  const [anchorPage, setAnchorPage] = useState<number | null>(null)
+  const [anchorRegion, setAnchorRegion] = useState<PageRegion | null>(null)
+  const [showRegionSelector, setShowRegionSelector] = useState(false)
+  const [pageFilter, setPageFilter] = useState<number | null>(initialPageFilter)
   
   const commentBoxRef = useRef<HTMLTextAreaElement>(null)
   const router = useRouter()
@@ -115,7 +148,14 @@ export function ReaderCommentSection({
   const [commentsPerPage] = useState(5) // Comments per page
 
   // Create unique content ID for this specific chapter
-  const contentId = `${mangaId}-chapter-${chapterId || chapterNumber}-${language}`
+  const contentId = getChapterCommentsContentId(mangaId, chapterId || chapterNumber, language)
+
+  const onCommentsChangeRef = useRef(onCommentsChange)
+  onCommentsChangeRef.current = onCommentsChange
+
+  useEffect(() => {
+    if (!isLoading) onCommentsChangeRef.current?.(comments)
+  }, [comments, isLoading])
 
   // Load comments for this specific chapter
   useEffect(() => {
@@ -164,6 +204,13 @@ export function ReaderCommentSection({
     }
   }, [editingId])
 
+  const toggleAnchor = () => {
+    setAnchorPage(anchorPage === null && typeof readerPage === 'number' ? readerPage : null)
+    setAnchorRegion(null)
+  }
+
+  const anchorPageUrl = anchorPage !== null ? pageUrlFor?.(anchorPage) : undefined
+
   // Handle sticker selection
   const handleStickerSelect = (sticker: Sticker) => {
     setSelectedSticker(sticker);
@@ -237,7 +284,9 @@ export function ReaderCommentSection({
         newComment.trim(),
         username || 'მომხმარებელი',
         getSupabaseAvatarUrl(userId, profile?.avatar_url),
-        mediaUrl
+        mediaUrl,
+        null,
+        anchorPage !== null ? { pageIndex: anchorPage, region: normalizePageRegion(anchorRegion) } : null
       )
       
       if (success && comment) {
@@ -245,6 +294,8 @@ export function ReaderCommentSection({
         setCurrentPage(1); // Go to first page to see new comment
         setNewComment('')
         setSelectedSticker(null)
+        setAnchorPage(null)
+        setAnchorRegion(null)
         toast.success("კომენტარი დაემატა!")
       } else {
         console.error('Error posting comment:', error);
@@ -419,12 +470,13 @@ export function ReaderCommentSection({
   };
 
   // Pagination Logic
-  const totalCommentsCount = comments.length;
+  const visibleComments = pageFilter === null ? comments : comments.filter(c => c.page_index === pageFilter);
+  const totalCommentsCount = visibleComments.length;
   const totalPagesCalculated = Math.ceil(totalCommentsCount / commentsPerPage);
   
   const indexOfLastComment = currentPage * commentsPerPage;
   const indexOfFirstComment = indexOfLastComment - commentsPerPage;
-  const currentComments = comments.slice(indexOfFirstComment, indexOfLastComment);
+  const currentComments = visibleComments.slice(indexOfFirstComment, indexOfLastComment);
   
   const handlePageChange = (pageNumber: number) => {
     if (pageNumber >= 1 && pageNumber <= totalPagesCalculated) {
@@ -520,6 +572,25 @@ export function ReaderCommentSection({
                     </button>
                   </div>
                 ) : null}
+
+                {/* Highlighted region of the anchored page */}
+                {!editingId && anchorRegion && anchorPageUrl && (
+                  <div className="relative inline-block mb-2 ml-1 group">
+                    <BookmarkThumbnail
+                      bookmark={{ pageUrl: anchorPageUrl, crop: anchorRegion }}
+                      alt="მონიშნული ადგილი"
+                      className="w-20 h-20 rounded-md border border-purple-500/60"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setAnchorRegion(null)}
+                      className="absolute -top-1 -right-1 bg-red-600 rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="წაშლა"
+                    >
+                      <X className="h-3 w-3 text-white" />
+                    </button>
+                  </div>
+                )}
               
                 <div className="flex justify-between items-center">
                   <div className="flex items-center gap-1">
@@ -546,6 +617,35 @@ export function ReaderCommentSection({
                           />
                       )}
                     </Button>
+                    {typeof readerPage === 'number' && !editingId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={toggleAnchor}
+                        className={cn(
+                          "h-8 px-2 gap-1 text-xs hover:bg-gray-700",
+                          anchorPage !== null ? "text-purple-300 bg-purple-900/30" : "text-gray-400 hover:text-purple-400"
+                        )}
+                        title={anchorPage !== null ? "მიმაგრების მოხსნა" : `მიმაგრება გვერდზე ${readerPage + 1}`}
+                      >
+                        <MapPin className="h-4 w-4" />
+                        {anchorPage !== null && `გვ. ${anchorPage + 1}`}
+                      </Button>
+                    )}
+                    {anchorPage !== null && anchorPageUrl && !editingId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowRegionSelector(true)}
+                        className={cn(
+                          "h-8 w-8 p-0 hover:bg-gray-700",
+                          anchorRegion ? "text-purple-300" : "text-gray-400 hover:text-purple-400"
+                        )}
+                        title="ადგილის მონიშვნა გვერდზე"
+                      >
+                        <Crop className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                   
                   <div className="flex items-center gap-2">
@@ -607,6 +707,29 @@ export function ReaderCommentSection({
 
         {/* Comments List */}
         <div className="flex-1 overflow-y-auto p-4">
+          {(pageFilter !== null || typeof readerPage === 'number') && (
+            <div className="flex items-center gap-2 mb-4 text-xs">
+              <button
+                onClick={() => { setPageFilter(null); setCurrentPage(1); }}
+                className={cn(
+                  "px-2.5 py-1 rounded-full transition-colors",
+                  pageFilter === null ? "bg-purple-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                )}
+              >
+                ყველა
+              </button>
+              <button
+                onClick={() => { setPageFilter(pageFilter ?? readerPage ?? null); setCurrentPage(1); }}
+                className={cn(
+                  "px-2.5 py-1 rounded-full transition-colors flex items-center gap-1",
+                  pageFilter !== null ? "bg-purple-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                )}
+              >
+                <MapPin className="h-3 w-3" />
+                გვერდი {(pageFilter ?? readerPage ?? 0) + 1}
+              </button>
+            </div>
+          )}
           {isLoading ? (
             <div className="flex flex-col items-center justify-center py-8">
               <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
@@ -629,6 +752,9 @@ export function ReaderCommentSection({
                   handleLikeCommentOrReply={handleLikeCommentOrReply}
                   handleEditComment={handleEditComment}
                   handleDeleteCommentRequest={handleDeleteCommentRequest}
+                  isSpoiler={isPageSpoiler(comment, furthestPage)}
+                  pageUrlFor={pageUrlFor}
+                  onJumpToPage={onJumpToPage}
                 />
               ))}
             </div>
@@ -680,6 +806,63 @@ export function ReaderCommentSection({
         </div>
       </div>
 
+      {/* Region picker for an anchored comment */}
+      <AnimatePresence>
+        {showRegionSelector && anchorPage !== null && anchorPageUrl && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={() => setShowRegionSelector(false)}
+          >
+            <div
+              className="bg-gray-900 p-5 rounded-lg shadow-xl border border-gray-700 max-w-2xl w-full"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+                  <Crop className="h-4 w-4 text-purple-400" />
+                  მონიშნეთ ადგილი გვერდზე {anchorPage + 1}
+                </h3>
+                <button
+                  onClick={() => setShowRegionSelector(false)}
+                  className="p-1.5 rounded-full hover:bg-gray-700/80 text-gray-400 hover:text-white transition-colors"
+                  title="დახურვა"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <PageRegionSelector
+                pageUrl={anchorPageUrl}
+                region={anchorRegion}
+                onChange={setAnchorRegion}
+                imageClassName="max-h-[65vh]"
+              />
+              <div className="flex justify-end gap-2 mt-4">
+                {anchorRegion && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setAnchorRegion(null)}
+                    className="text-gray-400 hover:text-white hover:bg-gray-700 text-xs"
+                  >
+                    მთლიანი გვერდი
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  onClick={() => setShowRegionSelector(false)}
+                  className="bg-purple-600 hover:bg-purple-500 text-white text-xs"
+                >
+                  მზადაა
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Delete Confirmation Modal */}
       <AnimatePresence>
         {commentToDelete && (
@@ -731,16 +914,45 @@ const ReaderCommentItem = ({
   userId, 
   handleLikeCommentOrReply, 
   handleEditComment, 
-  handleDeleteCommentRequest 
+  handleDeleteCommentRequest,
+  isSpoiler,
+  pageUrlFor,
+  onJumpToPage
 }: { 
   comment: CommentWithDetails; 
   userId: string | null; 
   handleLikeCommentOrReply: (comment: CommentWithDetails) => void; 
   handleEditComment: (comment: CommentWithDetails) => void; 
   handleDeleteCommentRequest: (comment: CommentWithDetails) => void;
+  isSpoiler: boolean;
+  pageUrlFor?: (pageIndex: number) => string | undefined;
+  onJumpToPage?: (pageIndex: number) => void;
 }) => {
   const isOwnComment = userId && comment.user_id === ensureUUID(userId)
   const [showFullText, setShowFullText] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+  const anchor = getCommentAnchor(comment);
+  const anchorPageUrl = anchor ? pageUrlFor?.(anchor.pageIndex) : undefined;
+
+  // Your own comments are never spoilers to you
+  if (isSpoiler && !revealed && !isOwnComment && anchor) {
+    return (
+      <div className="p-3 rounded-lg border border-dashed border-gray-700 bg-gray-900/60 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <EyeOff className="h-4 w-4 flex-shrink-0" />
+          <span>სპოილერი · კომენტარი გვერდზე {anchor.pageIndex + 1}, რომელსაც ჯერ არ მიუღწევიხართ</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setRevealed(true)}
+          className="text-xs px-2 py-1 h-auto text-purple-300 hover:text-purple-200 hover:bg-gray-700/50 flex-shrink-0"
+        >
+          ჩვენება
+        </Button>
+      </div>
+    );
+  }
   const MAX_LENGTH = 150;
 
   const formattedDate = comment.created_at
@@ -802,7 +1014,33 @@ const ReaderCommentItem = ({
               )}>
                 {formattedDate}
               </span>
+              {anchor && (
+                <button
+                  onClick={() => onJumpToPage?.(anchor.pageIndex)}
+                  disabled={!onJumpToPage}
+                  className="flex items-center gap-0.5 text-xs text-purple-300 bg-purple-900/40 px-1.5 py-0.5 rounded-full hover:bg-purple-900/70 transition-colors flex-shrink-0"
+                  title="გვერდზე გადასვლა"
+                >
+                  <MapPin className="h-3 w-3" />
+                  გვ. {anchor.pageIndex + 1}
+                </button>
+              )}
             </div>
+
+            {anchor?.region && anchorPageUrl && (
+              <button
+                onClick={() => onJumpToPage?.(anchor.pageIndex)}
+                disabled={!onJumpToPage}
+                className="block mb-2"
+                title="გვერდზე გადასვლა"
+              >
+                <BookmarkThumbnail
+                  bookmark={{ pageUrl: anchorPageUrl, crop: anchor.region }}
+                  alt="მონიშნული ადგილი"
+                  className="w-28 h-20 rounded border border-purple-500/50"
+                />
+              </button>
+            )}
             
             {comment.text && (
               <div className={cn(
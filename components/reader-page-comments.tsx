@@ -0,0 +1,121 @@
+"use client"
+
+import { motion } from "framer-motion"
+import { ChevronDown, MessageSquare, UserCircle } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { BookmarkThumbnail } from "@/components/bookmark-thumbnail"
+import { Comment, getSupabaseAvatarUrl } from "@/lib/comments"
+import { cn } from "@/lib/utils"
+
+interface ReaderPageCommentsProps {
+  // Comments anchored to the pages on screen
+  comments: Comment[]
+  pageUrlFor: (pageIndex: number) => string | undefined
+  collapsed: boolean
+  onToggle: () => void
+  onOpenAll: () => void
+  className?: string
+}
+
+// How many comments the card shows before pointing to the comments panel
+const MAX_INLINE_COMMENTS = 3
+
+// Comments about the visible page, floating over the reader
+export function ReaderPageComments({ comments, pageUrlFor, collapsed, onToggle, onOpenAll, className }: ReaderPageCommentsProps) {
+  if (comments.length === 0) return null
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onToggle()
+        }}
+        className={cn(
+          "flex items-center gap-1.5 rounded-full bg-black/70 backdrop-blur-md border border-purple-500/40 px-3 py-1.5 text-xs text-purple-200 hover:bg-black/90 transition-colors",
+          className
+        )}
+        title="ამ გვერდის კომენტარები"
+      >
+        <MessageSquare className="h-3.5 w-3.5" />
+        {comments.length}
+      </button>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      transition={{ duration: 0.15 }}
+      className={cn(
+        "w-72 max-w-[calc(100vw-2rem)] rounded-lg bg-black/80 backdrop-blur-md border border-gray-700 shadow-xl text-white",
+        className
+      )}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800">
+        <span className="flex items-center gap-1.5 text-xs font-medium text-purple-300">
+          <MessageSquare className="h-3.5 w-3.5" />
+          გვერდის კომენტარები · {comments.length}
+        </span>
+        <button
+          onClick={onToggle}
+          className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700/70 transition-colors"
+          title="ჩაკეცვა"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="max-h-[40vh] overflow-y-auto divide-y divide-gray-800">
+        {comments.slice(0, MAX_INLINE_COMMENTS).map(comment => {
+          const pageUrl = typeof comment.page_index === "number" ? pageUrlFor(comment.page_index) : undefined
+          return (
+            <div key={comment.id} className="flex gap-2 px-3 py-2">
+              <Avatar className="h-6 w-6 flex-shrink-0">
+                {comment.user_profile?.avatar_url ? (
+                  <AvatarImage
+                    src={getSupabaseAvatarUrl(comment.user_id, comment.user_profile.avatar_url) ?? undefined}
+                    alt={comment.user_profile?.username || "მომხმარებელი"}
+                    referrerPolicy="no-referrer"
+                  />
+                ) : (
+                  <AvatarFallback>
+                    <UserCircle className="h-5 w-5 text-white/70" />
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium text-gray-200 truncate">
+                  {comment.user_profile?.username || "მომხმარებელი"}
+                </p>
+                {comment.text && (
+                  <p className="text-xs text-gray-300 whitespace-pre-wrap break-words line-clamp-3">{comment.text}</p>
+                )}
+                {comment.media_url && (
+                  <img src={comment.media_url} alt="სტიკერი" className="mt-1 h-12 w-12 object-contain" />
+                )}
+              </div>
+              {comment.page_region && pageUrl && (
+                <BookmarkThumbnail
+                  bookmark={{ pageUrl, crop: comment.page_region }}
+                  alt="მონიშნული ადგილი"
+                  className="h-12 w-12 flex-shrink-0 rounded border border-purple-500/50"
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <button
+        onClick={onOpenAll}
+        className="w-full px-3 py-2 border-t border-gray-800 text-xs text-purple-300 hover:text-purple-200 hover:bg-gray-800/50 transition-colors rounded-b-lg"
+      >
+        {comments.length > MAX_INLINE_COMMENTS ? `ყველა კომენტარი (${comments.length})` : "კომენტარების გახსნა"}
+      </button>
+    </motion.div>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { Gamepad2, Keyboard, Plus, RotateCcw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DEFAULT_KEYBINDINGS,
+  GAMEPAD_BINDINGS,
+  Keybindings,
+  READER_ACTIONS,
+  READER_ACTION_GROUP_LABELS,
+  ReaderAction,
+  ReaderActionGroup,
+  assignKeybinding,
+  formatKeyCombo,
+  getKeyCombo,
+  removeKeybinding,
+} from "@/lib/reader-keybindings"
+import { cn } from "@/lib/utils"
+
+interface ReaderShortcutsOverlayProps {
+  bindings: Keybindings
+  onChange: (bindings: Keybindings) => void
+  onClose: () => void
+}
+
+const GAMEPAD_BUTTON_LABELS: Record<number, string> = {
+  0: "A",
+  1: "B",
+  4: "LB",
+  5: "RB",
+  6: "LT",
+  7: "RT",
+  8: "Select",
+  9: "Start",
+  12: "↑",
+  13: "↓",
+  14: "←",
+  15: "→",
+}
+
+const actionLabel = (action: ReaderAction) => READER_ACTIONS.find(item => item.action === action)?.label || action
+
+// `?` cheatsheet for the reader; in edit mode every shortcut can be rebound
+export function ReaderShortcutsOverlay({ bindings, onChange, onClose }: ReaderShortcutsOverlayProps) {
+  const [editing, setEditing] = useState(false)
+  const [capturing, setCapturing] = useState<ReaderAction | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // While waiting for a key, swallow it before the reader sees it
+  useEffect(() => {
+    if (!capturing) return
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key === "Escape") {
+        setCapturing(null)
+        return
+      }
+      const combo = getKeyCombo(e)
+      if (!combo) return
+
+      const { bindings: next, replaced } = assignKeybinding(bindings, capturing, combo)
+      onChange(next)
+      setNotice(replaced ? `${formatKeyCombo(combo)} მოიხსნა „${actionLabel(replaced)}“-დან` : null)
+      setCapturing(null)
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [capturing, bindings, onChange])
+
+  const groups = Object.keys(READER_ACTION_GROUP_LABELS) as ReaderActionGroup[]
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.15 }}
+      className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-xl border border-gray-700 w-full max-w-2xl max-h-[85vh] overflow-y-auto p-6 relative text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4 gap-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Keyboard className="h-5 w-5 text-purple-400" />
+            კლავიატურის მალსახმობები
+          </h3>
+          <div className="flex items-center gap-2">
+            {editing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-300 gap-1.5"
+                onClick={() => {
+                  onChange({ ...DEFAULT_KEYBINDINGS })
+                  setNotice(null)
+                }}
+              >
+                <RotateCcw className="h-4 w-4" />
+                ნაგულისხმევი
+              </Button>
+            )}
+            <Button
+              variant={editing ? "default" : "outline"}
+              size="sm"
+              className={editing ? "bg-purple-600 hover:bg-purple-700" : ""}
+              onClick={() => {
+                setEditing(!editing)
+                setCapturing(null)
+                setNotice(null)
+              }}
+            >
+              {editing ? "მზადაა" : "შეცვლა"}
+            </Button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded-full hover:bg-gray-700/80 text-gray-400 hover:text-white transition-colors"
+              title="დახურვა"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {notice && <p className="mb-3 text-xs text-yellow-300">{notice}</p>}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {groups.map(group => (
+            <div key={group}>
+              <h4 className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-2">
+                {READER_ACTION_GROUP_LABELS[group]}
+              </h4>
+              <div className="space-y-1.5">
+                {READER_ACTIONS.filter(item => item.group === group).map(({ action, label }) => (
+                  <div key={action} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">{label}</span>
+                    <div className="flex flex-wrap justify-end items-center gap-1">
+                      {bindings[action].length === 0 && !editing && <span className="text-gray-600">—</span>}
+                      {bindings[action].map(combo => (
+                        <kbd
+                          key={combo}
+                          className="inline-flex items-center gap-1 rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 text-xs font-mono text-gray-200"
+                        >
+                          {formatKeyCombo(combo)}
+                          {editing && (
+                            <button
+                              onClick={() => onChange(removeKeybinding(bindings, action, combo))}
+                              className="text-gray-500 hover:text-red-400"
+                              title="წაშლა"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </kbd>
+                      ))}
+                      {editing && (
+                        <button
+                          onClick={() => setCapturing(capturing === action ? null : action)}
+                          className={cn(
+                            "inline-flex items-center rounded border px-1.5 py-0.5 text-xs",
+                            capturing === action
+                              ? "border-purple-500 text-purple-300 animate-pulse"
+                              : "border-dashed border-gray-600 text-gray-400 hover:text-white"
+                          )}
+                        >
+                          {capturing === action ? "დააჭირეთ ღილაკს…" : <Plus className="h-3 w-3" />}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <h4 className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-2 flex items-center gap-1.5">
+              <Gamepad2 className="h-3.5 w-3.5" />
+              გეიმპადი
+            </h4>
+            <div className="space-y-1.5">
+              {Object.entries(GAMEPAD_BINDINGS).map(([button, action]) => (
+                <div key={button} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-gray-300">{actionLabel(action)}</span>
+                  <kbd className="rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 text-xs font-mono text-gray-200">
+                    {GAMEPAD_BUTTON_LABELS[Number(button)] || button}
+                  </kbd>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { format, formatDistanceToNow, isSameDay } from "date-fns";
+import { ka } from "date-fns/locale";
+import { CalendarClock, Crown } from "lucide-react";
+import { useAuth } from "@/components/supabase-auth-provider";
+import { Calendar } from "@/components/ui/calendar";
+import { cn } from "@/lib/utils";
+import { ReleaseSchedule, ReleaseScheduleEntry, getReleaseSchedule } from "@/lib/chapter-schedule";
+
+interface ScheduleViewProps {
+  contentId: string;
+  className?: string;
+}
+
+function EntryRow({ entry, isVip }: { entry: ReleaseScheduleEntry; isVip: boolean }) {
+  const releaseDate = new Date(entry.release_date);
+  const earlyAccessDate = entry.early_access_at ? new Date(entry.early_access_at) : null;
+  const earlyAccessOpen = !!earlyAccessDate && earlyAccessDate <= new Date();
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-white/10 bg-black/30 p-3">
+      <div className={cn(
+        "h-10 w-10 rounded-lg flex items-center justify-center text-sm font-semibold flex-shrink-0",
+        entry.published ? "bg-green-700/70 text-white" : "bg-purple-700/70 text-white"
+      )}>
+        {entry.number}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium truncate">
+          {entry.title}
+          {entry.language === "en" && <span className="ml-2 text-[10px] text-gray-400">EN</span>}
+        </p>
+        <p className="text-xs text-gray-400">
+          {format(releaseDate, "d MMMM, HH:mm", { locale: ka })}
+          {!entry.published && ` · ${formatDistanceToNow(releaseDate, { addSuffix: true, locale: ka })}`}
+        </p>
+        {!entry.published && earlyAccessDate && (
+          <p className="text-xs text-yellow-400 flex items-center gap-1 mt-0.5">
+            <Crown className="h-3 w-3" />
+            {earlyAccessOpen
+              ? isVip ? "VIP-ებისთვის უკვე ხელმისაწვდომია" : "VIP-ებს უკვე შეუძლიათ წაკითხვა"
+              : `VIP-ებისთვის: ${format(earlyAccessDate, "d MMMM, HH:mm", { locale: ka })}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Release calendar of a series: days with released chapters and chapters still
+ * to come, with their VIP early access. Renders nothing for a series with no
+ * releases in the window.
+ */
+export function ScheduleView({ contentId, className }: ScheduleViewProps) {
+  const { profile } = useAuth();
+  const [schedule, setSchedule] = useState<ReleaseSchedule | null>(null);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setSchedule(null);
+    setSelectedDay(undefined);
+    getReleaseSchedule(contentId)
+      .then(data => {
+        if (!cancelled) setSchedule(data);
+      })
+      .catch(error => console.error("Error loading release schedule:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId]);
+
+  const upcomingDays = useMemo(() => (schedule?.upcoming || []).map(entry => new Date(entry.release_date)), [schedule]);
+  const releasedDays = useMemo(() => (schedule?.recent || []).map(entry => new Date(entry.release_date)), [schedule]);
+
+  if (!schedule || (schedule.upcoming.length === 0 && schedule.recent.length === 0)) return null;
+
+  const listed = selectedDay
+    ? [...schedule.upcoming, ...schedule.recent].filter(entry => isSameDay(new Date(entry.release_date), selectedDay))
+    : schedule.upcoming;
+
+  return (
+    <div className={cn("rounded-xl border border-white/10 bg-black/20 p-4", className)}>
+      <h3 className="text-lg font-bold flex items-center gap-2 mb-4">
+        <CalendarClock className="h-5 w-5 text-purple-400" />
+        გამოსვლის განრიგი
+      </h3>
+      <div className="flex flex-col md:flex-row gap-4">
+        <Calendar
+          mode="single"
+          locale={ka}
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          defaultMonth={upcomingDays[0] || new Date()}
+          modifiers={{ upcoming: upcomingDays, released: releasedDays }}
+          modifiersClassNames={{
+            upcoming: "bg-purple-600/40 text-white rounded-md",
+            released: "bg-green-700/30 rounded-md",
+          }}
+          className="rounded-lg border border-white/10 self-start"
+        />
+        <div className="flex-1 min-w-0 space-y-2">
+          <p className="text-sm text-gray-400">
+            {selectedDay ? format(selectedDay, "d MMMM", { locale: ka }) : "მომავალი თავები"}
+          </p>
+          {listed.length === 0 ? (
+            <p className="text-sm text-white/60 py-4">
+              {selectedDay ? "ამ დღეს თავები არ გამოდის." : "ახალი თავები ჯერ არ არის დაგეგმილი."}
+            </p>
+          ) : (
+            listed.map(entry => <EntryRow key={entry.id} entry={entry} isVip={!!profile?.vip_status} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
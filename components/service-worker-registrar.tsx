@@ -0,0 +1,23 @@
+"use client"
+
+import { useEffect } from "react"
+import { registerServiceWorker } from "@/lib/service-worker"
+
+/**
+ * Registers public/sw.js once the page has loaded so push notifications and
+ * downloaded chapters keep working across visits. Renders nothing.
+ */
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return
+    if (document.readyState === "complete") {
+      registerServiceWorker()
+      return
+    }
+    const onLoad = () => registerServiceWorker()
+    window.addEventListener("load", onLoad)
+    return () => window.removeEventListener("load", onLoad)
+  }, [])
+
+  return null
+}
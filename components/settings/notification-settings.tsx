@@ -1,24 +1,134 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { BellOff, X } from "lucide-react"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
 import { updateUserProfile } from "@/lib/users"
+import { supabase } from "@/lib/supabase"
+import { PushDeviceState, getPushDeviceState, subscribeToPush, unsubscribeFromPush } from "@/lib/push-client"
+import {
+  CONFIGURABLE_NOTIFICATION_TYPES,
+  ConfigurableNotificationType,
+  EmailDigestFrequency,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationPreferences,
+  PUSH_NOTIFICATION_TYPES,
+  StoredNotificationPreferences,
+  resolveNotificationPreferences,
+  toStoredNotificationPreferences,
+} from "@/lib/notification-preferences"
 
 interface NotificationSettingsProps {
   userId: string
   initialSettings: {
     email_notifications: boolean
     push_notifications: boolean
+    new_chapter_notifications: boolean
+    notification_preferences: StoredNotificationPreferences | null
   }
 }
 
+const typeLabels: Record<ConfigurableNotificationType, { label: string; description: string }> = {
+  comment_reply: { label: "Replies", description: "Someone replies to your comment." },
+  comment_like: { label: "Comment likes", description: "Someone likes your comment." },
+  new_chapter: { label: "New chapters", description: "Titles you're reading or plan to read get new chapters." },
+  new_content: { label: "New titles", description: "New manga or comics are added." },
+  content_update: { label: "Title updates", description: "Titles you follow are updated." },
+  friend_request: { label: "Friend requests", description: "Someone sends you a friend request." },
+  friend_accept: { label: "Accepted requests", description: "Someone accepts your friend request." },
+  live_invite: { label: "Read-together invites", description: "A friend invites you to a live room." },
+}
+
+const channelLabels: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email digest",
+  push: "Push",
+}
+
 export function NotificationSettings({ userId, initialSettings }: NotificationSettingsProps) {
   const [emailNotif, setEmailNotif] = useState(initialSettings.email_notifications)
   const [pushNotif, setPushNotif] = useState(initialSettings.push_notifications)
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() =>
+    resolveNotificationPreferences(initialSettings)
+  )
+  const [mutedTitles, setMutedTitles] = useState<{ id: string; title: string }[]>([])
   const [saving, setSaving] = useState(false)
+  const [deviceState, setDeviceState] = useState<PushDeviceState | null>(null)
+  const [deviceBusy, setDeviceBusy] = useState(false)
+
+  useEffect(() => {
+    getPushDeviceState().then(setDeviceState)
+  }, [])
+
+  // Show titles for the muted content ids
+  useEffect(() => {
+    const ids = preferences.muted_titles
+    if (ids.length === 0) {
+      setMutedTitles([])
+      return
+    }
+    supabase
+      .from("content")
+      .select("id, title")
+      .in("id", ids)
+      .then(({ data }) => {
+        const titles = new Map((data || []).map(row => [row.id, row.title as string]))
+        setMutedTitles(ids.map(id => ({ id, title: titles.get(id) || id })))
+      })
+  }, [preferences.muted_titles])
+
+  const channelEnabled = (channel: NotificationChannel) =>
+    channel === "email" ? emailNotif : channel === "push" ? pushNotif : true
+
+  const channelAvailable = (type: ConfigurableNotificationType, channel: NotificationChannel) =>
+    channelEnabled(channel) && (channel !== "push" || PUSH_NOTIFICATION_TYPES.includes(type))
+
+  const setChannel = (type: ConfigurableNotificationType, channel: NotificationChannel, value: boolean) => {
+    setPreferences(prev => ({
+      ...prev,
+      types: { ...prev.types, [type]: { ...prev.types[type], [channel]: value } },
+    }))
+  }
+
+  const setQuietHours = (update: Partial<NotificationPreferences["quiet_hours"]>) => {
+    setPreferences(prev => ({ ...prev, quiet_hours: { ...prev.quiet_hours, ...update } }))
+  }
+
+  const unmuteTitle = (contentId: string) => {
+    setPreferences(prev => ({ ...prev, muted_titles: prev.muted_titles.filter(id => id !== contentId) }))
+  }
+
+  const setDevicePush = async (enabled: boolean) => {
+    setDeviceBusy(true)
+    try {
+      if (enabled) {
+        const state = await subscribeToPush()
+        setDeviceState(state)
+        if (state === "denied") toast.error("Notifications are blocked for this site in your browser settings")
+      } else {
+        await unsubscribeFromPush()
+        setDeviceState("unsubscribed")
+      }
+    } catch (err: any) {
+      console.error(err)
+      toast.error(err.message || "Could not update push on this device")
+    } finally {
+      setDeviceBusy(false)
+    }
+  }
+
+  // Turning push on from a device that never subscribed subscribes it right away
+  const handlePushToggle = (value: boolean) => {
+    setPushNotif(value)
+    if (value && deviceState === "unsubscribed") setDevicePush(true)
+  }
 
   const handleSave = async () => {
     setSaving(true)
@@ -26,6 +136,7 @@ export function NotificationSettings({ userId, initialSettings }: NotificationSe
       const { success, error } = await updateUserProfile(userId, {
         email_notifications: emailNotif,
         push_notifications: pushNotif,
+        notification_preferences: toStoredNotificationPreferences(preferences),
       })
       if (success) {
         toast.success("Notification preferences saved")
@@ -41,21 +152,161 @@ export function NotificationSettings({ userId, initialSettings }: NotificationSe
   }
 
   return (
-    <div className="space-y-6 max-w-md">
-      <div className="flex items-center justify-between p-4 border border-white/10 rounded-md bg-black/30">
-        <div>
-          <Label className="font-medium">Email notifications</Label>
-          <p className="text-xs text-gray-400">Receive updates via email.</p>
+    <div className="space-y-6 max-w-2xl">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="flex items-center justify-between p-4 border border-white/10 rounded-md bg-black/30">
+          <div>
+            <Label className="font-medium">Email notifications</Label>
+            <p className="text-xs text-gray-400">Receive updates via email.</p>
+          </div>
+          <Switch checked={emailNotif} onCheckedChange={setEmailNotif} />
+        </div>
+
+        <div className="flex items-center justify-between p-4 border border-white/10 rounded-md bg-black/30">
+          <div>
+            <Label className="font-medium">Push notifications</Label>
+            <p className="text-xs text-gray-400">Enable browser push notifications.</p>
+          </div>
+          <Switch checked={pushNotif} onCheckedChange={handlePushToggle} />
         </div>
-        <Switch checked={emailNotif} onCheckedChange={setEmailNotif} />
       </div>
 
-      <div className="flex items-center justify-between p-4 border border-white/10 rounded-md bg-black/30">
+      {pushNotif && deviceState && (
+        <div className="flex items-center justify-between p-4 border border-white/10 rounded-md bg-black/30">
+          <div>
+            <Label className="font-medium">This device</Label>
+            <p className="text-xs text-gray-400">
+              {deviceState === "unsupported" && "This browser doesn't support push notifications."}
+              {deviceState === "denied" && "Notifications are blocked for this site in your browser settings."}
+              {deviceState === "subscribed" && "Push notifications are delivered to this browser."}
+              {deviceState === "unsubscribed" && "This browser doesn't receive push notifications yet."}
+            </p>
+          </div>
+          {(deviceState === "subscribed" || deviceState === "unsubscribed") && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={deviceBusy}
+              onClick={() => setDevicePush(deviceState !== "subscribed")}
+            >
+              {deviceState === "subscribed" ? "Turn off here" : "Turn on here"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {emailNotif && (
+        <div className="flex items-center justify-between p-4 border border-white/10 rounded-md bg-black/30">
+          <div>
+            <Label className="font-medium">Email digest</Label>
+            <p className="text-xs text-gray-400">Unread notifications are collected into one email.</p>
+          </div>
+          <Select
+            value={preferences.email_digest}
+            onValueChange={value => setPreferences(prev => ({ ...prev, email_digest: value as EmailDigestFrequency }))}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="border border-white/10 rounded-md bg-black/30 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-white/10 text-gray-400">
+              <th className="text-left font-medium p-3">Notification</th>
+              {NOTIFICATION_CHANNELS.map(channel => (
+                <th key={channel} className="font-medium p-3 text-center whitespace-nowrap">
+                  {channelLabels[channel]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {CONFIGURABLE_NOTIFICATION_TYPES.map(type => (
+              <tr key={type} className="border-b border-white/5 last:border-0">
+                <td className="p-3">
+                  <div className="font-medium">{typeLabels[type].label}</div>
+                  <p className="text-xs text-gray-400">{typeLabels[type].description}</p>
+                </td>
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <td key={channel} className="p-3 text-center">
+                    <Checkbox
+                      checked={channelAvailable(type, channel) && preferences.types[type][channel]}
+                      disabled={!channelAvailable(type, channel)}
+                      onCheckedChange={value => setChannel(type, channel, value === true)}
+                      aria-label={`${typeLabels[type].label}: ${channelLabels[channel]}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-4 border border-white/10 rounded-md bg-black/30 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="font-medium">Quiet hours</Label>
+            <p className="text-xs text-gray-400">No push notifications during these hours. They still show up in the app.</p>
+          </div>
+          <Switch
+            checked={preferences.quiet_hours.enabled}
+            onCheckedChange={enabled =>
+              // Quiet hours follow the clock of the device they were turned on from
+              setQuietHours(enabled ? { enabled, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone } : { enabled })
+            }
+          />
+        </div>
+        {preferences.quiet_hours.enabled && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <Input
+              type="time"
+              className="w-32"
+              value={preferences.quiet_hours.start}
+              onChange={e => setQuietHours({ start: e.target.value })}
+            />
+            <span className="text-gray-400">to</span>
+            <Input
+              type="time"
+              className="w-32"
+              value={preferences.quiet_hours.end}
+              onChange={e => setQuietHours({ end: e.target.value })}
+            />
+            <span className="text-xs text-gray-400">{preferences.quiet_hours.timezone}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border border-white/10 rounded-md bg-black/30 space-y-3">
         <div>
-          <Label className="font-medium">Push notifications</Label>
-          <p className="text-xs text-gray-400">Enable browser push notifications.</p>
+          <Label className="font-medium">Muted titles</Label>
+          <p className="text-xs text-gray-400">No new chapter notifications for these titles.</p>
         </div>
-        <Switch checked={pushNotif} onCheckedChange={setPushNotif} />
+        {mutedTitles.length === 0 ? (
+          <p className="text-xs text-gray-500">Mute a title from its page to stop chapter notifications for it.</p>
+        ) : (
+          <ul className="space-y-2">
+            {mutedTitles.map(title => (
+              <li key={title.id} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2">
+                  <BellOff className="h-4 w-4 text-gray-400" />
+                  {title.title}
+                </span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => unmuteTitle(title.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       <Button onClick={handleSave} disabled={saving}>
@@ -63,4 +314,4 @@ export function NotificationSettings({ userId, initialSettings }: NotificationSe
       </Button>
     </div>
   )
-} 
\ No newline at end of file
+}
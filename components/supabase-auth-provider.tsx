@@ -6,6 +6,9 @@ import { Session, User } from "@supabase/supabase-js"
 import { supabase } from "@/lib/supabase"
 import { syncUserAfterLogin } from "@/lib/auth"
 import { getProfileForUser, UserProfile, updateUserProfile as updateUserProfileApi } from "@/lib/users"
+import { clearLocalReadingHistory, syncReadingHistory } from "@/lib/reading-history"
+import { syncReaderSettings } from "@/lib/reader-settings"
+import { clearLocalLibrary } from "@/lib/user-library"
 
 type AuthContextType = {
   user: User | null
@@ -160,6 +163,13 @@ export function SupabaseAuthProvider({ children }: { children: React.ReactNode }
     }
   }, [pathname, router, isLoading])
 
+  // Reconcile this device's reading history and reader settings with the server whenever a user logs in
+  useEffect(() => {
+    if (!user?.id) return
+    syncReadingHistory()
+    syncReaderSettings()
+  }, [user?.id])
+
   // Effect for handling redirection based on onboarding status
   useEffect(() => {
     if (isLoading || isProfileLoading) return
@@ -262,6 +272,7 @@ export function SupabaseAuthProvider({ children }: { children: React.ReactNode }
 
   // Sign out
   const signOut = async () => {
+    await Promise.all([clearLocalReadingHistory(), clearLocalLibrary()])
     await supabase.auth.signOut()
     setUser(null)
     setSession(null)
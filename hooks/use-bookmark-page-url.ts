@@ -0,0 +1,28 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { isMangaDexPageRef, resolveBookmarkPageUrl } from "@/lib/page-bookmarks"
+
+/**
+ * Loadable URL of a bookmarked page. Stored URLs are returned as they are;
+ * MangaDex page references are undefined until their page server is known.
+ */
+export function useBookmarkPageUrl(pageUrl: string): string | undefined {
+  const [resolved, setResolved] = useState<{ pageUrl: string; url: string } | null>(null)
+
+  useEffect(() => {
+    if (!isMangaDexPageRef(pageUrl)) return
+    let active = true
+    resolveBookmarkPageUrl(pageUrl)
+      .then(url => {
+        if (active) setResolved({ pageUrl, url })
+      })
+      .catch(error => console.error("Failed to resolve bookmarked page:", error))
+    return () => {
+      active = false
+    }
+  }, [pageUrl])
+
+  if (!isMangaDexPageRef(pageUrl)) return pageUrl
+  return resolved?.pageUrl === pageUrl ? resolved.url : undefined
+}
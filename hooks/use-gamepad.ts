@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// Stick deflection that counts as a d-pad press
+const AXIS_THRESHOLD = 0.6
+// Held buttons repeat after this long, then at the interval
+const REPEAT_DELAY = 400
+const REPEAT_INTERVAL = 150
+
+// The left stick stands in for the d-pad: up, down, left, right
+const AXIS_BUTTONS = { up: 12, down: 13, left: 14, right: 15 }
+
+function pressedButtons(gamepad: Gamepad): Set<number> {
+  const pressed = new Set<number>()
+  gamepad.buttons.forEach((button, index) => {
+    if (button.pressed) pressed.add(index)
+  })
+  const [x = 0, y = 0] = gamepad.axes
+  if (y < -AXIS_THRESHOLD) pressed.add(AXIS_BUTTONS.up)
+  if (y > AXIS_THRESHOLD) pressed.add(AXIS_BUTTONS.down)
+  if (x < -AXIS_THRESHOLD) pressed.add(AXIS_BUTTONS.left)
+  if (x > AXIS_THRESHOLD) pressed.add(AXIS_BUTTONS.right)
+  return pressed
+}
+
+/**
+ * Calls `onButton` with the standard-layout button index whenever a connected
+ * gamepad button is pressed, and again with `repeat` set while it's held. Polls
+ * only while a gamepad is connected.
+ */
+export function useGamepad(onButton: (button: number, repeat: boolean) => void, enabled = true) {
+  const onButtonRef = useRef(onButton)
+  onButtonRef.current = onButton
+
+  useEffect(() => {
+    if (!enabled || typeof navigator === "undefined" || !navigator.getGamepads) return
+
+    let frame: number | null = null
+    // Button index -> when it was first pressed and when it last fired
+    const held = new Map<number, { since: number; fired: number }>()
+
+    const poll = () => {
+      const now = performance.now()
+      const pressed = new Set<number>()
+      for (const gamepad of navigator.getGamepads()) {
+        if (gamepad?.connected) pressedButtons(gamepad).forEach(button => pressed.add(button))
+      }
+
+      pressed.forEach(button => {
+        const state = held.get(button)
+        if (!state) {
+          held.set(button, { since: now, fired: now })
+          onButtonRef.current(button, false)
+        } else if (now - state.since > REPEAT_DELAY && now - state.fired > REPEAT_INTERVAL) {
+          state.fired = now
+          onButtonRef.current(button, true)
+        }
+      })
+      held.forEach((_, button) => {
+        if (!pressed.has(button)) held.delete(button)
+      })
+
+      frame = requestAnimationFrame(poll)
+    }
+
+    const start = () => {
+      if (frame === null) frame = requestAnimationFrame(poll)
+    }
+    const stop = () => {
+      if (Array.from(navigator.getGamepads()).some(gamepad => gamepad?.connected)) return
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+      held.clear()
+    }
+
+    window.addEventListener("gamepadconnected", start)
+    window.addEventListener("gamepaddisconnected", stop)
+    // A pad connected before the reader opened doesn't fire the event again
+    if (Array.from(navigator.getGamepads()).some(gamepad => gamepad?.connected)) start()
+
+    return () => {
+      window.removeEventListener("gamepadconnected", start)
+      window.removeEventListener("gamepaddisconnected", stop)
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [enabled])
+}
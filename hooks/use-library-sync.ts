@@ -0,0 +1,19 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getLibrarySyncState, subscribeToLibrarySync, syncLibrary } from "@/lib/user-library"
+
+/**
+ * Current library sync status (pending changes, offline, errors) plus a manual
+ * trigger. The state lives in lib/user-library so every subscriber sees the same one.
+ */
+export function useLibrarySync() {
+  const [state, setState] = useState(getLibrarySyncState)
+
+  useEffect(() => subscribeToLibrarySync(setState), [])
+
+  return {
+    ...state,
+    syncNow: syncLibrary,
+  }
+}
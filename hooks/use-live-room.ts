@@ -0,0 +1,291 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { io, Socket } from "socket.io-client"
+import { supabase } from "@/lib/supabase"
+import { toast } from "@/components/ui/use-toast"
+import type { LiveRoomSummary } from "@/lib/live-rooms"
+
+export type LiveRole = "host" | "cohost" | "viewer"
+
+export interface LiveParticipant {
+  userId: string
+  username: string | null
+  avatarUrl: string | null
+  role: LiveRole
+  muted: boolean
+  vip: boolean
+  joinedAt: number
+}
+
+export interface LiveChatMessage {
+  id: string
+  roomId: string
+  userId: string
+  username: string | null
+  avatarUrl: string | null
+  content: string | null
+  stickerUrl: string | null
+  createdAt: number
+}
+
+export interface LiveRoomState {
+  roomId: string
+  hostId: string
+  mangaId: string
+  chapterId: string
+  pageIndex: number
+  participants: LiveParticipant[]
+  messages: LiveChatMessage[]
+}
+
+export interface LiveReaction {
+  id: string
+  emoji: string
+  userId: string
+}
+
+export type LiveRoomStatus = "connecting" | "connected" | "error" | "kicked" | "ended"
+
+const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:4000"
+
+// How long a reaction stays on screen before it is dropped from state
+const REACTION_TTL = 2500
+
+// Sent by the server when a join targets a room that has already been closed
+const ROOM_GONE_ERROR = "Room not found or no longer active"
+
+async function fetchRoomSummary(roomId: string, token: string): Promise<LiveRoomSummary | null> {
+  try {
+    const res = await fetch(`/api/live/rooms/${roomId}/summary`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    if (!res.ok) return null
+    const json = await res.json()
+    return json.summary ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Connects to the live reading socket server and mirrors the room state.
+ * Page turns are host-authoritative: `sendPage` is a no-op unless the current user
+ * is the host or a co-host, and remote turns arrive through `sharedPage`.
+ */
+export function useLiveRoom(roomId: string, userId: string | null) {
+  const socketRef = useRef<Socket | null>(null)
+  const joinedRef = useRef(false)
+  const [room, setRoom] = useState<LiveRoomState | null>(null)
+  const [sharedPage, setSharedPage] = useState<number | undefined>(undefined)
+  const [status, setStatus] = useState<LiveRoomStatus>("connecting")
+  const [error, setError] = useState<string | null>(null)
+  const [reactions, setReactions] = useState<LiveReaction[]>([])
+  const [messages, setMessages] = useState<LiveChatMessage[]>([])
+  const [summary, setSummary] = useState<LiveRoomSummary | null>(null)
+
+  const pushReaction = useCallback((emoji: string, fromUserId: string) => {
+    const id = `${fromUserId}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+    setReactions(prev => [...prev, { id, emoji, userId: fromUserId }])
+    setTimeout(() => {
+      setReactions(prev => prev.filter(r => r.id !== id))
+    }, REACTION_TTL)
+  }, [])
+
+  useEffect(() => {
+    if (!roomId || !userId) return
+    let cancelled = false
+
+    async function connect() {
+      const { data: { session } } = await supabase.auth.getSession()
+      const token = session?.access_token
+      if (cancelled) return
+      if (!token) {
+        setStatus("error")
+        setError("unauth")
+        return
+      }
+
+      const socket = io(SOCKET_URL, { auth: { token } })
+      socketRef.current = socket
+
+      socket.on("connect", () => {
+        setStatus("connected")
+        socket.emit("join", { roomId })
+      })
+
+      socket.on("connect_error", (err: Error) => {
+        setStatus("error")
+        setError(err.message)
+      })
+
+      socket.on("room_state", (state: LiveRoomState) => {
+        joinedRef.current = true
+        setRoom(state)
+        setSharedPage(state.pageIndex)
+        // Replayed history; a reconnect replaces whatever we had locally
+        setMessages(state.messages || [])
+      })
+
+      socket.on("room_error", ({ message }: { message: string }) => {
+        // Before the first room_state an error means we could not join at all
+        if (!joinedRef.current) {
+          // A closed room still has a summary for the people who were in it
+          if (message === ROOM_GONE_ERROR) {
+            fetchRoomSummary(roomId, token!).then(found => {
+              if (cancelled) return
+              if (found) {
+                setSummary(found)
+                setStatus("ended")
+              } else {
+                setStatus("error")
+                setError(message)
+              }
+            })
+            return
+          }
+          setStatus("error")
+          setError(message)
+        } else {
+          toast({ title: message, duration: 3000 })
+        }
+      })
+
+      socket.on("presence", (event: { type: "join"; participant: LiveParticipant } | { type: "leave"; userId: string }) => {
+        setRoom(prev => {
+          if (!prev) return prev
+          if (event.type === "join") {
+            const others = prev.participants.filter(p => p.userId !== event.participant.userId)
+            return { ...prev, participants: [...others, event.participant] }
+          }
+          return { ...prev, participants: prev.participants.filter(p => p.userId !== event.userId) }
+        })
+        if (event.type === "join") {
+          toast({ title: `${event.participant.username || "მომხმარებელი"} შემოუერთდა`, duration: 2500 })
+        }
+      })
+
+      socket.on("participant_update", (participant: LiveParticipant) => {
+        setRoom(prev => prev && {
+          ...prev,
+          participants: prev.participants.map(p => (p.userId === participant.userId ? participant : p)),
+        })
+      })
+
+      socket.on("page", ({ pageIndex }: { pageIndex: number }) => {
+        setSharedPage(pageIndex)
+        setRoom(prev => prev && { ...prev, pageIndex })
+      })
+
+      socket.on("chapter", ({ chapterId }: { chapterId: string }) => {
+        setSharedPage(0)
+        setRoom(prev => prev && { ...prev, chapterId, pageIndex: 0 })
+      })
+
+      socket.on("chat", (message: LiveChatMessage) => {
+        setMessages(prev => [...prev, message])
+      })
+
+      socket.on("chat_deleted", ({ messageId }: { messageId: string }) => {
+        setMessages(prev => prev.filter(m => m.id !== messageId))
+      })
+
+      socket.on("reaction", ({ emoji, userId: fromUserId }: { emoji: string; userId: string }) => {
+        pushReaction(emoji, fromUserId)
+      })
+
+      socket.on("kicked", () => {
+        setStatus("kicked")
+        socket.disconnect()
+      })
+
+      socket.on("room_ended", ({ summary }: { summary: LiveRoomSummary }) => {
+        setSummary(summary)
+        setStatus("ended")
+        socket.disconnect()
+      })
+    }
+
+    connect()
+
+    return () => {
+      cancelled = true
+      joinedRef.current = false
+      const socket = socketRef.current
+      if (socket) {
+        socket.emit("leave", { roomId })
+        socket.disconnect()
+        socketRef.current = null
+      }
+    }
+  }, [roomId, userId, pushReaction])
+
+  const me = room?.participants.find(p => p.userId === userId) || null
+  const canControl = me?.role === "host" || me?.role === "cohost"
+  const isHost = me?.role === "host"
+
+  const sendPage = useCallback((pageIndex: number) => {
+    if (!canControl) return
+    socketRef.current?.emit("page", { roomId, pageIndex })
+  }, [roomId, canControl])
+
+  const sendChapter = useCallback((chapterId: string) => {
+    if (!canControl) return
+    setRoom(prev => prev && { ...prev, chapterId, pageIndex: 0 })
+    socketRef.current?.emit("chapter", { roomId, chapterId })
+  }, [roomId, canControl])
+
+  const sendReaction = useCallback((emoji: string) => {
+    if (!userId || me?.muted) return
+    pushReaction(emoji, userId)
+    socketRef.current?.emit("reaction", { roomId, emoji })
+  }, [roomId, userId, me?.muted, pushReaction])
+
+  const sendChat = useCallback((message: { content?: string; stickerUrl?: string }) => {
+    if (me?.muted) return
+    socketRef.current?.emit("chat", { roomId, ...message })
+  }, [roomId, me?.muted])
+
+  const deleteMessage = useCallback((messageId: string) => {
+    socketRef.current?.emit("chat_delete", { roomId, messageId })
+  }, [roomId])
+
+  const kick = useCallback((targetId: string) => {
+    socketRef.current?.emit("kick", { roomId, targetId })
+  }, [roomId])
+
+  const mute = useCallback((targetId: string, muted: boolean) => {
+    socketRef.current?.emit("mute", { roomId, targetId, muted })
+  }, [roomId])
+
+  const promote = useCallback((targetId: string, role: Exclude<LiveRole, "host">) => {
+    socketRef.current?.emit("promote", { roomId, targetId, role })
+  }, [roomId])
+
+  // Host only; everyone gets `room_ended` with the session summary
+  const endRoom = useCallback(() => {
+    socketRef.current?.emit("end", { roomId })
+  }, [roomId])
+
+  return {
+    room,
+    me,
+    status,
+    error,
+    sharedPage,
+    reactions,
+    messages,
+    summary,
+    canControl,
+    isHost,
+    sendPage,
+    sendChapter,
+    sendReaction,
+    sendChat,
+    deleteMessage,
+    kick,
+    mute,
+    promote,
+    endRoom,
+  }
+}
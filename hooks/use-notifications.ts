@@ -0,0 +1,194 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { io, Socket } from "socket.io-client"
+import { supabase } from "@/lib/supabase"
+import {
+  Notification,
+  attachSenderProfiles,
+  getUnreadNotificationCount,
+  getUserNotifications,
+  groupNotifications,
+  markAllNotificationsAsRead,
+  markNotificationsAsRead,
+} from "@/lib/notifications"
+
+const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:4000"
+
+// Only used while the socket server can't be reached
+const FALLBACK_POLL_INTERVAL = 60000
+// Read-state events arrive one row at a time; recount once they settle
+const RECOUNT_DELAY = 500
+
+/**
+ * Notification feed for the signed-in user: paged list, unread badge count and
+ * live updates from the socket server. Falls back to polling the unread count
+ * while the socket is disconnected.
+ */
+export function useNotifications(userId: string | null) {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [loadError, setLoadError] = useState(false)
+  const [isLive, setIsLive] = useState(false)
+  const recountTimer = useRef<NodeJS.Timeout | null>(null)
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return
+    const { success, count } = await getUnreadNotificationCount(userId)
+    if (success) setUnreadCount(count || 0)
+  }, [userId])
+
+  const scheduleRecount = useCallback(() => {
+    if (recountTimer.current) clearTimeout(recountTimer.current)
+    recountTimer.current = setTimeout(refreshUnreadCount, RECOUNT_DELAY)
+  }, [refreshUnreadCount])
+
+  // First page; also used to retry after an error
+  const refresh = useCallback(async () => {
+    if (!userId) return
+    setIsLoading(true)
+    setLoadError(false)
+    try {
+      const { success, notifications: page, nextCursor: cursor, error } = await getUserNotifications(userId)
+      if (!success || !page) throw error
+      setNotifications(page)
+      setNextCursor(cursor ?? null)
+    } catch (error) {
+      console.error("[notifications] Failed to load notifications:", error)
+      setLoadError(true)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  const loadMore = useCallback(async () => {
+    if (!userId || !nextCursor || isLoadingMore) return
+    setIsLoadingMore(true)
+    try {
+      const { success, notifications: page, nextCursor: cursor } = await getUserNotifications(userId, { cursor: nextCursor })
+      if (success && page) {
+        setNotifications(prev => {
+          const known = new Set(prev.map(n => n.id))
+          return [...prev, ...page.filter(n => !known.has(n.id))]
+        })
+        setNextCursor(cursor ?? null)
+      }
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [userId, nextCursor, isLoadingMore])
+
+  // Marks a single notification or a whole group read
+  const markRead = useCallback(async (ids: string[]) => {
+    if (!userId) return
+    const unread = notifications.filter(n => ids.includes(n.id) && !n.is_read).map(n => n.id)
+    if (unread.length === 0) return
+
+    setNotifications(prev => prev.map(n => (unread.includes(n.id) ? { ...n, is_read: true } : n)))
+    setUnreadCount(count => Math.max(0, count - unread.length))
+
+    const { success } = await markNotificationsAsRead(userId, unread)
+    if (!success) {
+      setNotifications(prev => prev.map(n => (unread.includes(n.id) ? { ...n, is_read: false } : n)))
+      refreshUnreadCount()
+    }
+  }, [userId, notifications, refreshUnreadCount])
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return { success: false }
+    const result = await markAllNotificationsAsRead(userId)
+    if (result.success) {
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })))
+      setUnreadCount(0)
+    }
+    return result
+  }, [userId])
+
+  // Drops a notification from the list, e.g. an answered friend request
+  const removeNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id))
+  }, [])
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([])
+      setUnreadCount(0)
+      setNextCursor(null)
+      return
+    }
+    refreshUnreadCount()
+  }, [userId, refreshUnreadCount])
+
+  // Live delivery through the socket server
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    const socket: Socket = io(SOCKET_URL, {
+      // Called on every (re)connect so an expired token is replaced
+      auth: cb => {
+        supabase.auth.getSession().then(({ data }) => cb({ token: data.session?.access_token }))
+      },
+    })
+
+    socket.on("connect", () => {
+      setIsLive(true)
+      // Catch up on anything that arrived while disconnected
+      refreshUnreadCount()
+    })
+    socket.on("disconnect", () => setIsLive(false))
+    socket.on("connect_error", () => setIsLive(false))
+
+    socket.on("notification", async (row: any) => {
+      const [notification] = await attachSenderProfiles([row])
+      if (cancelled || !notification) return
+      setNotifications(prev => (prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]))
+      if (!notification.is_read) setUnreadCount(count => count + 1)
+    })
+
+    socket.on("notification_read", ({ ids }: { ids: string[] }) => {
+      setNotifications(prev => prev.map(n => (ids.includes(n.id) ? { ...n, is_read: true } : n)))
+      scheduleRecount()
+    })
+
+    socket.on("notification_deleted", ({ id }: { id: string }) => {
+      setNotifications(prev => prev.filter(n => n.id !== id))
+      scheduleRecount()
+    })
+
+    return () => {
+      cancelled = true
+      socket.disconnect()
+      if (recountTimer.current) clearTimeout(recountTimer.current)
+    }
+  }, [userId, refreshUnreadCount, scheduleRecount])
+
+  // Without the socket, keep the badge roughly current
+  useEffect(() => {
+    if (!userId || isLive) return
+    const intervalId = setInterval(refreshUnreadCount, FALLBACK_POLL_INTERVAL)
+    return () => clearInterval(intervalId)
+  }, [userId, isLive, refreshUnreadCount])
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications])
+
+  return {
+    notifications,
+    groups,
+    unreadCount,
+    hasMore: !!nextCursor,
+    isLoading,
+    isLoadingMore,
+    loadError,
+    isLive,
+    refresh,
+    loadMore,
+    markRead,
+    markAllRead,
+    removeNotification,
+    setUnreadCount,
+  }
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  DownloadsState,
+  deleteDownloadedChapter,
+  downloadChapter,
+  getDownloadsState,
+  subscribeToDownloads,
+} from "@/lib/offline-downloads"
+
+/**
+ * Downloaded chapters and the downloads in progress. The state lives in
+ * lib/offline-downloads so the chapter list and the downloads page stay in step.
+ */
+export function useOfflineDownloads() {
+  // Starts empty so the server render and the first client render agree
+  const [state, setState] = useState<DownloadsState>({ downloads: [], active: {} })
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDownloads(setState)
+    setState(getDownloadsState())
+    return unsubscribe
+  }, [])
+
+  return {
+    ...state,
+    download: downloadChapter,
+    remove: deleteDownloadedChapter,
+  }
+}
@@ -1,4 +1,6 @@
 import { supabase } from "./supabase";
+import { clearLocalReadingHistory } from "./reading-history";
+import { clearLocalLibrary } from "./user-library";
 
 /**
  * Sign out from Supabase authentication
@@ -6,6 +8,9 @@ import { supabase } from "./supabase";
  */
 export async function signOut() {
   try {
+    // Reading progress and the library on this device belong to the account signing out
+    await Promise.all([clearLocalReadingHistory(), clearLocalLibrary()]);
+
     // Sign out from Supabase
     await supabase.auth.signOut();
     
@@ -0,0 +1,341 @@
+// Turning a chapter archive (CBZ/ZIP of images, or a PDF) into Cloudinary pages.
+// Everything here runs in the admin's browser; uploads are resumable per archive.
+import type { CloudinaryResource } from './cloudinary';
+import { uploadImageToCloudinary } from './cloudinary-upload';
+import { supabase } from './supabase';
+
+export type ChapterArchiveKind = 'zip' | 'pdf';
+
+export interface ArchivePage {
+  // Path inside the archive, used for sorting and shown in the upload list
+  name: string;
+  file: File;
+}
+
+export type PageUploadStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+};
+
+// Parallel uploads per chapter, and attempts per page before it is marked failed
+const UPLOAD_CONCURRENCY = 3;
+const UPLOAD_ATTEMPTS = 3;
+
+const RESUME_STORAGE_KEY = 'chapter-archive-uploads';
+// Unfinished uploads older than this are forgotten
+const RESUME_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+export class ChapterArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChapterArchiveError';
+  }
+}
+
+export function getArchiveKind(file: File): ChapterArchiveKind | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.pdf') || file.type === 'application/pdf') return 'pdf';
+  if (/\.(cbz|zip)$/.test(name) || file.type === 'application/zip') return 'zip';
+  return null;
+}
+
+/**
+ * Natural order for page names: "2.jpg" before "10.jpg", folders included.
+ */
+export function compareNatural(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+// Latin letters and digits of a title, dash separated: "Tokyo Ghoul:re" -> "tokyo-ghoul-re"
+export function getSeriesSlug(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const seriesFolders = new Map<string, string>();
+
+/**
+ * Cloudinary folder of a series, named after its title like the folders made by
+ * hand ("berserk/chapter_1"). Titles without latin letters or digits use the id.
+ */
+export async function getSeriesFolder(contentId: string): Promise<string> {
+  const cached = seriesFolders.get(contentId);
+  if (cached) return cached;
+  const { data, error } = await supabase.from('content').select('title').eq('id', contentId).maybeSingle();
+  if (error) console.error('Error loading series title:', error);
+  const folder = getSeriesSlug(data?.title || '') || contentId;
+  if (!error) seriesFolders.set(contentId, folder);
+  return folder;
+}
+
+// Folder a chapter's pages are uploaded to
+export function getChapterFolder(seriesFolder: string, chapterNumber: number): string {
+  return `${seriesFolder}/chapter_${chapterNumber}`;
+}
+
+/**
+ * Short tag of one upload (archive and folder). Public ids carry it, so a
+ * re-import with a different archive gets new assets instead of Cloudinary
+ * keeping the old pages under the same id, while resuming reuses the same ids.
+ * Always "v" and 7 base-36 digits, so it can't be mistaken for a page number.
+ */
+export function getUploadVersion(uploadKey: string): string {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < uploadKey.length; i++) {
+    hash ^= uploadKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `v${(hash >>> 0).toString(36).padStart(7, '0')}`;
+}
+
+// Public id of a page inside the chapter folder
+export function getPagePublicId(index: number, version: string): string {
+  return `page_${String(index + 1).padStart(3, '0')}_${version}`;
+}
+
+// MIME type of a page image by extension, undefined for anything else
+function getImageType(fileName: string): string | undefined {
+  const extension = (fileName.split('.').pop() || '').toLowerCase();
+  return Object.prototype.hasOwnProperty.call(IMAGE_EXTENSIONS, extension) ? IMAGE_EXTENSIONS[extension] : undefined;
+}
+
+function isPageImage(path: string): boolean {
+  const name = path.split('/').pop() || '';
+  // Skip macOS resource forks and hidden files
+  if (path.startsWith('__MACOSX/') || name.startsWith('.')) return false;
+  return getImageType(name) !== undefined;
+}
+
+// A file inside a ZIP; `name` is its full path in the archive
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// Central directory of a ZIP file. ZIP64 and encrypted archives are not supported.
+async function readZipEntries(file: File): Promise<ZipEntry[]> {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new ChapterArchiveError('Not a valid ZIP/CBZ archive');
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (directoryOffset === 0xffffffff) throw new ChapterArchiveError('ZIP64 archives are not supported');
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new ChapterArchiveError('Corrupt ZIP central directory');
+    }
+    const flags = directory.getUint16(offset + 8, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength);
+    const name = decoder.decode(nameBytes);
+    if (flags & 0x1) throw new ChapterArchiveError(`"${name}" is encrypted`);
+
+    entries.push({
+      name,
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipEntry(file: File, entry: ZipEntry): Promise<Blob> {
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) {
+    throw new ChapterArchiveError(`Corrupt ZIP entry "${entry.name}"`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) {
+    return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+  }
+  throw new ChapterArchiveError(`"${entry.name}" uses an unsupported compression method`);
+}
+
+/**
+ * The page images of a CBZ/ZIP in natural order, without reading them yet.
+ * Anything that isn't an image (ComicInfo.xml, thumbnails folders of other
+ * tools...) is ignored.
+ */
+export async function listArchiveImages(file: File): Promise<ZipEntry[]> {
+  const entries = (await readZipEntries(file))
+    .filter(entry => !entry.name.endsWith('/') && isPageImage(entry.name))
+    .sort((a, b) => compareNatural(a.name, b.name));
+  if (entries.length === 0) throw new ChapterArchiveError('The archive contains no images');
+  return entries;
+}
+
+export async function readArchivePage(file: File, entry: ZipEntry): Promise<ArchivePage> {
+  const blob = await readZipEntry(file, entry);
+  const fileName = entry.name.split('/').pop() || entry.name;
+  return { name: entry.name, file: new File([blob], fileName, { type: getImageType(fileName) }) };
+}
+
+// Extracts every page image of a CBZ/ZIP, in natural order
+export async function extractArchivePages(file: File): Promise<ArchivePage[]> {
+  const pages: ArchivePage[] = [];
+  for (const entry of await listArchiveImages(file)) {
+    pages.push(await readArchivePage(file, entry));
+  }
+  return pages;
+}
+
+/**
+ * Page URLs of an uploaded PDF. Cloudinary rasterises PDF pages on request with
+ * the pg_N transformation, so the PDF itself is the only upload.
+ */
+export function getPdfPageUrls(resource: Pick<CloudinaryResource, 'secure_url' | 'pages'>): string[] {
+  const pageCount = resource.pages || 1;
+  const base = resource.secure_url.replace(/\.pdf$/i, '.jpg');
+  return Array.from({ length: pageCount }, (_, i) => base.replace('/image/upload/', `/image/upload/pg_${i + 1}/`));
+}
+
+interface ResumeEntry {
+  urls: (string | null)[];
+  updatedAt: number;
+}
+
+function readResumeStore(): Record<string, ResumeEntry> {
+  try {
+    const raw = localStorage.getItem(RESUME_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeResumeStore(store: Record<string, ResumeEntry>): void {
+  const now = Date.now();
+  const fresh = Object.fromEntries(Object.entries(store).filter(([, entry]) => now - entry.updatedAt < RESUME_MAX_AGE));
+  try {
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(fresh));
+  } catch (error) {
+    console.warn('Failed to save upload progress:', error);
+  }
+}
+
+/**
+ * Identifies one archive going into one chapter folder, so picking the same file
+ * again after a failure or a reload resumes instead of starting over.
+ */
+export function getArchiveUploadKey(file: File, folder: string): string {
+  return `${folder}|${file.name}|${file.size}|${file.lastModified}`;
+}
+
+// Pages of an earlier, unfinished run of the same upload
+export function getResumedUploads(uploadKey: string, pageCount: number): (string | null)[] {
+  if (typeof window === 'undefined') return Array(pageCount).fill(null);
+  const urls = readResumeStore()[uploadKey]?.urls || [];
+  return Array.from({ length: pageCount }, (_, i) => urls[i] || null);
+}
+
+function saveResumedUploads(uploadKey: string, urls: (string | null)[]): void {
+  writeResumeStore({ ...readResumeStore(), [uploadKey]: { urls, updatedAt: Date.now() } });
+}
+
+// Forget an upload once its chapter exists
+export function clearResumedUploads(uploadKey: string): void {
+  const store = readResumeStore();
+  delete store[uploadKey];
+  writeResumeStore(store);
+}
+
+export interface UploadChapterPagesOptions {
+  folder: string;
+  uploadKey: string;
+  // URLs already uploaded by an earlier run; only the missing pages are sent
+  uploaded?: (string | null)[];
+  onStatus?: (index: number, status: PageUploadStatus, url?: string) => void;
+}
+
+/**
+ * Uploads the pages into the chapter folder, under public ids tagged with this
+ * upload so resumed runs hit the same ones. Each page
+ * is retried a few times; the result has null for pages that still failed, and
+ * what did upload is remembered for the next attempt.
+ */
+export async function uploadChapterPages(
+  pages: ArchivePage[],
+  { folder, uploadKey, uploaded = [], onStatus }: UploadChapterPagesOptions
+): Promise<(string | null)[]> {
+  const version = getUploadVersion(uploadKey);
+  const urls = pages.map((_, i) => uploaded[i] || null);
+  const queue = pages.map((_, i) => i).filter(i => !urls[i]);
+  urls.forEach((url, i) => url && onStatus?.(i, 'done', url));
+
+  const uploadOne = async (index: number) => {
+    onStatus?.(index, 'uploading');
+    for (let attempt = 1; attempt <= UPLOAD_ATTEMPTS; attempt++) {
+      const resource = await uploadImageToCloudinary(pages[index].file, folder, { publicId: getPagePublicId(index, version) });
+      if (resource?.secure_url) {
+        urls[index] = resource.secure_url;
+        saveResumedUploads(uploadKey, urls);
+        onStatus?.(index, 'done', resource.secure_url);
+        return;
+      }
+      // Back off a little before trying again
+      if (attempt < UPLOAD_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+    }
+    onStatus?.(index, 'failed');
+  };
+
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      await uploadOne(index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, queue.length) }, worker));
+  return urls;
+}
+
+/**
+ * Uploads a PDF chapter into its folder and returns one URL per page.
+ */
+export async function uploadChapterPdf(file: File, folder: string): Promise<string[]> {
+  const version = getUploadVersion(getArchiveUploadKey(file, folder));
+  const resource = await uploadImageToCloudinary(file, folder, { publicId: `source_${version}` });
+  if (!resource?.secure_url) throw new ChapterArchiveError('Failed to upload the PDF');
+  return getPdfPageUrls(resource);
+}
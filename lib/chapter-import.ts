@@ -0,0 +1,427 @@
+// Batch chapter imports: one ZIP holding a folder per chapter ("Chapter 001/",
+// "Ch.2/", "vol1_ch3/"...). The admin's browser uploads the pages and keeps a
+// `chapter_import_jobs` row up to date, which the status page follows.
+import { supabase } from './supabase';
+import {
+  ArchivePage,
+  ChapterArchiveError,
+  ZipEntry,
+  clearResumedUploads,
+  getArchiveUploadKey,
+  getChapterFolder,
+  getResumedUploads,
+  getSeriesFolder,
+  listArchiveImages,
+  readArchivePage,
+  uploadChapterPages,
+} from './chapter-archive';
+
+export type ImportLanguage = 'ge' | 'en';
+
+export type ImportJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// 'uploaded' chapters have all their pages in Cloudinary but no `chapters` row yet
+export type ImportChapterStatus = 'pending' | 'uploading' | 'uploaded' | 'done' | 'failed';
+
+export interface ImportJobChapter {
+  folder: string;
+  number: number;
+  title: string;
+  page_count: number;
+  uploaded_pages: number;
+  status: ImportChapterStatus;
+  pages: string[];
+  error?: string | null;
+}
+
+export interface ChapterImportJob {
+  id: string;
+  content_id: string;
+  language: ImportLanguage;
+  source_name: string;
+  source_size: number;
+  status: ImportJobStatus;
+  chapters: ImportJobChapter[];
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// A chapter found in the archive, before the admin confirms the mapping
+export interface DetectedChapter {
+  // Folder inside the archive holding the pages ('' for the archive root)
+  folder: string;
+  // null when the folder name has no recognisable chapter number
+  number: number | null;
+  title: string;
+  pages: ZipEntry[];
+}
+
+// Why a detected chapter won't be imported as it is
+export type ImportConflict = 'existing' | 'archive' | 'missing-number';
+
+// A running job whose row hasn't been touched for this long lost its browser tab
+const STALE_JOB_AGE = 2 * 60 * 1000;
+// Progress writes are batched; status changes are written straight away
+const PROGRESS_SAVE_INTERVAL = 3000;
+
+// "Chapter 10.5", "Ch.2", "vol1_ch3", "c045", "თავი 7"
+const CHAPTER_PATTERN = /(?:^|[^a-zა-ჿ])(?:chapter|chap|ch|c|თავი)[\s._#-]*(\d+(?:[.,]\d+)?)(.*)$/i;
+// "012 - Title", "10.5"
+const LEADING_NUMBER_PATTERN = /^(\d+(?:[.,]\d+)?)(?:$|[\s._:-]+(.*)$)/;
+
+function toChapterNumber(raw: string): number {
+  return Number(raw.replace(',', '.'));
+}
+
+function cleanTitle(raw: string | undefined): string {
+  return (raw || '')
+    .replace(/^[\s._:)\]-]+/, '')
+    .replace(/[_]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reads the chapter number, and a title if there is one, from a folder name.
+ * Returns null when the name doesn't look like a chapter.
+ */
+export function parseChapterFolderName(name: string): { number: number; title: string } | null {
+  const chapterMatch = name.match(CHAPTER_PATTERN);
+  if (chapterMatch) {
+    return { number: toChapterNumber(chapterMatch[1]), title: cleanTitle(chapterMatch[2]) };
+  }
+  const leadingMatch = name.trim().match(LEADING_NUMBER_PATTERN);
+  if (leadingMatch) {
+    return { number: toChapterNumber(leadingMatch[1]), title: cleanTitle(leadingMatch[2]) };
+  }
+  return null;
+}
+
+// Title used when the folder name carries none, same as the Cloudinary batch form's default
+export function getDefaultChapterTitle(number: number): string {
+  return `თავი: ${number}`;
+}
+
+function getFolder(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Groups the archive's images by the folder they sit in and reads a chapter
+ * number for each folder. When the innermost folder name has no number
+ * ("Vol 1/Chapter 3/raw"), the parent folders are tried.
+ */
+export function detectArchiveChapters(entries: ZipEntry[]): DetectedChapter[] {
+  const byFolder = new Map<string, ZipEntry[]>();
+  entries.forEach(entry => {
+    const folder = getFolder(entry.name);
+    byFolder.set(folder, [...(byFolder.get(folder) || []), entry]);
+  });
+
+  const chapters = Array.from(byFolder, ([folder, pages]): DetectedChapter => {
+    const segments = folder.split('/').filter(Boolean);
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const parsed = parseChapterFolderName(segments[i]);
+      if (parsed) {
+        return { folder, number: parsed.number, title: parsed.title || getDefaultChapterTitle(parsed.number), pages };
+      }
+    }
+    return { folder, number: null, title: segments[segments.length - 1] || '', pages };
+  });
+
+  return chapters.sort((a, b) => {
+    if (a.number === null || b.number === null) return a.number === null ? (b.number === null ? 0 : 1) : -1;
+    return a.number - b.number || a.folder.localeCompare(b.folder, undefined, { numeric: true });
+  });
+}
+
+/**
+ * Conflicts of a planned import: numbers that already exist for the title, or
+ * that appear twice in the archive (the first folder wins). Chapters left out
+ * of the import don't claim their number.
+ */
+export function findImportConflicts(
+  chapters: { number: number | null; include: boolean }[],
+  existingNumbers: Set<number>
+): (ImportConflict | null)[] {
+  const claimed = new Set<number>();
+  return chapters.map(chapter => {
+    if (chapter.number === null || !(chapter.number > 0)) return 'missing-number';
+    if (existingNumbers.has(chapter.number)) return 'existing';
+    if (claimed.has(chapter.number)) return 'archive';
+    if (chapter.include) claimed.add(chapter.number);
+    return null;
+  });
+}
+
+export async function getExistingChapterNumbers(contentId: string, language: ImportLanguage): Promise<Set<number>> {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('number')
+    .eq('content_id', contentId)
+    .eq('language', language);
+  if (error) throw error;
+  return new Set((data || []).map(row => Number(row.number)));
+}
+
+export async function createImportJob(
+  contentId: string,
+  language: ImportLanguage,
+  file: File,
+  chapters: Pick<DetectedChapter, 'folder' | 'number' | 'title' | 'pages'>[]
+): Promise<ChapterImportJob> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('chapter_import_jobs')
+    .insert({
+      content_id: contentId,
+      language,
+      source_name: file.name,
+      source_size: file.size,
+      created_by: user?.id ?? null,
+      chapters: chapters.map((chapter): ImportJobChapter => ({
+        folder: chapter.folder,
+        number: chapter.number as number,
+        title: chapter.title,
+        page_count: chapter.pages.length,
+        uploaded_pages: 0,
+        status: 'pending',
+        pages: [],
+      })),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ChapterImportJob;
+}
+
+export async function getImportJob(id: string): Promise<ChapterImportJob | null> {
+  const { data, error } = await supabase.from('chapter_import_jobs').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as ChapterImportJob | null;
+}
+
+export async function getImportJobs(contentId?: string, limit = 20): Promise<ChapterImportJob[]> {
+  let query = supabase.from('chapter_import_jobs').select('*').order('created_at', { ascending: false }).limit(limit);
+  if (contentId) query = query.eq('content_id', contentId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as ChapterImportJob[];
+}
+
+async function saveImportJob(job: ChapterImportJob, changes: Partial<ChapterImportJob>): Promise<ChapterImportJob> {
+  const updated = { ...job, ...changes, updated_at: new Date().toISOString() };
+  const { error } = await supabase
+    .from('chapter_import_jobs')
+    .update({
+      status: updated.status,
+      chapters: updated.chapters,
+      error: updated.error,
+      updated_at: updated.updated_at,
+      finished_at: updated.finished_at,
+    })
+    .eq('id', job.id);
+  if (error) console.error('Failed to save import job progress:', error);
+  return updated;
+}
+
+// Jobs being run by this browser tab, with their cancel flag and latest progress
+const activeImports = new Map<string, { cancelled: boolean; job: ChapterImportJob }>();
+
+export function isImportRunningHere(jobId: string): boolean {
+  return activeImports.has(jobId);
+}
+
+// Up-to-date progress of a job this tab runs; the database copy lags a few seconds
+export function getLocalImportProgress(jobId: string): ChapterImportJob | null {
+  return activeImports.get(jobId)?.job ?? null;
+}
+
+// A job marked running that no tab is working on anymore (closed or reloaded mid-import)
+export function isImportJobStale(job: ChapterImportJob): boolean {
+  return job.status === 'running'
+    && !isImportRunningHere(job.id)
+    && Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_AGE;
+}
+
+/**
+ * Stops a job. A job running in this tab stops after the chapter it is
+ * uploading; any other job is only marked cancelled.
+ */
+export async function cancelImportJob(job: ChapterImportJob): Promise<ChapterImportJob> {
+  const active = activeImports.get(job.id);
+  if (active) {
+    active.cancelled = true;
+    return job;
+  }
+  return saveImportJob(job, { status: 'cancelled', finished_at: new Date().toISOString() });
+}
+
+function getFinalStatus(chapters: ImportJobChapter[]): ImportJobStatus {
+  return chapters.every(chapter => chapter.status === 'done') ? 'completed' : 'failed';
+}
+
+/**
+ * Creates the `chapters` rows of every uploaded chapter in one request, so
+ * readers get one new-chapters notification for the whole batch. Needs no
+ * archive: the page URLs are kept on the job.
+ */
+export async function createImportedChapters(job: ChapterImportJob): Promise<ChapterImportJob> {
+  const ready = job.chapters.filter(chapter => chapter.status === 'uploaded');
+  if (ready.length === 0) return job;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const serviceRoleKey = typeof window !== 'undefined' ? localStorage.getItem('serviceRoleKey') : null;
+  if (serviceRoleKey) headers['x-supabase-service-role'] = serviceRoleKey;
+
+  let results: { index: number; status: string; error?: string }[];
+  try {
+    const response = await fetch('/api/chapters/bulk', {
+      method: 'POST',
+      headers,
+      credentials: 'include',
+      body: JSON.stringify({
+        // A chapter created by an earlier, interrupted attempt is reported as skipped
+        onConflict: 'skip',
+        chapters: ready.map(chapter => ({
+          contentId: job.content_id,
+          number: chapter.number,
+          title: chapter.title,
+          pages: chapter.pages,
+          language: job.language,
+        })),
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!Array.isArray(data.results)) throw new Error(data.error || 'Failed to create chapters');
+    results = data.results;
+  } catch (error) {
+    // Chapters stay 'uploaded' so creating them can be retried from the status page
+    return saveImportJob(job, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to create chapters',
+      finished_at: new Date().toISOString(),
+    });
+  }
+
+  const resultFor = new Map(ready.map((chapter, i) => [chapter, results.find(result => result.index === i)]));
+  const chapters = job.chapters.map(chapter => {
+    const result = resultFor.get(chapter);
+    if (!result) return chapter;
+    return result.status === 'error'
+      ? { ...chapter, error: result.error || 'Failed to create chapter' }
+      : { ...chapter, status: 'done' as const, error: null };
+  });
+  const failed = chapters.filter(chapter => chapter.status === 'uploaded').length;
+  return saveImportJob(job, {
+    chapters,
+    status: getFinalStatus(chapters),
+    error: failed > 0 ? `${failed} chapter(s) could not be created` : null,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Runs (or resumes) a job with its archive: uploads the chapters one after
+ * another into their chapter folders, then creates them. Chapters already
+ * uploaded are skipped, and pages of a half-uploaded chapter are picked up from
+ * the resume store of this browser.
+ */
+export async function runChapterImport(
+  initialJob: ChapterImportJob,
+  file: File,
+  onProgress?: (job: ChapterImportJob) => void
+): Promise<ChapterImportJob> {
+  if (activeImports.has(initialJob.id)) return initialJob;
+  if (file.name !== initialJob.source_name || file.size !== initialJob.source_size) {
+    throw new ChapterArchiveError(`Pick the archive this job was started with (${initialJob.source_name})`);
+  }
+
+  let job: ChapterImportJob = { ...initialJob, chapters: initialJob.chapters.map(chapter => ({ ...chapter })) };
+  const active = { cancelled: false, job };
+  activeImports.set(initialJob.id, active);
+
+  // Chapters are updated in place, readers get a copy
+  const report = () => {
+    active.job = { ...job, chapters: job.chapters.map(chapter => ({ ...chapter })) };
+    onProgress?.(active.job);
+  };
+  let lastSaved = 0;
+  const persist = async (force = false) => {
+    report();
+    if (!force && Date.now() - lastSaved < PROGRESS_SAVE_INTERVAL) return;
+    lastSaved = Date.now();
+    await saveImportJob(job, {});
+  };
+
+  try {
+    const byFolder = new Map(detectArchiveChapters(await listArchiveImages(file)).map(chapter => [chapter.folder, chapter.pages]));
+    job = { ...job, status: 'running', error: null, finished_at: null };
+    await persist(true);
+    const seriesFolder = await getSeriesFolder(job.content_id);
+
+    for (const chapter of job.chapters) {
+      if (active.cancelled) break;
+      if (chapter.status === 'uploaded' || chapter.status === 'done') continue;
+
+      const entries = byFolder.get(chapter.folder);
+      if (!entries) {
+        Object.assign(chapter, { status: 'failed', error: 'Folder not found in the archive' });
+        await persist(true);
+        continue;
+      }
+
+      Object.assign(chapter, { status: 'uploading', uploaded_pages: 0, error: null });
+      await persist(true);
+
+      const folder = getChapterFolder(seriesFolder, chapter.number);
+      const uploadKey = getArchiveUploadKey(file, folder);
+      const pages: ArchivePage[] = [];
+      for (const entry of entries) pages.push(await readArchivePage(file, entry));
+
+      const urls = await uploadChapterPages(pages, {
+        folder,
+        uploadKey,
+        uploaded: getResumedUploads(uploadKey, pages.length),
+        onStatus: (_, status) => {
+          if (status !== 'done') return;
+          chapter.uploaded_pages += 1;
+          persist();
+        },
+      });
+
+      const failed = urls.filter(url => !url).length;
+      if (failed > 0) {
+        Object.assign(chapter, { status: 'failed', error: `${failed} page(s) failed to upload` });
+      } else {
+        // The URLs are on the job now, the browser no longer needs to remember them
+        Object.assign(chapter, { status: 'uploaded', pages: urls as string[], error: null });
+        clearResumedUploads(uploadKey);
+      }
+      await persist(true);
+    }
+
+    if (active.cancelled) {
+      job = await saveImportJob(job, { status: 'cancelled', finished_at: new Date().toISOString() });
+    } else {
+      job = await createImportedChapters(job);
+      // Nothing was left to create, e.g. every chapter failed to upload
+      if (job.status === 'running') {
+        job = await saveImportJob(job, { status: getFinalStatus(job.chapters), finished_at: new Date().toISOString() });
+      }
+    }
+  } catch (error) {
+    job = await saveImportJob(job, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Import failed',
+      finished_at: new Date().toISOString(),
+    });
+  } finally {
+    activeImports.delete(initialJob.id);
+  }
+  report();
+  return job;
+}
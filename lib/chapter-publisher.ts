@@ -0,0 +1,50 @@
+// Publishes scheduled chapters whose release date has come, then updates the
+// series' chapter counts and notifies readers. Server only: runs with the admin client.
+import { supabaseAdmin } from './supabase/admin';
+import { updateContentCounts } from './content';
+import { notifyNewChapters } from './notifications';
+
+export interface PublishRunResult {
+  published: number;
+  titles: number;
+}
+
+/**
+ * Flips every due chapter to published, optionally for one series only. The
+ * update only takes rows that are still unpublished, so runs that overlap never
+ * publish (and notify about) the same chapter twice.
+ */
+export async function publishDueChapters(contentId?: string): Promise<PublishRunResult> {
+  const now = new Date().toISOString();
+  let query = supabaseAdmin
+    .from('chapters')
+    .update({ published_at: now })
+    .is('published_at', null)
+    .lte('release_date', now);
+  if (contentId) query = query.eq('content_id', contentId);
+
+  const { data, error } = await query.select('content_id, number');
+  if (error) throw error;
+
+  const numbersByContent = new Map<string, number[]>();
+  (data || []).forEach(chapter => {
+    numbersByContent.set(chapter.content_id, [...(numbersByContent.get(chapter.content_id) || []), Number(chapter.number)]);
+  });
+  if (numbersByContent.size === 0) return { published: 0, titles: 0 };
+
+  const { data: contents, error: contentError } = await supabaseAdmin
+    .from('content')
+    .select('id, type')
+    .in('id', Array.from(numbersByContent.keys()));
+  if (contentError) console.error('Chapter publisher: failed to load content types', contentError);
+  const contentTypes = new Map<string, string>((contents || []).map(row => [row.id, row.type]));
+
+  for (const [id, numbers] of numbersByContent) {
+    const type = contentTypes.get(id);
+    if (type === 'manga' || type === 'comics') await updateContentCounts(id, type, supabaseAdmin);
+    await notifyNewChapters(id, numbers);
+  }
+
+  console.log(`Chapter publisher: published ${data!.length} chapters in ${numbersByContent.size} titles`);
+  return { published: data!.length, titles: numbersByContent.size };
+}
@@ -0,0 +1,63 @@
+// Scheduled chapter publishing: a chapter dated in the future stays hidden until the
+// publish worker reaches its release date. VIP members can read it earlier, from
+// early_access_at on. Visibility itself is enforced by the chapters RLS policy.
+
+export type ChapterLanguage = 'ge' | 'en';
+
+export interface ScheduledChapterFields {
+  release_date?: string | null;
+  published_at?: string | null;
+  early_access_at?: string | null;
+}
+
+// One chapter on a series' release calendar; never includes pages
+export interface ReleaseScheduleEntry {
+  id: string;
+  number: number;
+  title: string;
+  language: ChapterLanguage;
+  release_date: string;
+  early_access_at: string | null;
+  published: boolean;
+}
+
+export interface ReleaseSchedule {
+  upcoming: ReleaseScheduleEntry[];
+  recent: ReleaseScheduleEntry[];
+}
+
+// How long before the release VIP members get a chapter, in hours
+export const EARLY_ACCESS_OPTIONS = [0, 24, 48, 72] as const;
+
+// Only a null published_at counts: rows loaded without the column are treated as published
+export function isChapterScheduled(chapter: ScheduledChapterFields): boolean {
+  return chapter.published_at === null;
+}
+
+// A chapter that isn't published yet but that VIP members can already read
+export function isInEarlyAccess(chapter: ScheduledChapterFields, now = new Date()): boolean {
+  return !chapter.published_at && !!chapter.early_access_at && new Date(chapter.early_access_at) <= now;
+}
+
+export function getEarlyAccessAt(releaseDate: Date | null | undefined, hours: number): string | null {
+  if (!releaseDate || hours <= 0) return null;
+  return new Date(releaseDate.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+export function getEarlyAccessHours(chapter: ScheduledChapterFields): number {
+  if (!chapter.release_date || !chapter.early_access_at) return 0;
+  const hours = (new Date(chapter.release_date).getTime() - new Date(chapter.early_access_at).getTime()) / (60 * 60 * 1000);
+  return hours > 0 ? Math.round(hours) : 0;
+}
+
+/**
+ * Release calendar of a series: chapters still to come (dates and titles only,
+ * whoever asks) and the ones published lately.
+ */
+export async function getReleaseSchedule(contentId: string): Promise<ReleaseSchedule> {
+  const response = await fetch(`/api/chapters/schedule?contentId=${encodeURIComponent(contentId)}`);
+  if (!response.ok) {
+    throw new Error('Failed to load the release schedule');
+  }
+  return response.json();
+}
@@ -0,0 +1,49 @@
+import type { CloudinaryResource } from './cloudinary';
+
+export interface CloudinaryUploadOptions {
+  // Fixed public id inside the folder, so uploading the same file again doesn't create a copy
+  publicId?: string;
+}
+
+/**
+ * Uploads an image to Cloudinary
+ */
+export async function uploadImageToCloudinary(
+  file: File,
+  folder?: string,
+  options: CloudinaryUploadOptions = {}
+): Promise<CloudinaryResource | null> {
+  // This function is for client-side uploads
+  // For security reasons, direct uploads from client to Cloudinary should use unsigned uploads
+  // or generate a signature on the server
+  try {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('upload_preset', process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET || '');
+    
+    if (folder) {
+      formData.append('folder', folder);
+    }
+
+    if (options.publicId) {
+      formData.append('public_id', options.publicId);
+    }
+
+    const response = await fetch(
+      `https://api.cloudinary.com/v1_1/${process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME}/image/upload`,
+      {
+        method: 'POST',
+        body: formData,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to upload image');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error uploading to Cloudinary:', error);
+    return null;
+  }
+}
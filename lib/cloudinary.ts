@@ -22,6 +22,8 @@ export interface CloudinaryResource {
   secure_url: string;
   folder: string;
   filename: string;
+  // Number of pages, for PDFs
+  pages?: number;
 }
 
 /**
@@ -71,43 +73,8 @@ export function sortImagesByFilename(images: CloudinaryResource[]): CloudinaryRe
   });
 }
 
-/**
- * Uploads an image to Cloudinary
- */
-export async function uploadImageToCloudinary(
-  file: File,
-  folder?: string
-): Promise<CloudinaryResource | null> {
-  // This function is for client-side uploads
-  // For security reasons, direct uploads from client to Cloudinary should use unsigned uploads
-  // or generate a signature on the server
-  try {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('upload_preset', process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET || '');
-    
-    if (folder) {
-      formData.append('folder', folder);
-    }
-
-    const response = await fetch(
-      `https://api.cloudinary.com/v1_1/${process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME}/image/upload`,
-      {
-        method: 'POST',
-        body: formData,
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to upload image');
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error('Error uploading to Cloudinary:', error);
-    return null;
-  }
-}
+// Client-side uploads live in their own module so browsers don't bundle the Node SDK
+export { uploadImageToCloudinary } from './cloudinary-upload';
 
 /**
  * Fetches all subfolders from a specified Cloudinary folder path.
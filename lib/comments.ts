@@ -4,6 +4,7 @@ import { createClient } from '@supabase/supabase-js'
 import { v4 as uuidv4 } from 'uuid'
 import { createNotification, NotificationType } from "@/lib/notifications";
 import { getProfile } from "@/lib/user";
+import type { CommentPageAnchor, PageRegion } from "@/lib/page-comments";
 
 // Silence verbose logging from comments module unless explicitly enabled
 const COMMENTS_DEBUG = false;
@@ -86,6 +87,9 @@ export interface Comment {
   created_at: string
   updated_at: string
   parent_comment_id?: string | null
+  // Set when the comment is about one page of a chapter; see lib/page-comments
+  page_index?: number | null
+  page_region?: PageRegion | null
   user_profile?: {
     username: string | null
     avatar_url: string | null
@@ -311,7 +315,8 @@ export async function addComment(
   username: string = 'User',
   avatarUrl: string | null = null,
   mediaUrl: string | null = null,
-  parentCommentId: string | null = null
+  parentCommentId: string | null = null,
+  anchor: CommentPageAnchor | null = null
 ) {
   try {
     // ------------------------------------------------------------
@@ -342,6 +347,8 @@ export async function addComment(
             text,
             mediaUrl,
             parentCommentId,
+            pageIndex: anchor?.pageIndex ?? null,
+            pageRegion: anchor?.region ?? null,
           })
         });
 
@@ -375,6 +382,7 @@ export async function addComment(
       text: text,
       media_url: mediaUrl,
       parent_comment_id: parentCommentId,
+      ...(anchor ? { page_index: anchor.pageIndex, page_region: anchor.region } : {}),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
@@ -1,5 +1,8 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase, supabasePublic } from './supabase'
 import type { Chapter } from './supabase'
+import { notifyNewChapters } from './notifications'
+import { isChapterScheduled } from './chapter-schedule'
 
 // ---------------------------------------------------------------------------
 // Internal util flags
@@ -731,8 +734,10 @@ export async function getChapters(contentId: string, optionsOrForceRefresh: bool
     // -------------------------------------------------------------------
     // Georgian chapters (local DB)
     // -------------------------------------------------------------------
+    // Read with the viewer's session: RLS hides scheduled chapters from
+    // everyone but admins, and from VIP members until their early access.
     if (includeGeorgian) {
-      const { data: geData, error: geError } = await supabasePublic
+      const { data: geData, error: geError } = await supabase
         .from('chapters')
         .select('*')
         .eq('content_id', contentId)
@@ -744,6 +749,7 @@ export async function getChapters(contentId: string, optionsOrForceRefresh: bool
       chapters.push(...(geData || []).map((ch: any) => ({
         ...ch,
         language: ch.language || 'ge',
+        scheduled: isChapterScheduled(ch),
       })));
     }
 
@@ -751,7 +757,7 @@ export async function getChapters(contentId: string, optionsOrForceRefresh: bool
     // English chapters (also in local DB) – supports pagination
     // -------------------------------------------------------------------
     if (includeEnglish) {
-      const { data: enData, error: enError } = await supabasePublic
+      const { data: enData, error: enError } = await supabase
         .from('chapters')
         .select('*')
         .eq('content_id', contentId)
@@ -764,6 +770,7 @@ export async function getChapters(contentId: string, optionsOrForceRefresh: bool
       chapters.push(...(enData || []).map((ch: any) => ({
         ...ch,
         language: 'en',
+        scheduled: isChapterScheduled(ch),
       })));
 
       // -----------------------------------------------------------------
@@ -898,6 +905,12 @@ export async function addChapter(chapterData: Omit<Chapter, 'id' | 'created_at'>
       // Update the content with the latest chapter count
       await updateContentCounts(contentId, contentType);
       console.log(`Updated manga chapter counts after adding chapter ${data[0].number}`);
+
+      // Scheduled chapters are announced by the publish worker instead
+      const published = data.filter(chapter => chapter.published_at);
+      if (published.length > 0) {
+        await notifyNewChapters(contentId, published.map(chapter => chapter.number));
+      }
     }
 
     return { success: true, chapter: data }
@@ -933,8 +946,13 @@ export async function searchContent(query: string, type?: 'manga' | 'comics', li
   }
 }
 
-// Update content chapter/episode counts
-export async function updateContentCounts(id: string, type: 'manga' | 'comics'): Promise<boolean> {
+// Update content chapter/episode counts. Server code passes the admin client: the
+// anon one can't write content there, and RLS would reject the update.
+export async function updateContentCounts(
+  id: string,
+  type: 'manga' | 'comics',
+  client: SupabaseClient = supabase
+): Promise<boolean> {
   try {
     let updates: any = {
       updated_at: new Date().toISOString()
@@ -943,10 +961,12 @@ export async function updateContentCounts(id: string, type: 'manga' | 'comics'):
     // Check what we're updating based on content type
     if (type === 'manga' || type === 'comics') {
       // Get latest chapter info
-      const { data: chapters, error: chaptersError } = await supabasePublic
+      // Scheduled chapters don't count until they are published
+      const { data: chapters, error: chaptersError } = await (client === supabase ? supabasePublic : client)
         .from('chapters')
         .select('id, number', { count: 'exact' })
         .eq('content_id', id)
+        .not('published_at', 'is', null)
         .order('number', { ascending: false })
         .limit(1);
         
@@ -957,7 +977,7 @@ export async function updateContentCounts(id: string, type: 'manga' | 'comics'):
     
     // Only update if we have something to update
     if ((updates.chapters_count !== undefined)) {
-      const { error } = await supabase
+      const { error } = await client
         .from('content')
         .update(updates)
         .eq('id', id);
@@ -0,0 +1,129 @@
+// HTML/text rendering of the notification digest in Georgian or English
+import type { EmailDigestFrequency } from '../notification-preferences';
+
+export type DigestLanguage = 'ge' | 'en';
+
+export interface DigestItem {
+  message: string;
+  createdAt: string;
+  url: string;
+}
+
+export interface DigestTemplateInput {
+  language: DigestLanguage;
+  frequency: EmailDigestFrequency;
+  username: string | null;
+  items: DigestItem[];
+  // Unread notifications beyond the ones listed
+  moreCount: number;
+  siteUrl: string;
+  settingsUrl: string;
+  unsubscribeUrl: string;
+}
+
+const strings = {
+  ge: {
+    subject: (count: number, frequency: EmailDigestFrequency) =>
+      `${count} ახალი შეტყობინება – ${frequency === 'weekly' ? 'კვირის' : 'დღის'} მიმოხილვა`,
+    greeting: (name: string | null) => (name ? `გამარჯობა, ${name}!` : 'გამარჯობა!'),
+    intro: (frequency: EmailDigestFrequency) =>
+      frequency === 'weekly' ? 'აი, რა მოხდა ამ კვირაში:' : 'აი, რა მოხდა ბოლო დღეს:',
+    more: (count: number) => `და კიდევ ${count} შეტყობინება საიტზე.`,
+    open: 'ყველა შეტყობინების ნახვა',
+    settings: 'შეტყობინებების პარამეტრები',
+    unsubscribe: 'ელფოსტის შეტყობინებების გამორთვა',
+    footer: 'ამ წერილს იღებთ, რადგან ჩართული გაქვთ ელფოსტის შეტყობინებები.',
+    locale: 'ka-GE',
+  },
+  en: {
+    subject: (count: number, frequency: EmailDigestFrequency) =>
+      `${count} new notification${count === 1 ? '' : 's'} – your ${frequency} digest`,
+    greeting: (name: string | null) => (name ? `Hi ${name}!` : 'Hi!'),
+    intro: (frequency: EmailDigestFrequency) =>
+      frequency === 'weekly' ? "Here's what happened this week:" : "Here's what happened today:",
+    more: (count: number) => `…and ${count} more on the site.`,
+    open: 'See all notifications',
+    settings: 'Notification settings',
+    unsubscribe: 'Turn off email notifications',
+    footer: "You're receiving this because email notifications are on for your account.",
+    locale: 'en-GB',
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string, locale: string): string {
+  return new Date(value).toLocaleString(locale, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+export function buildDigestEmail(input: DigestTemplateInput): { subject: string; html: string; text: string } {
+  const t = strings[input.language] || strings.ge;
+  const total = input.items.length + input.moreCount;
+
+  const rows = input.items
+    .map(item => `
+          <tr>
+            <td style="padding:12px 0;border-bottom:1px solid #2a2a2a;">
+              <a href="${escapeHtml(item.url)}" style="color:#e5e5e5;text-decoration:none;font-size:15px;">${escapeHtml(item.message)}</a>
+              <div style="color:#8a8a8a;font-size:12px;margin-top:4px;">${escapeHtml(formatDate(item.createdAt, t.locale))}</div>
+            </td>
+          </tr>`)
+    .join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="${input.language === 'en' ? 'en' : 'ka'}">
+  <body style="margin:0;padding:0;background:#0a0a0a;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#0a0a0a;">
+      <tr>
+        <td align="center" style="padding:24px 12px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#141414;border-radius:12px;padding:24px;">
+            <tr><td style="color:#a78bfa;font-size:20px;font-weight:bold;padding-bottom:16px;">მანგანიმე</td></tr>
+            <tr><td style="color:#ffffff;font-size:16px;padding-bottom:4px;">${escapeHtml(t.greeting(input.username))}</td></tr>
+            <tr><td style="color:#bdbdbd;font-size:14px;padding-bottom:8px;">${escapeHtml(t.intro(input.frequency))}</td></tr>
+            ${rows}
+            ${input.moreCount > 0 ? `<tr><td style="color:#bdbdbd;font-size:14px;padding-top:12px;">${escapeHtml(t.more(input.moreCount))}</td></tr>` : ''}
+            <tr>
+              <td style="padding-top:20px;">
+                <a href="${escapeHtml(input.siteUrl)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:8px;font-size:14px;">${escapeHtml(t.open)}</a>
+              </td>
+            </tr>
+          </table>
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;">
+            <tr>
+              <td style="color:#6b6b6b;font-size:12px;padding:16px 8px;text-align:center;">
+                ${escapeHtml(t.footer)}<br />
+                <a href="${escapeHtml(input.settingsUrl)}" style="color:#8a8a8a;">${escapeHtml(t.settings)}</a> ·
+                <a href="${escapeHtml(input.unsubscribeUrl)}" style="color:#8a8a8a;">${escapeHtml(t.unsubscribe)}</a>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  const text = [
+    t.greeting(input.username),
+    t.intro(input.frequency),
+    '',
+    ...input.items.map(item => `- ${item.message} (${formatDate(item.createdAt, t.locale)})\n  ${item.url}`),
+    ...(input.moreCount > 0 ? ['', t.more(input.moreCount)] : []),
+    '',
+    `${t.open}: ${input.siteUrl}`,
+    '',
+    t.footer,
+    `${t.settings}: ${input.settingsUrl}`,
+    `${t.unsubscribe}: ${input.unsubscribeUrl}`,
+  ].join('\n');
+
+  return { subject: t.subject(total, input.frequency), html, text };
+}
@@ -0,0 +1,163 @@
+// Collects unread notifications marked for email and sends them as one digest per user.
+// Server only: runs with the admin client.
+import { supabaseAdmin } from '../supabase/admin';
+import {
+  EmailDigestFrequency,
+  NOTIFICATION_PREFERENCE_COLUMNS,
+  NotificationPreferenceProfile,
+  resolveNotificationPreferences,
+} from '../notification-preferences';
+import { constructNotificationMessage } from '../notifications';
+import { buildDigestEmail, DigestItem, DigestLanguage } from './digest-template';
+import { getEmailTransport } from './transport';
+import { getUnsubscribeUrl } from './unsubscribe';
+
+// Notifications listed in one email; the rest are summarized as "and N more"
+const MAX_DIGEST_ITEMS = 15;
+// Notifications older than this are left out of a first digest
+const DIGEST_LOOKBACK_DAYS: Record<EmailDigestFrequency, number> = { daily: 2, weekly: 8 };
+const PROFILE_PAGE_SIZE = 500;
+
+export interface DigestRunResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+interface DigestProfile extends NotificationPreferenceProfile {
+  id: string;
+  username: string | null;
+  preferred_language: DigestLanguage | null;
+}
+
+async function getDigestProfiles(frequency: EmailDigestFrequency): Promise<DigestProfile[]> {
+  const profiles: DigestProfile[] = [];
+
+  for (let from = 0; ; from += PROFILE_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('profiles')
+      .select(`id, username, preferred_language, ${NOTIFICATION_PREFERENCE_COLUMNS}`)
+      .or('email_notifications.is.null,email_notifications.eq.true')
+      .order('id')
+      .range(from, from + PROFILE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    const page = (data || []) as unknown as DigestProfile[];
+    profiles.push(...page.filter(profile => resolveNotificationPreferences(profile).email_digest === frequency));
+    if (page.length < PROFILE_PAGE_SIZE) return profiles;
+  }
+}
+
+function contentUrl(siteUrl: string, contentId: string | null, types: Map<string, string>): string {
+  if (!contentId) return siteUrl;
+  const type = types.get(contentId);
+  return type ? `${siteUrl}/${type}/${contentId}` : siteUrl;
+}
+
+async function sendDigest(
+  profile: DigestProfile,
+  frequency: EmailDigestFrequency,
+  siteUrl: string,
+  now: Date
+): Promise<'sent' | 'skipped'> {
+  const since = new Date(now.getTime() - DIGEST_LOOKBACK_DAYS[frequency] * 24 * 60 * 60 * 1000);
+
+  const { data: notifications, error, count } = await supabaseAdmin
+    .from('notifications')
+    .select('id, type, content_id, room_id, message, data, created_at', { count: 'exact' })
+    .eq('user_id', profile.id)
+    .eq('is_read', false)
+    .is('emailed_at', null)
+    .contains('channels', ['email'])
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(MAX_DIGEST_ITEMS);
+
+  if (error) throw error;
+  if (!notifications || notifications.length === 0) return 'skipped';
+
+  const { data: userData, error: userError } = await supabaseAdmin.auth.admin.getUserById(profile.id);
+  if (userError) throw userError;
+  const email = userData.user?.email;
+  if (!email) return 'skipped';
+
+  const contentIds = Array.from(new Set(notifications.map(n => n.content_id).filter((id): id is string => !!id)));
+  const contentTypes = new Map<string, string>();
+  if (contentIds.length > 0) {
+    const { data: content } = await supabaseAdmin.from('content').select('id, type').in('id', contentIds);
+    (content || []).forEach(row => contentTypes.set(row.id, row.type));
+  }
+
+  const language: DigestLanguage = profile.preferred_language === 'en' ? 'en' : 'ge';
+  // Notifications from before `data` was stored only have their Georgian message
+  const items: DigestItem[] = notifications.map(n => ({
+    message: n.data ? constructNotificationMessage(n.type, n.data, language) : n.message,
+    createdAt: n.created_at,
+    url: n.room_id ? `${siteUrl}/live/${n.room_id}` : contentUrl(siteUrl, n.content_id, contentTypes),
+  }));
+
+  const unsubscribeUrl = getUnsubscribeUrl(siteUrl, profile.id);
+  const { subject, html, text } = buildDigestEmail({
+    language,
+    frequency,
+    username: profile.username,
+    items,
+    moreCount: Math.max(0, (count ?? items.length) - items.length),
+    siteUrl,
+    settingsUrl: `${siteUrl}/settings`,
+    unsubscribeUrl,
+  });
+
+  await getEmailTransport().send({
+    to: email,
+    subject,
+    html,
+    text,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+
+  // Everything counted in this email, listed or not, is done as far as email goes
+  const { error: markError } = await supabaseAdmin
+    .from('notifications')
+    .update({ emailed_at: now.toISOString() })
+    .eq('user_id', profile.id)
+    .eq('is_read', false)
+    .is('emailed_at', null)
+    .contains('channels', ['email'])
+    .gte('created_at', since.toISOString())
+    .lte('created_at', notifications[0].created_at);
+
+  if (markError) console.error('Failed to mark digest notifications as emailed:', markError);
+  return 'sent';
+}
+
+/**
+ * Sends the daily or weekly digest to every user who picked that frequency and
+ * has unread notifications they want by email. Safe to re-run: notifications
+ * are only emailed once.
+ * @param frequency Which digest to send.
+ * @param siteUrl Absolute site URL used for links in the email.
+ */
+export async function sendNotificationDigests(
+  frequency: EmailDigestFrequency,
+  siteUrl: string,
+  now: Date = new Date()
+): Promise<DigestRunResult> {
+  const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+  const profiles = await getDigestProfiles(frequency);
+
+  for (const profile of profiles) {
+    try {
+      result[await sendDigest(profile, frequency, siteUrl, now)]++;
+    } catch (error) {
+      result.failed++;
+      console.error(`Digest for user ${profile.id} failed:`, error);
+    }
+  }
+
+  console.log(`${frequency} digest: ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed`);
+  return result;
+}
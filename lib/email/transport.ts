@@ -0,0 +1,129 @@
+// Outgoing email. Server only: the file transport writes to disk.
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Manganime <no-reply@mangacom.ge>';
+
+export function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+// RFC 2047 encoded-word so Georgian subjects survive 7-bit headers
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Serializes a message as a multipart/alternative .eml that mail clients open directly.
+ */
+export function toEml(message: EmailMessage, from: string = getEmailFrom()): string {
+  const boundary = `=_${randomUUID()}`;
+  const headers: Record<string, string> = {
+    From: from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${randomUUID()}@mangacom.ge>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Development stand-in for SMTP: every message becomes an .eml file in `dir`.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const recipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = path.join(this.dir, `${Date.now()}-${recipient}.eml`);
+    await fs.writeFile(file, toEml(message), 'utf8');
+    console.log(`Email to ${message.to} written to ${file}`);
+  }
+}
+
+/**
+ * Posts messages as JSON ({ from, to, subject, html, text, headers }) to an HTTP
+ * email API, e.g. Resend's /emails endpoint or an internal relay.
+ */
+export class HttpTransport implements EmailTransport {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly token?: string) {}
+
+  async send(message: EmailMessage) {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify({ from: getEmailFrom(), ...message }),
+    });
+    if (!res.ok) {
+      throw new Error(`Email API responded with ${res.status}: ${await res.text()}`);
+    }
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * The configured transport. EMAIL_TRANSPORT=http sends through EMAIL_API_URL
+ * (with EMAIL_API_TOKEN); anything else writes .eml files to EMAIL_OUTBOX_DIR.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  if (process.env.EMAIL_TRANSPORT === 'http' && process.env.EMAIL_API_URL) {
+    transport = new HttpTransport(process.env.EMAIL_API_URL, process.env.EMAIL_API_TOKEN);
+  } else {
+    transport = new FileTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.email-outbox'));
+  }
+  return transport;
+}
+
+// Swap in another transport (a different provider, or a capturing one in scripts)
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
+}
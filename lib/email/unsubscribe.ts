@@ -0,0 +1,38 @@
+// Signed unsubscribe links for digest emails. Server only.
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function getSecret(): string {
+  const secret = process.env.EMAIL_UNSUBSCRIBE_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+  if (!secret) throw new Error('EMAIL_UNSUBSCRIBE_SECRET is not set');
+  return secret;
+}
+
+function sign(userId: string): string {
+  return createHmac('sha256', getSecret()).update(`unsubscribe:${userId}`).digest('base64url');
+}
+
+/**
+ * Token for the unsubscribe link: the user id plus its signature. It doesn't
+ * expire so links in old emails keep working.
+ */
+export function createUnsubscribeToken(userId: string): string {
+  return `${Buffer.from(userId, 'utf8').toString('base64url')}.${sign(userId)}`;
+}
+
+/**
+ * Returns the user id the token was issued for, or null if it was tampered with.
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [encodedId, signature] = token.split('.');
+  if (!encodedId || !signature) return null;
+
+  const userId = Buffer.from(encodedId, 'base64url').toString('utf8');
+  const expected = Buffer.from(sign(userId));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? userId : null;
+}
+
+export function getUnsubscribeUrl(baseUrl: string, userId: string): string {
+  return `${baseUrl}/api/notifications/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId))}`;
+}
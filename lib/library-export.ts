@@ -0,0 +1,187 @@
+// Library export formats: MAL-compatible XML, CSV and a full JSON backup
+import { supabase } from './supabase';
+import { LibraryItem, MediaStatus, MediaType, syncLibrary } from './user-library';
+import { ReadingProgress, flushReadingHistoryOutbox } from './reading-history';
+
+export type ExportFormat = 'mal' | 'csv' | 'json';
+
+export const BACKUP_FORMAT = 'mangacom-backup';
+export const BACKUP_VERSION = 1;
+
+export interface ExportedLibraryItem extends LibraryItem {
+  malId?: string | null;
+  anilistId?: string | null;
+}
+
+/**
+ * Everything a user owns, in a shape that `restoreLibraryBackup` reads back
+ * without loss. Bump BACKUP_VERSION when a field changes meaning.
+ */
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  library: ExportedLibraryItem[];
+  readingHistory: ReadingProgress[];
+  topList: { position: number; contentId: string; contentType: MediaType }[];
+  favorites: {
+    // Rows of the `favorites` table
+    content: { contentId: string; contentType: string; createdAt: string | null }[];
+    // The browser-only favorites map (characters included) used by /favorites
+    local: Record<string, unknown>;
+  };
+  reactions: { contentId: string; emoji: string }[];
+}
+
+// Key of the browser-only favorites map (see app/favorites)
+export const LOCAL_FAVORITES_KEY = 'favorites';
+
+const MAL_STATUS: Record<Exclude<MediaStatus, null>, string> = {
+  reading: 'Reading',
+  completed: 'Completed',
+  on_hold: 'On-Hold',
+  dropped: 'Dropped',
+  plan_to_read: 'Plan to Read',
+};
+
+function cdata(value: string): string {
+  // A literal "]]>" would end the section early
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function malDate(timestamp?: number): string {
+  return timestamp ? new Date(timestamp).toISOString().slice(0, 10) : '0000-00-00';
+}
+
+/**
+ * MyAnimeList "Export My List" XML. Titles without a MAL id are written with id 0;
+ * MAL's importer falls back to the title for those.
+ */
+export function buildMalXml(items: ExportedLibraryItem[], username: string = ''): string {
+  const counts = { reading: 0, completed: 0, on_hold: 0, dropped: 0, plan_to_read: 0 };
+  items.forEach(item => {
+    if (item.status) counts[item.status]++;
+  });
+
+  const entries = items.map(item => `  <manga>
+    <manga_mangadb_id>${item.malId || 0}</manga_mangadb_id>
+    <manga_title>${cdata(item.title)}</manga_title>
+    <manga_volumes>0</manga_volumes>
+    <manga_chapters>${item.totalItems || 0}</manga_chapters>
+    <my_id>0</my_id>
+    <my_read_volumes>0</my_read_volumes>
+    <my_read_chapters>${item.progress || 0}</my_read_chapters>
+    <my_start_date>${malDate(item.startDate)}</my_start_date>
+    <my_finish_date>${malDate(item.finishDate)}</my_finish_date>
+    <my_scanalation_group>${cdata('')}</my_scanalation_group>
+    <my_score>${item.score || 0}</my_score>
+    <my_storage></my_storage>
+    <my_retail_volumes>0</my_retail_volumes>
+    <my_status>${MAL_STATUS[item.status || 'plan_to_read']}</my_status>
+    <my_comments>${cdata('')}</my_comments>
+    <my_times_read>0</my_times_read>
+    <my_tags>${cdata('')}</my_tags>
+    <my_priority>Low</my_priority>
+    <my_reread_value></my_reread_value>
+    <my_rereading>NO</my_rereading>
+    <my_discuss>YES</my_discuss>
+    <my_sns>default</my_sns>
+    <update_on_import>1</update_on_import>
+  </manga>`);
+
+  return `<?xml version="1.0" encoding="UTF-8" ?>
+<myanimelist>
+  <myinfo>
+    <user_id>0</user_id>
+    <user_name>${cdata(username)}</user_name>
+    <user_export_type>2</user_export_type>
+    <user_total_manga>${items.length}</user_total_manga>
+    <user_total_reading>${counts.reading}</user_total_reading>
+    <user_total_completed>${counts.completed}</user_total_completed>
+    <user_total_onhold>${counts.on_hold}</user_total_onhold>
+    <user_total_dropped>${counts.dropped}</user_total_dropped>
+    <user_total_plantoread>${counts.plan_to_read}</user_total_plantoread>
+  </myinfo>
+${entries.join('\n')}
+</myanimelist>
+`;
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: { header: string; value: (item: ExportedLibraryItem) => unknown }[] = [
+  { header: 'id', value: item => item.id },
+  { header: 'type', value: item => item.type },
+  { header: 'title', value: item => item.title },
+  { header: 'status', value: item => item.status },
+  { header: 'progress', value: item => item.progress },
+  { header: 'total_chapters', value: item => item.totalItems },
+  { header: 'score', value: item => item.score },
+  { header: 'start_date', value: item => item.startDate && new Date(item.startDate).toISOString() },
+  { header: 'finish_date', value: item => item.finishDate && new Date(item.finishDate).toISOString() },
+  { header: 'last_updated', value: item => new Date(item.lastUpdated).toISOString() },
+  { header: 'mal_id', value: item => item.malId },
+  { header: 'anilist_id', value: item => item.anilistId },
+];
+
+export function buildLibraryCsv(items: ExportedLibraryItem[]): string {
+  const rows = items.map(item => CSV_COLUMNS.map(column => csvCell(column.value(item))).join(','));
+  return [CSV_COLUMNS.map(column => column.header).join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function isLibraryBackup(value: any): value is LibraryBackup {
+  return value?.format === BACKUP_FORMAT && typeof value.version === 'number' && Array.isArray(value.library);
+}
+
+export function readLocalFavorites(): Record<string, unknown> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_FAVORITES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function filenameFromResponse(res: Response, fallback: string): string {
+  const match = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '');
+  return match?.[1] || fallback;
+}
+
+/**
+ * Download the library in the given format. Pending local changes are pushed
+ * first so the export reflects what the user sees.
+ */
+export async function downloadLibraryExport(format: ExportFormat): Promise<void> {
+  await Promise.allSettled([syncLibrary(), flushReadingHistoryOutbox()]);
+
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error('Not authenticated');
+
+  const res = await fetch(`/api/user/library/export?format=${format}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error(`Export failed with ${res.status}`);
+
+  let blob: Blob;
+  if (format === 'json') {
+    const backup = (await res.json()) as LibraryBackup;
+    backup.favorites.local = readLocalFavorites();
+    blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  } else {
+    blob = await res.blob();
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filenameFromResponse(res, `library.${format === 'mal' ? 'xml' : format}`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,477 @@
+// Import a MyAnimeList / AniList export into the user library
+import { supabase } from './supabase';
+import { LibraryItem, MediaStatus, MediaType, getLibraryItemSync, updateLibraryItem } from './user-library';
+import { updateReadingProgress } from './reading-history';
+import { LOCAL_FAVORITES_KEY, LibraryBackup, isLibraryBackup, readLocalFavorites } from './library-export';
+
+export type ImportSource = 'mal' | 'anilist';
+
+// One list entry from an export file, already mapped to our status/score scale
+export interface ImportEntry {
+  source: ImportSource;
+  sourceId: string; // MAL or AniList media id
+  malId?: string;
+  anilistId?: string;
+  title: string;
+  altTitles: string[];
+  status: MediaStatus;
+  progress: number;
+  score?: number; // 1-10
+  startDate?: number;
+  finishDate?: number;
+}
+
+// The columns of `content` the matcher needs
+export interface ImportCandidate {
+  id: string;
+  title: string;
+  type: MediaType;
+  thumbnail: string;
+  chapters_count?: number | null;
+  anilist_id?: string | null;
+  mal_id?: string | null;
+  alternative_titles?: string[] | null;
+}
+
+export type MatchState = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface ImportMatch {
+  entry: ImportEntry;
+  state: MatchState;
+  // How the match was made; id matches are exact, title matches are reviewable
+  matchedBy: 'id' | 'title' | null;
+  candidates: ImportCandidate[];
+  selected: ImportCandidate | null;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export interface RestoreResult {
+  library: number;
+  readingHistory: number;
+  topList: number;
+  favorites: number;
+  reactions: number;
+}
+
+// `alternative_titles` also stores metadata ("publisher:…", "character:…"); only these are titles
+const TITLE_PREFIXES = ['georgian:'];
+const METADATA_PREFIX = /^[a-z_]+:/;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const MAL_STATUS: Record<string, MediaStatus> = {
+  'reading': 'reading',
+  'completed': 'completed',
+  'on-hold': 'on_hold',
+  'dropped': 'dropped',
+  'plan to read': 'plan_to_read',
+  // Older exports use numeric codes
+  '1': 'reading',
+  '2': 'completed',
+  '3': 'on_hold',
+  '4': 'dropped',
+  '6': 'plan_to_read',
+};
+
+const ANILIST_STATUS: Record<string, MediaStatus> = {
+  CURRENT: 'reading',
+  REPEATING: 'reading',
+  COMPLETED: 'completed',
+  PAUSED: 'on_hold',
+  DROPPED: 'dropped',
+  PLANNING: 'plan_to_read',
+};
+
+// MAL writes "0000-00-00" for unset dates
+function parseDateString(value: string | null | undefined): number | undefined {
+  if (!value || value.startsWith('0000')) return undefined;
+  const time = new Date(value.replace(/-00/g, '-01')).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function parseFuzzyDate(value: { year?: number | null; month?: number | null; day?: number | null } | null | undefined) {
+  if (!value?.year) return undefined;
+  return new Date(value.year, (value.month || 1) - 1, value.day || 1).getTime();
+}
+
+// Both sites allow "no score" (0); AniList may also use a 100-point scale
+function normalizeScore(raw: unknown): number | undefined {
+  const score = Number(raw);
+  if (!score || Number.isNaN(score)) return undefined;
+  const tenPoint = score > 10 ? score / 10 : score;
+  return Math.min(10, Math.max(1, Math.round(tenPoint)));
+}
+
+// AniList's own 100-point values for its smiley scale
+const ANILIST_POINT_3: Record<number, number> = { 1: 35, 2: 60, 3: 85 };
+
+/**
+ * AniList scores are on the user's chosen scale. `scoreRaw` is always out of
+ * 100; otherwise the list's score format says how to read `score`. Exports
+ * without either fall back to guessing from the value.
+ */
+function normalizeAniListScore(entry: any, scoreFormat: string | undefined): number | undefined {
+  const raw = entry.scoreRaw ?? entry.score_raw;
+  if (raw !== undefined && raw !== null && !Number.isNaN(Number(raw))) return normalizeScore(Number(raw) / 10);
+
+  const score = Number(entry.score);
+  switch (scoreFormat) {
+    case 'POINT_100':
+      return normalizeScore(score / 10);
+    case 'POINT_10':
+    case 'POINT_10_DECIMAL':
+      return normalizeScore(score);
+    case 'POINT_5':
+      return normalizeScore(score * 2);
+    case 'POINT_3':
+      return ANILIST_POINT_3[score] ? normalizeScore(ANILIST_POINT_3[score] / 10) : undefined;
+    default:
+      return normalizeScore(score);
+  }
+}
+
+/**
+ * Parse a MyAnimeList manga list export (the XML from "Export My List").
+ * Anime entries in the same file are ignored.
+ */
+export function parseMalExport(xml: string): ImportEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid MyAnimeList XML file');
+  }
+
+  const text = (node: Element, tag: string) => node.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+  return Array.from(doc.getElementsByTagName('manga')).map(node => {
+    const malId = text(node, 'manga_mangadb_id');
+    return {
+      source: 'mal' as const,
+      sourceId: malId,
+      malId: malId || undefined,
+      title: text(node, 'manga_title'),
+      altTitles: [],
+      status: MAL_STATUS[text(node, 'my_status').toLowerCase()] || 'plan_to_read',
+      progress: parseInt(text(node, 'my_read_chapters'), 10) || 0,
+      score: normalizeScore(text(node, 'my_score')),
+      startDate: parseDateString(text(node, 'my_start_date')),
+      finishDate: parseDateString(text(node, 'my_finish_date')),
+    };
+  }).filter(entry => entry.title || entry.malId);
+}
+
+/**
+ * Parse an AniList list export. Accepts both the JSON from AniList's export tool
+ * (`{ lists: [...] }`) and a raw `MediaListCollection` GraphQL response.
+ * Anime lists are ignored.
+ */
+export function parseAniListExport(json: string): ImportEntry[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid AniList JSON file');
+  }
+
+  const lists: any[] =
+    data?.lists ||
+    data?.data?.MediaListCollection?.lists ||
+    data?.MediaListCollection?.lists ||
+    [];
+
+  const user = data?.user || data?.data?.MediaListCollection?.user || data?.MediaListCollection?.user;
+  const scoreFormat: string | undefined =
+    data?.scoreFormat ??
+    user?.mediaListOptions?.scoreFormat ??
+    user?.options?.scoreFormat ??
+    user?.options?.score_format ??
+    user?.score_format;
+
+  const entries: ImportEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const list of lists) {
+    for (const entry of list?.entries || []) {
+      const media = entry.media || {};
+      if (media.type && media.type !== 'MANGA') continue;
+      if (entry.type && entry.type !== 'MANGA') continue;
+
+      const anilistId = String(entry.mediaId ?? entry.media_id ?? media.id ?? '');
+      // Custom lists repeat entries that are already in a status list
+      if (!anilistId || seen.has(anilistId)) continue;
+      seen.add(anilistId);
+
+      const titles = [media.title?.english, media.title?.romaji, media.title?.native, ...(media.synonyms || [])]
+        .filter((t: unknown): t is string => typeof t === 'string' && t.length > 0);
+
+      entries.push({
+        source: 'anilist',
+        sourceId: anilistId,
+        anilistId,
+        malId: media.idMal ? String(media.idMal) : undefined,
+        title: titles[0] || `AniList #${anilistId}`,
+        altTitles: titles.slice(1),
+        status: ANILIST_STATUS[String(entry.status).toUpperCase()] || 'plan_to_read',
+        progress: Number(entry.progress) || 0,
+        score: normalizeAniListScore(entry, scoreFormat),
+        startDate: parseFuzzyDate(entry.startedAt ?? entry.started_at),
+        finishDate: parseFuzzyDate(entry.completedAt ?? entry.completed_at),
+      });
+    }
+  }
+
+  return entries;
+}
+
+// Our own JSON export; restored as-is instead of going through matching
+export function parseLibraryBackup(contents: string): LibraryBackup | null {
+  const trimmed = contents.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const data = JSON.parse(trimmed);
+    return isLibraryBackup(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Pick the parser from the file contents rather than trusting the extension
+export function parseImportFile(contents: string): ImportEntry[] {
+  const trimmed = contents.trim();
+  if (trimmed.startsWith('<')) return parseMalExport(trimmed);
+  if (trimmed.startsWith('{')) return parseAniListExport(trimmed);
+  throw new Error('Unsupported file – upload a MyAnimeList XML or AniList JSON export');
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function candidateTitles(candidate: ImportCandidate): string[] {
+  const titles = [candidate.title];
+  for (const alt of candidate.alternative_titles || []) {
+    if (typeof alt !== 'string') continue;
+    const prefix = TITLE_PREFIXES.find(p => alt.startsWith(p));
+    if (prefix) titles.push(alt.slice(prefix.length));
+    else if (!METADATA_PREFIX.test(alt)) titles.push(alt);
+  }
+  return titles.map(normalizeTitle).filter(Boolean);
+}
+
+// Load every manga/comic once; the catalogue is small enough to match in memory
+export async function loadImportCandidates(): Promise<ImportCandidate[]> {
+  const pageSize = 1000;
+  const candidates: ImportCandidate[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('content')
+      .select('id, title, type, thumbnail, chapters_count, anilist_id, mal_id, alternative_titles')
+      .in('type', ['manga', 'comics'])
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    candidates.push(...((data || []) as ImportCandidate[]));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return candidates;
+}
+
+export interface ImportIndex {
+  candidates: ImportCandidate[];
+  byAnilistId: Map<string, ImportCandidate>;
+  byMalId: Map<string, ImportCandidate>;
+  byTitle: Map<string, ImportCandidate[]>;
+}
+
+export function buildImportIndex(candidates: ImportCandidate[]): ImportIndex {
+  const index: ImportIndex = {
+    candidates,
+    byAnilistId: new Map(),
+    byMalId: new Map(),
+    byTitle: new Map(),
+  };
+
+  for (const candidate of candidates) {
+    if (candidate.anilist_id) index.byAnilistId.set(String(candidate.anilist_id), candidate);
+    if (candidate.mal_id) index.byMalId.set(String(candidate.mal_id), candidate);
+    for (const title of Array.from(new Set(candidateTitles(candidate)))) {
+      const list = index.byTitle.get(title) || [];
+      list.push(candidate);
+      index.byTitle.set(title, list);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Match one export entry. External ids are trusted; a title match is only
+ * automatic when exactly one title in the catalogue fits.
+ */
+export function matchImportEntry(entry: ImportEntry, index: ImportIndex): ImportMatch {
+  const byId =
+    (entry.anilistId && index.byAnilistId.get(entry.anilistId)) ||
+    (entry.malId && index.byMalId.get(entry.malId)) ||
+    null;
+  if (byId) {
+    return { entry, state: 'matched', matchedBy: 'id', candidates: [byId], selected: byId };
+  }
+
+  const found = new Map<string, ImportCandidate>();
+  for (const title of [entry.title, ...entry.altTitles]) {
+    for (const candidate of index.byTitle.get(normalizeTitle(title)) || []) {
+      found.set(candidate.id, candidate);
+    }
+  }
+  const candidates = Array.from(found.values());
+
+  if (candidates.length === 1) {
+    return { entry, state: 'matched', matchedBy: 'title', candidates, selected: candidates[0] };
+  }
+  if (candidates.length > 1) {
+    return { entry, state: 'ambiguous', matchedBy: 'title', candidates, selected: null };
+  }
+  return { entry, state: 'unmatched', matchedBy: null, candidates: [], selected: null };
+}
+
+export function matchImportEntries(entries: ImportEntry[], index: ImportIndex): ImportMatch[] {
+  return entries.map(entry => matchImportEntry(entry, index));
+}
+
+// Loose search for the review screen, where the user picks a title by hand
+export function searchImportCandidates(query: string, index: ImportIndex, limit: number = 8): ImportCandidate[] {
+  const needle = normalizeTitle(query);
+  if (!needle) return [];
+  return index.candidates
+    .filter(candidate => candidateTitles(candidate).some(title => title.includes(needle)))
+    .slice(0, limit);
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+export function toLibraryItem(entry: ImportEntry, content: ImportCandidate): LibraryItem {
+  return {
+    id: content.id,
+    type: content.type,
+    title: content.title,
+    thumbnail: content.thumbnail,
+    status: entry.status,
+    progress: entry.progress,
+    totalItems: content.chapters_count ?? undefined,
+    score: entry.score,
+    startDate: entry.startDate,
+    finishDate: entry.finishDate,
+    lastUpdated: Date.now(),
+  };
+}
+
+/**
+ * Write the selected matches to the library. Titles already in the library are
+ * left alone unless `overwrite` is set.
+ */
+export async function importLibraryMatches(matches: ImportMatch[], overwrite: boolean = false): Promise<ImportResult> {
+  let imported = 0;
+  let skipped = 0;
+  const written = new Set<string>();
+
+  for (const match of matches) {
+    const content = match.selected;
+    if (!content) {
+      skipped++;
+      continue;
+    }
+
+    // Two export entries can resolve to the same title; the first one wins
+    const key = `${content.id}-${content.type}`;
+    if (written.has(key) || (!overwrite && getLibraryItemSync(content.id, content.type))) {
+      skipped++;
+      continue;
+    }
+
+    await updateLibraryItem(toLibraryItem(match.entry, content));
+    written.add(key);
+    imported++;
+  }
+
+  return { imported, skipped };
+}
+
+/**
+ * Restore a JSON backup made by the library export. Library entries replace
+ * existing ones, reading history goes through the usual "furthest progress wins"
+ * merge, and account data (top list, favorites, reactions) needs a session.
+ */
+export async function restoreLibraryBackup(backup: LibraryBackup): Promise<RestoreResult> {
+  const result: RestoreResult = { library: 0, readingHistory: 0, topList: 0, favorites: 0, reactions: 0 };
+
+  for (const { malId, anilistId, ...item } of backup.library) {
+    await updateLibraryItem(item);
+    result.library++;
+  }
+
+  for (const entry of backup.readingHistory) {
+    updateReadingProgress(entry);
+    result.readingHistory++;
+  }
+
+  // Browser-only favorites: keep what's here already, add what's missing
+  const localFavorites = readLocalFavorites();
+  const restoredLocal = { ...backup.favorites.local, ...localFavorites };
+  localStorage.setItem(LOCAL_FAVORITES_KEY, JSON.stringify(restoredLocal));
+  result.favorites += Object.keys(restoredLocal).length - Object.keys(localFavorites).length;
+
+  const { data } = await supabase.auth.getSession();
+  const session = data.session;
+  if (!session) return result;
+  const userId = session.user.id;
+
+  for (const item of backup.topList) {
+    const res = await fetch('/api/user/top-list', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+      body: JSON.stringify(item),
+    });
+    if (res.ok) result.topList++;
+  }
+
+  if (backup.favorites.content.length > 0) {
+    const { error } = await supabase
+      .from('favorites')
+      .upsert(backup.favorites.content.map(fav => ({
+        user_id: userId,
+        content_id: fav.contentId,
+        content_type: fav.contentType,
+      })), { onConflict: 'user_id,content_id,content_type' });
+    if (error) console.error('Failed to restore favorites:', error);
+    else result.favorites += backup.favorites.content.length;
+  }
+
+  for (const reaction of backup.reactions) {
+    const { error } = await supabase.rpc('add_or_update_reaction', {
+      p_content_id: reaction.contentId,
+      p_user_id: userId,
+      p_emoji: reaction.emoji,
+    });
+    if (!error) result.reactions++;
+  }
+
+  return result;
+}
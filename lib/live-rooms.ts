@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from 'uuid'
+import { supabaseAdmin } from '@/lib/supabase/admin'
+import { getFriendsAndRequests } from '@/lib/friends'
+import { createNotification } from '@/lib/notifications'
+
+interface OperationResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: any
+}
+
+export interface LiveRoom {
+  id: string
+  host_id: string
+  manga_id: string
+  chapter_id: string
+  current_page: number
+  settings: Record<string, any>
+  created_at: string
+  is_active: boolean
+}
+
+/**
+ * Create a live reading room hosted by `hostId`. The socket server picks the room up
+ * from `live_rooms` on the first `join`, so nothing else has to be registered.
+ */
+export async function createLiveRoom(
+  hostId: string,
+  mangaId: string,
+  chapterId: string
+): Promise<OperationResult<LiveRoom>> {
+  const { data, error } = await supabaseAdmin
+    .from('live_rooms')
+    .insert({
+      id: uuidv4(),
+      host_id: hostId,
+      manga_id: mangaId,
+      chapter_id: chapterId,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('createLiveRoom error', error)
+    return { success: false, error: error.message }
+  }
+
+  return { success: true, data: data as LiveRoom }
+}
+
+export interface InviteResult {
+  invited: string[]
+  // Users that were skipped because they aren't accepted friends of the host
+  rejected: string[]
+}
+
+/**
+ * Invite friends of the host into a room. Only the host can invite, and only users
+ * with an accepted friendship. Each newly invited user gets a `live_invite`
+ * notification linking to the room; re-inviting someone is a no-op.
+ */
+export async function inviteToLiveRoom(
+  roomId: string,
+  inviterId: string,
+  inviteeIds: string[]
+): Promise<OperationResult<InviteResult>> {
+  const { data: room, error: roomError } = await supabaseAdmin
+    .from('live_rooms')
+    .select('id, host_id, manga_id, is_active')
+    .eq('id', roomId)
+    .maybeSingle()
+
+  if (roomError) {
+    console.error('inviteToLiveRoom room error', roomError)
+    return { success: false, error: roomError.message }
+  }
+  if (!room || room.is_active === false) return { success: false, error: 'Room not found' }
+  if (room.host_id !== inviterId) return { success: false, error: 'Only the host can invite' }
+
+  const friendsRes = await getFriendsAndRequests(inviterId, 'accepted')
+  if (!friendsRes.success || !friendsRes.data) return { success: false, error: friendsRes.error }
+  const friends = new Set<string>(friendsRes.data.accepted)
+
+  const unique = Array.from(new Set(inviteeIds)).filter(id => id !== inviterId)
+  const allowed = unique.filter(id => friends.has(id))
+  const rejected = unique.filter(id => !friends.has(id))
+  if (allowed.length === 0) return { success: true, data: { invited: [], rejected } }
+
+  const { data: existing } = await supabaseAdmin
+    .from('live_room_invites')
+    .select('invitee_id')
+    .eq('room_id', roomId)
+    .in('invitee_id', allowed)
+  const alreadyInvited = new Set((existing || []).map(row => row.invitee_id as string))
+  const fresh = allowed.filter(id => !alreadyInvited.has(id))
+
+  if (fresh.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('live_room_invites')
+      .insert(fresh.map(id => ({ room_id: roomId, invitee_id: id, inviter_id: inviterId })))
+    if (error) {
+      console.error('inviteToLiveRoom insert error', error)
+      return { success: false, error: error.message }
+    }
+
+    const [{ data: profile }, { data: content }] = await Promise.all([
+      supabaseAdmin.from('profiles').select('username').eq('id', inviterId).maybeSingle(),
+      supabaseAdmin.from('content').select('title').eq('id', room.manga_id).maybeSingle(),
+    ])
+
+    await Promise.all(
+      fresh.map(id =>
+        createNotification(id, 'live_invite', {
+          sender_user_id: inviterId,
+          sender_username: profile?.username ?? null,
+          content_id: room.manga_id,
+          content_title: content?.title || undefined,
+          room_id: roomId,
+        })
+      )
+    )
+  }
+
+  return { success: true, data: { invited: allowed, rejected } }
+}
+
+// Post-session summary as produced by the socket server when a room ends
+export interface LiveRoomSummary {
+  roomId: string
+  hostId: string | null
+  mangaId: string
+  chapterId: string
+  lastPage: number
+  pagesTurned: number
+  reactionsCount: number
+  participants: { userId: string; username: string | null; avatarUrl: string | null }[]
+  startedAt: number
+  endedAt: number
+  durationSeconds: number
+  reason: 'closed' | 'host_left' | 'inactive' | 'empty'
+}
+
+/**
+ * Load the summary of an ended room. Only people who took part can see it.
+ */
+export async function getLiveRoomSummary(
+  roomId: string,
+  userId: string
+): Promise<OperationResult<LiveRoomSummary | null>> {
+  const { data, error } = await supabaseAdmin
+    .from('live_room_summaries')
+    .select('*')
+    .eq('room_id', roomId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('getLiveRoomSummary error', error)
+    return { success: false, error: error.message }
+  }
+  if (!data) return { success: true, data: null }
+
+  const participantIds: string[] = data.participant_ids || []
+  if (data.host_id !== userId && !participantIds.includes(userId)) {
+    return { success: false, error: 'Forbidden' }
+  }
+
+  const { data: profiles } = await supabaseAdmin
+    .from('profiles')
+    .select('id, username, avatar_url')
+    .in('id', participantIds)
+  const profileMap = new Map((profiles || []).map(p => [p.id, p]))
+
+  return {
+    success: true,
+    data: {
+      roomId: data.room_id,
+      hostId: data.host_id,
+      mangaId: data.manga_id,
+      chapterId: data.chapter_id,
+      lastPage: data.last_page,
+      pagesTurned: data.pages_turned,
+      reactionsCount: data.reactions_count,
+      participants: participantIds.map(id => ({
+        userId: id,
+        username: profileMap.get(id)?.username ?? null,
+        avatarUrl: profileMap.get(id)?.avatar_url ?? null,
+      })),
+      startedAt: new Date(data.started_at).getTime(),
+      endedAt: new Date(data.ended_at).getTime(),
+      durationSeconds: data.duration_seconds,
+      reason: data.end_reason,
+    },
+  }
+}
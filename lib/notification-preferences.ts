@@ -0,0 +1,226 @@
+// Per-type notification preferences: which channels a notification type is delivered on,
+// quiet hours and titles muted for new chapter notifications.
+import { supabase } from './supabase';
+import { updateUserProfile } from './users';
+import type { NotificationType } from './notifications';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+// system_message is not listed: announcements always reach the in-app feed
+export type ConfigurableNotificationType = Exclude<NotificationType, 'system_message'>;
+
+export const CONFIGURABLE_NOTIFICATION_TYPES: ConfigurableNotificationType[] = [
+  'comment_reply',
+  'comment_like',
+  'new_chapter',
+  'new_content',
+  'content_update',
+  'friend_request',
+  'friend_accept',
+  'live_invite',
+];
+
+export type EmailDigestFrequency = 'daily' | 'weekly';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM" in `timezone`
+  end: string;
+  timezone: string;
+}
+
+export interface NotificationPreferences {
+  types: Record<ConfigurableNotificationType, ChannelPreferences>;
+  // Profile-wide email/push switches; off means the channel is skipped whatever `types` says
+  email_enabled: boolean;
+  push_enabled: boolean;
+  email_digest: EmailDigestFrequency;
+  quiet_hours: QuietHours;
+  muted_titles: string[]; // content ids that don't send new_chapter notifications
+}
+
+// Shape stored in profiles.notification_preferences; anything missing falls back to the defaults
+export type StoredNotificationPreferences = {
+  types?: Partial<Record<ConfigurableNotificationType, Partial<ChannelPreferences>>>;
+  email_digest?: EmailDigestFrequency;
+  quiet_hours?: Partial<QuietHours>;
+  muted_titles?: string[];
+};
+
+// Profile columns read when resolving preferences
+export interface NotificationPreferenceProfile {
+  notification_preferences?: StoredNotificationPreferences | null;
+  email_notifications?: boolean | null;
+  push_notifications?: boolean | null;
+  new_chapter_notifications?: boolean | null;
+}
+
+export const NOTIFICATION_PREFERENCE_COLUMNS =
+  'notification_preferences, email_notifications, push_notifications, new_chapter_notifications';
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '23:00',
+  end: '08:00',
+  timezone: 'Asia/Tbilisi',
+};
+
+// Types that can go out as web push. Pushes are sent from the server, and these
+// are the notifications created there (chapter uploads, friend and live-room APIs).
+export const PUSH_NOTIFICATION_TYPES: ConfigurableNotificationType[] = ['new_chapter', 'friend_request', 'live_invite'];
+
+// Emails are digests and pushes interrupt, so both start with only the types people act on
+const DEFAULT_EMAIL_TYPES: ConfigurableNotificationType[] = ['comment_reply', 'new_chapter', 'friend_request'];
+
+/**
+ * Fills in defaults for everything the user hasn't set. The older profile switches
+ * still apply: `email_notifications` / `push_notifications` turn a whole channel off
+ * and turning `new_chapter_notifications` off defaults every new-chapter channel to off.
+ */
+export function resolveNotificationPreferences(profile?: NotificationPreferenceProfile | null): NotificationPreferences {
+  const stored = profile?.notification_preferences || {};
+
+  const types = {} as NotificationPreferences['types'];
+  CONFIGURABLE_NOTIFICATION_TYPES.forEach(type => {
+    const saved = stored.types?.[type] || {};
+    const optedOut = type === 'new_chapter' && profile?.new_chapter_notifications === false;
+    types[type] = {
+      in_app: saved.in_app ?? !optedOut,
+      email: saved.email ?? (!optedOut && DEFAULT_EMAIL_TYPES.includes(type)),
+      push: PUSH_NOTIFICATION_TYPES.includes(type) && (saved.push ?? !optedOut),
+    };
+  });
+
+  return {
+    types,
+    email_enabled: profile?.email_notifications ?? true,
+    push_enabled: profile?.push_notifications ?? true,
+    email_digest: stored.email_digest === 'weekly' ? 'weekly' : 'daily',
+    quiet_hours: { ...DEFAULT_QUIET_HOURS, ...stored.quiet_hours },
+    muted_titles: Array.isArray(stored.muted_titles) ? stored.muted_titles : [],
+  };
+}
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+function minutesInTimezone(date: Date, timezone: string): number {
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+    return value('hour') * 60 + value('minute');
+  } catch {
+    // Unknown timezone – fall back to UTC rather than never being quiet
+    return date.getUTCHours() * 60 + date.getUTCMinutes();
+  }
+}
+
+/**
+ * Whether `date` falls inside the user's quiet hours. Ranges may wrap past
+ * midnight ("23:00" – "08:00").
+ */
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = minutesInTimezone(date, quietHours.timezone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Channels a notification should be delivered on. Muted titles drop new chapter
+ * notifications entirely; quiet hours only hold back web push, the in-app feed
+ * and the email digest are read later anyway.
+ */
+export function getDeliveryChannels(
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  contentId?: string,
+  date: Date = new Date()
+): NotificationChannel[] {
+  if (type === 'system_message') return ['in_app'];
+  if (type === 'new_chapter' && contentId && preferences.muted_titles.includes(contentId)) return [];
+
+  const channels = NOTIFICATION_CHANNELS.filter(channel => {
+    if (channel === 'email' && !preferences.email_enabled) return false;
+    if (channel === 'push' && !preferences.push_enabled) return false;
+    return preferences.types[type]?.[channel];
+  });
+  return isWithinQuietHours(preferences.quiet_hours, date)
+    ? channels.filter(channel => channel !== 'push')
+    : channels;
+}
+
+/**
+ * Turns the resolved preferences back into what gets stored on the profile.
+ */
+export function toStoredNotificationPreferences(preferences: NotificationPreferences): StoredNotificationPreferences {
+  return {
+    types: preferences.types,
+    email_digest: preferences.email_digest,
+    quiet_hours: preferences.quiet_hours,
+    muted_titles: preferences.muted_titles,
+  };
+}
+
+async function getOwnPreferenceProfile(userId: string): Promise<NotificationPreferenceProfile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(NOTIFICATION_PREFERENCE_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as NotificationPreferenceProfile | null;
+}
+
+/**
+ * Whether new chapter notifications for a title are muted for the user.
+ */
+export async function isTitleMuted(userId: string, contentId: string): Promise<{ success: boolean; muted?: boolean; error?: any }> {
+  try {
+    const preferences = resolveNotificationPreferences(await getOwnPreferenceProfile(userId));
+    return { success: true, muted: preferences.muted_titles.includes(contentId) };
+  } catch (error) {
+    console.error('Error checking muted title:', error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Mutes or unmutes new chapter notifications for a single title.
+ */
+export async function setTitleMuted(
+  userId: string,
+  contentId: string,
+  muted: boolean
+): Promise<{ success: boolean; error?: any }> {
+  try {
+    // Only the mute list changes; unset preferences keep following the defaults
+    const stored = (await getOwnPreferenceProfile(userId))?.notification_preferences || {};
+    const others = (stored.muted_titles || []).filter(id => id !== contentId);
+
+    return await updateUserProfile(userId, {
+      notification_preferences: { ...stored, muted_titles: muted ? [...others, contentId] : others },
+    });
+  } catch (error) {
+    console.error('Error updating muted titles:', error);
+    return { success: false, error };
+  }
+}
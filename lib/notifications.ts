@@ -1,9 +1,16 @@
 // Avoid importing the admin client in browser bundles. We'll lazy-load it on the server only when needed.
 
 import { supabase } from './supabase';
+import {
+  NOTIFICATION_PREFERENCE_COLUMNS,
+  NotificationChannel,
+  NotificationPreferenceProfile,
+  getDeliveryChannels,
+  resolveNotificationPreferences,
+} from './notification-preferences';
 
 // Define the structure for the notification data payload
-interface NotificationData {
+export interface NotificationData {
   sender_user_id?: string;
   sender_username?: string | null;
   comment_id?: string;
@@ -12,20 +19,25 @@ interface NotificationData {
   comment_snippet?: string;
   content_title?: string;
   chapter_number?: number | string;
+  chapter_count?: number; // new_chapter: how many chapters the notification covers
   system_message_content?: string; // For system_message type
+  room_id?: string; // For live_invite type
   // Add other relevant data fields as needed
 }
 
 // Define the specific notification types allowed
-export type NotificationType = 'comment_like' | 'comment_reply' | 'new_chapter' | 'content_update' | 'system_message' | 'new_content' | 'friend_request' | 'friend_accept';
+export type NotificationType = 'comment_like' | 'comment_reply' | 'new_chapter' | 'content_update' | 'system_message' | 'new_content' | 'friend_request' | 'friend_accept' | 'live_invite';
 
 /**
  * Creates a notification message based on type and data.
  * @param type Notification type
  * @param data Contextual data for the notification
+ * @param language Language of the message; stored messages are Georgian, emails follow the recipient
  * @returns The constructed notification message string
  */
-function constructNotificationMessage(type: NotificationType, data: NotificationData): string {
+export function constructNotificationMessage(type: NotificationType, data: NotificationData, language: 'ge' | 'en' = 'ge'): string {
+  if (language === 'en') return constructEnglishMessage(type, data);
+
   const sender = data.sender_username || 'Someone';
 
   switch (type) {
@@ -34,6 +46,9 @@ function constructNotificationMessage(type: NotificationType, data: Notification
     case 'comment_reply':
       return `${sender}-მ გიპასუხათ კომენტარზე${data.comment_snippet ? ': "' + data.comment_snippet + '"' : '.'}`;
     case 'new_chapter':
+      if (data.chapter_count && data.chapter_count > 1) {
+        return `${data.content_title || 'a manga'}-ის ${data.chapter_count} ახალი თავი (${data.chapter_number}) გამოვიდა!`;
+      }
       return `${data.content_title || 'a manga'}-ის თავი ${data.chapter_number || 'New'} გამოვიდა!`;
     case 'content_update': // Changed from new_content to align with Notification interface
       return `${data.content_title || 'Content'} განახლდა.`; // Generic update message
@@ -45,6 +60,8 @@ function constructNotificationMessage(type: NotificationType, data: Notification
       return `${sender}-მ გაგოგზავნათ მეგობრობის თხოვნა.`;
     case 'friend_accept':
       return `${sender}-მა მიიღო თქვენი მეგობრობის თხოვნა.`;
+    case 'live_invite':
+      return `${sender}-მ მოგიწვიათ ერთად წასაკითხად${data.content_title ? ': ' + data.content_title : '.'}`;
     default:
       // This default case should ideally not be reached if type is NotificationType
       console.warn(`Unknown notification type: ${(type as any)}`);
@@ -52,18 +69,63 @@ function constructNotificationMessage(type: NotificationType, data: Notification
   }
 }
 
+function constructEnglishMessage(type: NotificationType, data: NotificationData): string {
+  const sender = data.sender_username || 'Someone';
+
+  switch (type) {
+    case 'comment_like':
+      return `${sender} liked your comment${data.comment_snippet ? ': "' + data.comment_snippet + '"' : '.'}`;
+    case 'comment_reply':
+      return `${sender} replied to your comment${data.comment_snippet ? ': "' + data.comment_snippet + '"' : '.'}`;
+    case 'new_chapter':
+      if (data.chapter_count && data.chapter_count > 1) {
+        return `${data.chapter_count} new chapters of ${data.content_title || 'a manga'} (${data.chapter_number}) are out!`;
+      }
+      return data.chapter_number
+        ? `Chapter ${data.chapter_number} of ${data.content_title || 'a manga'} is out!`
+        : `A new chapter of ${data.content_title || 'a manga'} is out!`;
+    case 'content_update':
+    case 'new_content':
+      return `${data.content_title || 'Content'} was updated.`;
+    case 'system_message':
+      return data.system_message_content || 'You have a new system message.';
+    case 'friend_request':
+      return `${sender} sent you a friend request.`;
+    case 'friend_accept':
+      return `${sender} accepted your friend request.`;
+    case 'live_invite':
+      return `${sender} invited you to read together${data.content_title ? ': ' + data.content_title : '.'}`;
+    default:
+      return 'You have a new notification.';
+  }
+}
+
+/**
+ * Site path a notification leads to, used as the click target of its web push.
+ */
+function getNotificationUrl(type: NotificationType, data: NotificationData): string {
+  if (data.room_id) return `/live/${data.room_id}`;
+  if (type === 'friend_request' || type === 'friend_accept') {
+    return data.sender_username ? `/profile/${data.sender_username}` : '/friends';
+  }
+  if (data.content_id && data.content_type) return `/${data.content_type}/${data.content_id}`;
+  return '/';
+}
+
 /**
  * Creates and inserts a notification into the database.
+ * The recipient's notification preferences decide which channels it goes out on;
+ * nothing is stored when every channel is switched off for this type.
  * @param recipientUserId The user ID of the notification recipient.
  * @param type The type of notification.
  * @param data An object containing contextual data for the notification.
- * @returns Object indicating success or failure.
+ * @returns Object indicating success or failure, with the channels it was delivered on.
  */
 export async function createNotification(
   recipientUserId: string,
   type: NotificationType, // Use the specific NotificationType
   data: NotificationData
-): Promise<{ success: boolean; error?: any }> {
+): Promise<{ success: boolean; channels?: NotificationChannel[]; error?: any }> {
   if (!supabase) {
     return { success: false, error: 'Supabase client not initialized' };
   }
@@ -91,6 +153,30 @@ export async function createNotification(
       }
     }
 
+    // Use admin client on the server to bypass RLS; fall back to normal supabase client in browser.
+    const client = typeof window === 'undefined'
+      ? (await import('./supabase/admin')).supabaseAdmin
+      : supabase;
+
+    const { data: recipientProfile, error: preferencesError } = await client
+      .from('profiles')
+      .select(NOTIFICATION_PREFERENCE_COLUMNS)
+      .eq('id', recipientUserId)
+      .maybeSingle();
+
+    if (preferencesError) {
+      // Deliver with the defaults rather than dropping the notification
+      console.warn('Could not load notification preferences, using defaults:', preferencesError);
+    }
+
+    const preferences = resolveNotificationPreferences(recipientProfile as NotificationPreferenceProfile | null);
+    const channels = getDeliveryChannels(preferences, type, data.content_id);
+
+    if (channels.length === 0) {
+      console.log(`Notification (${type}) muted by preferences for user ${recipientUserId}`);
+      return { success: true, channels };
+    }
+
     const message = constructNotificationMessage(type, data);
 
     const notificationPayload = {
@@ -99,31 +185,38 @@ export async function createNotification(
       sender_user_id: data.sender_user_id || null,
       content_id: data.content_id || null,
       comment_id: data.comment_id || null,
+      // Only sent when set so older notification types keep working without the column
+      ...(data.room_id ? { room_id: data.room_id } : {}),
       message: message,
+      // Kept so the message can be rendered again in another language (email digests)
+      data,
+      channels,
       is_read: false, // Notifications start as unread
     };
 
     console.log("Inserting notification:", notificationPayload);
 
-    // Use admin client on the server to bypass RLS; fall back to normal supabase client in browser (shouldn't happen for inserts).
-    let insertError: any = null
-    if (typeof window === 'undefined') {
-      const { supabaseAdmin } = await import('./supabase/admin')
-      const { error } = await supabaseAdmin.from('notifications').insert(notificationPayload)
-      insertError = error
-    } else {
-      // In client context, we should not be creating notifications, but handle gracefully.
-      const { error } = await supabase.from('notifications').insert(notificationPayload)
-      insertError = error
-    }
+    // In client context, we should not be creating notifications, but handle gracefully.
+    const { error: insertError } = await client.from('notifications').insert(notificationPayload)
 
     if (insertError) {
       console.error('Error inserting notification:', insertError)
       return { success: false, error: insertError }
     }
 
-    console.log(`Notification (${type}) created successfully for user ${recipientUserId}`)
-    return { success: true }
+    // Web push needs the VAPID private key, so it only goes out when this runs on the server
+    if (channels.includes('push') && typeof window === 'undefined') {
+      const { sendPushNotification } = await import('./push');
+      await sendPushNotification(recipientUserId, {
+        title: 'მანგანიმე',
+        body: message,
+        url: getNotificationUrl(type, data),
+        tag: `${type}:${data.room_id || data.content_id || data.sender_user_id || ''}`,
+      });
+    }
+
+    console.log(`Notification (${type}) created successfully for user ${recipientUserId} via ${channels.join(', ')}`)
+    return { success: true, channels }
 
   } catch (error) {
     console.error('Error in createNotification function:', error);
@@ -131,6 +224,96 @@ export async function createNotification(
   }
 }
 
+// Watchlist statuses that count as following a title for new chapter notifications
+const CHAPTER_WATCHER_STATUSES = ['reading', 'plan_to_read'];
+
+// Recipients are notified a few at a time so a popular title doesn't open hundreds of requests at once
+const FAN_OUT_CONCURRENCY = 20;
+
+/**
+ * Formats chapter numbers for a notification, collapsing consecutive runs:
+ * [5, 6, 7, 10] -> "5–7, 10"
+ */
+export function formatChapterNumbers(numbers: number[]): string {
+  const sorted = Array.from(new Set(numbers)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = sorted[0];
+
+  for (const n of sorted.slice(1).concat(NaN)) {
+    if (n === prev + 1) {
+      prev = n;
+      continue;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}–${prev}`);
+    start = prev = n;
+  }
+
+  return ranges.join(', ');
+}
+
+/**
+ * Notifies everyone reading or planning to read a title that new chapters are out.
+ * All chapters passed in one call end up in a single notification per user; each
+ * user's preferences (channels, muted titles) are applied by createNotification.
+ * @param contentId The title the chapters were added to.
+ * @param chapterNumbers Numbers of the chapters that were just added.
+ * @returns Object with the number of users notified.
+ */
+export async function notifyNewChapters(
+  contentId: string,
+  chapterNumbers: number[]
+): Promise<{ success: boolean; notified?: number; error?: any }> {
+  if (!contentId || chapterNumbers.length === 0) {
+    return { success: false, error: 'Content ID and chapter numbers are required' };
+  }
+
+  try {
+    // Same split as createNotification: watchers of other users are only readable with the admin client
+    const client = typeof window === 'undefined'
+      ? (await import('./supabase/admin')).supabaseAdmin
+      : supabase;
+
+    const [contentResult, watchersResult] = await Promise.all([
+      client.from('content').select('title, type').eq('id', contentId).maybeSingle(),
+      client
+        .from('watchlist')
+        .select('user_id')
+        .eq('content_id', contentId)
+        .in('status', CHAPTER_WATCHER_STATUSES),
+    ]);
+
+    if (contentResult.error) throw contentResult.error;
+    if (watchersResult.error) throw watchersResult.error;
+
+    const watcherIds: string[] = Array.from(new Set((watchersResult.data || []).map(row => row.user_id)));
+    if (watcherIds.length === 0) {
+      return { success: true, notified: 0 };
+    }
+
+    const data: NotificationData = {
+      content_id: contentId,
+      content_type: contentResult.data?.type,
+      content_title: contentResult.data?.title,
+      chapter_number: formatChapterNumbers(chapterNumbers),
+      chapter_count: new Set(chapterNumbers).size,
+    };
+
+    let notified = 0;
+    for (let i = 0; i < watcherIds.length; i += FAN_OUT_CONCURRENCY) {
+      const batch = watcherIds.slice(i, i + FAN_OUT_CONCURRENCY);
+      const results = await Promise.all(batch.map(userId => createNotification(userId, 'new_chapter', data)));
+      notified += results.filter(result => result.success && result.channels?.length).length;
+    }
+
+    console.log(`New chapter notifications sent to ${notified}/${watcherIds.length} users for content ${contentId}`);
+    return { success: true, notified };
+  } catch (error) {
+    console.error('Error in notifyNewChapters:', error);
+    return { success: false, error };
+  }
+}
+
 // Add other notification functions here later (get, mark read, count)
 
 // Define a type for the notification object, including optional sender profile
@@ -141,6 +324,7 @@ export interface Notification {
   sender_user_id?: string;
   content_id?: string;
   comment_id?: string;
+  room_id?: string;
   message: string;
   is_read: boolean;
   created_at: string;
@@ -155,29 +339,35 @@ export interface Notification {
   related_user_username?: string;
 }
 
-// Cache notifications for a short period to avoid excessive requests
-const notificationCache: {
-  [userId: string]: {
-    timestamp: number;
-    notifications: Notification[];
-  };
-} = {};
 
-// Cache TTL in milliseconds (30 seconds)
-const CACHE_TTL = 30 * 1000; 
+// Default page size for the notifications panel
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+/**
+ * Opaque position in the notification feed. Notifications are ordered by
+ * (created_at, id) descending so rows sharing a timestamp are never skipped.
+ */
+export function encodeNotificationCursor(notification: Pick<Notification, 'created_at' | 'id'>): string {
+  return `${notification.created_at}|${notification.id}`;
+}
+
+function decodeNotificationCursor(cursor: string): { createdAt: string; id: string } | null {
+  const separator = cursor.lastIndexOf('|');
+  if (separator <= 0) return null;
+  return { createdAt: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+}
 
 /**
- * Fetches notifications for a specific user with optimized performance.
+ * Fetches one page of a user's in-app notifications, newest first.
  * @param userId The ID of the user whose notifications to fetch.
- * @param limit The maximum number of notifications to fetch.
- * @param useCache Whether to use cached notifications if available.
- * @returns Object containing success status, notifications array, or error.
+ * @param options.cursor `nextCursor` from the previous page; omit for the first page.
+ * @param options.limit Page size.
+ * @returns Object containing success status, notifications, the cursor of the next page (null at the end), or error.
  */
 export async function getUserNotifications(
   userId: string,
-  limit: number = 10, // Reduced default limit for better performance
-  useCache: boolean = true
-): Promise<{ success: boolean; notifications?: Notification[]; error?: any }> {
+  { cursor = null, limit = NOTIFICATIONS_PAGE_SIZE }: { cursor?: string | null; limit?: number } = {}
+): Promise<{ success: boolean; notifications?: Notification[]; nextCursor?: string | null; error?: any }> {
   if (!supabase) {
     return { success: false, error: 'Supabase client not initialized' };
   }
@@ -185,154 +375,168 @@ export async function getUserNotifications(
     return { success: false, error: 'User ID is required' };
   }
 
-  // Check if we have cached notifications that are still valid
-  const cachedData = notificationCache[userId];
-  if (useCache && cachedData && (Date.now() - cachedData.timestamp < CACHE_TTL)) {
-    console.log('Using cached notifications');
-    return { success: true, notifications: cachedData.notifications };
-  }
+  try {
+    let query = supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .contains('channels', ['in_app']) // Email/push-only notifications stay out of the feed
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
 
-  // Create a timeout promise
-  const timeoutPromise = new Promise<{ success: boolean; error: string }>((_, reject) => {
-    setTimeout(() => {
-      reject({ success: false, error: 'Notification fetch timed out' });
-    }, 8000); // 8 second timeout
-  });
+    const position = cursor ? decodeNotificationCursor(cursor) : null;
+    if (position) {
+      query = query.or(
+        `created_at.lt.${position.createdAt},and(created_at.eq.${position.createdAt},id.lt.${position.id})`
+      );
+    }
 
-  try {
-    // Race between the actual fetch and the timeout
-    const result = await Promise.race([
-      fetchNotificationsWithProfiles(userId, limit),
-      timeoutPromise
-    ]);
+    const { data, error } = await query;
 
-    // If successful and using cache, update the cache
-    if (result.success && 'notifications' in result && result.notifications) {
-      notificationCache[userId] = {
-        timestamp: Date.now(),
-        notifications: result.notifications
-      };
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return { success: false, error };
     }
 
-    return result;
+    const rows = data || [];
+    // A full page means there may be more; the cursor follows the raw rows, not the filtered ones
+    const nextCursor = rows.length === limit ? encodeNotificationCursor(rows[rows.length - 1]) : null;
+
+    // Answered friend requests are marked read and no longer need a card
+    const visible = rows.filter(n => !(n.type === 'friend_request' && n.is_read));
+    const notifications = await attachSenderProfiles(visible);
+
+    return { success: true, notifications, nextCursor };
   } catch (error) {
-    console.error('Error or timeout in getUserNotifications:', error);
-    
-    // If we timed out but have cached data, return that with a flag
-    if (cachedData) {
-      return { 
-        success: true, 
-        notifications: cachedData.notifications,
-        error: 'Returned cached data due to timeout'
-      };
-    }
-    
+    console.error('Error in getUserNotifications:', error);
     return { success: false, error };
   }
 }
 
 /**
- * Core function to fetch notifications with profiles in a single efficient query
+ * Adds sender profiles to raw notification rows. Rows are returned without
+ * profiles if the lookup fails.
  */
-async function fetchNotificationsWithProfiles(
-  userId: string,
-  limit: number
-): Promise<{ success: boolean; notifications?: Notification[]; error?: any }> {
-  try {
-    console.log(`Fetching notifications for user ${userId}, limit: ${limit}`);
-    
-    // First, get notifications
-    const { data: notificationsData, error } = await supabase
-      .from('notifications')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
+export async function attachSenderProfiles(rows: any[]): Promise<Notification[]> {
+  const senderIds = Array.from(
+    new Set(rows.map(n => n.sender_user_id).filter((id): id is string => !!id))
+  );
 
-    if (error) {
-      console.error('Error fetching notifications:', error);
-      return { success: false, error };
-    }
+  const senderProfilesMap = new Map<string, { username: string; avatar_url: string }>();
 
-    if (!notificationsData || notificationsData.length === 0) {
-      return { success: true, notifications: [] };
+  if (senderIds.length > 0) {
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, username, avatar_url')
+      .in('id', senderIds);
+
+    if (profileError) {
+      console.warn('Error fetching sender profiles for notifications:', profileError);
+    } else {
+      (profiles || []).forEach(p => {
+        senderProfilesMap.set(p.id, { username: p.username || 'User', avatar_url: p.avatar_url || '' });
+      });
     }
+  }
 
-    console.log(`Retrieved ${notificationsData.length} notifications`);
+  return rows.map(notif => ({
+    id: notif.id,
+    user_id: notif.user_id,
+    type: notif.type,
+    sender_user_id: notif.sender_user_id,
+    content_id: notif.content_id,
+    comment_id: notif.comment_id,
+    room_id: notif.room_id,
+    message: notif.message,
+    is_read: notif.is_read,
+    created_at: notif.created_at,
+    sender_profile: notif.sender_user_id ? senderProfilesMap.get(notif.sender_user_id) || null : null,
+  }));
+}
 
-    // Filter out friend_request notifications that are already read
-    const filteredNotifications = notificationsData.filter(n => {
-      if (n.type === 'friend_request' && n.is_read) return false;
-      return true;
-    });
+// Several notifications about the same thing, shown as one row
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  latest: Notification;
+  notifications: Notification[]; // newest first
+  unreadIds: string[];
+}
 
-    if (filteredNotifications.length === 0) {
-      return { success: true, notifications: [] };
-    }
+// Notifications sharing a key collapse into one group; null keeps a notification on its own
+function notificationGroupKey(notification: Notification): string | null {
+  switch (notification.type) {
+    case 'comment_like':
+    case 'comment_reply':
+      return notification.comment_id ? `${notification.type}:${notification.comment_id}` : null;
+    case 'new_chapter':
+      return notification.content_id ? `new_chapter:${notification.content_id}` : null;
+    default:
+      return null;
+  }
+}
 
-    // Get unique sender IDs from notifications that have one
-    const senderIds = [
-      ...new Set(
-        filteredNotifications
-          .map(n => n.sender_user_id)
-          .filter(id => id !== null && id !== undefined) as string[]
-      )
-    ];
-
-    let senderProfilesMap: Map<string, { username: string; avatar_url: string }> = new Map();
-
-    // Fetch sender profiles if there are any sender IDs
-    if (senderIds.length > 0) {
-      try {
-        console.log(`Fetching profiles for ${senderIds.length} senders`);
-        const { data: profiles, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, username, avatar_url')
-          .in('id', senderIds);
-
-        if (profileError) {
-          console.warn('Error fetching sender profiles for notifications:', profileError);
-          // Continue without profile info if fetching fails
-        } else if (profiles) {
-          console.log(`Retrieved ${profiles.length} profiles`);
-          profiles.forEach(p => {
-            senderProfilesMap.set(p.id, { username: p.username || 'User', avatar_url: p.avatar_url || '' });
-          });
-        }
-      } catch (profileFetchError) {
-        console.error('Error fetching profiles:', profileFetchError);
-        // Continue without profile info
-      }
+/**
+ * Collapses similar notifications ("5 people liked your comment"). Groups keep
+ * the position of their newest notification.
+ * @param notifications Notifications ordered newest first.
+ */
+export function groupNotifications(notifications: Notification[]): NotificationGroup[] {
+  const groups: NotificationGroup[] = [];
+  const byKey = new Map<string, NotificationGroup>();
+
+  notifications.forEach(notification => {
+    const key = notificationGroupKey(notification);
+    const existing = key ? byKey.get(key) : undefined;
+
+    if (existing) {
+      existing.notifications.push(notification);
+      if (!notification.is_read) existing.unreadIds.push(notification.id);
+      return;
     }
 
-    // Combine notifications with sender profiles
-    const processedNotifications = filteredNotifications.map(notif => {
-      let profile = null;
-      if (notif.sender_user_id) {
-        profile = senderProfilesMap.get(notif.sender_user_id) || null;
-        if (!profile) {
-          // Log if a sender_user_id was present but no profile was found in the map
-          console.log(`[Notification Debug] Profile not found in map for sender_user_id: ${notif.sender_user_id}. Notification ID: ${notif.id}`);
-        }
-      }
-      return {
-        id: notif.id,
-        user_id: notif.user_id,
-        type: notif.type,
-        sender_user_id: notif.sender_user_id,
-        content_id: notif.content_id,
-        comment_id: notif.comment_id,
-        message: notif.message,
-        is_read: notif.is_read,
-        created_at: notif.created_at,
-        sender_profile: profile, // Assign the fetched profile (or null)
-      };
-    });
-
-    return { success: true, notifications: processedNotifications };
-  } catch (error) {
-    console.error('Error in fetchNotificationsWithProfiles:', error);
-    return { success: false, error };
+    const group: NotificationGroup = {
+      key: key || notification.id,
+      type: notification.type,
+      latest: notification,
+      notifications: [notification],
+      unreadIds: notification.is_read ? [] : [notification.id],
+    };
+    groups.push(group);
+    if (key) byKey.set(key, group);
+  });
+
+  return groups;
+}
+
+function joinSenderNames(group: NotificationGroup): string | null {
+  const names = Array.from(
+    new Set(group.notifications.map(n => n.sender_profile?.username).filter((name): name is string => !!name))
+  );
+  const senders = new Set(group.notifications.map(n => n.sender_user_id || n.id)).size;
+  if (names.length === 0) return null;
+
+  const shown = names.slice(0, 2).join(', ');
+  const others = senders - Math.min(names.length, 2);
+  return others > 0 ? `${shown} და კიდევ ${others}` : shown;
+}
+
+/**
+ * Message for a notification group; single notifications keep their own message.
+ */
+export function describeNotificationGroup(group: NotificationGroup): string {
+  if (group.notifications.length === 1) return group.latest.message;
+
+  const names = joinSenderNames(group);
+  const subject = names ? `${names}-მ` : `${group.notifications.length} მომხმარებელმა`;
+  switch (group.type) {
+    case 'comment_like':
+      return `${subject} მოიწონა თქვენი კომენტარი.`;
+    case 'comment_reply':
+      return `${subject} გიპასუხათ კომენტარზე.`;
+    default:
+      return `${group.latest.message} (+${group.notifications.length - 1})`;
   }
 }
 
@@ -351,6 +555,7 @@ export async function getUnreadNotificationCount(
       .from('notifications')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', userId)
+      .contains('channels', ['in_app'])
       .eq('is_read', false);
 
     if (error) {
@@ -365,7 +570,7 @@ export async function getUnreadNotificationCount(
 }
 
 /**
- * Mark notifications as read
+ * Mark notifications as read (a single item or every notification in a group)
  */
 export async function markNotificationsAsRead(
   userId: string, 
@@ -386,19 +591,37 @@ export async function markNotificationsAsRead(
       throw error;
     }
 
-    // Update the cache if we have it
-    if (notificationCache[userId]) {
-      notificationCache[userId].notifications = notificationCache[userId].notifications.map(n => {
-        if (notificationIds.includes(n.id)) {
-          return { ...n, is_read: true };
-        }
-        return n;
-      });
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Mark every unread notification as read, including ones on pages not loaded yet
+ */
+export async function markAllNotificationsAsRead(
+  userId: string
+): Promise<{ success: boolean; error?: any }> {
+  if (!supabase || !userId) {
+    return { success: false, error: 'Invalid parameters' };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) {
+      throw error;
     }
 
     return { success: true };
   } catch (error) {
-    console.error('Error marking notifications as read:', error);
+    console.error('Error marking all notifications as read:', error);
     return { success: false, error };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,305 @@
+// Chapters downloaded for offline reading. Page images live in the Cache API
+// (public/sw.js serves them from there); the list of downloads lives in localStorage.
+import { registerServiceWorker } from './service-worker';
+
+// Must match PAGES_CACHE / SHELL_CACHE in public/sw.js
+const PAGES_CACHE = 'manganime-chapter-pages-v1';
+const SHELL_CACHE = 'manganime-shell-v1';
+
+const DOWNLOADS_KEY = 'manganime-downloads';
+
+// Pages fetched in parallel while downloading
+const DOWNLOAD_CONCURRENCY = 4;
+
+// Keep some room so a download doesn't push the browser into evicting everything
+const QUOTA_HEADROOM_BYTES = 50 * 1024 * 1024;
+
+export interface DownloadedChapter {
+  key: string;
+  mangaId: string;
+  mangaTitle: string;
+  mangaThumbnail: string;
+  contentType: 'manga' | 'comics';
+  chapterId: string;
+  chapterNumber: number;
+  chapterTitle: string;
+  language: 'ge' | 'en';
+  // MangaDex chapter; pages are at-home URLs resolved when the download ran
+  external: boolean;
+  pages: string[];
+  // Size of the cached pages; cross-origin pages without CORS count as 0
+  bytes: number;
+  downloadedAt: number;
+}
+
+export interface DownloadChapterInput {
+  mangaId: string;
+  mangaTitle: string;
+  mangaThumbnail: string;
+  contentType?: 'manga' | 'comics';
+  chapter: {
+    id?: string;
+    number: number;
+    title: string;
+    pages?: string[];
+    language?: 'ge' | 'en';
+    external?: boolean;
+  };
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+}
+
+export interface DownloadsState {
+  downloads: DownloadedChapter[];
+  // Downloads running right now, by key
+  active: Record<string, DownloadProgress>;
+}
+
+export interface StorageUsage {
+  // What our downloads take up
+  downloadsBytes: number;
+  // Browser-wide figures for this site, when the browser reports them
+  usage: number | null;
+  quota: number | null;
+  persisted: boolean;
+}
+
+export class DownloadQuotaError extends Error {
+  constructor() {
+    super('Not enough storage space for this chapter');
+    this.name = 'DownloadQuotaError';
+  }
+}
+
+export function isOfflineDownloadSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window && 'serviceWorker' in navigator;
+}
+
+export function getDownloadKey(mangaId: string, chapter: { id?: string; number: number; language?: string }): string {
+  return `${mangaId}:${chapter.language || 'ge'}:${chapter.id || `chapter-${chapter.number}`}`;
+}
+
+function readDownloads(): DownloadedChapter[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(DOWNLOADS_KEY);
+    return raw ? (JSON.parse(raw) as DownloadedChapter[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeDownloads(downloads: DownloadedChapter[]): void {
+  localStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads));
+}
+
+// ---------------------------------------------------------------------------
+// Downloads state – a tiny store that components subscribe to (see useOfflineDownloads)
+// ---------------------------------------------------------------------------
+
+const listeners: Array<(state: DownloadsState) => void> = [];
+
+let state: DownloadsState = { downloads: readDownloads(), active: {} };
+
+function setState(update: Partial<DownloadsState>): void {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener(state));
+}
+
+export function getDownloadsState(): DownloadsState {
+  return state;
+}
+
+export function subscribeToDownloads(listener: (next: DownloadsState) => void): () => void {
+  listeners.push(listener);
+  // The module may have loaded on the server, where localStorage wasn't available
+  if (state.downloads.length === 0) {
+    const stored = readDownloads();
+    if (stored.length > 0) setState({ downloads: stored });
+  }
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+function setProgress(key: string, progress: DownloadProgress | null): void {
+  const active = { ...state.active };
+  if (progress) active[key] = progress;
+  else delete active[key];
+  setState({ active });
+}
+
+export function getDownloadedChapter(mangaId: string, chapter: { id?: string; number: number; language?: string }): DownloadedChapter | undefined {
+  const key = getDownloadKey(mangaId, chapter);
+  return state.downloads.find(download => download.key === key);
+}
+
+// MangaDex chapters have no stored pages; resolve the at-home URLs like the reader does
+async function resolveMangaDexPages(chapterId: string): Promise<string[]> {
+  const resp = await fetch(`/api/mangadex/pages?chapterId=${chapterId}`);
+  if (!resp.ok) throw new Error(`The page server returned an error: ${resp.status}.`);
+  const json = await resp.json();
+  if (json.result === 'error' || !json.baseUrl) throw new Error('MangaDex did not return any pages');
+  const data: string[] = json.chapter?.data || [];
+  return data.map(fname => `${json.baseUrl}/data/${json.chapter.hash}/${fname}`);
+}
+
+// Cloudinary answers with CORS headers; image hosts that don't are stored as opaque responses
+async function fetchPage(url: string): Promise<Response> {
+  try {
+    const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+    if (response.ok) return response;
+    throw new Error(`Page request failed with ${response.status}`);
+  } catch (error) {
+    const opaque = await fetch(url, { mode: 'no-cors', credentials: 'omit' });
+    if (opaque.type === 'opaque') return opaque;
+    throw error;
+  }
+}
+
+async function responseSize(response: Response): Promise<number> {
+  if (response.type === 'opaque') return 0;
+  const length = Number(response.headers.get('content-length'));
+  if (length > 0) return length;
+  return (await response.clone().blob()).size;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const downloadsBytes = state.downloads.reduce((sum, download) => sum + download.bytes, 0);
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return { downloadsBytes, usage: null, quota: null, persisted: false };
+  }
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { downloadsBytes, usage: estimate.usage ?? null, quota: estimate.quota ?? null, persisted };
+}
+
+async function hasRoomFor(bytes: number): Promise<boolean> {
+  const { usage, quota } = await getStorageUsage();
+  if (usage === null || quota === null) return true;
+  return quota - usage - bytes > QUOTA_HEADROOM_BYTES;
+}
+
+// The downloads page must open without a network, so keep its HTML and scripts cached
+async function cacheOfflineShell(): Promise<void> {
+  const registration = await registerServiceWorker();
+  await navigator.serviceWorker.ready;
+  (registration?.active || navigator.serviceWorker.controller)?.postMessage({ type: 'CACHE_OFFLINE_SHELL' });
+}
+
+/**
+ * Downloads every page of a chapter into the pages cache and records it for
+ * offline reading. Pages already cached are reused. On failure nothing is kept.
+ * @throws DownloadQuotaError when the browser is running out of storage.
+ */
+export async function downloadChapter(input: DownloadChapterInput): Promise<DownloadedChapter> {
+  const { chapter } = input;
+  const key = getDownloadKey(input.mangaId, chapter);
+  if (state.active[key]) throw new Error('This chapter is already downloading');
+
+  setProgress(key, { done: 0, total: chapter.pages?.length || 0 });
+  const cache = await caches.open(PAGES_CACHE);
+  const stored: string[] = [];
+
+  try {
+    const pages = chapter.external && chapter.id ? await resolveMangaDexPages(chapter.id) : chapter.pages || [];
+    if (pages.length === 0) throw new Error('This chapter has no pages');
+
+    // Ask the browser not to evict downloads under storage pressure
+    if (navigator.storage?.persist) navigator.storage.persist().catch(() => {});
+
+    let bytes = 0;
+    let done = 0;
+    let next = 0;
+    setProgress(key, { done, total: pages.length });
+
+    const worker = async () => {
+      while (next < pages.length) {
+        const url = pages[next++];
+        let response = await cache.match(url);
+        if (!response) {
+          response = await fetchPage(url);
+          const size = await responseSize(response);
+          if (!(await hasRoomFor(size))) throw new DownloadQuotaError();
+          try {
+            await cache.put(url, response.clone());
+          } catch (error) {
+            if (error instanceof DOMException && error.name === 'QuotaExceededError') throw new DownloadQuotaError();
+            throw error;
+          }
+          stored.push(url);
+        }
+        bytes += await responseSize(response);
+        setProgress(key, { done: ++done, total: pages.length });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, pages.length) }, worker));
+
+    // The cover shown on the downloads page; not worth failing the download over
+    if (input.mangaThumbnail && !(await cache.match(input.mangaThumbnail))) {
+      await fetchPage(input.mangaThumbnail)
+        .then(response => cache.put(input.mangaThumbnail, response))
+        .catch(() => {});
+    }
+
+    const download: DownloadedChapter = {
+      key,
+      mangaId: input.mangaId,
+      mangaTitle: input.mangaTitle,
+      mangaThumbnail: input.mangaThumbnail,
+      contentType: input.contentType || 'manga',
+      chapterId: chapter.id || `chapter-${chapter.number}`,
+      chapterNumber: chapter.number,
+      chapterTitle: chapter.title,
+      language: chapter.language || 'ge',
+      external: !!chapter.external,
+      pages,
+      bytes,
+      downloadedAt: Date.now(),
+    };
+
+    const downloads = [download, ...readDownloads().filter(item => item.key !== key)];
+    writeDownloads(downloads);
+    setState({ downloads });
+    cacheOfflineShell().catch(error => console.warn('Could not cache the offline page:', error));
+    return download;
+  } catch (error) {
+    await Promise.all(stored.map(url => cache.delete(url)));
+    throw error;
+  } finally {
+    setProgress(key, null);
+  }
+}
+
+/**
+ * Removes a downloaded chapter. Pages and covers shared with another download stay cached.
+ */
+export async function deleteDownloadedChapter(key: string): Promise<void> {
+  const downloads = readDownloads();
+  const target = downloads.find(download => download.key === key);
+  const remaining = downloads.filter(download => download.key !== key);
+
+  if (target && 'caches' in window) {
+    const stillUsed = new Set(remaining.flatMap(download => [...download.pages, download.mangaThumbnail]));
+    const cache = await caches.open(PAGES_CACHE);
+    const urls = [...target.pages, target.mangaThumbnail].filter(url => url && !stillUsed.has(url));
+    await Promise.all(urls.map(url => cache.delete(url)));
+  }
+
+  writeDownloads(remaining);
+  setState({ downloads: remaining });
+}
+
+export async function deleteAllDownloads(): Promise<void> {
+  if ('caches' in window) {
+    await Promise.all([caches.delete(PAGES_CACHE), caches.delete(SHELL_CACHE)]);
+  }
+  writeDownloads([]);
+  setState({ downloads: [] });
+}
@@ -0,0 +1,291 @@
+// Checks a chapter's pages before it is saved: duplicate pages (perceptual
+// hashes, also against the previous chapter), odd page shapes and gaps or
+// disorder in the file numbering. Runs in the admin's browser.
+import { supabase } from './supabase';
+import { isCloudinaryUrl } from './reader-images';
+
+export type PageWarningKind =
+  | 'duplicate'
+  | 'near-duplicate'
+  | 'previous-chapter'
+  | 'spread'
+  | 'unusual-ratio'
+  | 'out-of-order'
+  | 'gap'
+  | 'unreadable';
+
+export interface PageWarning {
+  kind: PageWarningKind;
+  pageIndex: number;
+  // The page it duplicates, in this chapter or the previous one
+  otherIndex?: number;
+  message: string;
+}
+
+export interface PageAnalysis {
+  // Pages joined together, to tell whether the analysis is still current
+  key: string;
+  warnings: PageWarning[];
+}
+
+interface PageSignature {
+  // 64-bit difference hash as 16 hex digits
+  hash: string;
+  // width / height
+  ratio: number;
+}
+
+// Hamming distances between hashes: identical up to re-encoding, and visibly the same page
+const DUPLICATE_DISTANCE = 3;
+const NEAR_DUPLICATE_DISTANCE = 8;
+// A page this much wider than the chapter's typical page is a double spread
+const SPREAD_RATIO = 1.6;
+// Other pages whose shape is off by more than this are flagged (credits, covers...)
+const UNUSUAL_RATIO_DEVIATION = 0.25;
+// Below this typical ratio the chapter is a long strip, where page heights vary freely
+const LONG_STRIP_RATIO = 0.4;
+const ANALYSIS_CONCURRENCY = 6;
+
+// Signatures by URL, so analysing again after a reorder doesn't reload anything
+const signatureCache = new Map<string, PageSignature | null>();
+
+export function getPagesKey(pages: string[]): string {
+  return pages.join('\n');
+}
+
+// Small version of a Cloudinary page: enough for a hash and its proportions
+function getAnalysisUrl(url: string): string {
+  return url.replace('/image/upload/', '/image/upload/c_limit,w_64,f_jpg/');
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Pixels of cross-origin images can only be read when the host allows it (Cloudinary does)
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+}
+
+/**
+ * Difference hash: the page shrunk to 9x8 greyscale pixels, one bit per
+ * horizontal neighbour pair saying whether brightness goes down.
+ */
+function differenceHash(image: HTMLImageElement): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(image, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+
+  const grey = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+async function getSignature(url: string): Promise<PageSignature | null> {
+  // Other hosts may not allow reading pixels, so their pages aren't checked
+  if (!isCloudinaryUrl(url)) return null;
+  if (signatureCache.has(url)) return signatureCache.get(url)!;
+  let signature: PageSignature | null = null;
+  try {
+    const image = await loadImage(getAnalysisUrl(url));
+    signature = { hash: differenceHash(image), ratio: image.naturalWidth / image.naturalHeight };
+  } catch (error) {
+    // Unreachable or deleted images
+    console.warn('Page analysis skipped a page:', error);
+  }
+  signatureCache.set(url, signature);
+  return signature;
+}
+
+async function getSignatures(urls: string[], onProgress?: (done: number) => void): Promise<(PageSignature | null)[]> {
+  const signatures: (PageSignature | null)[] = new Array(urls.length).fill(null);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next++;
+      signatures[index] = await getSignature(urls[index]);
+      onProgress?.(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(ANALYSIS_CONCURRENCY, urls.length) }, worker));
+  return signatures;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Page number in a file name: "page_012_v0k3x9a2.jpg" (our own public ids), else the
+// last number, as in "12.png" or "ch3_p012_ab12cd.webp" (Cloudinary suffix ignored)
+function getFileNumber(url: string): number | null {
+  const name = decodeURIComponent(url.split('?')[0].split('/').pop() || '').replace(/\.[a-z0-9]+$/i, '');
+  const pageId = name.match(/^page_(\d+)(?:_|$)/i);
+  if (pageId) return Number(pageId[1]);
+  const numbers = name.replace(/_(?=[a-z0-9]*[a-z])[a-z0-9]{6}$/i, '').match(/\d+/g);
+  return numbers ? Number(numbers[numbers.length - 1]) : null;
+}
+
+/**
+ * Warnings from file names alone: pages whose number goes backwards, and gaps
+ * in the numbering. Skipped when most files carry no number.
+ */
+export function checkPageOrder(pages: string[]): PageWarning[] {
+  const numbers = pages.map(getFileNumber);
+  if (numbers.filter(number => number !== null).length < pages.length * 0.8) return [];
+
+  const warnings: PageWarning[] = [];
+  let previous: { index: number; number: number } | null = null;
+  numbers.forEach((number, index) => {
+    if (number === null) return;
+    if (previous) {
+      if (number <= previous.number) {
+        warnings.push({
+          kind: 'out-of-order',
+          pageIndex: index,
+          otherIndex: previous.index,
+          message: `File number ${number} comes after ${previous.number} (page ${previous.index + 1})`,
+        });
+      } else if (number > previous.number + 1) {
+        const missing = number - previous.number - 1;
+        warnings.push({
+          kind: 'gap',
+          pageIndex: index,
+          message: missing === 1
+            ? `File ${previous.number + 1} seems to be missing before this page`
+            : `Files ${previous.number + 1}–${number - 1} seem to be missing before this page`,
+        });
+      }
+    }
+    previous = { index, number };
+  });
+  return warnings;
+}
+
+/**
+ * Pages of the chapter just before this one, for spotting pages carried over
+ * by mistake.
+ */
+export async function getPreviousChapterPages(
+  contentId: string,
+  chapterNumber: number,
+  language: 'ge' | 'en'
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('pages')
+    .eq('content_id', contentId)
+    .eq('language', language)
+    .lt('number', chapterNumber)
+    .order('number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load the previous chapter for page analysis:', error);
+    return [];
+  }
+  return Array.isArray(data?.pages) ? data.pages : [];
+}
+
+/**
+ * Analyses a chapter's pages. Only Cloudinary pages that could be loaded are
+ * compared; Cloudinary pages that couldn't get an 'unreadable' warning, and
+ * pages on other hosts are only checked for their numbering.
+ */
+export async function analyzeChapterPages(
+  pages: string[],
+  previousPages: string[] = [],
+  onProgress?: (done: number, total: number) => void
+): Promise<PageAnalysis> {
+  const total = pages.length + previousPages.length;
+  const signatures = await getSignatures([...pages, ...previousPages], done => onProgress?.(done, total));
+  const current = signatures.slice(0, pages.length);
+  const previous = signatures.slice(pages.length);
+  const warnings: PageWarning[] = [];
+
+  current.forEach((signature, index) => {
+    if (!signature) {
+      if (!isCloudinaryUrl(pages[index])) return;
+      warnings.push({ kind: 'unreadable', pageIndex: index, message: 'Could not load this page to check it' });
+      return;
+    }
+
+    // Earliest earlier page that looks the same
+    for (let other = 0; other < index; other++) {
+      const otherSignature = current[other];
+      if (!otherSignature) continue;
+      const distance = hashDistance(signature.hash, otherSignature.hash);
+      if (distance <= NEAR_DUPLICATE_DISTANCE) {
+        warnings.push({
+          kind: distance <= DUPLICATE_DISTANCE ? 'duplicate' : 'near-duplicate',
+          pageIndex: index,
+          otherIndex: other,
+          message: `${distance <= DUPLICATE_DISTANCE ? 'Same as' : 'Looks like'} page ${other + 1}`,
+        });
+        break;
+      }
+    }
+
+    const carriedOver = previous.findIndex(
+      otherSignature => otherSignature && hashDistance(signature.hash, otherSignature.hash) <= DUPLICATE_DISTANCE
+    );
+    if (carriedOver !== -1) {
+      warnings.push({
+        kind: 'previous-chapter',
+        pageIndex: index,
+        otherIndex: carriedOver,
+        message: `Same as page ${carriedOver + 1} of the previous chapter`,
+      });
+    }
+  });
+
+  const ratios = current.filter((signature): signature is PageSignature => !!signature).map(signature => signature.ratio);
+  const typicalRatio = ratios.length >= 3 ? median(ratios) : null;
+  if (typicalRatio && typicalRatio >= LONG_STRIP_RATIO) {
+    current.forEach((signature, index) => {
+      if (!signature) return;
+      if (signature.ratio >= typicalRatio * SPREAD_RATIO) {
+        warnings.push({ kind: 'spread', pageIndex: index, message: 'Much wider than the other pages (double spread?)' });
+      } else if (Math.abs(signature.ratio - typicalRatio) / typicalRatio > UNUSUAL_RATIO_DEVIATION) {
+        warnings.push({ kind: 'unusual-ratio', pageIndex: index, message: 'Shaped unlike the other pages (credits or cover?)' });
+      }
+    });
+  }
+
+  warnings.push(...checkPageOrder(pages));
+  warnings.sort((a, b) => a.pageIndex - b.pageIndex);
+  return { key: getPagesKey(pages), warnings };
+}
@@ -0,0 +1,253 @@
+// Bookmarked pages with private notes. Rows live in `page_bookmarks` and are only
+// reachable through /api/user/bookmarks.
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { isCloudinaryUrl } from './reader-images';
+
+const BOOKMARKS_API = '/api/user/bookmarks';
+
+export const MAX_BOOKMARK_NOTE_LENGTH = 2000;
+
+// Highlighted region of a page, as fractions of its width and height
+export interface BookmarkCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Validates crops coming from clients; see normalizeCrop for the stricter rules
+export const bookmarkCropSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().min(0).max(1),
+    height: z.number().min(0).max(1),
+  })
+  .nullable();
+
+export interface PageBookmark {
+  id: string;
+  contentId: string;
+  contentType: 'manga' | 'comics';
+  contentTitle: string;
+  contentThumbnail: string;
+  chapterId: string;
+  chapterNumber: number;
+  chapterTitle: string;
+  language: 'ge' | 'en';
+  pageIndex: number;
+  pageUrl: string;
+  // null means the whole page
+  crop: BookmarkCrop | null;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewPageBookmark = Omit<PageBookmark, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface PageBookmarkRow {
+  id: string;
+  user_id: string;
+  content_id: string;
+  content_type: 'manga' | 'comics';
+  content_title: string | null;
+  content_thumbnail: string | null;
+  chapter_id: string;
+  chapter_number: number;
+  chapter_title: string | null;
+  language: string;
+  page_index: number;
+  page_url: string;
+  crop: BookmarkCrop | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function fromPageBookmarkRow(row: PageBookmarkRow): PageBookmark {
+  return {
+    id: row.id,
+    contentId: row.content_id,
+    contentType: row.content_type,
+    contentTitle: row.content_title || '',
+    contentThumbnail: row.content_thumbnail || '',
+    chapterId: row.chapter_id,
+    chapterNumber: Number(row.chapter_number),
+    chapterTitle: row.chapter_title || '',
+    language: row.language === 'en' ? 'en' : 'ge',
+    pageIndex: row.page_index,
+    pageUrl: row.page_url,
+    crop: row.crop,
+    note: row.note || '',
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Chapter id a bookmark is stored under. Chapters without an id are addressed by
+ * number, the same way reading history does it.
+ */
+export function getBookmarkChapterId(chapter: { id?: string; number: number }): string {
+  return chapter.id || `chapter-${chapter.number}`;
+}
+
+// MangaDex at-home URLs expire within minutes, so bookmarks of external chapters store
+// `mangadex:<chapterId>/<data|data-saver>/<file name>` and resolve it when shown
+const MANGADEX_PAGE_REF = /^mangadex:([^/]+)\/(data|data-saver)\/([^/]+)$/;
+const MANGADEX_PAGE_URL = /\/(data|data-saver)\/[^/]+\/([^/?#]+)$/;
+// At-home servers are reused for a while, well before their URLs expire
+const AT_HOME_SERVER_TTL = 5 * 60 * 1000;
+
+/**
+ * What a bookmark stores for a page: the URL itself for Cloudinary and local
+ * pages, a MangaDex page reference for pages of external chapters.
+ */
+export function getBookmarkPageRef(pageUrl: string, externalChapterId?: string): string {
+  if (!externalChapterId || isCloudinaryUrl(pageUrl)) return pageUrl;
+  const match = pageUrl.match(MANGADEX_PAGE_URL);
+  return match ? `mangadex:${externalChapterId}/${match[1]}/${match[2]}` : pageUrl;
+}
+
+export function isMangaDexPageRef(pageUrl: string): boolean {
+  return MANGADEX_PAGE_REF.test(pageUrl);
+}
+
+const atHomeServers = new Map<string, { fetchedAt: number; server: Promise<{ baseUrl: string; hash: string }> }>();
+
+function getAtHomeServer(chapterId: string): Promise<{ baseUrl: string; hash: string }> {
+  const cached = atHomeServers.get(chapterId);
+  if (cached && Date.now() - cached.fetchedAt < AT_HOME_SERVER_TTL) return cached.server;
+
+  const server = fetch(`/api/mangadex/pages?chapterId=${encodeURIComponent(chapterId)}`).then(async res => {
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok || !json.baseUrl || !json.chapter?.hash) {
+      throw new Error(`MangaDex page server lookup failed with ${res.status}`);
+    }
+    return { baseUrl: json.baseUrl as string, hash: json.chapter.hash as string };
+  });
+  atHomeServers.set(chapterId, { fetchedAt: Date.now(), server });
+  server.catch(() => atHomeServers.delete(chapterId));
+  return server;
+}
+
+// Loadable URL of a bookmarked page (see getBookmarkPageRef)
+export async function resolveBookmarkPageUrl(pageUrl: string): Promise<string> {
+  const match = pageUrl.match(MANGADEX_PAGE_REF);
+  if (!match) return pageUrl;
+  const [, chapterId, quality, fileName] = match;
+  const { baseUrl, hash } = await getAtHomeServer(chapterId);
+  return `${baseUrl}/${quality}/${hash}/${fileName}`;
+}
+
+// Where a bookmark opens: the title page, which starts the reader on that page
+export function getBookmarkHref(bookmark: PageBookmark): string {
+  const params = new URLSearchParams({ chapter: bookmark.chapterId, page: String(bookmark.pageIndex) });
+  return `/${bookmark.contentType}/${bookmark.contentId}?${params}`;
+}
+
+// Cropped regions are at least this large so thumbnails stay legible
+export const MIN_CROP_SIZE = 0.05;
+
+export function normalizeCrop(crop: BookmarkCrop | null): BookmarkCrop | null {
+  if (!crop) return null;
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const x = clamp(crop.x);
+  const y = clamp(crop.y);
+  const width = clamp(Math.min(crop.width, 1 - x));
+  const height = clamp(Math.min(crop.height, 1 - y));
+  if (width < MIN_CROP_SIZE || height < MIN_CROP_SIZE) return null;
+  // The whole page needs no crop
+  if (x === 0 && y === 0 && width === 1 && height === 1) return null;
+  return { x, y, width, height };
+}
+
+// Cloudinary reads whole numbers as pixels, so relative values always carry a decimal point
+const relative = (value: number) => value.toFixed(4);
+
+/**
+ * Thumbnail URL for a bookmark. Cloudinary cuts out the crop (relative
+ * coordinates) and resizes it; other hosts get the full page and the crop is
+ * applied in CSS by getBookmarkCropStyle.
+ */
+export function getBookmarkThumbnailUrl(bookmark: Pick<PageBookmark, 'pageUrl' | 'crop'>, width = 400): string {
+  if (!isCloudinaryUrl(bookmark.pageUrl)) return bookmark.pageUrl;
+
+  const crop = bookmark.crop
+    ? `c_crop,g_north_west,x_${relative(bookmark.crop.x)},y_${relative(bookmark.crop.y)},w_${relative(bookmark.crop.width)},h_${relative(bookmark.crop.height)}/`
+    : '';
+  return bookmark.pageUrl.replace('/image/upload/', `/image/upload/${crop}c_limit,w_${width},f_auto,q_auto/`);
+}
+
+/**
+ * Background styles that show roughly the crop of a full page image, for hosts
+ * that can't crop server-side. Returns null when there is nothing to crop in CSS.
+ */
+export function getBookmarkCropStyle(bookmark: Pick<PageBookmark, 'pageUrl' | 'crop'>): Record<string, string> | null {
+  const crop = bookmark.crop;
+  if (!crop || isCloudinaryUrl(bookmark.pageUrl)) return null;
+
+  const position = (offset: number, size: number) => (size >= 1 ? 0 : (offset / (1 - size)) * 100);
+  return {
+    backgroundImage: `url("${bookmark.pageUrl}")`,
+    backgroundSize: `${100 / crop.width}% auto`,
+    backgroundPosition: `${position(crop.x, crop.width)}% ${position(crop.y, crop.height)}%`,
+    backgroundRepeat: 'no-repeat',
+  };
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, { ...init, headers: await authHeaders() });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const message = typeof json.error === 'string' ? json.error : `Bookmark request failed with ${res.status}`;
+    throw new Error(message);
+  }
+  return json as T;
+}
+
+/**
+ * The signed-in user's bookmarks, newest first; all of them or only one title's.
+ */
+export async function getPageBookmarks(contentId?: string): Promise<PageBookmark[]> {
+  const query = contentId ? `?contentId=${encodeURIComponent(contentId)}` : '';
+  const json = await request<{ bookmarks: PageBookmark[] }>(`${BOOKMARKS_API}${query}`);
+  return json.bookmarks || [];
+}
+
+/**
+ * Bookmarks a page. Bookmarking the same page again returns the existing bookmark.
+ */
+export async function addPageBookmark(bookmark: NewPageBookmark): Promise<PageBookmark> {
+  const json = await request<{ bookmark: PageBookmark }>(BOOKMARKS_API, {
+    method: 'POST',
+    body: JSON.stringify(bookmark),
+  });
+  return json.bookmark;
+}
+
+export async function updatePageBookmark(
+  id: string,
+  changes: Partial<Pick<PageBookmark, 'note' | 'crop'>>
+): Promise<PageBookmark> {
+  const json = await request<{ bookmark: PageBookmark }>(`${BOOKMARKS_API}/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return json.bookmark;
+}
+
+export async function deletePageBookmark(id: string): Promise<void> {
+  await request(`${BOOKMARKS_API}/${id}`, { method: 'DELETE' });
+}
@@ -0,0 +1,53 @@
+// Chapter comments anchored to a page (and optionally a region of it). They are
+// ordinary rows in `comments`; `page_index` and `page_region` say where they point.
+import type { Comment } from './comments';
+import { BookmarkCrop, bookmarkCropSchema, normalizeCrop } from './page-bookmarks';
+
+// Same shape and rules as bookmark crops: fractions of the page's width and height
+export type PageRegion = BookmarkCrop;
+
+export const pageRegionSchema = bookmarkCropSchema;
+
+export const normalizePageRegion = normalizeCrop;
+
+export interface CommentPageAnchor {
+  pageIndex: number;
+  // null means the whole page
+  region: PageRegion | null;
+}
+
+/**
+ * Comment thread of a chapter in the reader. Chapters without an id are
+ * addressed by number.
+ */
+export function getChapterCommentsContentId(
+  mangaId: string,
+  chapterId: string | number,
+  language: 'ge' | 'en' = 'ge'
+): string {
+  return `${mangaId}-chapter-${chapterId}-${language}`;
+}
+
+export function getCommentAnchor(comment: Pick<Comment, 'page_index' | 'page_region'>): CommentPageAnchor | null {
+  if (typeof comment.page_index !== 'number') return null;
+  return { pageIndex: comment.page_index, region: comment.page_region ?? null };
+}
+
+/**
+ * Whether a comment talks about a page the reader hasn't reached yet in this
+ * chapter. Comments about the chapter as a whole are never hidden.
+ */
+export function isPageSpoiler(comment: Pick<Comment, 'page_index'>, furthestPage: number): boolean {
+  return typeof comment.page_index === 'number' && comment.page_index > furthestPage;
+}
+
+// Anchored comments keyed by page index, each page's oldest first
+export function groupCommentsByPage<T extends Comment>(comments: T[]): Map<number, T[]> {
+  const byPage = new Map<number, T[]>();
+  comments.forEach(comment => {
+    if (typeof comment.page_index !== 'number') return;
+    byPage.set(comment.page_index, [...(byPage.get(comment.page_index) || []), comment]);
+  });
+  byPage.forEach(list => list.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()));
+  return byPage;
+}
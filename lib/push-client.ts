@@ -0,0 +1,93 @@
+// Browser side of web push: this device's push subscription.
+import { supabase } from './supabase';
+import { SERVICE_WORKER_URL, registerServiceWorker } from './service-worker';
+
+const SUBSCRIPTIONS_API = '/api/notifications/push-subscriptions';
+
+export type PushDeviceState = 'unsupported' | 'denied' | 'subscribed' | 'unsubscribed';
+
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  );
+}
+
+// The VAPID public key is base64url; pushManager.subscribe wants raw bytes
+function urlBase64ToUint8Array(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export async function getPushDeviceState(): Promise<PushDeviceState> {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription ? 'subscribed' : 'unsubscribed';
+}
+
+/**
+ * Asks for permission, subscribes this device and stores the subscription for
+ * the signed-in user. Resolves to the resulting device state.
+ */
+export async function subscribeToPush(): Promise<PushDeviceState> {
+  if (!isPushSupported()) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'unsubscribed';
+
+  const registration = await registerServiceWorker();
+  if (!registration) return 'unsupported';
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!),
+    }));
+
+  const res = await fetch(SUBSCRIPTIONS_API, {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify({ subscription: subscription.toJSON() }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to save push subscription');
+  }
+  return 'subscribed';
+}
+
+/**
+ * Removes this device's subscription, both from the browser and the server.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await fetch(SUBSCRIPTIONS_API, {
+    method: 'DELETE',
+    headers: await authHeaders(),
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  }).catch(error => console.error('Failed to remove push subscription:', error));
+  await subscription.unsubscribe();
+}
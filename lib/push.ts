@@ -0,0 +1,101 @@
+// Web Push delivery. Server only: needs the VAPID private key and the admin client.
+import webpush, { WebPushError } from 'web-push';
+import { supabaseAdmin } from './supabase/admin';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  // Opened when the notification is clicked
+  url: string;
+  // Notifications with the same tag replace each other on the device
+  tag?: string;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// How long the push service holds a push for a device that is offline
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+let vapidConfigured: boolean | null = null;
+
+function configureVapid(): boolean {
+  if (vapidConfigured !== null) return vapidConfigured;
+
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  vapidConfigured = !!(publicKey && privateKey);
+
+  if (vapidConfigured) {
+    webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:support@mangacom.ge', publicKey!, privateKey!);
+  } else {
+    console.warn('VAPID keys are not set; web push is disabled');
+  }
+  return vapidConfigured;
+}
+
+// 404/410 mean the browser dropped the subscription (uninstalled, permission revoked, expired)
+function isExpired(error: unknown): boolean {
+  return error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410);
+}
+
+/**
+ * Sends a push to every device the user subscribed from. Subscriptions the push
+ * service no longer knows about are deleted; other failures are logged and left
+ * in place so a temporary outage doesn't unsubscribe anyone.
+ * @returns How many devices accepted the push.
+ */
+export async function sendPushNotification(userId: string, payload: PushPayload): Promise<number> {
+  if (!configureVapid()) return 0;
+
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Failed to load push subscriptions:', error);
+    return 0;
+  }
+  if (!subscriptions || subscriptions.length === 0) return 0;
+
+  const body = JSON.stringify(payload);
+  const delivered: string[] = [];
+  const expired: string[] = [];
+
+  await Promise.all(
+    (subscriptions as PushSubscriptionRow[]).map(async subscription => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          body,
+          { TTL: PUSH_TTL_SECONDS }
+        );
+        delivered.push(subscription.id);
+      } catch (err) {
+        if (isExpired(err)) {
+          expired.push(subscription.id);
+        } else {
+          console.error(`Push to ${subscription.endpoint} failed:`, err);
+        }
+      }
+    })
+  );
+
+  if (expired.length > 0) {
+    const { error: deleteError } = await supabaseAdmin.from('push_subscriptions').delete().in('id', expired);
+    if (deleteError) console.error('Failed to remove expired push subscriptions:', deleteError);
+  }
+  if (delivered.length > 0) {
+    await supabaseAdmin
+      .from('push_subscriptions')
+      .update({ last_used_at: new Date().toISOString() })
+      .in('id', delivered);
+  }
+
+  return delivered.length;
+}
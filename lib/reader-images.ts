@@ -0,0 +1,152 @@
+// Page image URLs and prefetching for MangaReader.
+
+export type ReaderLayout = 'Long Strip' | 'Single Page' | 'Double Page';
+
+// Widths we ask Cloudinary for. Rounding up to a few sizes keeps its CDN cache
+// (and the browser's) warm instead of creating a derivative per window size.
+const WIDTH_STEPS = [480, 640, 800, 1080, 1280, 1600, 2048];
+
+// Pages fetched ahead at most, however fast someone reads
+const MAX_LOOKAHEAD = 12;
+// Aim to have about this much reading time loaded ahead
+const LOOKAHEAD_TIME_MS = 30000;
+
+const BASE_LOOKAHEAD: Record<ReaderLayout, number> = {
+  'Single Page': 3,
+  'Double Page': 4,
+  'Long Strip': 4,
+};
+
+// First pages of the next chapter fetched when the current one is almost done
+export const NEXT_CHAPTER_PREFETCH_PAGES = 3;
+
+const CLOUDINARY_UPLOAD = /^(https?:\/\/res\.cloudinary\.com\/[^/]+\/image\/upload\/)(.+)$/;
+// A path segment that is already a transformation (w_800, c_fill,h_300, …)
+const TRANSFORMATION_PARAM = '(?:a|ar|b|bo|c|dpr|e|f|fl|g|h|o|q|r|t|w|x|y|z)_[^,/]+';
+const TRANSFORMATION_SEGMENT = new RegExp(`^${TRANSFORMATION_PARAM}(?:,${TRANSFORMATION_PARAM})*$`);
+
+export interface ReaderImageOptions {
+  // CSS pixels the page is displayed at
+  displayWidth: number;
+  devicePixelRatio?: number;
+  dataSaver?: boolean;
+}
+
+export function isCloudinaryUrl(url: string): boolean {
+  return CLOUDINARY_UPLOAD.test(url);
+}
+
+function stepWidth(width: number): number {
+  return WIDTH_STEPS.find(step => step >= width) || WIDTH_STEPS[WIDTH_STEPS.length - 1];
+}
+
+/**
+ * Cloudinary URL resized and re-encoded for the reader's viewport: capped width
+ * (never upscaled), automatic format, and lower quality in data saver mode.
+ * Other URLs, and Cloudinary URLs that already carry a transformation, are returned as is.
+ */
+export function getReaderImageUrl(url: string, options: ReaderImageOptions): string {
+  const match = CLOUDINARY_UPLOAD.exec(url);
+  if (!match || TRANSFORMATION_SEGMENT.test(match[2].split('/')[0])) return url;
+
+  // Data saver ignores high-density screens; otherwise 2x is plenty for text
+  const dpr = options.dataSaver ? 1 : Math.min(options.devicePixelRatio || 1, 2);
+  const width = stepWidth(Math.ceil(options.displayWidth * dpr));
+  const quality = options.dataSaver ? 'q_auto:eco' : 'q_auto:good';
+
+  return `${match[1]}c_limit,w_${width},f_auto,${quality}/${match[2]}`;
+}
+
+/**
+ * Width a page is shown at for the current layout; two pages share the screen in Double Page.
+ */
+export function getPageDisplayWidth(layout: ReaderLayout, viewportWidth: number): number {
+  return layout === 'Double Page' ? viewportWidth / 2 : viewportWidth;
+}
+
+// Browser hint that the user is on a metered or very slow connection
+export function prefersReducedData(): boolean {
+  if (typeof navigator === 'undefined') return false;
+  const connection = (navigator as any).connection;
+  return !!connection && (connection.saveData || /(^|-)2g$/.test(connection.effectiveType || ''));
+}
+
+/**
+ * How many pages to fetch ahead of the current one. Fast readers get more so the
+ * next pages are ready by the time they turn; data saver keeps it to a couple.
+ * @param msPerPage Typical time spent per page, if known.
+ */
+export function getPrefetchLookahead(layout: ReaderLayout, msPerPage: number | null, dataSaver: boolean): number {
+  if (prefersReducedData()) return 1;
+
+  let lookahead = BASE_LOOKAHEAD[layout];
+  if (msPerPage && msPerPage > 0) {
+    lookahead = Math.max(lookahead, Math.ceil(LOOKAHEAD_TIME_MS / msPerPage));
+  }
+  lookahead = Math.min(lookahead, MAX_LOOKAHEAD);
+
+  return dataSaver ? Math.min(lookahead, 2) : lookahead;
+}
+
+/**
+ * Loads page images in the background a few at a time. Each schedule() call
+ * replaces the wish list, so pages the reader skipped past stop loading.
+ */
+export class PagePrefetcher {
+  private queue: string[] = [];
+  private readonly inFlight = new Map<string, HTMLImageElement>();
+  private readonly loaded = new Set<string>();
+
+  constructor(
+    private readonly onLoad: (url: string) => void,
+    private readonly concurrency: number = 3
+  ) {}
+
+  isLoaded(url: string): boolean {
+    return this.loaded.has(url);
+  }
+
+  // Marks an image the page itself loaded so it isn't fetched again
+  markLoaded(url: string): void {
+    this.loaded.add(url);
+  }
+
+  // URLs in priority order; the first ones start loading first
+  schedule(urls: string[]): void {
+    const wanted = new Set(urls);
+    this.inFlight.forEach((img, url) => {
+      if (wanted.has(url)) return;
+      img.onload = img.onerror = null;
+      img.src = '';
+      this.inFlight.delete(url);
+    });
+
+    this.queue = Array.from(wanted).filter(url => url && !this.loaded.has(url) && !this.inFlight.has(url));
+    this.pump();
+  }
+
+  clear(): void {
+    this.schedule([]);
+  }
+
+  private pump(): void {
+    while (this.inFlight.size < this.concurrency && this.queue.length > 0) {
+      const url = this.queue.shift()!;
+      const img = new Image();
+      img.decoding = 'async';
+      img.onload = () => {
+        this.inFlight.delete(url);
+        this.loaded.add(url);
+        this.onLoad(url);
+        this.pump();
+      };
+      img.onerror = () => {
+        this.inFlight.delete(url);
+        console.warn(`Failed to preload image: ${url}`);
+        this.pump();
+      };
+      this.inFlight.set(url, img);
+      img.src = url;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+// Keyboard and gamepad controls for MangaReader: the actions, their default keys,
+// and helpers for matching and displaying key combinations.
+
+export type ReaderAction =
+  | 'pageLeft'
+  | 'pageRight'
+  | 'nextPage'
+  | 'prevPage'
+  | 'scrollUp'
+  | 'scrollDown'
+  | 'nextChapter'
+  | 'prevChapter'
+  | 'close'
+  | 'toggleFullscreen'
+  | 'toggleSettings'
+  | 'toggleBottomBar'
+  | 'toggleChapterList'
+  | 'toggleComments'
+  | 'toggleMagnifier'
+  | 'toggleAutoScroll'
+  | 'autoScrollFaster'
+  | 'autoScrollSlower'
+  | 'cycleReadingMode'
+  | 'toggleReadingDirection'
+  | 'cyclePageFit'
+  | 'toggleBookmark'
+  | 'showShortcuts';
+
+export type ReaderActionGroup = 'navigation' | 'view' | 'panels';
+
+// A key combination such as "ArrowRight", "Shift+Space" or "?"
+export type KeyCombo = string;
+
+export type Keybindings = Record<ReaderAction, KeyCombo[]>;
+
+export const READER_ACTIONS: { action: ReaderAction; label: string; group: ReaderActionGroup }[] = [
+  { action: 'pageRight', label: 'მარჯვენა გვერდი', group: 'navigation' },
+  { action: 'pageLeft', label: 'მარცხენა გვერდი', group: 'navigation' },
+  { action: 'nextPage', label: 'შემდეგი გვერდი', group: 'navigation' },
+  { action: 'prevPage', label: 'წინა გვერდი', group: 'navigation' },
+  { action: 'scrollDown', label: 'ქვემოთ გადახვევა', group: 'navigation' },
+  { action: 'scrollUp', label: 'ზემოთ გადახვევა', group: 'navigation' },
+  { action: 'nextChapter', label: 'შემდეგი თავი', group: 'navigation' },
+  { action: 'prevChapter', label: 'წინა თავი', group: 'navigation' },
+  { action: 'toggleAutoScroll', label: 'ავტომატური გადახვევა', group: 'navigation' },
+  { action: 'autoScrollFaster', label: 'გადახვევა უფრო სწრაფად', group: 'navigation' },
+  { action: 'autoScrollSlower', label: 'გადახვევა უფრო ნელა', group: 'navigation' },
+  { action: 'cycleReadingMode', label: 'კითხვის რეჟიმი', group: 'view' },
+  { action: 'toggleReadingDirection', label: 'კითხვის მიმართულება', group: 'view' },
+  { action: 'cyclePageFit', label: 'გვერდის მორგება', group: 'view' },
+  { action: 'toggleFullscreen', label: 'მთლიანი ეკრანი', group: 'view' },
+  { action: 'toggleMagnifier', label: 'გამადიდებელი', group: 'view' },
+  { action: 'toggleBottomBar', label: 'ქვედა პანელი', group: 'view' },
+  { action: 'toggleSettings', label: 'პარამეტრები', group: 'panels' },
+  { action: 'toggleChapterList', label: 'თავების სია', group: 'panels' },
+  { action: 'toggleComments', label: 'კომენტარები', group: 'panels' },
+  { action: 'toggleBookmark', label: 'გვერდის სანიშნე', group: 'panels' },
+  { action: 'showShortcuts', label: 'მალსახმობები', group: 'panels' },
+  { action: 'close', label: 'დახურვა / უკან', group: 'panels' },
+];
+
+export const READER_ACTION_GROUP_LABELS: Record<ReaderActionGroup, string> = {
+  navigation: 'ნავიგაცია',
+  view: 'ხედი',
+  panels: 'პანელები',
+};
+
+export const DEFAULT_KEYBINDINGS: Keybindings = {
+  pageRight: ['ArrowRight'],
+  pageLeft: ['ArrowLeft'],
+  nextPage: ['Space'],
+  prevPage: ['Shift+Space'],
+  scrollDown: ['ArrowDown'],
+  scrollUp: ['ArrowUp'],
+  nextChapter: [']', 'PageDown'],
+  prevChapter: ['[', 'PageUp'],
+  toggleAutoScroll: ['a'],
+  autoScrollFaster: ['='],
+  autoScrollSlower: ['-'],
+  cycleReadingMode: ['r'],
+  toggleReadingDirection: ['d'],
+  cyclePageFit: ['p'],
+  toggleFullscreen: ['f'],
+  toggleMagnifier: ['z'],
+  toggleBottomBar: ['b'],
+  toggleSettings: ['s'],
+  toggleChapterList: ['c'],
+  toggleComments: ['m'],
+  toggleBookmark: ['k'],
+  showShortcuts: ['?'],
+  close: ['Escape'],
+};
+
+// Standard gamepad layout (https://w3c.github.io/gamepad/#remapping)
+export const GAMEPAD_BINDINGS: Record<number, ReaderAction> = {
+  0: 'nextPage', // A
+  1: 'prevPage', // B
+  4: 'pageLeft', // LB
+  5: 'pageRight', // RB
+  6: 'prevChapter', // LT
+  7: 'nextChapter', // RT
+  8: 'showShortcuts', // Back / Select
+  9: 'toggleSettings', // Start
+  12: 'scrollUp', // D-pad up
+  13: 'scrollDown', // D-pad down
+  14: 'pageLeft', // D-pad left
+  15: 'pageRight', // D-pad right
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  Spacebar: 'Space',
+  Esc: 'Escape',
+};
+
+const MODIFIERS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+/**
+ * Turns a keyboard event into a combo string. Shift is only recorded for named
+ * keys: for characters it is already part of the key ("?" rather than "Shift+/").
+ * Returns null for a lone modifier press.
+ */
+export function getKeyCombo(event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): KeyCombo | null {
+  if (MODIFIERS.includes(event.key)) return null;
+
+  const key = KEY_NAMES[event.key] || (event.key.length === 1 ? event.key.toLowerCase() : event.key);
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && key.length > 1) parts.push('Shift');
+  if (event.metaKey) parts.push('Meta');
+  parts.push(key);
+  return parts.join('+');
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+};
+
+export function formatKeyCombo(combo: KeyCombo): string {
+  return combo
+    .split('+')
+    .map(part => KEY_LABELS[part] || (part.length === 1 ? part.toUpperCase() : part))
+    .join(' + ');
+}
+
+/**
+ * Defaults overlaid with the user's changes. Only changed actions are stored, so
+ * actions added later pick up their defaults.
+ */
+export function resolveKeybindings(overrides?: Partial<Keybindings> | null): Keybindings {
+  const bindings = { ...DEFAULT_KEYBINDINGS };
+  if (overrides) {
+    (Object.keys(DEFAULT_KEYBINDINGS) as ReaderAction[]).forEach(action => {
+      const keys = overrides[action];
+      if (Array.isArray(keys)) bindings[action] = keys.filter(key => typeof key === 'string');
+    });
+  }
+  return bindings;
+}
+
+// What gets persisted: the actions whose keys differ from the defaults
+export function getKeybindingOverrides(bindings: Keybindings): Partial<Keybindings> {
+  const overrides: Partial<Keybindings> = {};
+  (Object.keys(DEFAULT_KEYBINDINGS) as ReaderAction[]).forEach(action => {
+    if (bindings[action].join('\n') !== DEFAULT_KEYBINDINGS[action].join('\n')) {
+      overrides[action] = bindings[action];
+    }
+  });
+  return overrides;
+}
+
+export function findActionForCombo(bindings: Keybindings, combo: KeyCombo): ReaderAction | null {
+  const entry = (Object.entries(bindings) as [ReaderAction, KeyCombo[]][]).find(([, keys]) => keys.includes(combo));
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Binds `combo` to `action`, taking it away from whichever action had it.
+ * @returns The new bindings and the action that lost the key, if any.
+ */
+export function assignKeybinding(
+  bindings: Keybindings,
+  action: ReaderAction,
+  combo: KeyCombo
+): { bindings: Keybindings; replaced: ReaderAction | null } {
+  const previous = findActionForCombo(bindings, combo);
+  if (previous === action) return { bindings, replaced: null };
+
+  const next = { ...bindings, [action]: [...bindings[action], combo] };
+  if (previous) next[previous] = bindings[previous].filter(key => key !== combo);
+  return { bindings: next, replaced: previous };
+}
+
+export function removeKeybinding(bindings: Keybindings, action: ReaderAction, combo: KeyCombo): Keybindings {
+  return { ...bindings, [action]: bindings[action].filter(key => key !== combo) };
+}
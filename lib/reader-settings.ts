@@ -0,0 +1,302 @@
+// MangaReader settings: the global preferences, per-series layout profiles keyed
+// by manga id, and syncing both to the user's profile.
+import { supabase } from './supabase';
+import type { Keybindings } from './reader-keybindings';
+
+export type ReadingMode = 'Long Strip' | 'Single Page' | 'Double Page';
+export type ReadingDirection = 'Left to Right' | 'Right to Left';
+export type PageFit = 'Contain' | 'Overflow' | 'Cover' | 'True size';
+export type PageStretch = 'None' | 'Stretch';
+
+export interface MangaReaderSettings {
+  readingMode: ReadingMode;
+  readingDirection: ReadingDirection;
+  pageFit: PageFit;
+  pageStretch: PageStretch;
+  showPageGap: boolean;
+  showLongStripGap: boolean;
+  showProgressBar: boolean;
+  showBottomBar: boolean;
+  showPageNumbers: boolean;
+  // Page-anchored comments next to the page they're about
+  showPageComments: boolean;
+  autoHideControls: boolean;
+  autoScrollSpeed: number;
+  // Smaller, lower-quality images and less prefetching
+  dataSaver: boolean;
+  // Only the shortcuts the user changed; see resolveKeybindings
+  keybindings: Partial<Keybindings>;
+}
+
+export const DEFAULT_READER_SETTINGS: MangaReaderSettings = {
+  readingMode: 'Single Page',
+  readingDirection: 'Left to Right',
+  pageFit: 'Contain',
+  pageStretch: 'None',
+  showPageGap: true,
+  showLongStripGap: true,
+  showProgressBar: true,
+  showBottomBar: true,
+  showPageNumbers: true,
+  showPageComments: true,
+  autoHideControls: true,
+  autoScrollSpeed: 1,
+  dataSaver: false,
+  keybindings: {},
+};
+
+// Layout settings that can differ per series; everything else is global
+export const SERIES_SETTING_KEYS = [
+  'readingMode',
+  'readingDirection',
+  'pageFit',
+  'pageStretch',
+  'showPageGap',
+  'showLongStripGap',
+] as const;
+
+export type SeriesSettingKey = (typeof SERIES_SETTING_KEYS)[number];
+
+export type SeriesSettings = Partial<Pick<MangaReaderSettings, SeriesSettingKey>>;
+
+export interface SeriesProfile {
+  settings: SeriesSettings;
+  // An empty `settings` with a timestamp records a reset, so it syncs like a change
+  updatedAt: number;
+}
+
+// Everything that is synced: the same shape is kept locally and in profiles.reader_settings
+export interface StoredReaderSettings {
+  global: Partial<MangaReaderSettings>;
+  globalUpdatedAt: number;
+  series: Record<string, SeriesProfile>;
+}
+
+// What is known about a title when the reader opens it
+export interface SeriesMetadata {
+  contentType?: 'manga' | 'comics';
+  genres?: string[];
+}
+
+// Global settings keep their original key so existing preferences carry over
+const GLOBAL_STORAGE_KEY = 'manga-reader-settings';
+const SERIES_STORAGE_KEY = 'manga-reader-series-settings';
+
+const READER_SETTINGS_ENDPOINT = '/api/user/reader-settings';
+
+// Only the most recently changed profiles are kept
+export const MAX_SERIES_PROFILES = 200;
+
+// Changes are pushed once the user stops fiddling with the settings panel
+const PUSH_DELAY = 3000;
+
+const WEBTOON_GENRES = /long strip|webtoon|manhwa|manhua|full color/i;
+
+export function isSeriesSettingKey(key: string): key is SeriesSettingKey {
+  return (SERIES_SETTING_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Layout a title starts with before the user changes anything. Comics read left
+ * to right a page at a time and webtoons are vertical strips; manga follows the
+ * global settings, which is where a reader's manga preference already lives.
+ */
+export function getSeriesDefaults(metadata: SeriesMetadata = {}): SeriesSettings {
+  if (metadata.genres?.some(genre => WEBTOON_GENRES.test(genre))) {
+    return { readingMode: 'Long Strip' };
+  }
+  if (metadata.contentType === 'comics') {
+    return { readingMode: 'Single Page', readingDirection: 'Left to Right' };
+  }
+  return {};
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (error) {
+    console.warn(`Failed to read ${key}:`, error);
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key}:`, error);
+  }
+}
+
+function readStored(): StoredReaderSettings {
+  const { updatedAt = 0, ...global } =
+    readJson<Partial<MangaReaderSettings> & { updatedAt?: number }>(GLOBAL_STORAGE_KEY) || {};
+  return {
+    global,
+    globalUpdatedAt: updatedAt,
+    series: readJson<Record<string, SeriesProfile>>(SERIES_STORAGE_KEY) || {},
+  };
+}
+
+function writeStored(stored: StoredReaderSettings): void {
+  writeJson(GLOBAL_STORAGE_KEY, { ...stored.global, updatedAt: stored.globalUpdatedAt });
+  writeJson(SERIES_STORAGE_KEY, stored.series);
+}
+
+const listeners = new Set<() => void>();
+
+// Called when synced settings from another device land locally
+export function subscribeToReaderSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function loadReaderSettings(): MangaReaderSettings {
+  if (typeof window === 'undefined') return DEFAULT_READER_SETTINGS;
+  return { ...DEFAULT_READER_SETTINGS, ...readStored().global };
+}
+
+export function saveReaderSettings(settings: MangaReaderSettings): void {
+  if (typeof window === 'undefined') return;
+  writeStored({ ...readStored(), global: settings, globalUpdatedAt: Date.now() });
+  schedulePush();
+}
+
+// The user's own overrides for a title, without the derived defaults
+export function getSeriesSettings(mangaId: string): SeriesSettings {
+  if (typeof window === 'undefined') return {};
+  return readStored().series[mangaId]?.settings || {};
+}
+
+/**
+ * Replaces the overrides for a title. Pass `{}` to go back to the defaults.
+ */
+export function saveSeriesSettings(mangaId: string, settings: SeriesSettings): void {
+  if (typeof window === 'undefined') return;
+  const stored = readStored();
+  stored.series = pruneSeries({ ...stored.series, [mangaId]: { settings, updatedAt: Date.now() } });
+  writeStored(stored);
+  schedulePush();
+}
+
+/**
+ * Settings the reader uses for a title: global settings, then the defaults for
+ * its kind of content, then the user's overrides for that title.
+ */
+export function resolveReaderSettings(mangaId: string, metadata?: SeriesMetadata): MangaReaderSettings {
+  return { ...loadReaderSettings(), ...getSeriesDefaults(metadata), ...getSeriesSettings(mangaId) };
+}
+
+function pruneSeries(series: Record<string, SeriesProfile>): Record<string, SeriesProfile> {
+  const entries = Object.entries(series);
+  if (entries.length <= MAX_SERIES_PROFILES) return series;
+  return Object.fromEntries(entries.sort(([, a], [, b]) => b.updatedAt - a.updatedAt).slice(0, MAX_SERIES_PROFILES));
+}
+
+/**
+ * Combines two copies of the settings. The global settings and each series
+ * profile are taken whole from whichever side changed them last.
+ */
+export function mergeStoredReaderSettings(a: StoredReaderSettings, b: StoredReaderSettings): StoredReaderSettings {
+  const series = { ...a.series };
+  Object.entries(b.series).forEach(([mangaId, profile]) => {
+    if (!series[mangaId] || profile.updatedAt > series[mangaId].updatedAt) series[mangaId] = profile;
+  });
+
+  const globalFromB = b.globalUpdatedAt > a.globalUpdatedAt;
+  return {
+    global: globalFromB ? b.global : a.global,
+    globalUpdatedAt: Math.max(a.globalUpdatedAt, b.globalUpdatedAt),
+    series: pruneSeries(series),
+  };
+}
+
+// Whether `local` holds anything the server copy doesn't have yet
+function hasNewerChanges(local: StoredReaderSettings, remote: StoredReaderSettings): boolean {
+  if (local.globalUpdatedAt > remote.globalUpdatedAt) return true;
+  return Object.entries(local.series).some(
+    ([mangaId, profile]) => profile.updatedAt > (remote.series[mangaId]?.updatedAt ?? 0)
+  );
+}
+
+async function getAccessToken(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Store what the server merged and let open readers pick it up
+function applyRemote(remote: StoredReaderSettings): void {
+  writeStored(mergeStoredReaderSettings(readStored(), remote));
+  listeners.forEach(listener => listener());
+}
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function schedulePush(): void {
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => {
+    pushTimer = null;
+    pushReaderSettings();
+  }, PUSH_DELAY);
+}
+
+/**
+ * Sends this device's settings to the profile. The server merges them with what
+ * other devices saved and answers with the result.
+ */
+export async function pushReaderSettings(): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  const token = await getAccessToken();
+  // Guests keep their settings on this device
+  if (!token) return;
+
+  try {
+    const res = await fetch(READER_SETTINGS_ENDPOINT, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(readStored()),
+    });
+    if (!res.ok) throw new Error(`Reader settings sync failed with ${res.status}`);
+
+    const json = await res.json();
+    if (json.settings) applyRemote(json.settings);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('Reader settings sync failed:', error);
+    }
+  }
+}
+
+/**
+ * Pulls the settings saved on the profile after login, then sends back anything
+ * this device changed more recently.
+ */
+export async function syncReaderSettings(): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  const token = await getAccessToken();
+  if (!token) return;
+
+  try {
+    const res = await fetch(READER_SETTINGS_ENDPOINT, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`Reader settings pull failed with ${res.status}`);
+
+    const json = await res.json();
+    const remote: StoredReaderSettings = json.settings || { global: {}, globalUpdatedAt: 0, series: {} };
+    const local = readStored();
+    applyRemote(remote);
+    if (hasNewerChanges(local, remote)) await pushReaderSettings();
+  } catch (error) {
+    console.error('Failed to pull reader settings:', error);
+  }
+}
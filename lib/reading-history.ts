@@ -1,5 +1,8 @@
 import { supabase } from '@/lib/supabase'
 
+// Where a chapter lives: our own `chapters` table or an external source such as MangaDex
+export type ChapterSource = 'local' | 'mangadex'
+
 // Define types for reading history
 export interface ReadingProgress {
   mangaId: string
@@ -11,6 +14,7 @@ export interface ReadingProgress {
   lastRead: number // timestamp
   mangaTitle: string
   mangaThumbnail: string
+  source?: ChapterSource // defaults to 'local'
 }
 
 // Define types for the total manga pages information
@@ -19,27 +23,101 @@ export interface MangaTotalPages {
   totalPages: number;
 }
 
-// Supabase table name for reading history (make sure this table exists with proper RLS)
-const READING_HISTORY_TABLE = 'reading_history'
+// Row shape of the `reading_history` table (one row per user + manga)
+export interface ReadingHistoryRow {
+  user_id: string
+  manga_id: string
+  chapter_id: string | null
+  external_chapter_id: string | null
+  source: ChapterSource
+  chapter_number: number
+  chapter_title: string | null
+  page: number
+  total_pages: number
+  manga_title: string | null
+  manga_thumbnail: string | null
+  last_read: string
+  updated_at: string
+}
 
 // Key for localStorage
 const READING_HISTORY_KEY = "manganime-reading-history";
 
+// Progress waiting to reach the server; survives reloads and offline periods
+const READING_HISTORY_OUTBOX_KEY = "manganime-reading-history-outbox";
+// Progress still unsent when its user signed out, parked under `${prefix}${userId}` until they log in again
+const PARKED_OUTBOX_KEY_PREFIX = "manganime-reading-history-outbox-";
+
+const READING_HISTORY_ENDPOINT = '/api/user/reading-history';
+
+// Local history keeps one entry per manga, capped to the most recent ones
+const MAX_HISTORY_ENTRIES = 50;
+
+// Outbox flushes are debounced; failures back off up to a minute
+const OUTBOX_FLUSH_DELAY = 2000;
+const OUTBOX_MAX_RETRY_DELAY = 60000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Order two progress entries for the same manga: furthest chapter, then furthest
+ * page, then the latest timestamp. The chapter id only breaks exact ties so that
+ * every device (and the server) picks the same winner.
+ */
+export function compareProgress(a: ReadingProgress, b: ReadingProgress): number {
+  if (a.chapterNumber !== b.chapterNumber) return a.chapterNumber - b.chapterNumber;
+  if (a.currentPage !== b.currentPage) return a.currentPage - b.currentPage;
+  if (a.lastRead !== b.lastRead) return a.lastRead - b.lastRead;
+  return a.chapterId < b.chapterId ? -1 : a.chapterId > b.chapterId ? 1 : 0;
+}
+
+export function toReadingHistoryRow(userId: string, progress: ReadingProgress): ReadingHistoryRow {
+  const source = progress.source || 'local';
+  const isLocalChapter = source === 'local' && UUID_REGEX.test(progress.chapterId);
+  return {
+    user_id: userId,
+    manga_id: progress.mangaId,
+    chapter_id: isLocalChapter ? progress.chapterId : null,
+    external_chapter_id: source === 'local' ? null : progress.chapterId,
+    source,
+    chapter_number: progress.chapterNumber,
+    chapter_title: progress.chapterTitle || null,
+    page: progress.currentPage,
+    total_pages: progress.totalPages,
+    manga_title: progress.mangaTitle || null,
+    manga_thumbnail: progress.mangaThumbnail || null,
+    last_read: new Date(progress.lastRead).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export function fromReadingHistoryRow(row: ReadingHistoryRow): ReadingProgress {
+  const chapterNumber = Number(row.chapter_number);
+  return {
+    mangaId: row.manga_id,
+    // Placeholder ids (`chapter-N`) are not stored; rebuild them from the number
+    chapterId: row.chapter_id || row.external_chapter_id || `chapter-${chapterNumber}`,
+    chapterNumber,
+    chapterTitle: row.chapter_title || '',
+    currentPage: row.page,
+    totalPages: row.total_pages,
+    lastRead: new Date(row.last_read).getTime(),
+    mangaTitle: row.manga_title || '',
+    mangaThumbnail: row.manga_thumbnail || '',
+    source: row.source,
+  };
+}
 
-// Helper – get currently authenticated user (fast local token check first)
-function getCurrentUserIdSync(): string | null {
-  if (typeof window === 'undefined') return null
+async function getAccessToken(): Promise<string | null> {
   try {
-    const json = localStorage.getItem('sb-access-token')
-    if (!json) return null
-    const { user } = JSON.parse(json)
-    return user?.id ?? null
+    const { data } = await supabase.auth.getSession()
+    return data.session?.access_token ?? null
   } catch {
     return null
   }
 }
 
-async function getCurrentUserIdAsync(): Promise<string | null> {
+async function getSessionUserId(): Promise<string | null> {
   try {
     const { data } = await supabase.auth.getSession()
     return data.session?.user?.id ?? null
@@ -48,84 +126,147 @@ async function getCurrentUserIdAsync(): Promise<string | null> {
   }
 }
 
+function saveReadingHistory(history: ReadingProgress[]): void {
+  localStorage.setItem(READING_HISTORY_KEY, JSON.stringify(history.slice(0, MAX_HISTORY_ENTRIES)));
+}
+
+function readOutbox(key: string = READING_HISTORY_OUTBOX_KEY): ReadingProgress[] {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as ReadingProgress[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(outbox: ReadingProgress[]): void {
+  if (outbox.length === 0) {
+    localStorage.removeItem(READING_HISTORY_OUTBOX_KEY);
+  } else {
+    localStorage.setItem(READING_HISTORY_OUTBOX_KEY, JSON.stringify(outbox));
+  }
+}
+
+// Queue progress for the server; only the furthest pending entry per manga is kept
+function enqueueProgress(progress: ReadingProgress): void {
+  const outbox = readOutbox();
+  const queued = outbox.find(item => item.mangaId === progress.mangaId);
+  if (queued && compareProgress(queued, progress) > 0) return;
+  writeOutbox([...outbox.filter(item => item.mangaId !== progress.mangaId), progress]);
+}
+
+// Fold server entries into local history with the same rule used for duplicates
+function mergeIntoLocalHistory(remote: ReadingProgress[]): ReadingProgress[] {
+  const merged = cleanupDuplicateEntries([...getReadingHistory(), ...remote]);
+  saveReadingHistory(merged);
+  return merged;
+}
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushPromise: Promise<void> | null = null;
+let flushRetryDelay = OUTBOX_FLUSH_DELAY;
+let onlineListenerAttached = false;
+
+function scheduleOutboxFlush(delay: number = OUTBOX_FLUSH_DELAY): void {
+  if (typeof window === 'undefined') return;
+  if (!onlineListenerAttached) {
+    onlineListenerAttached = true;
+    window.addEventListener('online', () => scheduleOutboxFlush(0));
+  }
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushReadingHistoryOutbox();
+  }, delay);
+}
+
 /**
- * Upsert a reading-progress row to Supabase. Runs in the background – UI never awaits it.
+ * Push queued progress to the server. Entries stay queued until the server has
+ * accepted them; the server answers with its merged rows, which win locally too.
+ * Concurrent callers share the running flush.
  */
-async function syncProgressToSupabase(progress: ReadingProgress): Promise<void> {
-  try {
-    const { data: session } = await supabase.auth.getSession();
-    const userId = session.session?.user.id;
-    if (!userId) {
-      if (process.env.NODE_ENV === 'development') {
-        console.log('No user session, skipping Supabase sync');
-      }
-      return;
-    }
+export async function flushReadingHistoryOutbox(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  if (flushPromise) return flushPromise;
+  flushPromise = sendOutbox().finally(() => {
+    flushPromise = null;
+  });
+  return flushPromise;
+}
 
-    // Skip syncing for external chapters (e.g., mangadex) that don't exist in
-    // our local `chapters` table. This prevents foreign-key violations.
-    if (!progress.chapterId || progress.chapterId.length !== 36) {
-      if (process.env.NODE_ENV === 'development') {
-        console.log('Skipping Supabase sync for external chapter:', progress.chapterId);
-      }
-      return;
+async function sendOutbox(): Promise<void> {
+  const sent = readOutbox();
+  if (sent.length === 0) return;
+
+  const token = await getAccessToken();
+  // Guests keep their queue until they log in
+  if (!token) return;
+
+  try {
+    const res = await fetch(READING_HISTORY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ entries: sent }),
+    });
+    if (!res.ok) throw new Error(`Reading history sync failed with ${res.status}`);
+
+    const json = await res.json();
+    mergeIntoLocalHistory(json.history || []);
+
+    // Anything queued while the request was in flight stays for the next flush
+    const sentKeys = new Set(sent.map(item => JSON.stringify(item)));
+    writeOutbox(readOutbox().filter(item => !sentKeys.has(JSON.stringify(item))));
+    flushRetryDelay = OUTBOX_FLUSH_DELAY;
+
+    if (readOutbox().length > 0) scheduleOutboxFlush();
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('Reading history sync failed, will retry:', error);
     }
+    flushRetryDelay = Math.min(flushRetryDelay * 2, OUTBOX_MAX_RETRY_DELAY);
+    scheduleOutboxFlush(flushRetryDelay);
+  }
+}
 
-    // Build a minimal payload to reduce chances of column errors
-    const payload = {
-      user_id: userId,
-      manga_id: progress.mangaId,
-      chapter_id: progress.chapterId,
-      page: progress.currentPage,
-      total_pages: progress.totalPages,
-      updated_at: new Date().toISOString(),
-      last_read: new Date(progress.lastRead).toISOString(),
-    };
+/**
+ * Pull the server history after login and reconcile it with this device. Local
+ * entries that beat the server (e.g. read while logged out) are queued for upload.
+ */
+export async function syncReadingHistory(): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  const token = await getAccessToken();
+  if (!token) return;
+
+  // Progress that didn't make it out before this user last signed out on this device
+  const userId = await getSessionUserId();
+  if (userId) {
+    const parked = readOutbox(PARKED_OUTBOX_KEY_PREFIX + userId);
+    parked.forEach(enqueueProgress);
+    localStorage.removeItem(PARKED_OUTBOX_KEY_PREFIX + userId);
+  }
 
-    // Add retry with exponential backoff
-    let retries = 0;
-    const maxRetries = 2; // Reduced retries for faster feedback
-    
-    while (retries < maxRetries) {
-      try {
-        const { error } = await supabase
-          .from(READING_HISTORY_TABLE)
-          .upsert(payload, { onConflict: 'user_id,manga_id,chapter_id' });
-
-        if (!error) {
-          if (process.env.NODE_ENV === 'development') {
-            console.log('✅ Progress synced to Supabase successfully');
-          }
-          return; // Success
-        }
-
-        // Ignore specific expected errors silently
-        if (error.code === '23503' || error.code === '409' || error.code === '42703') {
-          if (process.env.NODE_ENV === 'development') {
-            console.log('Ignoring expected Supabase error:', error.code);
-          }
-          return; // Consider sync successful
-        }
-
-        // For other errors, retry
-        throw error;
-        
-      } catch (error: any) {
-        retries++;
-        if (retries >= maxRetries) {
-          throw error; // Final failure
-        }
-        
-        // Exponential backoff: 500ms, 1000ms
-        await new Promise(resolve => setTimeout(resolve, 500 * Math.pow(2, retries - 1)));
+  try {
+    const res = await fetch(READING_HISTORY_ENDPOINT, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`Reading history pull failed with ${res.status}`);
+
+    const json = await res.json();
+    const remote: ReadingProgress[] = json.history || [];
+    const remoteByManga = new Map(remote.map(item => [item.mangaId, item]));
+
+    for (const entry of mergeIntoLocalHistory(remote)) {
+      const serverEntry = remoteByManga.get(entry.mangaId);
+      if (!serverEntry || compareProgress(entry, serverEntry) > 0) {
+        enqueueProgress(entry);
       }
     }
   } catch (error) {
-    // Log error but don't throw - this is fire-and-forget
-    if (process.env.NODE_ENV === 'development') {
-      console.warn('Failed to sync progress to Supabase after retries:', error);
-    }
+    console.error('Failed to pull reading history:', error);
   }
+
+  scheduleOutboxFlush(0);
 }
 
 // Clean up duplicate manga entries (keep only the most advanced progress per manga)
@@ -135,28 +276,9 @@ function cleanupDuplicateEntries(history: ReadingProgress[]): ReadingProgress[]
   for (const entry of history) {
     const existingEntry = mangaMap.get(entry.mangaId);
     
-    if (!existingEntry) {
-      // First entry for this manga
+    // Keep the more advanced entry (see compareProgress)
+    if (!existingEntry || compareProgress(entry, existingEntry) > 0) {
       mangaMap.set(entry.mangaId, entry);
-    } else {
-      // Compare progress and keep the more advanced one
-      let shouldReplace = false;
-      
-      if (entry.chapterNumber > existingEntry.chapterNumber) {
-        shouldReplace = true;
-      } else if (entry.chapterNumber === existingEntry.chapterNumber && 
-                 entry.currentPage > existingEntry.currentPage) {
-        shouldReplace = true;
-      } else if (entry.chapterNumber === existingEntry.chapterNumber && 
-                 entry.currentPage === existingEntry.currentPage &&
-                 entry.lastRead > existingEntry.lastRead) {
-        // Same progress but more recent timestamp
-        shouldReplace = true;
-      }
-      
-      if (shouldReplace) {
-        mangaMap.set(entry.mangaId, entry);
-      }
     }
   }
   
@@ -209,6 +331,15 @@ export function getChapterProgress(mangaId: string, chapterId: string): ReadingP
   );
 }
 
+// Furthest page index read in a chapter: -1 if the reader hasn't got there yet,
+// Infinity for chapters before the one they're on
+export function getFurthestPageRead(mangaId: string, chapterNumber: number): number {
+  const progress = getMangaProgress(mangaId);
+  if (!progress || progress.chapterNumber < chapterNumber) return -1;
+  if (progress.chapterNumber > chapterNumber) return Infinity;
+  return progress.currentPage;
+}
+
 // Update reading progress
 export function updateReadingProgress(progress: ReadingProgress): void {
   if (typeof window === "undefined") return;
@@ -267,11 +398,8 @@ export function updateReadingProgress(progress: ReadingProgress): void {
     // Add the progress to the beginning (most recent) - always update to refresh metadata
     const updatedHistory = [finalProgress, ...filteredHistory];
     
-    // Keep only the 50 most recent entries (one per manga)
-    const limitedHistory = updatedHistory.slice(0, 50);
-    
-    // Save to localStorage
-    localStorage.setItem(READING_HISTORY_KEY, JSON.stringify(limitedHistory));
+    // Save to localStorage (keeps only the most recent entries, one per manga)
+    saveReadingHistory(updatedHistory);
 
     // Debug logging
     if (process.env.NODE_ENV === 'development') {
@@ -282,14 +410,10 @@ export function updateReadingProgress(progress: ReadingProgress): void {
       }
     }
 
-    // Fire-and-forget Supabase sync with improved error handling (only if progress was updated)
+    // Queue for the server (only if progress was updated); the outbox retries until it lands
     if (shouldUpdate) {
-      syncProgressToSupabase(finalProgress).catch(error => {
-        // Silent fail for sync, but log in development
-        if (process.env.NODE_ENV === 'development') {
-          console.warn('Failed to sync progress to Supabase:', error);
-        }
-      });
+      enqueueProgress(finalProgress);
+      scheduleOutboxFlush();
     }
   } catch (error) {
     console.error("Failed to update reading history:", error);
@@ -314,21 +438,49 @@ export function getRecentlyRead(limit: number = 10): ReadingProgress[] {
   return getReadingHistory().slice(0, limit);
 }
 
+/**
+ * Forget this device's history and queue when the user signs out, so the next
+ * account to log in here doesn't inherit them. Call it while the session still
+ * exists: whatever is queued gets one last chance to reach the server, and what
+ * the server didn't accept is parked for this user's next login here.
+ */
+export async function clearLocalReadingHistory(): Promise<void> {
+  if (typeof window === "undefined") return;
+  // A flush already running may have started before the latest entries were queued
+  if (flushPromise) await flushPromise;
+  await flushReadingHistoryOutbox();
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+
+  const unsent = readOutbox();
+  const userId = await getSessionUserId();
+  if (unsent.length > 0 && userId) {
+    const parkedKey = PARKED_OUTBOX_KEY_PREFIX + userId;
+    const parked = readOutbox(parkedKey).filter(item => !unsent.some(entry => entry.mangaId === item.mangaId));
+    localStorage.setItem(parkedKey, JSON.stringify([...parked, ...unsent]));
+  }
+  localStorage.removeItem(READING_HISTORY_KEY);
+  writeOutbox([]);
+}
+
 // Clear reading history
 export function clearReadingHistory(): void {
   if (typeof window === "undefined") return;
   localStorage.removeItem(READING_HISTORY_KEY);
+  writeOutbox([]);
 
-  // Also clear from Supabase in the background (best-effort)
+  // Also clear on the server, otherwise the next pull would bring it back
   (async () => {
-    const userId = await getCurrentUserIdAsync();
-    if (!userId) return;
-    const { error } = await supabase
-      .from(READING_HISTORY_TABLE)
-      .delete()
-      .eq('user_id', userId);
-    if (error) {
-      console.error('Failed to clear reading history in Supabase:', error);
+    const token = await getAccessToken();
+    if (!token) return;
+    try {
+      const res = await fetch(READING_HISTORY_ENDPOINT, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error(`Status ${res.status}`);
+    } catch (error) {
+      console.error('Failed to clear reading history on the server:', error);
     }
   })();
 }
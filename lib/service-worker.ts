@@ -0,0 +1,13 @@
+// Registration of public/sw.js, shared by web push and offline downloads.
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+}
@@ -122,5 +122,9 @@ export type Chapter = {
   title: string
   pages_count: number
   release_date: string
+  // Null while the chapter is scheduled for a future release
+  published_at?: string | null
+  // When VIP members can read it before it's published
+  early_access_at?: string | null
   created_at: string
 } 
\ No newline at end of file
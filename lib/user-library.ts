@@ -1,6 +1,5 @@
 // Types for user library management
 import { supabase } from './supabase';
-import { toast } from '@/components/ui/use-toast';
 
 // Define the type for media status
 export type MediaStatus = 'reading' | 'completed' | 'on_hold' | 'dropped' | 'plan_to_read' | null;
@@ -22,11 +21,44 @@ export interface LibraryItem {
   lastUpdated: number; // Timestamp
 }
 
-// LocalStorage keys (used as fallback when offline or not logged in)
+// Removed items are remembered so the deletion can win over older copies on other devices
+export interface LibraryTombstone {
+  id: string;
+  type: MediaType;
+  deletedAt: number; // Timestamp
+}
+
+export type LibrarySyncStatus =
+  | 'idle'     // nothing has happened yet in this session
+  | 'local'    // not logged in – the library only lives on this device
+  | 'pending'  // local changes are waiting to be pushed
+  | 'syncing'
+  | 'synced'
+  | 'offline'  // changes are queued until the browser is back online
+  | 'error';   // last attempt failed, a retry is scheduled
+
+export interface LibrarySyncState {
+  status: LibrarySyncStatus;
+  pendingCount: number;
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+// LocalStorage keys – the library is cached locally and reconciled with `watchlist`
 const USER_LIBRARY_KEY = 'manganime-user-library';
+const USER_LIBRARY_TOMBSTONES_KEY = 'manganime-user-library-tombstones';
+// Keys (`${id}-${type}`) changed locally since the last successful sync
+const USER_LIBRARY_PENDING_KEY = 'manganime-user-library-pending';
+
+// Synced tombstones are dropped after this long; every device has seen them by then
+const TOMBSTONE_TTL = 90 * 24 * 60 * 60 * 1000;
 
-// Helper to get current Supabase user id (supports async)
-async function getCurrentUserIdAsync(): Promise<string | null> {
+// Local changes are batched before syncing; failed syncs back off up to a minute
+const SYNC_DELAY = 1500;
+const SYNC_MAX_RETRY_DELAY = 60000;
+
+// Helper to get current Supabase user id from the client session
+async function getCurrentUserId(): Promise<string | null> {
   try {
     const { data } = await supabase.auth.getSession();
     return data.session?.user?.id ?? null;
@@ -35,93 +67,78 @@ async function getCurrentUserIdAsync(): Promise<string | null> {
   }
 }
 
-// Legacy sync helper (falls back to localStorage token decode if needed). May return null quickly.
-function getCurrentUserId(): string | null {
-  if (typeof window === 'undefined') return null;
-  const json = localStorage.getItem('sb-access-token');
-  if (!json) return null;
-  try {
-    const { user } = JSON.parse(json);
-    return user?.id ?? null;
-  } catch {
-    return null;
-  }
+function libraryKey(id: string, type: MediaType): string {
+  return `${id}-${type}`;
 }
 
-// Get all items in user's library (combines Supabase and localStorage)
-export async function getUserLibrary(): Promise<LibraryItem[]> {
-  const userId = getCurrentUserId();
-
-  // If not logged in or running on server side, use localStorage only
-  if (!userId || typeof window === 'undefined') {
-    return getLocalLibrary();
-  }
-  
+function readStorage<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
   try {
-    // Get data from Supabase
-    const { data, error } = await supabase
-      .from('watchlist')
-      .select('*, content(*)')
-      .eq('user_id', userId);
-    
-    if (error) {
-      console.error('Failed to get watchlist from Supabase:', error);
-      return getLocalLibrary(); // Fallback to localStorage if Supabase fails
-    }
-    
-    // Convert Supabase watchlist format to LibraryItem format
-    const libraryItems: LibraryItem[] = data.map(item => ({
-      id: item.content_id,
-      type: item.content_type as MediaType,
-      title: item.content?.title || 'Unknown',
-      thumbnail: item.content?.thumbnail || '',
-      status: mapStatusFromServer(item.status),
-      progress: item.progress || 0,
-      totalItems: item.content?.chapters_count, // Only chapters_count is needed now
-      score: item.rating,
-      startDate: item.started_at ? new Date(item.started_at).getTime() : undefined,
-      finishDate: item.finished_at ? new Date(item.finished_at).getTime() : undefined,
-      lastUpdated: item.updated_at ? new Date(item.updated_at).getTime() : Date.now()
-    }));
-    
-    // Get local items too and merge them (for items not yet synced)
-    const localItems = getLocalLibrary();
-    const serverIds = new Set(libraryItems.map(item => `${item.id}-${item.type}`));
-    
-    // Add local items that aren't on the server yet
-    const unsyncdLocalItems = localItems.filter(
-      item => !serverIds.has(`${item.id}-${item.type}`)
-    );
-    
-    if (unsyncdLocalItems.length > 0) {
-      console.log(`Found ${unsyncdLocalItems.length} items in localStorage that need syncing to server`);
-      // Sync these items to server
-      for (const item of unsyncdLocalItems) {
-        syncItemToServer(item);
-      }
-      
-      // Include these items in the result
-      libraryItems.push(...unsyncdLocalItems);
-    }
-    
-    return libraryItems;
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
   } catch (error) {
-    console.error('Error fetching user library:', error);
-    return getLocalLibrary(); // Fallback to localStorage
+    console.error(`Failed to read ${key} from localStorage:`, error);
+    return fallback;
   }
 }
 
+function writeStorage(key: string, value: unknown): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
 // Helper function to get library from localStorage
 function getLocalLibrary(): LibraryItem[] {
-  if (typeof window === 'undefined') return [];
-  
-  try {
-    const library = localStorage.getItem(USER_LIBRARY_KEY);
-    return library ? JSON.parse(library) : [];
-  } catch (error) {
-    console.error('Failed to get user library from localStorage:', error);
-    return [];
-  }
+  return readStorage<LibraryItem[]>(USER_LIBRARY_KEY, []);
+}
+
+function getLocalTombstones(): LibraryTombstone[] {
+  return readStorage<LibraryTombstone[]>(USER_LIBRARY_TOMBSTONES_KEY, []);
+}
+
+function getPendingKeys(): string[] {
+  return readStorage<string[]>(USER_LIBRARY_PENDING_KEY, []);
+}
+
+function setPendingKeys(keys: string[]): void {
+  writeStorage(USER_LIBRARY_PENDING_KEY, keys);
+  setSyncState({ pendingCount: keys.length });
+}
+
+function markPending(id: string, type: MediaType): void {
+  const key = libraryKey(id, type);
+  const pending = getPendingKeys();
+  if (!pending.includes(key)) setPendingKeys([...pending, key]);
+}
+
+// ---------------------------------------------------------------------------
+// Sync status – a tiny store that components subscribe to (see useLibrarySync)
+// ---------------------------------------------------------------------------
+
+const syncListeners: Array<(state: LibrarySyncState) => void> = [];
+
+let syncState: LibrarySyncState = {
+  status: 'idle',
+  pendingCount: getPendingKeys().length,
+  lastSyncedAt: null,
+  error: null,
+};
+
+function setSyncState(update: Partial<LibrarySyncState>): void {
+  syncState = { ...syncState, ...update };
+  syncListeners.forEach(listener => listener(syncState));
+}
+
+export function getLibrarySyncState(): LibrarySyncState {
+  return syncState;
+}
+
+export function subscribeToLibrarySync(listener: (state: LibrarySyncState) => void): () => void {
+  syncListeners.push(listener);
+  return () => {
+    const index = syncListeners.indexOf(listener);
+    if (index > -1) syncListeners.splice(index, 1);
+  };
 }
 
 // Helper function to map status from server format to client format
@@ -140,7 +157,7 @@ function mapStatusFromServer(serverStatus: string): MediaStatus {
 }
 
 // Helper function to map status from client format to server format
-function mapStatusToServer(status: MediaStatus, type: MediaType): string {
+function mapStatusToServer(status: MediaStatus): string {
   if (!status) return 'plan_to_read';
   const statusMap: Record<Exclude<MediaStatus, null>, string> = {
     reading: 'reading',
@@ -152,35 +169,250 @@ function mapStatusToServer(status: MediaStatus, type: MediaType): string {
   return statusMap[status] ?? 'plan_to_read';
 }
 
-// Helper function to sync an item from localStorage to server
-async function syncItemToServer(item: LibraryItem): Promise<boolean> {
-  const userId = await getCurrentUserIdAsync();
-  if (!userId) return false;
-  
+// Convert Supabase watchlist format to LibraryItem format
+export function fromWatchlistRow(row: any): LibraryItem {
+  return {
+    id: row.content_id,
+    type: row.content_type as MediaType,
+    title: row.content?.title || 'Unknown',
+    thumbnail: row.content?.thumbnail || '',
+    status: mapStatusFromServer(row.status),
+    progress: row.progress || 0,
+    totalItems: row.content?.chapters_count, // Only chapters_count is needed now
+    score: row.rating,
+    startDate: row.started_at ? new Date(row.started_at).getTime() : undefined,
+    finishDate: row.finished_at ? new Date(row.finished_at).getTime() : undefined,
+    lastUpdated: row.updated_at ? new Date(row.updated_at).getTime() : 0
+  };
+}
+
+// One side's view of an item: present (item) or removed (tombstone), whichever is newer
+interface LibraryRecord {
+  item?: LibraryItem;
+  tombstone?: LibraryTombstone;
+  updatedAt: number;
+}
+
+function toRecord(item?: LibraryItem, tombstone?: LibraryTombstone): LibraryRecord | null {
+  if (item && (!tombstone || item.lastUpdated >= tombstone.deletedAt)) {
+    return { item, updatedAt: item.lastUpdated };
+  }
+  if (tombstone) return { tombstone, updatedAt: tombstone.deletedAt };
+  return null;
+}
+
+function withMissingDates(item: LibraryItem, other: LibraryItem): LibraryItem {
+  if ((item.startDate || !other.startDate) && (item.finishDate || !other.finishDate)) return item;
+  return {
+    ...item,
+    startDate: item.startDate ?? other.startDate,
+    finishDate: item.finishDate ?? other.finishDate,
+  };
+}
+
+let syncPromise: Promise<number> | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let syncRetryDelay = SYNC_DELAY;
+let connectivityListenersAttached = false;
+
+function scheduleSync(delay: number = SYNC_DELAY): void {
+  if (typeof window === 'undefined') return;
+  if (!connectivityListenersAttached) {
+    connectivityListenersAttached = true;
+    window.addEventListener('online', () => scheduleSync(0));
+    window.addEventListener('offline', () => setSyncState({ status: 'offline' }));
+  }
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncLibrary().catch(() => {});
+  }, delay);
+}
+
+/**
+ * Reconcile the local library with the server. Every item is resolved on its own:
+ * the newest of the local and server versions wins, and a removal (tombstone) is
+ * just another version. Local winners are pushed, server winners replace the cache.
+ * Returns the number of changes pushed to the server.
+ */
+export async function syncLibrary(): Promise<number> {
+  if (typeof window === 'undefined') return 0;
+  // Concurrent callers share the running sync
+  if (syncPromise) return syncPromise;
+  syncPromise = runSync().finally(() => {
+    syncPromise = null;
+  });
+  return syncPromise;
+}
+
+async function runSync(): Promise<number> {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    setSyncState({ status: 'local' });
+    return 0;
+  }
+  if (!navigator.onLine) {
+    setSyncState({ status: 'offline' });
+    return 0;
+  }
+
+  setSyncState({ status: 'syncing', error: null });
+
   try {
-    // Handle statuses
-    const { error } = await supabase
-      .from('watchlist')
-      .upsert({
-        user_id: userId,
-        content_id: item.id,
-        content_type: item.type,
-        status: mapStatusToServer(item.status, item.type),
-        progress: item.progress,
-        rating: item.score,
-        updated_at: new Date().toISOString(),
-      }, { onConflict: 'user_id,content_id,content_type' });
-    
-    if (error) {
-      console.error('Failed to sync library item to server:', JSON.stringify(error));
-      return false;
+    const [watchlistResult, tombstoneResult] = await Promise.all([
+      supabase.from('watchlist').select('*, content(*)').eq('user_id', userId),
+      supabase.from('library_tombstones').select('*').eq('user_id', userId),
+    ]);
+    if (watchlistResult.error) throw watchlistResult.error;
+    if (tombstoneResult.error) throw tombstoneResult.error;
+
+    const serverItems = new Map<string, LibraryItem>();
+    for (const row of watchlistResult.data || []) {
+      const item = fromWatchlistRow(row);
+      serverItems.set(libraryKey(item.id, item.type), item);
     }
-    
-    return true;
-  } catch (error) {
-    console.error('Error syncing item to server:', error);
-    return false;
+    const serverTombstones = new Map<string, LibraryTombstone>();
+    for (const row of tombstoneResult.data || []) {
+      serverTombstones.set(libraryKey(row.content_id, row.content_type), {
+        id: row.content_id,
+        type: row.content_type,
+        deletedAt: new Date(row.deleted_at).getTime(),
+      });
+    }
+
+    const localItems = new Map(getLocalLibrary().map(item => [libraryKey(item.id, item.type), item]));
+    const localTombstones = new Map(getLocalTombstones().map(t => [libraryKey(t.id, t.type), t]));
+
+    const keys = new Set([
+      ...Array.from(serverItems.keys()),
+      ...Array.from(serverTombstones.keys()),
+      ...Array.from(localItems.keys()),
+      ...Array.from(localTombstones.keys()),
+    ]);
+
+    const nextItems: LibraryItem[] = [];
+    const nextTombstones: LibraryTombstone[] = [];
+    const upserts: LibraryItem[] = [];
+    const deletions: LibraryTombstone[] = [];
+
+    for (const key of Array.from(keys)) {
+      const local = toRecord(localItems.get(key), localTombstones.get(key));
+      const server = toRecord(serverItems.get(key), serverTombstones.get(key));
+      // Ties go to the server so two devices never push the same version back and forth
+      const winner = local && (!server || local.updatedAt > server.updatedAt) ? local : server;
+      if (!winner) continue;
+
+      if (winner.item) {
+        // A server version without dates keeps the ones the local copy has (e.g. from an import)
+        const localItem = localItems.get(key);
+        const item = winner === server && localItem ? withMissingDates(winner.item, localItem) : winner.item;
+        nextItems.push(item);
+        if (winner === local || item !== winner.item) upserts.push(item);
+      } else if (winner.tombstone) {
+        nextTombstones.push(winner.tombstone);
+        // Only a server copy needs removing; never-synced items just disappear
+        if (winner === local && server) deletions.push(winner.tombstone);
+      }
+    }
+
+    if (upserts.length > 0) {
+      const { error } = await supabase
+        .from('watchlist')
+        .upsert(upserts.map(item => ({
+          user_id: userId,
+          content_id: item.id,
+          content_type: item.type,
+          status: mapStatusToServer(item.status),
+          progress: item.progress,
+          rating: item.score,
+          started_at: item.startDate ? new Date(item.startDate).toISOString() : null,
+          finished_at: item.finishDate ? new Date(item.finishDate).toISOString() : null,
+          // Keep the client's timestamp so other devices compare against the real edit time
+          updated_at: new Date(item.lastUpdated).toISOString(),
+        })), { onConflict: 'user_id,content_id,content_type' });
+      if (error) throw error;
+    }
+
+    if (deletions.length > 0) {
+      const { error } = await supabase
+        .from('library_tombstones')
+        .upsert(deletions.map(t => ({
+          user_id: userId,
+          content_id: t.id,
+          content_type: t.type,
+          deleted_at: new Date(t.deletedAt).toISOString(),
+        })), { onConflict: 'user_id,content_id,content_type' });
+      if (error) throw error;
+
+      for (const t of deletions) {
+        const { error: deleteError } = await supabase
+          .from('watchlist')
+          .delete()
+          .eq('user_id', userId)
+          .eq('content_id', t.id)
+          .eq('content_type', t.type);
+        if (deleteError) throw deleteError;
+      }
+    }
+
+    // Apply the merge, keeping anything the user changed while we were talking to the server
+    const currentItems = new Map(getLocalLibrary().map(item => [libraryKey(item.id, item.type), item]));
+    const currentTombstones = new Map(getLocalTombstones().map(t => [libraryKey(t.id, t.type), t]));
+    const editedDuringSync = new Set(
+      getPendingKeys().filter(key => {
+        const before = toRecord(localItems.get(key), localTombstones.get(key));
+        const now = toRecord(currentItems.get(key), currentTombstones.get(key));
+        return now?.updatedAt !== before?.updatedAt;
+      })
+    );
+
+    const finalItems = nextItems.filter(item => !editedDuringSync.has(libraryKey(item.id, item.type)));
+    const finalTombstones = nextTombstones.filter(t =>
+      !editedDuringSync.has(libraryKey(t.id, t.type)) && Date.now() - t.deletedAt < TOMBSTONE_TTL
+    );
+    for (const key of Array.from(editedDuringSync)) {
+      const item = currentItems.get(key);
+      const tombstone = currentTombstones.get(key);
+      if (item) finalItems.push(item);
+      if (tombstone) finalTombstones.push(tombstone);
+    }
+
+    writeStorage(USER_LIBRARY_KEY, finalItems.sort((a, b) => b.lastUpdated - a.lastUpdated));
+    writeStorage(USER_LIBRARY_TOMBSTONES_KEY, finalTombstones);
+
+    const remaining = Array.from(editedDuringSync);
+    setPendingKeys(remaining);
+    syncRetryDelay = SYNC_DELAY;
+    setSyncState({
+      status: remaining.length > 0 ? 'pending' : 'synced',
+      lastSyncedAt: Date.now(),
+    });
+    if (remaining.length > 0) scheduleSync();
+
+    return upserts.length + deletions.length;
+  } catch (error: any) {
+    console.error('Failed to sync library:', error);
+    syncRetryDelay = Math.min(syncRetryDelay * 2, SYNC_MAX_RETRY_DELAY);
+    setSyncState({
+      status: navigator.onLine ? 'error' : 'offline',
+      error: error?.message || String(error),
+    });
+    scheduleSync(syncRetryDelay);
+    throw error;
+  }
+}
+
+// Get all items in user's library. The local cache is reconciled with the server first when logged in.
+export async function getUserLibrary(): Promise<LibraryItem[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    await syncLibrary();
+  } catch {
+    // Offline or failing server – the local cache is still the best answer
   }
+
+  return getLocalLibrary();
 }
 
 // Get items filtered by type and/or status
@@ -238,25 +470,11 @@ export function hasStatusSync(id: string, type: MediaType, status: MediaStatus):
   return item ? item.status === status : false;
 }
 
-// Add or update item in library
+// Add or update item in library. Saved locally right away and synced in the background.
 export async function updateLibraryItem(item: LibraryItem): Promise<void> {
-  // Update localStorage first for immediate feedback
   updateLocalLibraryItem(item);
-  
-  // Then update server if user is logged in
-  const userId = await getCurrentUserIdAsync();
-  if (!userId) return;
-  
-  try {
-    await syncItemToServer(item);
-  } catch (error) {
-    console.error('Failed to update server library item:', error);
-    toast({
-      title: "Sync Error",
-      description: "Failed to sync with server. Changes saved locally.",
-      duration: 3000,
-    });
-  }
+  markPending(item.id, item.type);
+  scheduleSync();
 }
 
 // Helper function to update item in localStorage
@@ -288,42 +506,26 @@ function updateLocalLibraryItem(item: LibraryItem): void {
       updatedLibrary = [updatedItem, ...library];
     }
     
-    localStorage.setItem(USER_LIBRARY_KEY, JSON.stringify(updatedLibrary));
+    writeStorage(USER_LIBRARY_KEY, updatedLibrary);
+
+    // A re-added item replaces its tombstone
+    writeStorage(
+      USER_LIBRARY_TOMBSTONES_KEY,
+      getLocalTombstones().filter(t => !(t.id === item.id && t.type === item.type))
+    );
   } catch (error) {
     console.error('Failed to update local library item:', error);
   }
 }
 
-// Remove item from library
+// Remove item from library. The tombstone makes the removal reach every device.
 export async function removeFromLibrary(id: string, type: MediaType): Promise<void> {
   removeFromLocalLibrary(id, type);
-  
-  const userId = await getCurrentUserIdAsync();
-  if (!userId) return;
-  
-  try {
-    // Remove from watchlist
-    const { error: watchlistError } = await supabase
-      .from('watchlist')
-      .delete()
-      .eq('user_id', userId)
-      .eq('content_id', id)
-      .eq('content_type', type);
-      
-    if (watchlistError) {
-      console.error('Failed to remove watchlist item from server:', watchlistError);
-      toast({
-        title: "Sync Error",
-        description: "Failed to remove from server. Removed locally.",
-        duration: 3000,
-      });
-    }
-  } catch (error) {
-    console.error('Failed to remove library item from server:', error);
-  }
+  markPending(id, type);
+  scheduleSync();
 }
 
-// Helper function to remove from localStorage
+// Helper function to remove from localStorage and leave a tombstone behind
 function removeFromLocalLibrary(id: string, type: MediaType): void {
   if (typeof window === 'undefined') return;
   
@@ -332,8 +534,10 @@ function removeFromLocalLibrary(id: string, type: MediaType): void {
     const updatedLibrary = library.filter(
       item => !(item.id === id && item.type === type)
     );
-    
-    localStorage.setItem(USER_LIBRARY_KEY, JSON.stringify(updatedLibrary));
+    writeStorage(USER_LIBRARY_KEY, updatedLibrary);
+
+    const tombstones = getLocalTombstones().filter(t => !(t.id === id && t.type === type));
+    writeStorage(USER_LIBRARY_TOMBSTONES_KEY, [...tombstones, { id, type, deletedAt: Date.now() }]);
   } catch (error) {
     console.error('Failed to remove library item from localStorage:', error);
   }
@@ -430,30 +634,28 @@ export async function updateScore(id: string, type: MediaType, score: number): P
   }
 }
 
-// Sync all localStorage items to server
+// Sync the library now instead of waiting for the background sync. Returns the number of changes pushed.
 export async function syncAllToServer(): Promise<number> {
-  const userId = await getCurrentUserIdAsync();
-  if (!userId) return 0;
-  
-  const localItems = getLocalLibrary();
-  if (localItems.length === 0) return 0;
-  
-  let syncedCount = 0;
-  
-  for (const item of localItems) {
-    const success = await syncItemToServer(item);
-    if (success) syncedCount++;
-  }
-  
-  console.log(`Synced ${syncedCount} of ${localItems.length} items to server`);
-  
-  if (syncedCount > 0) {
-    toast({
-      title: "Sync Complete",
-      description: `Synced ${syncedCount} items to your account`,
-      duration: 3000,
-    });
+  return syncLibrary();
+}
+
+/**
+ * Forget this device's library and pending changes when the user signs out, so
+ * the next account to log in here doesn't get them pushed into its watchlist.
+ * Call it while the session still exists: pending changes get one last sync.
+ */
+export async function clearLocalLibrary(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    await syncLibrary();
+  } catch {
+    // Offline or failing server – whatever didn't make it stays with this device's account
   }
-  
-  return syncedCount;
-} 
\ No newline at end of file
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = null;
+  syncRetryDelay = SYNC_DELAY;
+  localStorage.removeItem(USER_LIBRARY_KEY);
+  localStorage.removeItem(USER_LIBRARY_TOMBSTONES_KEY);
+  localStorage.removeItem(USER_LIBRARY_PENDING_KEY);
+  setSyncState({ status: 'local', pendingCount: 0, lastSyncedAt: null, error: null });
+}
@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import type { StoredNotificationPreferences } from './notification-preferences';
+import type { StoredReaderSettings } from './reader-settings';
 
 // Type for profile data, ensure it matches your schema
 export interface UserProfile {
@@ -22,6 +24,10 @@ export interface UserProfile {
   // Notification preferences
   email_notifications?: boolean;
   push_notifications?: boolean;
+  new_chapter_notifications?: boolean;
+  notification_preferences?: StoredNotificationPreferences | null;
+  // Synced MangaReader settings, managed by lib/reader-settings.ts
+  reader_settings?: StoredReaderSettings | null;
 }
 
 // --- User Profile Functions --- 
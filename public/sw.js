@@ -0,0 +1,126 @@
+/* Service worker: web push notifications and offline reading of downloaded chapters. */
+
+// Must match lib/offline-downloads.ts
+const PAGES_CACHE = "manganime-chapter-pages-v1"
+const SHELL_CACHE = "manganime-shell-v1"
+
+// Page opened for any navigation while offline; it lists the downloaded chapters
+const OFFLINE_URL = "/downloads"
+const SHELL_ASSETS = [OFFLINE_URL, "/manifest.webmanifest", "/images/manganimelogo.png"]
+
+// Scripts, styles and fonts referenced by a page, including chunks named in the RSC payload
+const STATIC_ASSET_PATTERN = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[^"'\\\s)]+/g
+
+self.addEventListener("install", () => {
+  self.skipWaiting()
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+// Rebuilt from scratch each time so chunks from older deploys don't pile up
+async function cacheOfflineShell() {
+  const assets = new Set(SHELL_ASSETS)
+  const html = await fetch(OFFLINE_URL, { credentials: "same-origin" }).then((res) => (res.ok ? res.text() : ""))
+  for (const match of html.match(STATIC_ASSET_PATTERN) || []) {
+    assets.add(match.startsWith("/_next/") ? match : `/_next/${match}`)
+  }
+
+  await caches.delete(SHELL_CACHE)
+  const cache = await caches.open(SHELL_CACHE)
+  await Promise.all(
+    Array.from(assets).map((url) =>
+      cache.add(url).catch((error) => console.warn("[sw] could not cache", url, error))
+    )
+  )
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "CACHE_OFFLINE_SHELL") {
+    event.waitUntil(cacheOfflineShell())
+  }
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  // Pages: network first, downloads page when offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(async () => {
+        const cache = await caches.open(SHELL_CACHE)
+        return (await cache.match(request, { ignoreSearch: true })) || (await cache.match(OFFLINE_URL)) || Response.error()
+      })
+    )
+    return
+  }
+
+  // Downloaded chapter pages (Cloudinary, MangaDex at-home) and the offline shell: cache first
+  if (request.destination === "image" || new URL(request.url).pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request, { ignoreVary: true }).then((cached) => cached || fetch(request))
+    )
+  }
+})
+
+self.addEventListener("push", (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "მანგანიმე", {
+      body: payload.body || "",
+      icon: "/images/manganimelogo.png",
+      badge: "/images/manganimelogo.png",
+      tag: payload.tag,
+      renotify: !!payload.tag,
+      data: { url: payload.url || "/" },
+    })
+  )
+})
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the site when there is one
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin))
+      if (existing) {
+        return existing.focus().then((client) => (client && "navigate" in client ? client.navigate(url) : client))
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
+
+// The browser rotated the subscription (e.g. it expired): subscribe again and
+// let the server swap the stored endpoint. The old subscription's keys prove to the
+// server which user it belonged to.
+self.addEventListener("pushsubscriptionchange", (event) => {
+  const oldSubscription = event.oldSubscription
+  const options = oldSubscription?.options
+
+  event.waitUntil(
+    (event.newSubscription
+      ? Promise.resolve(event.newSubscription)
+      : options
+        ? self.registration.pushManager.subscribe(options)
+        : Promise.resolve(null)
+    ).then((subscription) => {
+      if (!subscription || !oldSubscription) return
+      return fetch("/api/notifications/push-subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscription: subscription.toJSON(), oldSubscription: oldSubscription.toJSON() }),
+      })
+    })
+  )
+})
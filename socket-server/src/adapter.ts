@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import type { ChatMessage } from './chat'
+import type { Attendee, Participant, RoomSummary } from './rooms'
+
+/**
+ * Everything that changes a room or has to reach its clients. Events are applied
+ * to every instance's copy of the room and then emitted to that instance's sockets,
+ * so all state changes must go through one of these.
+ */
+export type RoomEvent =
+  | { type: 'page'; pageIndex: number; userId: string }
+  | { type: 'chapter'; chapterId: string; userId: string }
+  | { type: 'presence_join'; participant: Participant }
+  | { type: 'presence_leave'; userId: string }
+  | { type: 'participant_update'; participant: Participant }
+  | { type: 'chat'; message: ChatMessage }
+  | { type: 'chat_deleted'; messageId: string }
+  | { type: 'reaction'; emoji: string; userId: string }
+  | { type: 'kick'; targetId: string }
+  | { type: 'ended'; summary: RoomSummary }
+
+// Serializable copy of a room shared between instances
+export interface SharedRoomSnapshot {
+  id: string
+  hostId: string
+  mangaId: string
+  chapterId: string
+  pageIndex: number
+  createdAt: number
+  participants: Participant[]
+  kicked: string[]
+  invited: string[]
+  muted: string[]
+  messages: ChatMessage[]
+  pagesTurned: number
+  reactionsCount: number
+  attendees: Attendee[]
+  lastActivityAt: number
+}
+
+export type RoomEventHandler = (roomId: string, event: RoomEvent) => void
+
+/**
+ * Transport between socket server instances. `publish` must not deliver an event
+ * back to the instance that published it; the publisher has already applied it.
+ */
+export interface RoomAdapter {
+  readonly instanceId: string
+  publish(roomId: string, event: RoomEvent): Promise<void>
+  subscribe(handler: RoomEventHandler): Promise<void>
+  loadSnapshot(roomId: string): Promise<SharedRoomSnapshot | null>
+  saveSnapshot(snapshot: SharedRoomSnapshot): Promise<void>
+  deleteSnapshot(roomId: string): Promise<void>
+  close(): Promise<void>
+}
+
+// Wire format used by every adapter
+export interface RoomEnvelope {
+  origin: string
+  roomId: string
+  event: RoomEvent
+}
+
+/**
+ * Shared state for in-process adapters. Several servers created with adapters on
+ * the same hub behave like separate instances talking through Redis.
+ */
+export interface MemoryHub {
+  emitter: EventEmitter
+  snapshots: Map<string, string>
+}
+
+export function createMemoryHub(): MemoryHub {
+  const emitter = new EventEmitter()
+  emitter.setMaxListeners(0)
+  return { emitter, snapshots: new Map() }
+}
+
+export class MemoryAdapter implements RoomAdapter {
+  readonly instanceId = randomUUID()
+  private listener: ((envelope: RoomEnvelope) => void) | null = null
+
+  constructor(private readonly hub: MemoryHub = createMemoryHub()) {}
+
+  async publish(roomId: string, event: RoomEvent) {
+    // Round-trip through JSON so in-process delivery sees the same data Redis would
+    const envelope: RoomEnvelope = JSON.parse(JSON.stringify({ origin: this.instanceId, roomId, event }))
+    // Deliver asynchronously like a real broker would
+    setImmediate(() => this.hub.emitter.emit('event', envelope))
+  }
+
+  async subscribe(handler: RoomEventHandler) {
+    if (this.listener) this.hub.emitter.off('event', this.listener)
+    this.listener = (envelope: RoomEnvelope) => {
+      if (envelope.origin === this.instanceId) return
+      handler(envelope.roomId, envelope.event)
+    }
+    this.hub.emitter.on('event', this.listener)
+  }
+
+  async loadSnapshot(roomId: string) {
+    const raw = this.hub.snapshots.get(roomId)
+    return raw ? (JSON.parse(raw) as SharedRoomSnapshot) : null
+  }
+
+  async saveSnapshot(snapshot: SharedRoomSnapshot) {
+    this.hub.snapshots.set(snapshot.id, JSON.stringify(snapshot))
+  }
+
+  async deleteSnapshot(roomId: string) {
+    this.hub.snapshots.delete(roomId)
+  }
+
+  async close() {
+    if (this.listener) this.hub.emitter.off('event', this.listener)
+    this.listener = null
+  }
+}
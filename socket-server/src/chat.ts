@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto'
+import { supabaseAdmin } from './supabase'
+import type { Participant, RoomState } from './rooms'
+
+export interface ChatMessage {
+  id: string
+  roomId: string
+  userId: string
+  username: string | null
+  avatarUrl: string | null
+  content: string | null
+  stickerUrl: string | null
+  createdAt: number
+}
+
+export interface ChatPayload {
+  content?: unknown
+  stickerUrl?: unknown
+}
+
+// How many messages are kept in memory and replayed to late joiners
+export const CHAT_HISTORY_LIMIT = 50
+export const CHAT_MAX_LENGTH = 500
+
+// At most CHAT_RATE_LIMIT messages per CHAT_RATE_WINDOW ms per user and room
+const CHAT_RATE_LIMIT = 5
+const CHAT_RATE_WINDOW = 10_000
+
+// Stickers live in public/stickers/<category>/<file> (see components/sticker-selector.tsx)
+const STICKER_URL_RE = /^\/stickers\/[a-z0-9_-]+\/[a-z0-9_.-]+\.(gif|png|webp)$/i
+const VIP_STICKER_PREFIX = '/stickers/vip/'
+
+// Control characters other than newline/tab
+const CONTROL_CHARS_RE = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g
+
+/**
+ * Validate an incoming chat payload. Returns the cleaned content/sticker or an
+ * error message to send back to the sender.
+ */
+export function validateChatPayload(
+  payload: ChatPayload,
+  sender: Participant
+): { content: string | null; stickerUrl: string | null } | { error: string } {
+  let content: string | null = null
+  let stickerUrl: string | null = null
+
+  if (payload.content !== undefined && payload.content !== null) {
+    if (typeof payload.content !== 'string') return { error: 'Invalid message' }
+    const cleaned = payload.content.replace(CONTROL_CHARS_RE, '').replace(/\n{3,}/g, '\n\n').trim()
+    if (cleaned.length > CHAT_MAX_LENGTH) return { error: `Message is longer than ${CHAT_MAX_LENGTH} characters` }
+    content = cleaned || null
+  }
+
+  if (payload.stickerUrl !== undefined && payload.stickerUrl !== null) {
+    if (typeof payload.stickerUrl !== 'string' || !STICKER_URL_RE.test(payload.stickerUrl)) {
+      return { error: 'Unknown sticker' }
+    }
+    if (payload.stickerUrl.startsWith(VIP_STICKER_PREFIX) && !sender.vip) {
+      return { error: 'This sticker is only available to VIP members' }
+    }
+    stickerUrl = payload.stickerUrl
+  }
+
+  if (!content && !stickerUrl) return { error: 'Message is empty' }
+  return { content, stickerUrl }
+}
+
+/**
+ * Record an attempt in `timestamps` and report whether the user already made
+ * `limit` attempts in the last `windowMs`.
+ */
+export function recordRateLimited(
+  timestamps: Map<string, number[]>,
+  userId: string,
+  limit: number,
+  windowMs: number
+): boolean {
+  const now = Date.now()
+  const recent = (timestamps.get(userId) ?? []).filter(ts => now - ts < windowMs)
+  if (recent.length >= limit) {
+    timestamps.set(userId, recent)
+    return true
+  }
+  recent.push(now)
+  timestamps.set(userId, recent)
+  return false
+}
+
+/** Record a send attempt and report whether the user is over the limit. */
+export function isRateLimited(room: RoomState, userId: string): boolean {
+  return recordRateLimited(room.chatTimestamps, userId, CHAT_RATE_LIMIT, CHAT_RATE_WINDOW)
+}
+
+export function createChatMessage(
+  room: RoomState,
+  sender: Participant,
+  content: string | null,
+  stickerUrl: string | null
+): ChatMessage {
+  return {
+    id: randomUUID(),
+    roomId: room.id,
+    userId: sender.userId,
+    username: sender.username,
+    avatarUrl: sender.avatarUrl,
+    content,
+    stickerUrl,
+    createdAt: Date.now(),
+  }
+}
+
+export function appendChatMessage(room: RoomState, message: ChatMessage) {
+  room.messages.push(message)
+  if (room.messages.length > CHAT_HISTORY_LIMIT) {
+    room.messages.splice(0, room.messages.length - CHAT_HISTORY_LIMIT)
+  }
+}
+
+export function removeChatMessage(room: RoomState, messageId: string): boolean {
+  const index = room.messages.findIndex(m => m.id === messageId)
+  if (index === -1) return false
+  room.messages.splice(index, 1)
+  return true
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+export async function loadRecentMessages(roomId: string): Promise<ChatMessage[]> {
+  if (!supabaseAdmin) return []
+
+  const { data, error } = await supabaseAdmin
+    .from('live_room_messages')
+    .select('id, room_id, user_id, content, sticker_url, created_at')
+    .eq('room_id', roomId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .limit(CHAT_HISTORY_LIMIT)
+
+  if (error) {
+    console.error('loadRecentMessages error', error)
+    return []
+  }
+  if (!data || data.length === 0) return []
+
+  const userIds = Array.from(new Set(data.map(row => row.user_id as string)))
+  const { data: profiles } = await supabaseAdmin
+    .from('profiles')
+    .select('id, username, avatar_url')
+    .in('id', userIds)
+  const profileMap = new Map((profiles ?? []).map(p => [p.id as string, p]))
+
+  return data
+    .map(row => ({
+      id: row.id,
+      roomId: row.room_id,
+      userId: row.user_id,
+      username: profileMap.get(row.user_id)?.username ?? null,
+      avatarUrl: profileMap.get(row.user_id)?.avatar_url ?? null,
+      content: row.content,
+      stickerUrl: row.sticker_url,
+      createdAt: new Date(row.created_at).getTime(),
+    }))
+    .reverse()
+}
+
+export async function persistMessage(message: ChatMessage) {
+  if (!supabaseAdmin) return
+  const { error } = await supabaseAdmin.from('live_room_messages').insert({
+    id: message.id,
+    room_id: message.roomId,
+    user_id: message.userId,
+    content: message.content,
+    sticker_url: message.stickerUrl,
+    created_at: new Date(message.createdAt).toISOString(),
+  })
+  if (error) console.error('persistMessage error', error)
+}
+
+export async function persistMessageDelete(roomId: string, messageId: string) {
+  if (!supabaseAdmin) return
+  const { error } = await supabaseAdmin
+    .from('live_room_messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('room_id', roomId)
+    .eq('id', messageId)
+  if (error) console.error('persistMessageDelete error', error)
+}
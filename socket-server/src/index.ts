@@ -1,82 +1,33 @@
 import 'dotenv/config'
-import express from 'express'
-import { createServer } from 'http'
-import { Server } from 'socket.io'
-import cors from 'cors'
-import jwt from 'jsonwebtoken'
+import { MemoryAdapter, RoomAdapter } from './adapter'
+import { RedisAdapter } from './redis-adapter'
+import { createLiveServer } from './server'
 
 const PORT = process.env.PORT || 4000
 const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET || ''
+// Set to share rooms between several instances behind a load balancer
+const REDIS_URL = process.env.REDIS_URL || ''
 
 if (!SUPABASE_JWT_SECRET) {
   console.warn('⚠️  SUPABASE_JWT_SECRET not set – JWT verification will fail.')
 }
 
-interface JwtPayload {
-  sub: string
-  [key: string]: any
-}
-
-const app = express()
-app.use(cors())
-app.get('/', (_req, res) => {
-  res.send('Manganime Live Reading Socket Server')
-})
-
-const httpServer = createServer(app)
-
-const io = new Server(httpServer, {
-  cors: {
-    origin: '*',
-  },
-})
-
-type SafeSocket = typeof io extends { on: any } ? any : never
-
-// Auth middleware – verifies Supabase JWT
-io.use((socket: SafeSocket, next) => {
-  const token = socket.handshake.auth?.token || socket.handshake.query?.token
-  if (!token) {
-    return next(new Error('No token provided'))
+async function main() {
+  let adapter: RoomAdapter
+  if (REDIS_URL) {
+    adapter = new RedisAdapter(REDIS_URL)
+    console.log('📡 Sharing rooms through Redis')
+  } else {
+    adapter = new MemoryAdapter()
+    console.log('📦 REDIS_URL not set – rooms are local to this instance')
   }
-  try {
-    const decoded = jwt.verify(token, SUPABASE_JWT_SECRET) as JwtPayload
-    socket.data.user = {
-      id: decoded.sub,
-      ...decoded,
-    }
-    return next()
-  } catch (err) {
-    return next(new Error('Invalid token'))
-  }
-})
-
-io.on('connection', (socket: SafeSocket) => {
-  const { id: userId } = socket.data.user || {}
-  console.log(`🔗  User connected: ${userId} (${socket.id})`)
-
-  socket.on('join', ({ roomId }: { roomId: string }) => {
-    socket.join(roomId)
-    io.to(roomId).emit('presence', { type: 'join', userId })
-  })
 
-  socket.on('page', ({ roomId, pageIndex }: { roomId: string; pageIndex: number }) => {
-    socket.to(roomId).emit('page', { pageIndex })
-  })
-
-  socket.on('chat', ({ roomId, message }: any) => {
-    socket.to(roomId).emit('chat', message)
-  })
-
-  socket.on('reaction', ({ roomId, emoji }: { roomId: string; emoji: string }) => {
-    socket.to(roomId).emit('reaction', { emoji, userId })
-  })
+  const server = await createLiveServer({ adapter, jwtSecret: SUPABASE_JWT_SECRET })
+  const port = await server.listen(PORT)
+  console.log(`🚀 Socket server listening on :${port}`)
+}
 
-  socket.on('disconnect', () => {
-    console.log(`❌  User disconnected: ${userId}`)
-  })
+main().catch(err => {
+  console.error('Failed to start socket server', err)
+  process.exit(1)
 })
-
-httpServer.listen(PORT, () => {
-  console.log(`🚀 Socket server listening on :${PORT}`)
-}) 
\ No newline at end of file
@@ -0,0 +1,449 @@
+import { Server, Socket } from 'socket.io'
+import { RoomAdapter, RoomEvent } from './adapter'
+import {
+  Participant,
+  ParticipantRole,
+  RoomEndReason,
+  RoomRegistry,
+  RoomState,
+  applyRoomEvent,
+  buildRoomSummary,
+  canControlPages,
+  canJoinRoom,
+  closeOrphanedRoom,
+  fetchProfile,
+  findIdleRoomIds,
+  persistChapter,
+  persistJoin,
+  persistKick,
+  persistLeave,
+  persistParticipant,
+  persistRoomEnd,
+  schedulePagePersist,
+  snapshotRoom,
+  toSharedSnapshot,
+} from './rooms'
+import {
+  ChatPayload,
+  createChatMessage,
+  isRateLimited,
+  persistMessage,
+  persistMessageDelete,
+  validateChatPayload,
+} from './chat'
+import { isAllowedReaction, isReactionRateLimited } from './reactions'
+
+// Everything a socket server instance needs to run live rooms
+export interface LiveRoomContext {
+  io: Server
+  registry: RoomRegistry
+  adapter: RoomAdapter
+  // Pending "host left" closes, keyed by room id
+  closeTimers: Map<string, NodeJS.Timeout>
+}
+
+// How long the host can be gone (e.g. a page reload) before the room is closed
+const HOST_GRACE_PERIOD = 2 * 60 * 1000
+// Rooms without page turns, chat, reactions or joins for this long are closed
+const INACTIVITY_TIMEOUT = 30 * 60 * 1000
+const CLEANUP_INTERVAL = 60 * 1000
+
+interface RoomPayload {
+  roomId: string
+}
+
+interface TargetPayload extends RoomPayload {
+  targetId: string
+}
+
+function emitError(socket: Socket, message: string) {
+  socket.emit('room_error', { message })
+}
+
+/**
+ * Register a socket handler whose failures (a Supabase or Redis call throwing,
+ * a malformed payload) are logged and reported to the client as `room_error`
+ * instead of becoming unhandled rejections.
+ */
+function handle<T>(socket: Socket, event: string, handler: (payload: T) => unknown) {
+  socket.on(event, async (payload: T) => {
+    try {
+      await handler(payload ?? ({} as T))
+    } catch (err) {
+      console.error(`Live room ${event} error`, err)
+      emitError(socket, 'Something went wrong, please try again')
+    }
+  })
+}
+
+/**
+ * Emit an event to the sockets connected to this instance. Kicks aren't broadcast;
+ * each instance disconnects its own sockets of the target instead.
+ */
+function deliverLocally(ctx: LiveRoomContext, room: RoomState, event: RoomEvent, exceptSocketId?: string) {
+  const target = exceptSocketId ? ctx.io.to(room.id).except(exceptSocketId) : ctx.io.to(room.id)
+
+  switch (event.type) {
+    case 'page':
+      return target.emit('page', { pageIndex: event.pageIndex, userId: event.userId })
+    case 'chapter':
+      return target.emit('chapter', { chapterId: event.chapterId, userId: event.userId })
+    case 'presence_join':
+      return target.emit('presence', { type: 'join', participant: event.participant })
+    case 'presence_leave':
+      return target.emit('presence', { type: 'leave', userId: event.userId })
+    case 'participant_update':
+      return target.emit('participant_update', event.participant)
+    case 'chat':
+      return target.emit('chat', event.message)
+    case 'chat_deleted':
+      return target.emit('chat_deleted', { messageId: event.messageId })
+    case 'reaction':
+      return target.emit('reaction', { emoji: event.emoji, userId: event.userId })
+    case 'kick':
+      for (const socketId of Array.from(room.sockets.get(event.targetId) ?? [])) {
+        const kicked = ctx.io.sockets.sockets.get(socketId)
+        if (!kicked) continue
+        kicked.emit('kicked', { roomId: room.id })
+        leaveRoom(ctx, kicked, room)
+      }
+      return
+    case 'ended':
+      target.emit('room_ended', { summary: event.summary })
+      for (const socketIds of Array.from(room.sockets.values())) {
+        for (const socketId of Array.from(socketIds)) {
+          const socket = ctx.io.sockets.sockets.get(socketId)
+          if (!socket) continue
+          socket.leave(room.id)
+          ;(socket.data.roomIds as Set<string>).delete(room.id)
+        }
+      }
+      room.sockets.clear()
+      clearCloseTimer(ctx, room.id)
+      ctx.registry.unload(room.id).catch(err => console.error('Room unload error', err))
+      return
+  }
+}
+
+/**
+ * Apply an event locally, deliver it to this instance's sockets and hand it to the
+ * adapter for the other instances. `exceptSocketId` skips the socket that caused it
+ * (e.g. the host turning the page doesn't need the echo).
+ */
+function dispatch(ctx: LiveRoomContext, room: RoomState, event: RoomEvent, exceptSocketId?: string) {
+  applyRoomEvent(room, event)
+  trackHost(ctx, room, event)
+  deliverLocally(ctx, room, event, exceptSocketId)
+
+  ctx.adapter.publish(room.id, event).catch(err => console.error('Room event publish error', err))
+  if (event.type === 'reaction') return
+  const save = room.participants.size > 0 && !room.ended
+    ? ctx.adapter.saveSnapshot(toSharedSnapshot(room))
+    : ctx.adapter.deleteSnapshot(room.id)
+  save.catch(err => console.error('Room snapshot error', err))
+}
+
+/** Handle an event published by another instance. */
+function receive(ctx: LiveRoomContext, roomId: string, event: RoomEvent) {
+  // Rooms nobody on this instance has open are loaded from the snapshot on demand
+  const room = ctx.registry.get(roomId)
+  if (!room) return
+
+  // The user left another instance but still has a tab open here: they stay
+  if (event.type === 'presence_leave' && room.sockets.has(event.userId)) {
+    const participant = room.participants.get(event.userId)
+    if (participant) dispatch(ctx, room, { type: 'presence_join', participant })
+    return
+  }
+
+  applyRoomEvent(room, event)
+  trackHost(ctx, room, event)
+  deliverLocally(ctx, room, event)
+}
+
+export async function subscribeRoomEvents(ctx: LiveRoomContext) {
+  await ctx.adapter.subscribe((roomId, event) => receive(ctx, roomId, event))
+}
+
+// ---------------------------------------------------------------------------
+// Room lifecycle
+// ---------------------------------------------------------------------------
+
+function clearCloseTimer(ctx: LiveRoomContext, roomId: string) {
+  const timer = ctx.closeTimers.get(roomId)
+  if (!timer) return
+  clearTimeout(timer)
+  ctx.closeTimers.delete(roomId)
+}
+
+// A returning host (on any instance) cancels the pending close
+function trackHost(ctx: LiveRoomContext, room: RoomState, event: RoomEvent) {
+  if (event.type === 'presence_join' && event.participant.userId === room.hostId) {
+    clearCloseTimer(ctx, room.id)
+  }
+}
+
+function scheduleHostLeftClose(ctx: LiveRoomContext, roomId: string) {
+  clearCloseTimer(ctx, roomId)
+  ctx.closeTimers.set(
+    roomId,
+    setTimeout(async () => {
+      ctx.closeTimers.delete(roomId)
+      try {
+        // Our copy may have been unloaded meanwhile; the shared snapshot has the latest stats
+        const room = await ctx.registry.load(roomId)
+        if (!room) return
+        if (room.participants.has(room.hostId)) {
+          if (room.sockets.size === 0) await ctx.registry.unload(roomId)
+          return
+        }
+        await endRoom(ctx, room, 'host_left')
+      } catch (err) {
+        console.error('Host left close error', err)
+      }
+    }, HOST_GRACE_PERIOD)
+  )
+}
+
+/**
+ * Close the room for everyone: persist the summary, then tell every participant.
+ * Only the caller that actually flips `is_active` announces it.
+ */
+async function endRoom(ctx: LiveRoomContext, room: RoomState, reason: RoomEndReason) {
+  if (room.ended) return
+  const summary = buildRoomSummary(room, reason)
+  if (!(await persistRoomEnd(summary))) return
+  if (room.ended) return
+  console.log(`🏁 Room ${room.id} ended (${reason}) – ${summary.pagesTurned} pages turned`)
+  dispatch(ctx, room, { type: 'ended', summary })
+}
+
+/**
+ * Periodically close idle rooms. Rooms loaded here are checked in memory; rooms
+ * no instance has loaded (left over from a restart) are closed from the database.
+ */
+export function startRoomCleanup(ctx: LiveRoomContext): () => void {
+  let running = false
+
+  const interval = setInterval(async () => {
+    if (running) return
+    running = true
+    try {
+      const now = Date.now()
+      for (const room of ctx.registry.all()) {
+        if (!room.ended && now - room.lastActivityAt > INACTIVITY_TIMEOUT) {
+          await endRoom(ctx, room, 'inactive')
+        }
+      }
+
+      for (const roomId of await findIdleRoomIds(INACTIVITY_TIMEOUT)) {
+        if (ctx.registry.get(roomId)) continue
+        if (await ctx.adapter.loadSnapshot(roomId)) continue
+        await closeOrphanedRoom(roomId)
+      }
+    } catch (err) {
+      console.error('Room cleanup error', err)
+    } finally {
+      running = false
+    }
+  }, CLEANUP_INTERVAL)
+
+  return () => clearInterval(interval)
+}
+
+// Host-only guard shared by kick / mute / promote
+function requireHost(ctx: LiveRoomContext, socket: Socket, roomId: string): RoomState | null {
+  const room = ctx.registry.get(roomId)
+  if (!room || !socket.rooms.has(roomId)) {
+    emitError(socket, 'Not in room')
+    return null
+  }
+  if (room.participants.get(socket.data.user.id)?.role !== 'host') {
+    emitError(socket, 'Only the host can do that')
+    return null
+  }
+  return room
+}
+
+/**
+ * Remove one socket from a room. The participant is only dropped (and `left_at`
+ * written) once their last socket on this instance is gone, so closing a duplicate
+ * tab is silent.
+ */
+function leaveRoom(ctx: LiveRoomContext, socket: Socket, room: RoomState) {
+  const userId: string = socket.data.user.id
+  socket.leave(room.id)
+  ;(socket.data.roomIds as Set<string>).delete(room.id)
+
+  const userSockets = room.sockets.get(userId)
+  if (userSockets) {
+    userSockets.delete(socket.id)
+    if (userSockets.size > 0) return
+    room.sockets.delete(userId)
+  }
+
+  if (room.participants.has(userId)) {
+    persistLeave(room.id, userId).catch(err => console.error('persistLeave error', err))
+    dispatch(ctx, room, { type: 'presence_leave', userId })
+
+    if (room.participants.size === 0) {
+      endRoom(ctx, room, 'empty').catch(err => console.error('Room end error', err))
+    } else if (userId === room.hostId) {
+      scheduleHostLeftClose(ctx, room.id)
+    }
+  }
+
+  // Other instances keep their own copy; ours is reloaded from the snapshot on the next join
+  if (room.sockets.size === 0) {
+    ctx.registry.unload(room.id).catch(err => console.error('Room unload error', err))
+  }
+}
+
+export function registerLiveRoomHandlers(ctx: LiveRoomContext, socket: Socket) {
+  const userId: string = socket.data.user.id
+  socket.data.roomIds = new Set<string>()
+
+  handle(socket, 'join', async ({ roomId }: RoomPayload) => {
+    if (!roomId) return emitError(socket, 'roomId is required')
+
+    const room = await ctx.registry.load(roomId)
+    if (!room) return emitError(socket, 'Room not found or no longer active')
+    if (room.kicked.has(userId)) return emitError(socket, 'You were removed from this room')
+    if (!(await canJoinRoom(room, userId))) return emitError(socket, 'You are not invited to this room')
+    // The socket may have disconnected, or the user been kicked, during the lookups
+    if (!socket.connected) return
+    if (room.kicked.has(userId)) return emitError(socket, 'You were removed from this room')
+
+    socket.join(roomId)
+    ;(socket.data.roomIds as Set<string>).add(roomId)
+
+    const userSockets = room.sockets.get(userId) ?? new Set<string>()
+    userSockets.add(socket.id)
+    room.sockets.set(userId, userSockets)
+
+    if (!room.participants.has(userId)) {
+      const profile = await fetchProfile(userId)
+      // Gone again (leaveRoom has cleaned up), or another tab of this user joined first
+      if (!socket.connected || !socket.rooms.has(roomId)) return
+      if (room.participants.has(userId)) return socket.emit('room_state', snapshotRoom(room))
+      const participant: Participant = {
+        userId,
+        username: profile.username,
+        avatarUrl: profile.avatarUrl,
+        role: userId === room.hostId ? 'host' : 'viewer',
+        muted: room.muted.has(userId),
+        vip: profile.vip,
+        joinedAt: Date.now(),
+      }
+      persistJoin(roomId, participant).catch(err => console.error('persistJoin error', err))
+      // Late joiners get the full current state; everyone else just the delta
+      dispatch(ctx, room, { type: 'presence_join', participant }, socket.id)
+    }
+
+    socket.emit('room_state', snapshotRoom(room))
+  })
+
+  handle(socket, 'leave', ({ roomId }: RoomPayload) => {
+    const room = ctx.registry.get(roomId)
+    if (room && socket.rooms.has(roomId)) leaveRoom(ctx, socket, room)
+  })
+
+  handle(socket, 'page', ({ roomId, pageIndex }: { roomId: string; pageIndex: number }) => {
+    const room = ctx.registry.get(roomId)
+    if (!room || !socket.rooms.has(roomId)) return
+    if (!canControlPages(room, userId)) return emitError(socket, 'Only the host can turn pages')
+    if (!Number.isInteger(pageIndex) || pageIndex < 0) return
+    // Echoes from clients applying a remote page turn are dropped here
+    if (pageIndex === room.pageIndex) return
+
+    dispatch(ctx, room, { type: 'page', pageIndex, userId }, socket.id)
+    schedulePagePersist(room)
+  })
+
+  handle(socket, 'chapter', ({ roomId, chapterId }: { roomId: string; chapterId: string }) => {
+    const room = ctx.registry.get(roomId)
+    if (!room || !socket.rooms.has(roomId)) return
+    if (!canControlPages(room, userId)) return emitError(socket, 'Only the host can change chapters')
+    if (!chapterId || chapterId === room.chapterId) return
+
+    dispatch(ctx, room, { type: 'chapter', chapterId, userId }, socket.id)
+    persistChapter(room).catch(err => console.error('persistChapter error', err))
+  })
+
+  handle(socket, 'chat', ({ roomId, ...payload }: RoomPayload & ChatPayload) => {
+    const room = ctx.registry.get(roomId)
+    const sender = room?.participants.get(userId)
+    if (!room || !sender || !socket.rooms.has(roomId)) return
+    if (sender.muted) return emitError(socket, 'You are muted')
+
+    const result = validateChatPayload(payload, sender)
+    if ('error' in result) return emitError(socket, result.error)
+    if (isRateLimited(room, userId)) return emitError(socket, 'You are sending messages too fast')
+
+    const message = createChatMessage(room, sender, result.content, result.stickerUrl)
+    persistMessage(message).catch(err => console.error('persistMessage error', err))
+    // The sender gets the stored message back too, so every client renders the same id
+    dispatch(ctx, room, { type: 'chat', message })
+  })
+
+  handle(socket, 'chat_delete', ({ roomId, messageId }: RoomPayload & { messageId: string }) => {
+    const room = requireHost(ctx, socket, roomId)
+    if (!room || !messageId) return
+    if (!room.messages.some(m => m.id === messageId)) return
+
+    persistMessageDelete(roomId, messageId).catch(err => console.error('persistMessageDelete error', err))
+    dispatch(ctx, room, { type: 'chat_deleted', messageId })
+  })
+
+  handle(socket, 'reaction', ({ roomId, emoji }: { roomId: string; emoji: unknown }) => {
+    const room = ctx.registry.get(roomId)
+    if (!room || !socket.rooms.has(roomId)) return
+    if (room.participants.get(userId)?.muted) return
+    if (!isAllowedReaction(emoji)) return emitError(socket, 'Unknown reaction')
+    // Over the limit is dropped silently: reactions come in bursts by design
+    if (isReactionRateLimited(room, userId)) return
+    dispatch(ctx, room, { type: 'reaction', emoji, userId }, socket.id)
+  })
+
+  handle(socket, 'end', ({ roomId }: RoomPayload) => {
+    const room = requireHost(ctx, socket, roomId)
+    if (!room) return
+    endRoom(ctx, room, 'closed').catch(err => console.error('Room end error', err))
+  })
+
+  handle(socket, 'kick', ({ roomId, targetId }: TargetPayload) => {
+    const room = requireHost(ctx, socket, roomId)
+    if (!room || !targetId || targetId === userId) return
+
+    persistKick(roomId, targetId).catch(err => console.error('persistKick error', err))
+    dispatch(ctx, room, { type: 'kick', targetId })
+  })
+
+  handle(socket, 'mute', ({ roomId, targetId, muted }: TargetPayload & { muted: boolean }) => {
+    const room = requireHost(ctx, socket, roomId)
+    const target = room?.participants.get(targetId)
+    if (!room || !target || target.role === 'host') return
+
+    const participant = { ...target, muted: !!muted }
+    persistParticipant(roomId, participant).catch(err => console.error('persistParticipant error', err))
+    dispatch(ctx, room, { type: 'participant_update', participant })
+  })
+
+  handle(socket, 'promote', ({ roomId, targetId, role }: TargetPayload & { role: ParticipantRole }) => {
+    const room = requireHost(ctx, socket, roomId)
+    const target = room?.participants.get(targetId)
+    if (!room || !target || target.role === 'host') return
+    if (role !== 'cohost' && role !== 'viewer') return
+
+    const participant = { ...target, role }
+    persistParticipant(roomId, participant).catch(err => console.error('persistParticipant error', err))
+    dispatch(ctx, room, { type: 'participant_update', participant })
+  })
+
+  socket.on('disconnect', () => {
+    for (const roomId of Array.from(socket.data.roomIds as Set<string>)) {
+      const room = ctx.registry.get(roomId)
+      if (room) leaveRoom(ctx, socket, room)
+    }
+  })
+}
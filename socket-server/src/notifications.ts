@@ -0,0 +1,83 @@
+import { Server, Socket } from 'socket.io'
+import { createClient, RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js'
+import WebSocket from 'ws'
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY || ''
+
+// Subset of the notifications row forwarded to clients
+interface NotificationRow {
+  id: string
+  user_id: string
+  type: string
+  sender_user_id: string | null
+  content_id: string | null
+  comment_id: string | null
+  room_id: string | null
+  message: string
+  is_read: boolean
+  created_at: string
+  channels: string[] | null
+}
+
+// Every socket of a user joins this room, across tabs and devices
+export function userRoom(userId: string) {
+  return `user:${userId}`
+}
+
+export function registerNotificationHandlers(socket: Socket) {
+  socket.join(userRoom(socket.data.user.id))
+}
+
+function isInApp(row: NotificationRow) {
+  // Rows written before delivery channels existed have none and are always in-app
+  return !row.channels || row.channels.includes('in_app')
+}
+
+function handleChange(io: Server, payload: RealtimePostgresChangesPayload<NotificationRow>) {
+  if (payload.eventType === 'INSERT') {
+    const row = payload.new
+    if (!isInApp(row)) return
+    io.to(userRoom(row.user_id)).emit('notification', row)
+  } else if (payload.eventType === 'UPDATE') {
+    const row = payload.new
+    // Keeps badges in other tabs in step when one tab marks notifications read
+    if (row.is_read && isInApp(row)) io.to(userRoom(row.user_id)).emit('notification_read', { ids: [row.id] })
+  } else if (payload.eventType === 'DELETE') {
+    const row = payload.old as Partial<NotificationRow>
+    if (row.id && row.user_id) io.to(userRoom(row.user_id)).emit('notification_deleted', { id: row.id })
+  }
+}
+
+/**
+ * Forward new and updated notifications to their recipients' sockets. Every
+ * instance holds its own subscription and only reaches its own sockets, so this
+ * works the same with one instance or many.
+ */
+export function subscribeNotifications(io: Server): () => Promise<void> {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('⚠️  SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY not set – live notifications are disabled.')
+    return async () => {}
+  }
+
+  // Own client: Realtime needs a WebSocket implementation on Node < 22
+  const client: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+    // ws's constructor types are wider than the ones realtime-js declares
+    realtime: { transport: WebSocket as any },
+  })
+
+  const channel = client
+    .channel('notifications-fanout')
+    .on<NotificationRow>('postgres_changes', { event: '*', schema: 'public', table: 'notifications' }, payload =>
+      handleChange(io, payload)
+    )
+    .subscribe((status, err) => {
+      if (status === 'SUBSCRIBED') console.log('🔔 Forwarding notifications to sockets')
+      else if (err) console.error('Notification subscription error', err)
+    })
+
+  return async () => {
+    await client.removeChannel(channel)
+  }
+}
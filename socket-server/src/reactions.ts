@@ -0,0 +1,18 @@
+import { recordRateLimited } from './chat'
+import type { RoomState } from './rooms'
+
+// Same set as QUICK_REACTIONS in components/live/live-room-panel.tsx
+export const REACTION_EMOJIS = ['🔥', '😂', '😮', '😢', '❤️', '👏']
+
+// At most REACTION_RATE_LIMIT reactions per REACTION_RATE_WINDOW ms per user and room
+const REACTION_RATE_LIMIT = 10
+const REACTION_RATE_WINDOW = 10_000
+
+export function isAllowedReaction(emoji: unknown): emoji is string {
+  return typeof emoji === 'string' && REACTION_EMOJIS.includes(emoji)
+}
+
+/** Record a reaction and report whether the user is over the limit. */
+export function isReactionRateLimited(room: RoomState, userId: string): boolean {
+  return recordRateLimited(room.reactionTimestamps, userId, REACTION_RATE_LIMIT, REACTION_RATE_WINDOW)
+}
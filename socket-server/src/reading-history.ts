@@ -0,0 +1,124 @@
+import { supabaseAdmin } from './supabase'
+import type { RoomSummary } from './rooms'
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MANGADEX_API = 'https://api.mangadex.org'
+
+// The chapter the room stopped in, as reading_history stores it
+interface RoomChapter {
+  source: 'local' | 'mangadex'
+  number: number
+  title: string | null
+  totalPages: number
+}
+
+// Subset of reading_history compared by the merge
+interface StoredProgress {
+  user_id: string
+  chapter_number: number | string
+  page: number
+  last_read: string
+}
+
+async function resolveLocalChapter(chapterId: string): Promise<RoomChapter | null> {
+  const { data, error } = await supabaseAdmin!
+    .from('chapters')
+    .select('number, title, pages')
+    .eq('id', chapterId)
+    .maybeSingle()
+  if (error) console.error('resolveLocalChapter error', error)
+  if (!data) return null
+  return {
+    source: 'local',
+    number: Number(data.number),
+    title: data.title ?? null,
+    totalPages: Array.isArray(data.pages) ? data.pages.length : 0,
+  }
+}
+
+// Rooms can read MangaDex chapters, which only MangaDex knows the number of
+async function resolveMangaDexChapter(chapterId: string): Promise<RoomChapter | null> {
+  try {
+    const res = await fetch(`${MANGADEX_API}/chapter/${encodeURIComponent(chapterId)}`)
+    if (!res.ok) return null
+    const attributes = (await res.json())?.data?.attributes
+    const number = parseFloat(attributes?.chapter)
+    if (!Number.isFinite(number)) return null
+    return {
+      source: 'mangadex',
+      number,
+      title: attributes.title || null,
+      totalPages: Number(attributes.pages) || 0,
+    }
+  } catch (err) {
+    console.error('resolveMangaDexChapter error', err)
+    return null
+  }
+}
+
+// Same order as compareProgress in lib/reading-history.ts: chapter, then page, then time
+function isFurther(a: { chapter: number; page: number; lastRead: number }, b: StoredProgress): boolean {
+  const storedChapter = Number(b.chapter_number)
+  if (a.chapter !== storedChapter) return a.chapter > storedChapter
+  if (a.page !== b.page) return a.page > b.page
+  return a.lastRead > new Date(b.last_read).getTime()
+}
+
+/**
+ * Record where the room stopped as reading progress of everyone who took part,
+ * including people who left before the end. Like the reading history API, an
+ * entry only replaces one that is less far along.
+ */
+export async function mergeRoomProgress(summary: RoomSummary): Promise<void> {
+  if (!supabaseAdmin || summary.participants.length === 0) return
+
+  const chapter = UUID_RE.test(summary.chapterId)
+    ? await resolveLocalChapter(summary.chapterId)
+    : await resolveMangaDexChapter(summary.chapterId)
+  if (!chapter) {
+    console.warn(`mergeRoomProgress: chapter ${summary.chapterId} not found, progress not recorded`)
+    return
+  }
+
+  const userIds = summary.participants.map(p => p.userId)
+  const [{ data: content }, { data: existing, error: existingError }] = await Promise.all([
+    supabaseAdmin.from('content').select('title, thumbnail').eq('id', summary.mangaId).maybeSingle(),
+    supabaseAdmin
+      .from('reading_history')
+      .select('user_id, chapter_number, page, last_read')
+      .eq('manga_id', summary.mangaId)
+      .in('user_id', userIds),
+  ])
+  if (existingError) {
+    console.error('mergeRoomProgress history error', existingError)
+    return
+  }
+
+  const stored = new Map((existing as StoredProgress[] | null ?? []).map(row => [row.user_id, row]))
+  const progress = { chapter: chapter.number, page: summary.lastPage, lastRead: summary.endedAt }
+  const now = new Date().toISOString()
+  const rows = userIds
+    .filter(userId => {
+      const row = stored.get(userId)
+      return !row || isFurther(progress, row)
+    })
+    .map(userId => ({
+      user_id: userId,
+      manga_id: summary.mangaId,
+      chapter_id: chapter.source === 'local' ? summary.chapterId : null,
+      external_chapter_id: chapter.source === 'local' ? null : summary.chapterId,
+      source: chapter.source,
+      chapter_number: chapter.number,
+      chapter_title: chapter.title,
+      page: summary.lastPage,
+      total_pages: Math.max(chapter.totalPages, summary.lastPage + 1),
+      manga_title: content?.title ?? null,
+      manga_thumbnail: content?.thumbnail ?? null,
+      last_read: new Date(summary.endedAt).toISOString(),
+      updated_at: now,
+    }))
+  if (rows.length === 0) return
+
+  const { error } = await supabaseAdmin.from('reading_history').upsert(rows, { onConflict: 'user_id,manga_id' })
+  if (error) console.error('mergeRoomProgress upsert error', error)
+}
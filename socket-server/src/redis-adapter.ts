@@ -0,0 +1,63 @@
+import { randomUUID } from 'crypto'
+import Redis from 'ioredis'
+import { RoomAdapter, RoomEnvelope, RoomEvent, RoomEventHandler, SharedRoomSnapshot } from './adapter'
+
+const CHANNEL = 'live-rooms:events'
+const SNAPSHOT_PREFIX = 'live-rooms:snapshot:'
+// Snapshots of rooms nobody touched for this long are dropped (e.g. after a crash)
+const SNAPSHOT_TTL_SECONDS = 6 * 60 * 60
+
+/**
+ * Adapter for Redis and Redis-compatible servers (Valkey, KeyDB, Dragonfly).
+ * Uses one connection for commands and a second one in subscriber mode.
+ */
+export class RedisAdapter implements RoomAdapter {
+  readonly instanceId = randomUUID()
+  private readonly pub: Redis
+  private readonly sub: Redis
+
+  constructor(url: string) {
+    this.pub = new Redis(url)
+    this.sub = new Redis(url)
+    this.pub.on('error', err => console.error('Redis publisher error', err))
+    this.sub.on('error', err => console.error('Redis subscriber error', err))
+  }
+
+  async publish(roomId: string, event: RoomEvent) {
+    const envelope: RoomEnvelope = { origin: this.instanceId, roomId, event }
+    await this.pub.publish(CHANNEL, JSON.stringify(envelope))
+  }
+
+  async subscribe(handler: RoomEventHandler) {
+    this.sub.on('message', (channel: string, raw: string) => {
+      if (channel !== CHANNEL) return
+      let envelope: RoomEnvelope
+      try {
+        envelope = JSON.parse(raw)
+      } catch (err) {
+        console.error('Dropping malformed room event', err)
+        return
+      }
+      if (envelope.origin === this.instanceId) return
+      handler(envelope.roomId, envelope.event)
+    })
+    await this.sub.subscribe(CHANNEL)
+  }
+
+  async loadSnapshot(roomId: string) {
+    const raw = await this.pub.get(SNAPSHOT_PREFIX + roomId)
+    return raw ? (JSON.parse(raw) as SharedRoomSnapshot) : null
+  }
+
+  async saveSnapshot(snapshot: SharedRoomSnapshot) {
+    await this.pub.set(SNAPSHOT_PREFIX + snapshot.id, JSON.stringify(snapshot), 'EX', SNAPSHOT_TTL_SECONDS)
+  }
+
+  async deleteSnapshot(roomId: string) {
+    await this.pub.del(SNAPSHOT_PREFIX + roomId)
+  }
+
+  async close() {
+    await Promise.all([this.sub.quit(), this.pub.quit()])
+  }
+}
@@ -0,0 +1,565 @@
+import { supabaseAdmin } from './supabase'
+import { ChatMessage, appendChatMessage, loadRecentMessages, removeChatMessage } from './chat'
+import { mergeRoomProgress } from './reading-history'
+import type { RoomAdapter, RoomEvent, SharedRoomSnapshot } from './adapter'
+
+export type ParticipantRole = 'host' | 'cohost' | 'viewer'
+
+export interface Participant {
+  userId: string
+  username: string | null
+  avatarUrl: string | null
+  role: ParticipantRole
+  muted: boolean
+  vip: boolean
+  joinedAt: number
+}
+
+export interface RoomState {
+  id: string
+  hostId: string
+  mangaId: string
+  chapterId: string
+  pageIndex: number
+  createdAt: number
+  participants: Map<string, Participant>
+  // userId -> socket ids on this instance (a user may have the room open in several tabs)
+  sockets: Map<string, Set<string>>
+  kicked: Set<string>
+  // Users with a live_room_invites row; the host is always admitted
+  invited: Set<string>
+  // Mutes outlive the participant entry so leaving and rejoining doesn't lift them
+  muted: Set<string>
+  // Last CHAT_HISTORY_LIMIT messages, oldest first
+  messages: ChatMessage[]
+  // Per-instance rate limit bookkeeping, not shared
+  chatTimestamps: Map<string, number[]>
+  reactionTimestamps: Map<string, number[]>
+  // Session stats for the end-of-room summary
+  pagesTurned: number
+  reactionsCount: number
+  // Everyone who joined at some point, including people who already left
+  attendees: Map<string, Attendee>
+  lastActivityAt: number
+  ended: boolean
+}
+
+export interface Attendee {
+  userId: string
+  username: string | null
+  avatarUrl: string | null
+}
+
+export type RoomEndReason = 'closed' | 'host_left' | 'inactive' | 'empty'
+
+// "You read 42 pages together" – sent to clients and stored in live_room_summaries
+export interface RoomSummary {
+  roomId: string
+  hostId: string
+  mangaId: string
+  chapterId: string
+  lastPage: number
+  pagesTurned: number
+  reactionsCount: number
+  participants: Attendee[]
+  startedAt: number
+  endedAt: number
+  durationSeconds: number
+  reason: RoomEndReason
+}
+
+// Shape sent over the wire (Maps/Sets don't serialize)
+export interface RoomSnapshot {
+  roomId: string
+  hostId: string
+  mangaId: string
+  chapterId: string
+  pageIndex: number
+  participants: Participant[]
+  messages: ChatMessage[]
+}
+
+// Debounce timers for page persistence so a fast reader doesn't hammer the DB
+const pagePersistTimers = new Map<string, { timer: NodeJS.Timeout; flush: () => Promise<void> }>()
+const PAGE_PERSIST_DELAY = 2000
+
+export function snapshotRoom(room: RoomState): RoomSnapshot {
+  return {
+    roomId: room.id,
+    hostId: room.hostId,
+    mangaId: room.mangaId,
+    chapterId: room.chapterId,
+    pageIndex: room.pageIndex,
+    participants: Array.from(room.participants.values()),
+    messages: room.messages,
+  }
+}
+
+export function canControlPages(room: RoomState, userId: string): boolean {
+  const role = room.participants.get(userId)?.role
+  return role === 'host' || role === 'cohost'
+}
+
+export function toSharedSnapshot(room: RoomState): SharedRoomSnapshot {
+  return {
+    id: room.id,
+    hostId: room.hostId,
+    mangaId: room.mangaId,
+    chapterId: room.chapterId,
+    pageIndex: room.pageIndex,
+    createdAt: room.createdAt,
+    participants: Array.from(room.participants.values()),
+    kicked: Array.from(room.kicked),
+    invited: Array.from(room.invited),
+    muted: Array.from(room.muted),
+    messages: room.messages,
+    pagesTurned: room.pagesTurned,
+    reactionsCount: room.reactionsCount,
+    attendees: Array.from(room.attendees.values()),
+    lastActivityAt: room.lastActivityAt,
+  }
+}
+
+function fromSharedSnapshot(snapshot: SharedRoomSnapshot): RoomState {
+  return {
+    id: snapshot.id,
+    hostId: snapshot.hostId,
+    mangaId: snapshot.mangaId,
+    chapterId: snapshot.chapterId,
+    pageIndex: snapshot.pageIndex,
+    createdAt: snapshot.createdAt,
+    participants: new Map(snapshot.participants.map(p => [p.userId, p])),
+    sockets: new Map(),
+    kicked: new Set(snapshot.kicked),
+    invited: new Set(snapshot.invited),
+    muted: new Set(snapshot.muted),
+    messages: snapshot.messages,
+    chatTimestamps: new Map(),
+    reactionTimestamps: new Map(),
+    pagesTurned: snapshot.pagesTurned,
+    reactionsCount: snapshot.reactionsCount,
+    attendees: new Map(snapshot.attendees.map(a => [a.userId, a])),
+    lastActivityAt: snapshot.lastActivityAt,
+    ended: false,
+  }
+}
+
+export function buildRoomSummary(room: RoomState, reason: RoomEndReason): RoomSummary {
+  const endedAt = Date.now()
+  return {
+    roomId: room.id,
+    hostId: room.hostId,
+    mangaId: room.mangaId,
+    chapterId: room.chapterId,
+    lastPage: room.pageIndex,
+    pagesTurned: room.pagesTurned,
+    reactionsCount: room.reactionsCount,
+    participants: Array.from(room.attendees.values()),
+    startedAt: room.createdAt,
+    endedAt,
+    durationSeconds: Math.max(0, Math.round((endedAt - room.createdAt) / 1000)),
+    reason,
+  }
+}
+
+/**
+ * Apply an event to this instance's copy of the room. Runs on the instance that
+ * produced the event and on every instance that receives it from the adapter.
+ */
+export function applyRoomEvent(room: RoomState, event: RoomEvent) {
+  if (event.type !== 'presence_leave') room.lastActivityAt = Date.now()
+
+  switch (event.type) {
+    case 'page':
+      room.pageIndex = event.pageIndex
+      room.pagesTurned++
+      break
+    case 'chapter':
+      room.chapterId = event.chapterId
+      room.pageIndex = 0
+      break
+    case 'presence_join': {
+      const { userId, username, avatarUrl } = event.participant
+      room.participants.set(userId, event.participant)
+      room.attendees.set(userId, { userId, username, avatarUrl })
+      break
+    }
+    case 'presence_leave':
+      room.participants.delete(event.userId)
+      break
+    case 'participant_update':
+      room.participants.set(event.participant.userId, event.participant)
+      if (event.participant.muted) room.muted.add(event.participant.userId)
+      else room.muted.delete(event.participant.userId)
+      break
+    case 'chat':
+      appendChatMessage(room, event.message)
+      break
+    case 'chat_deleted':
+      removeChatMessage(room, event.messageId)
+      break
+    case 'kick':
+      room.kicked.add(event.targetId)
+      // Kicked users aren't in the summary and don't get the room's progress
+      room.attendees.delete(event.targetId)
+      break
+    case 'reaction':
+      room.reactionsCount++
+      break
+    case 'ended':
+      room.ended = true
+      break
+  }
+}
+
+/**
+ * Rooms loaded by one server instance. Each instance keeps its own copy of a room
+ * and the adapter keeps the copies in sync, so nothing here is process-global.
+ */
+export class RoomRegistry {
+  private readonly rooms = new Map<string, RoomState>()
+
+  constructor(private readonly adapter: RoomAdapter) {}
+
+  get(roomId: string): RoomState | undefined {
+    return this.rooms.get(roomId)
+  }
+
+  /**
+   * Return the in-memory room, loading it on first access: from the adapter's
+   * shared snapshot when another instance already has it open, otherwise from
+   * `live_rooms`. Returns null when the room doesn't exist or is no longer active.
+   */
+  async load(roomId: string): Promise<RoomState | null> {
+    const existing = this.rooms.get(roomId)
+    if (existing) return existing
+
+    const shared = await this.adapter.loadSnapshot(roomId)
+    const room = shared ? fromSharedSnapshot(shared) : await loadRoomFromDatabase(roomId)
+    if (!room) return null
+
+    // Another join may have loaded the room while we were awaiting the queries
+    const raced = this.rooms.get(roomId)
+    if (raced) return raced
+
+    this.rooms.set(roomId, room)
+    return room
+  }
+
+  async unload(roomId: string) {
+    const pending = pagePersistTimers.get(roomId)
+    if (pending) {
+      clearTimeout(pending.timer)
+      pagePersistTimers.delete(roomId)
+      await pending.flush()
+    }
+    this.rooms.delete(roomId)
+  }
+
+  all(): RoomState[] {
+    return Array.from(this.rooms.values())
+  }
+}
+
+async function loadRoomFromDatabase(roomId: string): Promise<RoomState | null> {
+  if (!supabaseAdmin) return null
+
+  const { data, error } = await supabaseAdmin
+    .from('live_rooms')
+    .select('id, host_id, manga_id, chapter_id, current_page, created_at, is_active')
+    .eq('id', roomId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('loadRoom error', error)
+    return null
+  }
+  if (!data || data.is_active === false) return null
+
+  const { data: invites, error: invitesError } = await supabaseAdmin
+    .from('live_room_invites')
+    .select('invitee_id')
+    .eq('room_id', roomId)
+  if (invitesError) console.error('loadRoom invites error', invitesError)
+
+  const { data: mutedRows, error: mutedError } = await supabaseAdmin
+    .from('live_room_participants')
+    .select('user_id')
+    .eq('room_id', roomId)
+    .eq('is_muted', true)
+  if (mutedError) console.error('loadRoom muted error', mutedError)
+
+  const { data: kickedRows, error: kickedError } = await supabaseAdmin
+    .from('live_room_participants')
+    .select('user_id')
+    .eq('room_id', roomId)
+    .not('kicked_at', 'is', null)
+  if (kickedError) console.error('loadRoom kicked error', kickedError)
+
+  const messages = await loadRecentMessages(roomId)
+
+  return {
+    id: data.id,
+    hostId: data.host_id,
+    mangaId: data.manga_id,
+    chapterId: data.chapter_id,
+    pageIndex: data.current_page ?? 0,
+    createdAt: data.created_at ? new Date(data.created_at).getTime() : Date.now(),
+    participants: new Map(),
+    sockets: new Map(),
+    kicked: new Set((kickedRows ?? []).map(row => row.user_id as string)),
+    invited: new Set((invites ?? []).map(invite => invite.invitee_id as string)),
+    muted: new Set((mutedRows ?? []).map(row => row.user_id as string)),
+    messages,
+    chatTimestamps: new Map(),
+    reactionTimestamps: new Map(),
+    pagesTurned: 0,
+    reactionsCount: 0,
+    attendees: new Map(),
+    lastActivityAt: Date.now(),
+    ended: false,
+  }
+}
+
+/**
+ * Whether `userId` may join the room: the host, or anyone the host invited.
+ * Invites sent after the room was loaded aren't in memory yet, so a miss falls
+ * back to the database before rejecting.
+ */
+export async function canJoinRoom(room: RoomState, userId: string): Promise<boolean> {
+  if (userId === room.hostId || room.invited.has(userId)) return true
+  if (!supabaseAdmin) return false
+
+  const { data, error } = await supabaseAdmin
+    .from('live_room_invites')
+    .select('invitee_id')
+    .eq('room_id', room.id)
+    .eq('invitee_id', userId)
+    .maybeSingle()
+  if (error) {
+    console.error('canJoinRoom error', error)
+    return false
+  }
+  if (!data) return false
+
+  room.invited.add(userId)
+  return true
+}
+
+interface ProfileSummary {
+  username: string | null
+  avatarUrl: string | null
+  vip: boolean
+}
+
+export async function fetchProfile(userId: string): Promise<ProfileSummary> {
+  if (!supabaseAdmin) return { username: null, avatarUrl: null, vip: false }
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('username, avatar_url, vip_status')
+    .eq('id', userId)
+    .maybeSingle()
+  if (error) {
+    console.error('fetchProfile error', error)
+    return { username: null, avatarUrl: null, vip: false }
+  }
+  return { username: data?.username ?? null, avatarUrl: data?.avatar_url ?? null, vip: !!data?.vip_status }
+}
+
+// ---------------------------------------------------------------------------
+// Persistence (best-effort – the in-memory state stays authoritative)
+// ---------------------------------------------------------------------------
+
+export async function persistJoin(roomId: string, participant: Participant) {
+  if (!supabaseAdmin) return
+  const { error } = await supabaseAdmin.from('live_room_participants').upsert(
+    {
+      room_id: roomId,
+      user_id: participant.userId,
+      role: participant.role,
+      is_muted: participant.muted,
+      joined_at: new Date(participant.joinedAt).toISOString(),
+      left_at: null,
+    },
+    { onConflict: 'room_id,user_id' }
+  )
+  if (error) console.error('persistJoin error', error)
+  await touchRoom(roomId)
+}
+
+async function touchRoom(roomId: string) {
+  const { error } = await supabaseAdmin!
+    .from('live_rooms')
+    .update({ last_activity_at: new Date().toISOString() })
+    .eq('id', roomId)
+  if (error) console.error('touchRoom error', error)
+}
+
+export async function persistLeave(roomId: string, userId: string) {
+  if (!supabaseAdmin) return
+  const { error } = await supabaseAdmin
+    .from('live_room_participants')
+    .update({ left_at: new Date().toISOString() })
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+  if (error) console.error('persistLeave error', error)
+}
+
+export async function persistParticipant(roomId: string, participant: Participant) {
+  if (!supabaseAdmin) return
+  const { error } = await supabaseAdmin
+    .from('live_room_participants')
+    .update({ role: participant.role, is_muted: participant.muted })
+    .eq('room_id', roomId)
+    .eq('user_id', participant.userId)
+  if (error) console.error('persistParticipant error', error)
+}
+
+// Kicks are stored so they survive the room being reloaded from the database
+export async function persistKick(roomId: string, userId: string) {
+  if (!supabaseAdmin) return
+  const now = new Date().toISOString()
+  const { error } = await supabaseAdmin
+    .from('live_room_participants')
+    .upsert({ room_id: roomId, user_id: userId, kicked_at: now, left_at: now }, { onConflict: 'room_id,user_id' })
+  if (error) console.error('persistKick error', error)
+}
+
+export async function persistChapter(room: RoomState) {
+  if (!supabaseAdmin) return
+  const { error } = await supabaseAdmin
+    .from('live_rooms')
+    .update({ chapter_id: room.chapterId, current_page: room.pageIndex, last_activity_at: new Date().toISOString() })
+    .eq('id', room.id)
+  if (error) console.error('persistChapter error', error)
+}
+
+export function schedulePagePersist(room: RoomState) {
+  if (!supabaseAdmin) return
+  const pending = pagePersistTimers.get(room.id)
+  if (pending) clearTimeout(pending.timer)
+
+  const flush = async () => {
+    pagePersistTimers.delete(room.id)
+    const { error } = await supabaseAdmin!
+      .from('live_rooms')
+      .update({ current_page: room.pageIndex, last_activity_at: new Date().toISOString() })
+      .eq('id', room.id)
+    if (error) console.error('persistPage error', error)
+  }
+  pagePersistTimers.set(room.id, { timer: setTimeout(flush, PAGE_PERSIST_DELAY), flush })
+}
+
+// ---------------------------------------------------------------------------
+// Ending rooms
+// ---------------------------------------------------------------------------
+
+/**
+ * Mark the room inactive, close open participant rows, store the summary and
+ * merge the room's progress into every participant's reading history.
+ * Returns false when the room was already ended (by another instance or the
+ * cleanup job), so exactly one caller announces the end.
+ */
+export async function persistRoomEnd(summary: RoomSummary): Promise<boolean> {
+  if (!supabaseAdmin) return true
+  const endedAt = new Date(summary.endedAt).toISOString()
+
+  const { data: flipped, error } = await supabaseAdmin
+    .from('live_rooms')
+    .update({ is_active: false, ended_at: endedAt, current_page: summary.lastPage })
+    .eq('id', summary.roomId)
+    .eq('is_active', true)
+    .select('id')
+  if (error) {
+    console.error('persistRoomEnd error', error)
+    return false
+  }
+  if (!flipped || flipped.length === 0) return false
+
+  const { error: leftError } = await supabaseAdmin
+    .from('live_room_participants')
+    .update({ left_at: endedAt })
+    .eq('room_id', summary.roomId)
+    .is('left_at', null)
+  if (leftError) console.error('persistRoomEnd left_at error', leftError)
+
+  const { error: summaryError } = await supabaseAdmin.from('live_room_summaries').upsert(
+    {
+      room_id: summary.roomId,
+      host_id: summary.hostId,
+      manga_id: summary.mangaId,
+      chapter_id: summary.chapterId,
+      last_page: summary.lastPage,
+      pages_turned: summary.pagesTurned,
+      reactions_count: summary.reactionsCount,
+      participant_ids: summary.participants.map(p => p.userId),
+      started_at: new Date(summary.startedAt).toISOString(),
+      ended_at: endedAt,
+      duration_seconds: summary.durationSeconds,
+      end_reason: summary.reason,
+    },
+    { onConflict: 'room_id' }
+  )
+  if (summaryError) console.error('persistRoomEnd summary error', summaryError)
+
+  // Everyone who took part keeps the room's progress, whether or not they saw the end
+  await mergeRoomProgress(summary).catch(err => console.error('persistRoomEnd progress error', err))
+  return true
+}
+
+/** Active rooms whose last recorded activity is older than `idleMs`. */
+export async function findIdleRoomIds(idleMs: number): Promise<string[]> {
+  if (!supabaseAdmin) return []
+  const { data, error } = await supabaseAdmin
+    .from('live_rooms')
+    .select('id')
+    .eq('is_active', true)
+    .lt('last_activity_at', new Date(Date.now() - idleMs).toISOString())
+    .limit(100)
+  if (error) {
+    console.error('findIdleRoomIds error', error)
+    return []
+  }
+  return (data ?? []).map(row => row.id as string)
+}
+
+/**
+ * End a room no server instance has loaded (e.g. the server restarted mid-session).
+ * Live stats are gone, so the summary only has what the database knows.
+ */
+export async function closeOrphanedRoom(roomId: string): Promise<void> {
+  if (!supabaseAdmin) return
+  const { data: room, error } = await supabaseAdmin
+    .from('live_rooms')
+    .select('id, host_id, manga_id, chapter_id, current_page, created_at')
+    .eq('id', roomId)
+    .maybeSingle()
+  if (error || !room) {
+    if (error) console.error('closeOrphanedRoom error', error)
+    return
+  }
+
+  // Kicked users get neither the summary nor the room's progress
+  const { data: rows } = await supabaseAdmin
+    .from('live_room_participants')
+    .select('user_id')
+    .eq('room_id', roomId)
+    .is('kicked_at', null)
+
+  const startedAt = room.created_at ? new Date(room.created_at).getTime() : Date.now()
+  const endedAt = Date.now()
+  await persistRoomEnd({
+    roomId,
+    hostId: room.host_id,
+    mangaId: room.manga_id,
+    chapterId: room.chapter_id,
+    lastPage: room.current_page ?? 0,
+    pagesTurned: 0,
+    reactionsCount: 0,
+    participants: (rows ?? []).map(row => ({ userId: row.user_id as string, username: null, avatarUrl: null })),
+    startedAt,
+    endedAt,
+    durationSeconds: Math.max(0, Math.round((endedAt - startedAt) / 1000)),
+    reason: 'inactive',
+  })
+}
@@ -0,0 +1,100 @@
+import express from 'express'
+import { createServer, Server as HttpServer } from 'http'
+import { AddressInfo } from 'net'
+import { Server } from 'socket.io'
+import cors from 'cors'
+import jwt from 'jsonwebtoken'
+import { RoomAdapter } from './adapter'
+import { RoomRegistry } from './rooms'
+import { registerLiveRoomHandlers, startRoomCleanup, subscribeRoomEvents } from './live-room'
+import { registerNotificationHandlers, subscribeNotifications } from './notifications'
+
+interface JwtPayload {
+  sub: string
+  [key: string]: any
+}
+
+export interface LiveServerOptions {
+  adapter: RoomAdapter
+  jwtSecret: string
+}
+
+export interface LiveServer {
+  io: Server
+  httpServer: HttpServer
+  listen(port: number | string): Promise<number>
+  close(): Promise<void>
+}
+
+/**
+ * Build a socket server instance. Several instances (in one process or across
+ * machines) share rooms as long as their adapters talk to the same backend.
+ */
+export async function createLiveServer({ adapter, jwtSecret }: LiveServerOptions): Promise<LiveServer> {
+  const app = express()
+  app.use(cors())
+  app.get('/', (_req: express.Request, res: express.Response) => {
+    res.send('Manganime Live Reading Socket Server')
+  })
+
+  const httpServer = createServer(app)
+
+  const io = new Server(httpServer, {
+    cors: {
+      origin: '*',
+    },
+  })
+
+  type SafeSocket = typeof io extends { on: any } ? any : never
+
+  // Auth middleware – verifies Supabase JWT
+  io.use((socket: SafeSocket, next) => {
+    const token = socket.handshake.auth?.token || socket.handshake.query?.token
+    if (!token) {
+      return next(new Error('No token provided'))
+    }
+    try {
+      const decoded = jwt.verify(token, jwtSecret) as JwtPayload
+      socket.data.user = {
+        id: decoded.sub,
+        ...decoded,
+      }
+      return next()
+    } catch (err) {
+      return next(new Error('Invalid token'))
+    }
+  })
+
+  const ctx = { io, registry: new RoomRegistry(adapter), adapter, closeTimers: new Map<string, NodeJS.Timeout>() }
+  await subscribeRoomEvents(ctx)
+  const stopCleanup = startRoomCleanup(ctx)
+  const stopNotifications = subscribeNotifications(io)
+
+  io.on('connection', (socket: SafeSocket) => {
+    const { id: userId } = socket.data.user || {}
+    console.log(`🔗  User connected: ${userId} (${socket.id})`)
+
+    registerLiveRoomHandlers(ctx, socket)
+    registerNotificationHandlers(socket)
+
+    socket.on('disconnect', () => {
+      console.log(`❌  User disconnected: ${userId}`)
+    })
+  })
+
+  return {
+    io,
+    httpServer,
+    listen: port =>
+      new Promise(resolve => {
+        httpServer.listen(port, () => resolve((httpServer.address() as AddressInfo).port))
+      }),
+    close: async () => {
+      stopCleanup()
+      await stopNotifications()
+      for (const timer of Array.from(ctx.closeTimers.values())) clearTimeout(timer)
+      await new Promise<void>(resolve => io.close(() => resolve()))
+      await adapter.close()
+    },
+  }
+}
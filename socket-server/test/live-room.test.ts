@@ -0,0 +1,136 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomUUID } from 'crypto'
+import jwt from 'jsonwebtoken'
+import { io as connect, Socket as ClientSocket } from 'socket.io-client'
+import type { MemoryHub, SharedRoomSnapshot } from '../src/adapter'
+import type { LiveServer } from '../src/server'
+
+// Two server instances in one process, sharing rooms through one MemoryHub the way
+// separate machines share them through Redis. Supabase is left unconfigured so rooms
+// come from the seeded snapshot and nothing is persisted.
+delete process.env.SUPABASE_URL
+delete process.env.NEXT_PUBLIC_SUPABASE_URL
+delete process.env.SUPABASE_SERVICE_ROLE_KEY
+delete process.env.SUPABASE_SERVICE_KEY
+
+const JWT_SECRET = 'live-room-test-secret'
+const ROOM_ID = randomUUID()
+const HOST_ID = randomUUID()
+const GUEST_ID = randomUUID()
+const EVENT_TIMEOUT = 2000
+
+let hub: MemoryHub
+let servers: LiveServer[] = []
+let ports: number[] = []
+const sockets: ClientSocket[] = []
+
+function seedRoom(hub: MemoryHub) {
+  const now = Date.now()
+  const snapshot: SharedRoomSnapshot = {
+    id: ROOM_ID,
+    hostId: HOST_ID,
+    mangaId: randomUUID(),
+    chapterId: randomUUID(),
+    pageIndex: 0,
+    createdAt: now,
+    participants: [],
+    kicked: [],
+    invited: [GUEST_ID],
+    muted: [],
+    messages: [],
+    pagesTurned: 0,
+    reactionsCount: 0,
+    attendees: [],
+    lastActivityAt: now,
+  }
+  hub.snapshots.set(ROOM_ID, JSON.stringify(snapshot))
+}
+
+function connectAs(port: number, userId: string): Promise<ClientSocket> {
+  const socket = connect(`http://localhost:${port}`, {
+    auth: { token: jwt.sign({ sub: userId }, JWT_SECRET) },
+    transports: ['websocket'],
+    forceNew: true,
+    reconnection: false,
+  })
+  sockets.push(socket)
+  return new Promise((resolve, reject) => {
+    socket.once('connect', () => resolve(socket))
+    socket.once('connect_error', reject)
+  })
+}
+
+function waitFor<T = any>(socket: ClientSocket, event: string, matches: (payload: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, listener)
+      reject(new Error(`Timed out waiting for "${event}"`))
+    }, EVENT_TIMEOUT)
+    const listener = (payload: T) => {
+      if (!matches(payload)) return
+      clearTimeout(timer)
+      socket.off(event, listener)
+      resolve(payload)
+    }
+    socket.on(event, listener)
+  })
+}
+
+async function join(socket: ClientSocket) {
+  const state = waitFor(socket, 'room_state')
+  socket.emit('join', { roomId: ROOM_ID })
+  return state
+}
+
+before(async () => {
+  // Loaded after the environment is cleared, so the modules see no Supabase config
+  const { createMemoryHub, MemoryAdapter } = await import('../src/adapter')
+  const { createLiveServer } = await import('../src/server')
+
+  hub = createMemoryHub()
+  seedRoom(hub)
+  servers = await Promise.all([
+    createLiveServer({ adapter: new MemoryAdapter(hub), jwtSecret: JWT_SECRET }),
+    createLiveServer({ adapter: new MemoryAdapter(hub), jwtSecret: JWT_SECRET }),
+  ])
+  ports = await Promise.all(servers.map(server => server.listen(0)))
+})
+
+after(async () => {
+  for (const socket of sockets) socket.disconnect()
+  await Promise.all(servers.map(server => server.close()))
+})
+
+test('page turns, presence and reactions cross server instances', async () => {
+  const host = await connectAs(ports[0], HOST_ID)
+  const guest = await connectAs(ports[1], GUEST_ID)
+
+  const hostState = await join(host)
+  assert.equal(hostState.hostId, HOST_ID)
+
+  // The guest joins the other instance; the host hears about it through the adapter
+  const guestJoined = waitFor(host, 'presence', (event: any) => event.type === 'join' && event.participant.userId === GUEST_ID)
+  const guestState = await join(guest)
+  await guestJoined
+  assert.deepEqual(
+    guestState.participants.map((participant: any) => participant.userId).sort(),
+    [HOST_ID, GUEST_ID].sort()
+  )
+
+  const pageTurned = waitFor(guest, 'page')
+  host.emit('page', { roomId: ROOM_ID, pageIndex: 3 })
+  assert.deepEqual(await pageTurned, { pageIndex: 3, userId: HOST_ID })
+
+  const reacted = waitFor(host, 'reaction')
+  guest.emit('reaction', { roomId: ROOM_ID, emoji: '🔥' })
+  assert.deepEqual(await reacted, { emoji: '🔥', userId: GUEST_ID })
+
+  const rejected = waitFor(guest, 'room_error')
+  guest.emit('reaction', { roomId: ROOM_ID, emoji: { not: 'an emoji' } })
+  assert.equal((await rejected).message, 'Unknown reaction')
+
+  const guestLeft = waitFor(host, 'presence', (event: any) => event.type === 'leave' && event.userId === GUEST_ID)
+  guest.disconnect()
+  await guestLeft
+})
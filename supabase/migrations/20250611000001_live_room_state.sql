@@ -0,0 +1,32 @@
+-- Migration: Live room state, participant roles and RLS
+
+-- Current page of the room so a restarted socket server can resume where the host left off
+ALTER TABLE public.live_rooms ADD COLUMN IF NOT EXISTS current_page INTEGER NOT NULL DEFAULT 0;
+
+-- Roles (host / cohost / viewer) and mute flag per participant
+ALTER TABLE public.live_room_participants
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('host', 'cohost', 'viewer'));
+ALTER TABLE public.live_room_participants
+  ADD COLUMN IF NOT EXISTS is_muted BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS live_room_participants_user_idx ON public.live_room_participants(user_id);
+
+-- Writes go through the socket server / API routes with the service role,
+-- users only ever read their own rooms. The participants policy must not reference
+-- live_rooms, otherwise the two policies recurse into each other.
+ALTER TABLE public.live_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_room_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS live_rooms_select ON public.live_rooms;
+CREATE POLICY live_rooms_select ON public.live_rooms
+FOR SELECT USING (
+  auth.uid() = host_id
+  OR EXISTS (
+    SELECT 1 FROM public.live_room_participants p
+    WHERE p.room_id = live_rooms.id AND p.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS live_room_participants_select ON public.live_room_participants;
+CREATE POLICY live_room_participants_select ON public.live_room_participants
+FOR SELECT USING (auth.uid() = user_id);
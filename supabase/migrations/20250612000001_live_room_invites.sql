@@ -0,0 +1,39 @@
+-- Migration: Live room invites and live_invite notifications
+
+-- Users the host has invited into a room. The socket server only admits the host
+-- and users with a row here.
+CREATE TABLE IF NOT EXISTS public.live_room_invites (
+  room_id UUID NOT NULL REFERENCES public.live_rooms(id) ON DELETE CASCADE,
+  invitee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  inviter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, invitee_id)
+);
+
+CREATE INDEX IF NOT EXISTS live_room_invites_invitee_idx ON public.live_room_invites(invitee_id);
+
+-- Invites are written with the service role; users can see invites they sent or received
+ALTER TABLE public.live_room_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS live_room_invites_select ON public.live_room_invites;
+CREATE POLICY live_room_invites_select ON public.live_room_invites
+FOR SELECT USING (auth.uid() = invitee_id OR auth.uid() = inviter_id);
+
+-- Invited users can read the room they were invited to before joining it
+DROP POLICY IF EXISTS live_rooms_select ON public.live_rooms;
+CREATE POLICY live_rooms_select ON public.live_rooms
+FOR SELECT USING (
+  auth.uid() = host_id
+  OR EXISTS (
+    SELECT 1 FROM public.live_room_participants p
+    WHERE p.room_id = live_rooms.id AND p.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.live_room_invites i
+    WHERE i.room_id = live_rooms.id AND i.invitee_id = auth.uid()
+  )
+);
+
+-- live_invite notifications deep-link to the room
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS room_id UUID REFERENCES public.live_rooms(id) ON DELETE SET NULL;
@@ -0,0 +1,30 @@
+-- Migration: Persistent chat for live reading rooms
+
+CREATE TABLE IF NOT EXISTS public.live_room_messages (
+  id UUID PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES public.live_rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT CHECK (content IS NULL OR char_length(content) <= 500),
+  sticker_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Set when the host removes a message; deleted messages are never replayed
+  deleted_at TIMESTAMPTZ,
+  CHECK (content IS NOT NULL OR sticker_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS live_room_messages_room_created_idx
+  ON public.live_room_messages(room_id, created_at DESC);
+
+-- Messages are written by the socket server with the service role.
+-- Participants can read the history of rooms they took part in.
+ALTER TABLE public.live_room_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS live_room_messages_select ON public.live_room_messages;
+CREATE POLICY live_room_messages_select ON public.live_room_messages
+FOR SELECT USING (
+  deleted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.live_room_participants p
+    WHERE p.room_id = live_room_messages.room_id AND p.user_id = auth.uid()
+  )
+);
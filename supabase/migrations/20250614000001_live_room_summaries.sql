@@ -0,0 +1,34 @@
+-- Migration: Live room lifecycle (ending rooms) and post-session summaries
+
+ALTER TABLE public.live_rooms ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+-- Touched on joins and page turns; the socket server's cleanup job closes rooms idle for too long
+ALTER TABLE public.live_rooms ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS live_rooms_active_activity_idx
+  ON public.live_rooms(last_activity_at) WHERE is_active;
+
+-- One row per finished session ("You read 42 pages together")
+CREATE TABLE IF NOT EXISTS public.live_room_summaries (
+  room_id UUID PRIMARY KEY REFERENCES public.live_rooms(id) ON DELETE CASCADE,
+  host_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  manga_id TEXT NOT NULL,
+  chapter_id TEXT NOT NULL,
+  last_page INTEGER NOT NULL DEFAULT 0,
+  pages_turned INTEGER NOT NULL DEFAULT 0,
+  reactions_count INTEGER NOT NULL DEFAULT 0,
+  participant_ids UUID[] NOT NULL DEFAULT '{}',
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  duration_seconds INTEGER NOT NULL DEFAULT 0,
+  end_reason TEXT NOT NULL CHECK (end_reason IN ('closed', 'host_left', 'inactive', 'empty'))
+);
+
+CREATE INDEX IF NOT EXISTS live_room_summaries_participants_idx
+  ON public.live_room_summaries USING GIN (participant_ids);
+
+-- Written by the socket server with the service role; readable by everyone who took part
+ALTER TABLE public.live_room_summaries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS live_room_summaries_select ON public.live_room_summaries;
+CREATE POLICY live_room_summaries_select ON public.live_room_summaries
+FOR SELECT USING (auth.uid() = host_id OR auth.uid() = ANY(participant_ids));
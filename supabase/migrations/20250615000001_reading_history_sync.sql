@@ -0,0 +1,59 @@
+-- Migration: Server-authoritative reading history (one row per user + manga)
+
+CREATE TABLE IF NOT EXISTS public.reading_history (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  manga_id TEXT NOT NULL,
+  chapter_id TEXT,
+  last_read TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Columns the sync engine reads and writes; older installs only have a subset
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS chapter_id TEXT;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS chapter_number NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS chapter_title TEXT;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS page INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS total_pages INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS manga_title TEXT;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS manga_thumbnail TEXT;
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS last_read TIMESTAMPTZ NOT NULL DEFAULT now();
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Chapters that don't live in our `chapters` table (MangaDex) are stored by source + external id
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'local';
+ALTER TABLE public.reading_history ADD COLUMN IF NOT EXISTS external_chapter_id TEXT;
+ALTER TABLE public.reading_history ALTER COLUMN chapter_id DROP NOT NULL;
+
+ALTER TABLE public.reading_history DROP CONSTRAINT IF EXISTS reading_history_source_check;
+ALTER TABLE public.reading_history ADD CONSTRAINT reading_history_source_check
+  CHECK (source IN ('local', 'mangadex'));
+
+-- Keep only the furthest entry per manga (same rule as the client merge) before enforcing uniqueness
+DELETE FROM public.reading_history a
+USING public.reading_history b
+WHERE a.user_id = b.user_id
+  AND a.manga_id = b.manga_id
+  AND a.ctid <> b.ctid
+  AND (a.chapter_number, a.page, a.last_read, a.ctid::TEXT) < (b.chapter_number, b.page, b.last_read, b.ctid::TEXT);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reading_history_user_manga_idx
+  ON public.reading_history(user_id, manga_id);
+CREATE INDEX IF NOT EXISTS reading_history_user_last_read_idx
+  ON public.reading_history(user_id, last_read DESC);
+
+ALTER TABLE public.reading_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS reading_history_select ON public.reading_history;
+CREATE POLICY reading_history_select ON public.reading_history
+FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS reading_history_insert ON public.reading_history;
+CREATE POLICY reading_history_insert ON public.reading_history
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS reading_history_update ON public.reading_history;
+CREATE POLICY reading_history_update ON public.reading_history
+FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS reading_history_delete ON public.reading_history;
+CREATE POLICY reading_history_delete ON public.reading_history
+FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Migration: Tombstones for removed library (watchlist) items
+-- A device that still has an item cached compares its `lastUpdated` against `deleted_at`
+-- instead of re-adding it on the next sync.
+
+CREATE TABLE IF NOT EXISTS public.library_tombstones (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content_id UUID NOT NULL,
+  content_type TEXT NOT NULL CHECK (content_type IN ('manga', 'comics')),
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, content_id, content_type)
+);
+
+ALTER TABLE public.library_tombstones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS library_tombstones_select ON public.library_tombstones;
+CREATE POLICY library_tombstones_select ON public.library_tombstones
+FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS library_tombstones_insert ON public.library_tombstones;
+CREATE POLICY library_tombstones_insert ON public.library_tombstones
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS library_tombstones_update ON public.library_tombstones;
+CREATE POLICY library_tombstones_update ON public.library_tombstones
+FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS library_tombstones_delete ON public.library_tombstones;
+CREATE POLICY library_tombstones_delete ON public.library_tombstones
+FOR DELETE USING (auth.uid() = user_id);
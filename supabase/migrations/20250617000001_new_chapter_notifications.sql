@@ -0,0 +1,10 @@
+-- Migration: Opt-out flag for new chapter notifications
+-- Users reading or planning to read a title get one notification per batch of new chapters
+-- unless they switch this off in the notification settings.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS new_chapter_notifications BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- The fan-out looks up watchers of a title by status
+CREATE INDEX IF NOT EXISTS watchlist_content_status_idx
+  ON public.watchlist (content_id, status);
@@ -0,0 +1,14 @@
+-- Migration: Per-type notification preferences and delivery channels
+-- `notification_preferences` holds the type × channel matrix, quiet hours and muted titles
+-- (see lib/notification-preferences.ts); unset keys fall back to the defaults in code.
+-- Each notification records the channels it was delivered on so the in-app feed can skip
+-- notifications the user only wants by email or push.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS channels TEXT[] NOT NULL DEFAULT ARRAY['in_app']::TEXT[];
+
+CREATE INDEX IF NOT EXISTS notifications_channels_idx
+  ON public.notifications USING GIN (channels);
@@ -0,0 +1,20 @@
+-- Migration: Stream notification changes to the socket server
+-- The socket server subscribes to this table with the service role and forwards
+-- inserts and read-state changes to the recipient's open tabs.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- Deletes carry the whole old row so the recipient can be looked up
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+
+-- Keyset pagination of the notification feed
+CREATE INDEX IF NOT EXISTS notifications_user_feed_idx
+  ON public.notifications (user_id, created_at DESC, id DESC);
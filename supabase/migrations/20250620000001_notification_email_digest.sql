@@ -0,0 +1,10 @@
+-- Migration: Email digests of unread notifications
+-- `emailed_at` marks notifications already sent in a digest so re-runs don't repeat them.
+-- The digest frequency lives in profiles.notification_preferences (`email_digest`).
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS notifications_email_pending_idx
+  ON public.notifications (user_id, created_at DESC)
+  WHERE emailed_at IS NULL AND is_read = FALSE;
@@ -0,0 +1,30 @@
+-- Migration: Web Push subscriptions
+-- One row per browser/device that accepted push for a user. Rows are written by
+-- /api/notifications/push-subscriptions and removed when the push service reports
+-- the subscription as expired (404/410).
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx
+  ON public.push_subscriptions (user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS push_subscriptions_select ON public.push_subscriptions;
+CREATE POLICY push_subscriptions_select ON public.push_subscriptions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS push_subscriptions_delete ON public.push_subscriptions;
+CREATE POLICY push_subscriptions_delete ON public.push_subscriptions
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Migration: Reader settings synced across devices
+-- `reader_settings` holds the global reader preferences and per-series layout profiles
+-- keyed by content id (see lib/reader-settings.ts). Each part carries its own timestamp
+-- and the newer copy wins when devices sync.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS reader_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,47 @@
+-- Migration: Page bookmarks with private notes
+-- One row per bookmarked page. `crop` is the highlighted region of the page as fractions of
+-- its width and height ({ x, y, width, height }); NULL means the whole page. Chapter ids are
+-- text because MangaDex chapters don't live in our `chapters` table.
+
+CREATE TABLE IF NOT EXISTS public.page_bookmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content_id TEXT NOT NULL,
+  content_type TEXT NOT NULL DEFAULT 'manga' CHECK (content_type IN ('manga', 'comics')),
+  content_title TEXT,
+  content_thumbnail TEXT,
+  chapter_id TEXT NOT NULL,
+  chapter_number NUMERIC NOT NULL DEFAULT 0,
+  chapter_title TEXT,
+  language TEXT NOT NULL DEFAULT 'ge',
+  page_index INTEGER NOT NULL CHECK (page_index >= 0),
+  page_url TEXT NOT NULL,
+  crop JSONB,
+  note TEXT CHECK (char_length(note) <= 2000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS page_bookmarks_user_page_idx
+  ON public.page_bookmarks(user_id, content_id, chapter_id, page_index);
+CREATE INDEX IF NOT EXISTS page_bookmarks_user_created_idx
+  ON public.page_bookmarks(user_id, created_at DESC);
+
+ALTER TABLE public.page_bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Notes are private: only the owner ever sees a bookmark
+DROP POLICY IF EXISTS page_bookmarks_select ON public.page_bookmarks;
+CREATE POLICY page_bookmarks_select ON public.page_bookmarks
+FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS page_bookmarks_insert ON public.page_bookmarks;
+CREATE POLICY page_bookmarks_insert ON public.page_bookmarks
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS page_bookmarks_update ON public.page_bookmarks;
+CREATE POLICY page_bookmarks_update ON public.page_bookmarks
+FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS page_bookmarks_delete ON public.page_bookmarks;
+CREATE POLICY page_bookmarks_delete ON public.page_bookmarks
+FOR DELETE USING (auth.uid() = user_id);
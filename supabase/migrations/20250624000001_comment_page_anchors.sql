@@ -0,0 +1,19 @@
+-- Migration: Page-anchored chapter comments
+-- Reader comments can point at a page of the chapter (`page_index`, 0-based) and
+-- optionally a region of it (`page_region`, { x, y, width, height } as fractions of the
+-- page, same shape as page_bookmarks.crop). Both NULL means the comment is about the
+-- chapter as a whole, which is what every existing comment stays.
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS page_index INTEGER CHECK (page_index >= 0),
+  ADD COLUMN IF NOT EXISTS page_region JSONB;
+
+-- A region only makes sense on a page
+ALTER TABLE public.comments
+  DROP CONSTRAINT IF EXISTS comments_page_region_needs_page;
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_page_region_needs_page CHECK (page_region IS NULL OR page_index IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_comments_content_page
+  ON public.comments(content_id, page_index)
+  WHERE page_index IS NOT NULL;
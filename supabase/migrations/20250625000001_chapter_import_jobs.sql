@@ -0,0 +1,38 @@
+-- Migration: Batch chapter imports from archives
+-- Chapter numbers become NUMERIC so split chapters (10.5) can be stored, like the
+-- chapter_number columns of reading history and bookmarks already are.
+
+ALTER TABLE public.chapters ALTER COLUMN number TYPE NUMERIC USING number::NUMERIC;
+
+-- One row per import run. The admin's browser does the uploading and keeps the row up to date;
+-- `chapters` holds the per-chapter plan and progress:
+-- [{ folder, number, title, page_count, uploaded_pages, status, pages, error }]
+CREATE TABLE IF NOT EXISTS public.chapter_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES public.content(id) ON DELETE CASCADE,
+  language TEXT NOT NULL DEFAULT 'ge' CHECK (language IN ('ge', 'en')),
+  source_name TEXT NOT NULL,
+  source_size BIGINT NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  chapters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS chapter_import_jobs_content_idx
+  ON public.chapter_import_jobs(content_id, created_at DESC);
+
+ALTER TABLE public.chapter_import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Only admins import chapters, and any admin can follow or resume another admin's job
+DROP POLICY IF EXISTS chapter_import_jobs_admin ON public.chapter_import_jobs;
+CREATE POLICY chapter_import_jobs_admin ON public.chapter_import_jobs
+FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+);
@@ -0,0 +1,15 @@
+-- Migration: One chapter per number and language
+-- Georgian and English chapters share numbers, so uniqueness is per language. The bulk
+-- chapter API relies on this to make repeated imports idempotent. Creating the index fails
+-- if duplicates already exist; they have to be cleaned up by hand first.
+
+ALTER TABLE public.chapters DROP CONSTRAINT IF EXISTS chapters_content_id_number_key;
+
+-- Older chapters have no language. NULLs never conflict in a unique index, so they are
+-- backfilled with the language the API assumes before the index is created.
+UPDATE public.chapters SET language = 'ge' WHERE language IS NULL;
+ALTER TABLE public.chapters ALTER COLUMN language SET DEFAULT 'ge';
+ALTER TABLE public.chapters ALTER COLUMN language SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS chapters_content_number_language_idx
+  ON public.chapters(content_id, number, language);
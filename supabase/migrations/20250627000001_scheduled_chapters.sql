@@ -0,0 +1,58 @@
+-- Migration: Scheduled chapter publishing
+-- A chapter is public once published_at is set. Chapters inserted with a release date in
+-- the future stay unpublished until the publish worker (/api/chapters/publish) reaches
+-- that date, flips published_at and sends the new-chapter notifications. VIP members can
+-- read an unpublished chapter from early_access_at on; admins always can.
+
+ALTER TABLE public.chapters
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS early_access_at TIMESTAMPTZ;
+
+-- Everything that exists today is already public
+UPDATE public.chapters
+SET published_at = COALESCE(LEAST(release_date, created_at), created_at, NOW())
+WHERE published_at IS NULL;
+
+-- The worker looks for unpublished chapters that are due
+CREATE INDEX IF NOT EXISTS chapters_unpublished_release_idx
+  ON public.chapters(release_date)
+  WHERE published_at IS NULL;
+
+-- Chapters without a date, or dated in the past, are published as they are inserted. The
+-- minute of slack covers "now" stamped by an app server whose clock runs ahead.
+CREATE OR REPLACE FUNCTION public.set_chapter_published_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.published_at IS NULL AND (NEW.release_date IS NULL OR NEW.release_date <= NOW() + INTERVAL '1 minute') THEN
+    NEW.published_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_chapter_published_at ON public.chapters;
+CREATE TRIGGER set_chapter_published_at
+  BEFORE INSERT ON public.chapters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_chapter_published_at();
+
+CREATE OR REPLACE FUNCTION public.can_read_chapter(chapter_published_at TIMESTAMPTZ, chapter_early_access_at TIMESTAMPTZ)
+RETURNS BOOLEAN AS $$
+  SELECT chapter_published_at IS NOT NULL
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND (
+          profiles.role = 'admin'
+          OR (profiles.vip_status = true AND chapter_early_access_at IS NOT NULL AND chapter_early_access_at <= NOW())
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+DROP POLICY IF EXISTS "Public chapters are viewable by everyone" ON public.chapters;
+DROP POLICY IF EXISTS "Chapters are viewable by everyone." ON public.chapters;
+DROP POLICY IF EXISTS "Published chapters are viewable by everyone" ON public.chapters;
+
+CREATE POLICY "Published chapters are viewable by everyone"
+ON public.chapters FOR SELECT
+USING (public.can_read_chapter(published_at, early_access_at));
@@ -0,0 +1,9 @@
+-- Migration: Remember kicked live room participants
+-- Kicks used to live only in the socket server's memory and the shared room snapshot, so a
+-- kicked user could rejoin once the room was reloaded from the database.
+
+ALTER TABLE public.live_room_participants ADD COLUMN IF NOT EXISTS kicked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS live_room_participants_kicked_idx
+  ON public.live_room_participants(room_id)
+  WHERE kicked_at IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Migration: Start and finish dates on library entries
+-- Library imports (MyAnimeList, AniList) carry when a series was started and finished. The
+-- client already read these columns back, but they never existed, so synced dates were lost.
+
+ALTER TABLE public.watchlist
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS finished_at TIMESTAMPTZ;
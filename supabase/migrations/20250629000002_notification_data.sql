@@ -0,0 +1,5 @@
+-- Migration: Keep the data a notification was built from
+-- `message` is rendered once, in Georgian. Email digests go out in the recipient's language,
+-- so they render each notification again from its type and this data.
+
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS data JSONB;